@@ -2,19 +2,23 @@ import {
   Client,
   Collection,
   GatewayIntentBits,
+  Partials,
   REST,
   Routes,
 } from "discord.js";
 import type { Interaction } from "discord.js";
 import { config } from "./config";
 import { PostgreSQLManager } from "./features/database/PostgreSQLManager";
-import type { Command } from "./types";
+import type { Command, MessageContextMenuCommand } from "./types";
 import { loadCommands } from "./utils/loadCommands";
 import { AIManager } from "./features/ai-assistant/AIManager";
 import { DatabaseHealer } from "./features/guild-sync/DatabaseHealer";
 import { LiveSyncWatcher } from "./features/guild-sync/LiveSyncWatcher";
+import { AttachmentArchiver } from "./features/attachment-archive/AttachmentArchiver";
 import { RelationshipNetworkManager } from "./features/relationship-network/NetworkManager";
 import { ConversationManager } from "./features/relationship-network/ConversationManager";
+import { GuildSettingsManager } from "./features/guild-settings/GuildSettingsManager";
+import { VoiceActivityTracker } from "./features/voice-activity/VoiceActivityTracker";
 import {
   getSessionByRepliedMessageId,
   appendUserTurn,
@@ -27,10 +31,18 @@ import { resolveMentionsInText } from "./features/ai-assistant/utils/MentionReso
 
 export class Bot {
   public client: Client;
-  public commands = new Collection<string, Command>();
+  public commands = new Collection<
+    string,
+    Command | MessageContextMenuCommand
+  >();
   public postgresManager: PostgreSQLManager;
+  private guildSettings: GuildSettingsManager;
+  // Slash command payloads, deployed to each guild the bot is in
+  private commandData: unknown[] = [];
   private databaseHealer?: DatabaseHealer;
   private liveSyncWatcher?: LiveSyncWatcher;
+  private attachmentArchiver?: AttachmentArchiver;
+  private voiceActivityTracker?: VoiceActivityTracker;
   private relationshipManager?: RelationshipNetworkManager;
   private conversationManager?: ConversationManager;
 
@@ -39,14 +51,19 @@ export class Bot {
       intents: [
         GatewayIntentBits.Guilds,
         GatewayIntentBits.GuildMessages,
+        GatewayIntentBits.GuildMessageReactions,
         GatewayIntentBits.MessageContent,
         GatewayIntentBits.GuildVoiceStates,
         GatewayIntentBits.GuildMembers,
       ],
+      // Deletions of and reactions on messages sent before startup arrive
+      // as partials
+      partials: [Partials.Message, Partials.Reaction, Partials.User],
     });
 
     // Initialize PostgreSQL manager
     this.postgresManager = new PostgreSQLManager();
+    this.guildSettings = new GuildSettingsManager(this.postgresManager);
   }
 
   async init() {
@@ -61,9 +78,9 @@ export class Bot {
       );
     }
 
+    this.commandData = await loadCommands(this.commands);
     this.setupEventHandlers();
     await this.client.login(config.botToken);
-    await this.deployCommands();
   }
 
   private setupEventHandlers() {
@@ -71,6 +88,12 @@ export class Bot {
     this.client.once("ready", async () => {
       console.log(`🔹 Logged in as ${this.client.user?.tag}`);
 
+      try {
+        await this.deployCommands();
+      } catch (error) {
+        console.error("🔸 Failed to deploy commands:", error);
+      }
+
       // Initialize realtime sync components
       this.relationshipManager = new RelationshipNetworkManager(
         this.postgresManager
@@ -93,15 +116,55 @@ export class Bot {
         this.relationshipManager,
         this.conversationManager
       );
-      this.liveSyncWatcher.start();
+      try {
+        await this.liveSyncWatcher.start();
+      } catch (error) {
+        // Without the queue on disk live events would pile up in memory
+        console.error("🔸 Failed to start live sync:", error);
+        await this.shutdown();
+        process.exit(1);
+      }
+
+      // Start voice session tracking
+      this.voiceActivityTracker = new VoiceActivityTracker(
+        this.client,
+        this.postgresManager,
+        this.relationshipManager
+      );
+      this.voiceActivityTracker.start();
+
+      // Start attachment archiver (optional)
+      if (config.attachmentArchiveDir) {
+        this.attachmentArchiver = new AttachmentArchiver(
+          this.postgresManager,
+          config.attachmentArchiveDir,
+          config.attachmentArchiveMaxBytes
+        );
+        this.attachmentArchiver.start();
+      }
 
       // Run initial healing pass (after main functionality is started)
       await this.databaseHealer.runOnce();
     });
 
-    // Interaction event for slash commands
+    // Commands are registered per guild, so a newly joined guild needs them
+    this.client.on("guildCreate", (guild) => {
+      this.deployGuildCommands(guild.id).catch((error) => {
+        console.error(
+          `🔸 Failed to deploy commands to guild ${guild.id}:`,
+          error
+        );
+      });
+    });
+
+    // Interaction event for slash and message context menu commands
     this.client.on("interactionCreate", async (interaction: Interaction) => {
-      if (!interaction.isChatInputCommand()) return;
+      if (
+        !interaction.isChatInputCommand() &&
+        !interaction.isMessageContextMenuCommand()
+      ) {
+        return;
+      }
 
       const command = this.commands.get(interaction.commandName);
       if (!command) {
@@ -109,7 +172,11 @@ export class Bot {
       }
 
       try {
-        await command.execute(interaction);
+        if (interaction.isMessageContextMenuCommand()) {
+          await (command as MessageContextMenuCommand).execute(interaction);
+        } else {
+          await (command as Command).execute(interaction);
+        }
       } catch (error) {
         console.error(
           `🔸 Error executing command ${interaction.commandName}:`,
@@ -141,7 +208,6 @@ export class Bot {
         if (!message.guildId) return;
 
         const manager = AIManager.getInstance();
-        const provider = "grok"; // default provider for chat
         const botUserId = this.client.user?.id;
 
         if (!botUserId) {
@@ -160,6 +226,13 @@ export class Bot {
 
         // Debug logging (can be removed later)
 
+        // The guild's /config choices, falling back to the default provider
+        const settings = await this.guildSettings.getOrDefault(
+          message.guildId
+        );
+        const provider = manager.resolveProvider(settings.ai_provider);
+        const personaKey = settings.ai_persona;
+
         // Prevent mass-mention pings from bot output (usable in all branches)
         const sanitizeEveryone = (input: string | undefined | null): string => {
           if (!input) return "";
@@ -266,7 +339,7 @@ export class Bot {
               rawForAI,
               message.author.id,
               provider,
-              { persona: "casual", useDiscordFormatting: false }
+              { persona: "casual", personaKey, useDiscordFormatting: false }
             );
 
             if (!contentResponse?.success || !contentResponse.content) {
@@ -360,6 +433,7 @@ export class Bot {
             provider,
             {
               persona: "casual",
+              personaKey,
               history,
               useDiscordFormatting: false,
             }
@@ -405,25 +479,43 @@ export class Bot {
     });
   }
 
+  /**
+   * Register slash commands in every guild the bot is in. Guild commands
+   * update instantly, unlike global ones which take up to an hour. Global
+   * registrations left by earlier versions are removed once with
+   * npm run clear:global-commands, not here.
+   */
   private async deployCommands() {
-    const rest = new REST({ version: "10" }).setToken(config.botToken);
-    const commands = await loadCommands(this.commands);
-
     const appId = this.client.application?.id;
     if (!appId) {
       throw new Error(
         "Application ID is missing. Make sure the client is fully logged in."
       );
     }
-    if (config.guildId) {
-      // Fast guild-specific deployment for testing
-      await rest.put(Routes.applicationGuildCommands(appId, config.guildId), {
-        body: commands,
-      });
-    } else {
-      // Global deployment (takes up to an hour)
-      await rest.put(Routes.applicationCommands(appId), { body: commands });
+
+    for (const guildId of this.client.guilds.cache.keys()) {
+      try {
+        await this.deployGuildCommands(guildId);
+      } catch (error) {
+        console.error(
+          `🔸 Failed to deploy commands to guild ${guildId}:`,
+          error
+        );
+      }
     }
+    console.log(
+      `🔹 Deployed commands to ${this.client.guilds.cache.size} guild(s)`
+    );
+  }
+
+  private async deployGuildCommands(guildId: string) {
+    const appId = this.client.application?.id;
+    if (!appId) return;
+
+    const rest = new REST({ version: "10" }).setToken(config.botToken);
+    await rest.put(Routes.applicationGuildCommands(appId, guildId), {
+      body: this.commandData,
+    });
   }
 
   async shutdown(): Promise<void> {
@@ -432,6 +524,13 @@ export class Bot {
     // Immediately destroy Discord client to stop all Discord operations
     this.client.destroy();
 
+    this.attachmentArchiver?.stop();
+    this.voiceActivityTracker?.stop();
+    this.databaseHealer?.stop();
+
+    // Flush queued events, open segments and rollups while connected
+    await this.liveSyncWatcher?.stop().catch(() => {});
+
     // Disconnect from PostgreSQL
     if (this.postgresManager.isConnected()) {
       await this.postgresManager.disconnect();
@@ -2,24 +2,45 @@ import * as dotenv from "dotenv";
 
 dotenv.config();
 
+// Overrides for one scheduled maintenance job
+export interface MaintenancePolicyConfig {
+  intervalMinutes?: number; // 0 disables the job
+  quietHours?: [number, number] | null; // null opts out of the shared window
+}
+
 export interface BotConfig {
   // Required
   botToken: string;
 
   // Optional Discord settings
-  guildId?: string;
   botPrefix: string;
   botOwnerId?: string;
   spawnChannelIds?: string[];
   spawnChannelId?: string; // Single spawn channel for voice channel manager
-  excludedChannelIds?: string[];
-  permanentChannelIds?: string[];
   starboardChannelId?: string;
 
   // Database settings
   postgresUrl?: string;
+  postgresReplicaUrl?: string; // Optional read replica for analytical queries
+  postgresPoolMax: number;
+  postgresHealthCheckIntervalMs: number;
   dbName: string;
 
+  // Attachment archive (disabled unless a directory is set)
+  attachmentArchiveDir?: string;
+  attachmentArchiveMaxBytes: number;
+
+  // Write-ahead queue for live sync events
+  liveSyncQueueDir: string;
+
+  // Scheduled maintenance: a quiet-hours window (start and end hour, local
+  // time) shared by every job, and per-job overrides keyed by job name
+  maintenanceQuietHours?: [number, number];
+  maintenancePolicies: Record<string, MaintenancePolicyConfig>;
+
+  // Days of daily relationship activity to keep (0 keeps them all)
+  relationshipActivityRetentionDays: number;
+
   // Cache settings
   redisUrl?: string;
 
@@ -39,6 +60,115 @@ export interface BotConfig {
   ollamaModel?: string;
 }
 
+/**
+ * Parse a quiet-hours window such as "1-7" (01:00 until 07:00) or "22-6";
+ * "none" means no window
+ */
+function parseQuietHours(
+  value: string,
+  varName: string
+): [number, number] | null {
+  if (value.trim().toLowerCase() === "none") {
+    return null;
+  }
+
+  const [, startText = "", endText = ""] =
+    value.trim().match(/^(\d{1,2})-(\d{1,2})$/) || [];
+  const start = Number.parseInt(startText, 10);
+  const end = Number.parseInt(endText, 10);
+  if (!(start >= 0 && start <= 23 && end >= 0 && end <= 23 && start !== end)) {
+    throw new Error(
+      `🔸 Invalid ${varName}. Use start-end hours between 0 and 23, e.g. 1-7`
+    );
+  }
+  return [start, end];
+}
+
+/**
+ * Read RELATIONSHIP_ACTIVITY_RETENTION_DAYS (default 365, 0 keeps all)
+ */
+function parseActivityRetentionDays(): number {
+  const value = process.env.RELATIONSHIP_ACTIVITY_RETENTION_DAYS;
+  if (!value) return 365;
+
+  const days = Number(value.trim());
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(
+      "🔸 Invalid RELATIONSHIP_ACTIVITY_RETENTION_DAYS. Must be a whole number of days (0 keeps all)"
+    );
+  }
+  return days;
+}
+
+/**
+ * Read a setting that must be a whole number of at least 1, e.g. a pool size
+ * or an interval that setInterval can't take as 0 or NaN
+ */
+function parsePositiveInteger(
+  varName: string,
+  defaultValue: number,
+  unit: string
+): number {
+  const value = process.env[varName];
+  if (!value) return defaultValue;
+
+  const parsed = Number(value.trim());
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(
+      `🔸 Invalid ${varName}. Must be a whole number of ${unit} (at least 1)`
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Read ATTACHMENT_ARCHIVE_MAX_MB (default 25) as bytes
+ */
+function parseArchiveMaxBytes(): number {
+  const value = process.env.ATTACHMENT_ARCHIVE_MAX_MB;
+  if (!value) return 25 * 1024 * 1024;
+
+  const megabytes = Number(value.trim());
+  if (!Number.isFinite(megabytes) || megabytes <= 0) {
+    throw new Error(
+      "🔸 Invalid ATTACHMENT_ARCHIVE_MAX_MB. Must be a positive number of megabytes"
+    );
+  }
+  return Math.floor(megabytes * 1024 * 1024);
+}
+
+/**
+ * Read MAINTENANCE_<JOB>_INTERVAL_MINUTES and MAINTENANCE_<JOB>_QUIET_HOURS,
+ * e.g. MAINTENANCE_MEMBER_REFRESH_INTERVAL_MINUTES for member-refresh
+ */
+function parseMaintenancePolicies(): Record<string, MaintenancePolicyConfig> {
+  const policies: Record<string, MaintenancePolicyConfig> = {};
+
+  for (const [varName, value] of Object.entries(process.env)) {
+    const [, jobName, setting] =
+      varName.match(/^MAINTENANCE_([A-Z_]+)_(INTERVAL_MINUTES|QUIET_HOURS)$/) ||
+      [];
+    if (!jobName || !value) continue;
+
+    const job = jobName.toLowerCase().replace(/_/g, "-");
+    const policy = policies[job] || {};
+    if (setting === "QUIET_HOURS") {
+      policy.quietHours = parseQuietHours(value, varName);
+    } else {
+      const minutes = Number.parseInt(value, 10);
+      if (Number.isNaN(minutes) || minutes < 0) {
+        throw new Error(
+          `🔸 Invalid ${varName}. Must be a number of minutes (0 disables)`
+        );
+      }
+      policy.intervalMinutes = minutes;
+    }
+    policies[job] = policy;
+  }
+
+  return policies;
+}
+
 function validateConfig(): BotConfig {
   const requiredVars = ["BOT_TOKEN"] as const;
 
@@ -53,25 +183,48 @@ function validateConfig(): BotConfig {
     botToken: process.env.BOT_TOKEN as string,
 
     // Optional Discord settings
-    guildId: process.env.GUILD_ID || undefined,
     botPrefix: process.env.BOT_PREFIX || "!",
     botOwnerId: process.env.BOT_OWNER_ID || undefined,
     spawnChannelIds: process.env.SPAWN_CHANNEL_IDS
       ? process.env.SPAWN_CHANNEL_IDS.split(",").map((id) => id.trim())
       : undefined,
     spawnChannelId: process.env.SPAWN_CHANNEL_ID || undefined,
-    excludedChannelIds: process.env.EXCLUDED_CHANNEL_IDS
-      ? process.env.EXCLUDED_CHANNEL_IDS.split(",").map((id) => id.trim())
-      : undefined,
-    permanentChannelIds: process.env.PERMANENT_CHANNEL_IDS
-      ? process.env.PERMANENT_CHANNEL_IDS.split(",").map((id) => id.trim())
-      : undefined,
     starboardChannelId: process.env.STARBOARD_CHANNEL_ID || undefined,
 
     // Database settings
     postgresUrl: process.env.POSTGRES_URL || undefined,
+    postgresReplicaUrl: process.env.POSTGRES_REPLICA_URL || undefined,
+    postgresPoolMax: parsePositiveInteger(
+      "POSTGRES_POOL_MAX",
+      20,
+      "connections"
+    ),
+    postgresHealthCheckIntervalMs: parsePositiveInteger(
+      "POSTGRES_HEALTH_CHECK_INTERVAL_MS",
+      30000,
+      "milliseconds"
+    ),
     dbName: process.env.DB_NAME || "arcados",
 
+    // Attachment archive
+    attachmentArchiveDir: process.env.ATTACHMENT_ARCHIVE_DIR || undefined,
+    attachmentArchiveMaxBytes: parseArchiveMaxBytes(),
+
+    // Live sync queue
+    liveSyncQueueDir: process.env.LIVE_SYNC_QUEUE_DIR || "data/live-sync-queue",
+
+    // Scheduled maintenance
+    maintenanceQuietHours: process.env.MAINTENANCE_QUIET_HOURS
+      ? parseQuietHours(
+          process.env.MAINTENANCE_QUIET_HOURS,
+          "MAINTENANCE_QUIET_HOURS"
+        ) || undefined
+      : undefined,
+    maintenancePolicies: parseMaintenancePolicies(),
+
+    // Relationship trends
+    relationshipActivityRetentionDays: parseActivityRetentionDays(),
+
     // Cache settings
     redisUrl: process.env.REDIS_URL || undefined,
 
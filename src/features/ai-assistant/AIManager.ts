@@ -46,6 +46,7 @@ export class AIManager {
   };
 
   private readonly DEFAULT_PERSONA = "sophia";
+  private readonly DEFAULT_PROVIDER = "grok";
 
   // Common Discord embed formatting instructions
   private readonly DISCORD_FORMATTING = `Format responses for Discord embeds:
@@ -889,6 +890,15 @@ export class AIManager {
     return provider;
   }
 
+  /**
+   * A guild's chosen provider if it is still configured, else the default
+   */
+  public resolveProvider(preferred?: string): string {
+    return preferred && this.providers.has(preferred)
+      ? preferred
+      : this.DEFAULT_PROVIDER;
+  }
+
   /**
    * Get a persona by key, or default if not found
    */
@@ -4,6 +4,8 @@ import {
   type RelationshipEntry,
 } from "../database/PostgreSQLManager";
 import type { ConversationEntry } from "../relationship-network/types";
+import { ChannelPolicy } from "../guild-settings/ChannelPolicy";
+import { ChannelPermissionResolver } from "../guild-sync/ChannelPermissions";
 
 /**
  * Context passed to tool execution functions
@@ -48,6 +50,23 @@ export interface DatabaseTool {
   ) => Promise<string | DatabaseToolResult>;
 }
 
+/**
+ * Channels a tool must leave out of its results: private and excluded
+ * channels, and any channel the requesting user can't view in Discord
+ */
+export async function getHiddenChannelIds(
+  context: ToolContext
+): Promise<string[]> {
+  const [byPolicy, byPermission] = await Promise.all([
+    new ChannelPolicy(context.db).hiddenChannelIds(context.guildId),
+    new ChannelPermissionResolver(context.db).hiddenChannelIds(
+      context.guildId,
+      context.userId
+    ),
+  ]);
+  return Array.from(new Set([...byPolicy, ...byPermission]));
+}
+
 /**
  * Registry for database tools available to AI
  */
@@ -1,4 +1,5 @@
 import type { PostgreSQLManager } from "../database/PostgreSQLManager";
+import { SegmentRepository } from "../database/repositories";
 import { RelationshipNetworkManager } from "../relationship-network/NetworkManager";
 
 type Message = { role: "system" | "user" | "assistant"; content: string };
@@ -179,11 +180,11 @@ export function createReasoningLoop(
         const guildId = args.guildId || args.guild_id;
         const limit = args.limit || 5;
 
-        const segmentsResult = await db.getSegmentsForParticipants(
+        const segments = new SegmentRepository(db);
+        const segmentsResult = await segments.findForParticipants(
           guildId,
           participantIds,
-          limit,
-          args.since ? new Date(args.since) : undefined
+          { limit, since: args.since ? new Date(args.since) : undefined }
         );
 
         if (!segmentsResult.success || !segmentsResult.data) {
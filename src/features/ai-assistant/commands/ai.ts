@@ -10,6 +10,7 @@ import type { Command } from "../../../types";
 import { startSession } from "../ChatSessionManager";
 import { resolveMentionsInText } from "../utils/MentionResolver";
 import { PostgreSQLManager } from "../../database/PostgreSQLManager";
+import { GuildSettingsManager } from "../../guild-settings/GuildSettingsManager";
 
 interface DiscordField {
   name: string;
@@ -220,6 +221,13 @@ export const aiCommand: Command = {
       const manager = getAIManager();
       const userId = interaction.user.id;
 
+      // Provider and persona come from the guild's /config settings
+      const settings = await new GuildSettingsManager(
+        await manager.getDb()
+      ).getOrDefault(interaction.guild.id);
+      const guildProvider = manager.resolveProvider(settings.ai_provider);
+      const personaKey = settings.ai_persona;
+
       let response: any;
       let title: string;
       let color: number;
@@ -227,49 +235,59 @@ export const aiCommand: Command = {
 
       switch (mode) {
         case "ask": {
-          provider = "grok"; // Can be changed to "openai" or "gemini" later
-          response = await manager.generateText(prompt, userId, provider);
+          provider = guildProvider;
+          response = await manager.generateText(prompt, userId, provider, {
+            personaKey,
+          });
           title = `Ask: *${prompt}*`;
           color = 0x3c3d7d; // Same as starboard
           break;
         }
         case "imagine": {
-          provider = "grok"; // Can be changed to "openai" later
+          provider = guildProvider;
           response = await manager.generateImage(prompt, userId, provider);
           title = `Imagine: *${prompt}*`;
           color = 0x3c3d7d; // Same as starboard
           break;
         }
         case "fact-check": {
-          provider = "grok"; // Can be changed to "openai" or "gemini" later
-          response = await manager.factCheck(prompt, userId, provider);
+          provider = guildProvider;
+          response = await manager.factCheck(prompt, userId, provider, {
+            personaKey,
+          });
           title = `Fact Check: *${prompt}*`;
           color = 0x3c3d7d; // Same as starboard
           break;
         }
         case "source": {
-          provider = "grok"; // Can be changed to "openai" or "gemini" later
-          response = await manager.citeSources(prompt, userId, provider);
+          provider = guildProvider;
+          response = await manager.citeSources(prompt, userId, provider, {
+            personaKey,
+          });
           title = `Source: *${prompt}*`;
           color = 0x3c3d7d; // Same as starboard
           break;
         }
         case "define": {
-          provider = "grok"; // Can be changed to "openai" or "gemini" later
-          response = await manager.defineTerm(prompt, userId, provider);
+          provider = guildProvider;
+          response = await manager.defineTerm(prompt, userId, provider, {
+            personaKey,
+          });
           title = `Define: *${prompt}*`;
           color = 0x3c3d7d; // Same as starboard
           break;
         }
         case "context": {
-          provider = "grok"; // Can be changed to "openai" or "gemini" later
-          response = await manager.provideContext(prompt, userId, provider);
+          provider = guildProvider;
+          response = await manager.provideContext(prompt, userId, provider, {
+            personaKey,
+          });
           title = `Context: *${prompt}*`;
           color = 0x3c3d7d; // Same as starboard
           break;
         }
         case "chat": {
-          provider = "grok";
+          provider = guildProvider;
 
           // Resolve for display so the embed title shows @DisplayName, but keep raw mention for AI tools
           const resolvedPromptForDisplay = resolveMentionsForDisplay(
@@ -286,13 +304,14 @@ export const aiCommand: Command = {
                   prompt,
                   userId,
                   provider,
-                  { persona }
+                  { persona, personaKey }
                 );
               }
             );
           } else {
             response = await manager.generateText(prompt, userId, provider, {
               persona,
+              personaKey,
             });
           }
           title = `Chat: *${resolvedPromptForDisplay}*`;
@@ -301,7 +320,7 @@ export const aiCommand: Command = {
         }
         case "privacy": {
           // Use a static, clearly formatted privacy & ethics statement
-          provider = "grok"; // keep provider for consistent footer formatting
+          provider = guildProvider; // keep provider for consistent footer formatting
           const content = [
             "Arcados-bot reads **public server messages** only.",
             "",
@@ -2,7 +2,9 @@ import {
   type DatabaseTool,
   type ToolContext,
   type DatabaseToolResult,
+  getHiddenChannelIds,
 } from "../DatabaseTools";
+import { MessageRepository } from "../../database/repositories";
 
 function scoreNiceness(text: string): number {
   const content = (text || "").toLowerCase();
@@ -93,20 +95,15 @@ export const rankUsersByNicenessTool: DatabaseTool = {
       const limitUsers = Math.max(1, Math.min(params.limitUsers || 20, 50));
 
       // Fetch recent messages; we aggregate per author in memory for simple scoring
-      let query = `SELECT m.author_id, m.channel_id, m.content, m.created_at,
-                          mem.display_name, mem.username
-                   FROM messages m
-                   JOIN members mem ON mem.user_id = m.author_id AND mem.guild_id = m.guild_id
-                   WHERE m.guild_id = $1 AND m.active = true AND m.created_at >= $2`;
-      const args: any[] = [context.guildId, since];
-      if (params.channelId) {
-        query += ` AND m.channel_id = $3`;
-        args.push(params.channelId);
-      }
-      // Reasonable cap for analysis window
-      query += ` ORDER BY m.created_at DESC LIMIT ${params.channelId ? 3000 : 6000}`;
-
-      const result = await context.db.query(query, args);
+      const hiddenChannelIds = await getHiddenChannelIds(context);
+      const messages = new MessageRepository(context.db);
+      const result = await messages.findRecent(context.guildId, {
+        channelId: params.channelId,
+        excludeChannelIds: hiddenChannelIds,
+        since,
+        // Reasonable cap for analysis window
+        limit: params.channelId ? 3000 : 6000,
+      });
       if (!result.success || !result.data) {
         return { success: false, error: "Failed to fetch messages for analysis" };
       }
@@ -2,7 +2,15 @@ import {
   type DatabaseTool,
   type ToolContext,
   type DatabaseToolResult,
+  getHiddenChannelIds,
 } from "../DatabaseTools";
+import type { RelationshipEntry } from "../../database/PostgreSQLManager";
+import {
+  EdgeRepository,
+  MemberRepository,
+  MessageRepository,
+  type MessageWithContext,
+} from "../../database/repositories";
 
 /**
  * Fetch recent guild messages for context-rich AI responses
@@ -49,39 +57,20 @@ export const getRecentGuildMessagesTool: DatabaseTool = {
       const since = new Date(Date.now() - hours * 60 * 60 * 1000);
       const limit = Math.max(1, Math.min(params.limit || 200, 1000));
 
-      let query = `SELECT m.id, m.channel_id, m.author_id, m.content, m.created_at,
-                           c.name AS channel_name,
-                           mem.display_name, mem.username
-                    FROM messages m
-                    LEFT JOIN channels c ON c.id = m.channel_id AND c.guild_id = m.guild_id
-                    LEFT JOIN members mem ON mem.user_id = m.author_id AND mem.guild_id = m.guild_id
-                    WHERE m.guild_id = $1 AND m.active = true AND m.created_at >= $2`;
-
-      const queryParams: any[] = [context.guildId, since];
-
-      if (params.channelId) {
-        query += ` AND m.channel_id = $3`;
-        queryParams.push(params.channelId);
-      }
-
-      query += ` ORDER BY m.created_at ASC LIMIT $${queryParams.length + 1}`;
-      queryParams.push(limit);
-
-      const result = await context.db.query(query, queryParams);
+      const hiddenChannelIds = await getHiddenChannelIds(context);
+      const messageRepository = new MessageRepository(context.db);
+      const result = await messageRepository.findRecent(context.guildId, {
+        channelId: params.channelId,
+        excludeChannelIds: hiddenChannelIds,
+        since,
+        limit,
+        order: "asc",
+      });
       if (!result.success || !result.data) {
         return { success: false, error: "Failed to fetch recent messages" };
       }
 
-      const messages = result.data as Array<{
-        id: string;
-        channel_id: string;
-        author_id: string;
-        content: string;
-        created_at: string | Date;
-        channel_name?: string;
-        display_name?: string;
-        username?: string;
-      }>;
+      const messages = result.data;
 
       if (messages.length === 0) {
         return {
@@ -171,14 +160,14 @@ export const getRecentConversationsTool: DatabaseTool = {
       const limit = Math.max(1, Math.min(params.limit || 10, 25));
       const samples = Math.max(1, Math.min(params.sampleMessages || 5, 10));
 
+      const hiddenChannelIds = await getHiddenChannelIds(context);
+
       // Find recent edges (active pairs) in the window
-      const edgesResult = await context.db.query(
-        `SELECT user_a, user_b, last_interaction, rolling_7d, total
-         FROM relationship_edges
-         WHERE guild_id = $1 AND last_interaction >= $2
-         ORDER BY rolling_7d DESC, total DESC
-         LIMIT $3`,
-        [context.guildId, since, limit * 3]
+      const edgeRepository = new EdgeRepository(context.db);
+      const edgesResult = await edgeRepository.findActive(
+        context.guildId,
+        since,
+        limit * 3
       );
 
       if (!edgesResult.success || !edgesResult.data || edgesResult.data.length === 0) {
@@ -192,8 +181,8 @@ export const getRecentConversationsTool: DatabaseTool = {
       const candidatePairs: Array<{ a: string; b: string }> = [];
       const seen = new Set<string>();
       for (const row of edgesResult.data) {
-        const a = row.user_a as string;
-        const b = row.user_b as string;
+        const a = row.user_a;
+        const b = row.user_b;
         const key = a < b ? `${a}:${b}` : `${b}:${a}`;
         if (!seen.has(key)) {
           seen.add(key);
@@ -214,15 +203,11 @@ export const getRecentConversationsTool: DatabaseTool = {
       const userIds = Array.from(
         new Set(candidatePairs.flatMap((p) => [p.a, p.b]))
       );
-      const namesResult = await context.db.query(
-        `SELECT user_id, display_name, username
-         FROM members
-         WHERE guild_id = $1 AND active = true AND user_id = ANY($2::text[])`,
-        [context.guildId, userIds]
-      );
+      const members = new MemberRepository(context.db);
+      const namesResult = await members.getNames(context.guildId, userIds);
       const nameMap = new Map<string, string>();
       if (namesResult.success && namesResult.data) {
-        for (const r of namesResult.data) {
+        for (const r of namesResult.data.values()) {
           nameMap.set(r.user_id, r.display_name || r.username || r.user_id);
         }
       }
@@ -243,6 +228,7 @@ export const getRecentConversationsTool: DatabaseTool = {
         // Filter to window and optional channel, take last N chronologically
         const filtered = (between.data as any[])
           .filter((m) => new Date(m.created_at) >= since)
+          .filter((m) => !hiddenChannelIds.includes(m.channel_id))
           .filter((m) => (params.channelId ? m.channel_id === params.channelId : true))
           .slice(-samples);
 
@@ -353,72 +339,59 @@ export const getHolisticUserContextTool: DatabaseTool = {
       const relationshipsLimit = Math.max(1, Math.min(params.relationshipsLimit || 5, 15));
 
       // Member profile
-      const memberResult = await context.db.query(
-        `SELECT user_id, display_name, username, global_name, nick, summary, keywords, emojis, roles, joined_at, active, relationship_network
-         FROM members
-         WHERE user_id = $1 AND guild_id = $2
-         ORDER BY active DESC
-         LIMIT 1`,
-        [userId, context.guildId]
-      );
+      const members = new MemberRepository(context.db);
+      const memberResult = await members.findByUserId(context.guildId, userId, {
+        includeInactive: true,
+      });
 
-      if (!memberResult.success || !memberResult.data || memberResult.data.length === 0) {
+      if (!memberResult.success || !memberResult.data) {
         return { success: false, error: `User ${userId} not found in this server` };
       }
 
-      const member = memberResult.data[0];
+      const member = memberResult.data;
 
       // Role names
-      let roleNames: string[] = [];
-      if (member.roles && member.roles.length > 0) {
-        const rolesResult = await context.db.query(
-          `SELECT name FROM roles WHERE id = ANY($1::text[]) AND guild_id = $2 AND active = true ORDER BY name`,
-          [member.roles, context.guildId]
-        );
-        if (rolesResult.success && rolesResult.data) {
-          roleNames = rolesResult.data.map((r: any) => r.name);
-        }
-      }
+      const rolesResult = await members.getRoleNames(context.guildId, member.roles);
+      const roleNames = rolesResult.data || [];
 
       // Top relationships (prefer embedded network for speed)
       let relationshipsFormatted = "No relationships tracked";
-      let relationships = Array.isArray(member.relationship_network) ? member.relationship_network : [];
+      let relationships: Partial<RelationshipEntry>[] =
+        member.relationship_network || [];
       if (relationships.length > 0) {
         const top = relationships
           .slice()
-          .sort((a: any, b: any) => (b.affinity_percentage || 0) - (a.affinity_percentage || 0))
+          .sort((a, b) => (b.affinity_percentage || 0) - (a.affinity_percentage || 0))
           .slice(0, relationshipsLimit);
         relationshipsFormatted = top
           .map(
-            (r: any) =>
+            (r) =>
               `  - ${r.display_name || r.username || r.user_id}: ${(r.affinity_percentage || 0).toFixed(1)}% affinity, ${r.interaction_count || 0} interactions${r.summary ? `, ${r.summary}` : ""}`
           )
           .join("\n");
         relationships = top;
       } else {
         // Fallback: query edges table for recent relationships
-        const edges = await context.db.query(
-          `SELECT CASE WHEN user_a = $1 THEN user_b ELSE user_a END AS other_user,
-                  rolling_7d, total, last_interaction
-           FROM relationship_edges
-           WHERE guild_id = $2 AND (user_a = $1 OR user_b = $1)
-           ORDER BY rolling_7d DESC, total DESC
-           LIMIT $3`,
-          [userId, context.guildId, relationshipsLimit]
-        );
+        const edgeRepository = new EdgeRepository(context.db);
+        const edges = await edgeRepository.findForUser(context.guildId, userId, {
+          limit: relationshipsLimit,
+        });
         if (edges.success && edges.data && edges.data.length > 0) {
-          const otherIds = edges.data.map((e: any) => e.other_user);
-          const names = await context.db.query(
-            `SELECT user_id, display_name, username FROM members WHERE guild_id = $1 AND user_id = ANY($2::text[])`,
-            [context.guildId, otherIds]
-          );
+          const edgeList = edges.data.map((e) => ({
+            ...e,
+            other_user: e.user_a === userId ? e.user_b : e.user_a,
+          }));
+          const otherIds = edgeList.map((e) => e.other_user);
+          const names = await members.getNames(context.guildId, otherIds, {
+            includeInactive: true,
+          });
           const nameMap = new Map<string, string>();
           if (names.success && names.data) {
-            for (const n of names.data) {
+            for (const n of names.data.values()) {
               nameMap.set(n.user_id, n.display_name || n.username || n.user_id);
             }
           }
-          relationships = edges.data.map((e: any) => ({
+          relationships = edgeList.map((e) => ({
             user_id: e.other_user,
             display_name: nameMap.get(e.other_user) || e.other_user,
             affinity_percentage: e.rolling_7d || 0,
@@ -426,33 +399,31 @@ export const getHolisticUserContextTool: DatabaseTool = {
           }));
           relationshipsFormatted = relationships
             .map(
-              (r: any) =>
+              (r) =>
                 `  - ${r.display_name}: ${(r.affinity_percentage || 0).toFixed(1)}% affinity, ${r.interaction_count || 0} interactions`
             )
             .join("\n");
         }
       }
 
-      // Recent messages by the user
-      const messagesResult = await context.db.query(
-        `SELECT m.id, m.content, m.created_at, m.channel_id, c.name AS channel_name
-         FROM messages m
-         LEFT JOIN channels c ON c.id = m.channel_id AND c.guild_id = m.guild_id
-         WHERE m.guild_id = $1 AND m.author_id = $2 AND m.active = true AND m.created_at >= $3
-         ORDER BY m.created_at DESC
-         LIMIT $4`,
-        [context.guildId, userId, since, messageLimit]
+      // Recent messages by the user in channels the requester can see
+      const hiddenChannelIds = await getHiddenChannelIds(context);
+      const messageRepository = new MessageRepository(context.db);
+      const messagesResult = await messageRepository.findByAuthor(
+        context.guildId,
+        userId,
+        { since, excludeChannelIds: hiddenChannelIds, limit: messageLimit }
       );
 
       let recentMessagesFormatted = "No recent messages";
-      let recentMessages: any[] = [];
+      let recentMessages: MessageWithContext[] = [];
       if (messagesResult.success && messagesResult.data) {
         recentMessages = messagesResult.data;
         if (recentMessages.length > 0) {
           recentMessagesFormatted = recentMessages
             .slice()
             .reverse() // chronological
-            .map((m: any) => {
+            .map((m) => {
               const when = new Date(m.created_at).toLocaleString();
               const channel = m.channel_name || m.channel_id;
               const content = (m.content || "(no content)").replace(/\s+/g, " ").trim();
@@ -3,10 +3,15 @@ import {
   type ToolContext,
   type DatabaseToolResult,
   formatConversation,
+  getHiddenChannelIds,
 } from "../DatabaseTools";
 import type { ConversationEntry } from "../../relationship-network/types";
 import { ConversationManager } from "../../relationship-network/ConversationManager";
 import type { RelationshipEntry } from "../../database/PostgreSQLManager";
+import {
+  MemberRepository,
+  MessageRepository,
+} from "../../database/repositories";
 
 /**
  * Get conversations between two users
@@ -38,12 +43,14 @@ export const getConversationsBetweenTool: DatabaseTool = {
     context: ToolContext
   ): Promise<string | DatabaseToolResult> => {
     try {
+      const hiddenChannelIds = await getHiddenChannelIds(context);
       const conversationManager = new ConversationManager(context.db);
       const result = await conversationManager.detectConversations(
         params.user1Id,
         params.user2Id,
         context.guildId,
-        5
+        5,
+        hiddenChannelIds
       );
 
       if (!result.success || !result.data) {
@@ -133,12 +140,14 @@ export const getConversationDetailsTool: DatabaseTool = {
     context: ToolContext
   ): Promise<string | DatabaseToolResult> => {
     try {
+      const hiddenChannelIds = await getHiddenChannelIds(context);
       const conversationManager = new ConversationManager(context.db);
       const result = await conversationManager.detectConversations(
         params.user1Id,
         params.user2Id,
         context.guildId,
-        5
+        5,
+        hiddenChannelIds
       );
 
       if (!result.success || !result.data) {
@@ -252,19 +261,9 @@ export const getRecentConversationsTool: DatabaseTool = {
         ...new Set(allConversations.map((c) => c.otherUserId)),
       ].slice(0, params.limit || 10);
 
-      const namesResult = await context.db.query(
-        `SELECT user_id, display_name, username 
-         FROM members 
-         WHERE user_id = ANY($1::text[]) AND guild_id = $2 AND active = true`,
-        [userIds, context.guildId]
-      );
-
-      const nameMap = new Map();
-      if (namesResult.success && namesResult.data) {
-        for (const member of namesResult.data) {
-          nameMap.set(member.user_id, member);
-        }
-      }
+      const members = new MemberRepository(context.db);
+      const namesResult = await members.getNames(context.guildId, userIds);
+      const nameMap = namesResult.data || new Map();
 
       // Format conversations
       const limited = allConversations.slice(0, params.limit || 10);
@@ -343,12 +342,14 @@ export const getConversationMessagesTool: DatabaseTool = {
   ): Promise<string | DatabaseToolResult> => {
     try {
       // First get the conversation to find message IDs
+      const hiddenChannelIds = await getHiddenChannelIds(context);
       const conversationManager = new ConversationManager(context.db);
       const convResult = await conversationManager.detectConversations(
         params.user1Id,
         params.user2Id,
         context.guildId,
-        5
+        5,
+        hiddenChannelIds
       );
 
       if (!convResult.success || !convResult.data) {
@@ -383,12 +384,10 @@ export const getConversationMessagesTool: DatabaseTool = {
         };
       }
 
-      const messagesResult = await context.db.query(
-        `SELECT id, author_id, content, created_at, edited_at
-         FROM messages 
-         WHERE id = ANY($1::text[]) AND guild_id = $2 AND active = true
-         ORDER BY created_at ASC`,
-        [messageIds, context.guildId]
+      const messageRepository = new MessageRepository(context.db);
+      const messagesResult = await messageRepository.findByIds(
+        context.guildId,
+        messageIds
       );
 
       if (!messagesResult.success || !messagesResult.data) {
@@ -399,24 +398,9 @@ export const getConversationMessagesTool: DatabaseTool = {
       }
 
       // Get user display names
-      const userIds = [...new Set([params.user1Id, params.user2Id])];
-      const namesResult = await context.db.query(
-        `SELECT user_id, display_name, username 
-         FROM members 
-         WHERE user_id = ANY($1::text[]) AND guild_id = $2 AND active = true`,
-        [userIds, context.guildId]
-      );
-
-      const nameMap = new Map();
-      if (namesResult.success && namesResult.data) {
-        for (const member of namesResult.data) {
-          nameMap.set(member.user_id, member.display_name || member.username);
-        }
-      }
-
       const formatted = messagesResult.data
-        .map((msg: any) => {
-          const authorName = nameMap.get(msg.author_id) || msg.author_id;
+        .map((msg) => {
+          const authorName = msg.display_name || msg.username || msg.author_id;
           const timestamp = new Date(msg.created_at).toLocaleTimeString();
           return `[${timestamp}] ${authorName}: ${
             msg.content || "(no content)"
@@ -472,12 +456,14 @@ export const analyzeConversationPatternsTool: DatabaseTool = {
     context: ToolContext
   ): Promise<string | DatabaseToolResult> => {
     try {
+      const hiddenChannelIds = await getHiddenChannelIds(context);
       const conversationManager = new ConversationManager(context.db);
       const result = await conversationManager.detectConversations(
         params.user1Id,
         params.user2Id,
         context.guildId,
-        5
+        5,
+        hiddenChannelIds
       );
 
       if (!result.success || !result.data) {
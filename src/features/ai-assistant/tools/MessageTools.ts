@@ -2,7 +2,12 @@ import {
   type DatabaseTool,
   type ToolContext,
   type DatabaseToolResult,
+  getHiddenChannelIds,
 } from "../DatabaseTools";
+import {
+  MemberRepository,
+  MessageRepository,
+} from "../../database/repositories";
 
 /**
  * Get messages by a user
@@ -34,20 +39,17 @@ export const getUserMessagesTool: DatabaseTool = {
     context: ToolContext
   ): Promise<string | DatabaseToolResult> => {
     try {
-      let query = `SELECT id, channel_id, content, created_at, edited_at
-                   FROM messages 
-                   WHERE author_id = $1 AND guild_id = $2 AND active = true`;
-      const queryParams: any[] = [params.userId, context.guildId];
-
-      if (params.channelId) {
-        query += ` AND channel_id = $3`;
-        queryParams.push(params.channelId);
-      }
-
-      query += ` ORDER BY created_at DESC LIMIT $${queryParams.length + 1}`;
-      queryParams.push(params.limit || 50);
-
-      const result = await context.db.query(query, queryParams);
+      const hiddenChannelIds = await getHiddenChannelIds(context);
+      const messageRepository = new MessageRepository(context.db);
+      const result = await messageRepository.findByAuthor(
+        context.guildId,
+        params.userId,
+        {
+          channelId: params.channelId,
+          excludeChannelIds: hiddenChannelIds,
+          limit: params.limit || 50,
+        }
+      );
 
       if (!result.success || !result.data) {
         return {
@@ -58,24 +60,9 @@ export const getUserMessagesTool: DatabaseTool = {
 
       const messages = result.data;
 
-      // Get channel names if available
-      const channelIds = [...new Set(messages.map((m: any) => m.channel_id))];
-      const channelsResult = await context.db.query(
-        `SELECT id, name FROM channels 
-         WHERE id = ANY($1::text[]) AND guild_id = $2 AND active = true`,
-        [channelIds, context.guildId]
-      );
-
-      const channelMap = new Map();
-      if (channelsResult.success && channelsResult.data) {
-        for (const channel of channelsResult.data) {
-          channelMap.set(channel.id, channel.name);
-        }
-      }
-
       const formatted = messages
-        .map((msg: any) => {
-          const channelName = channelMap.get(msg.channel_id) || msg.channel_id;
+        .map((msg) => {
+          const channelName = msg.channel_name || msg.channel_id;
           const date = new Date(msg.created_at).toLocaleString();
           const content = msg.content || "(no content)";
           return `[${date}] #${channelName}: ${content.substring(0, 100)}${
@@ -112,18 +99,31 @@ export const getUserMessagesTool: DatabaseTool = {
 export const searchMessagesTool: DatabaseTool = {
   name: "searchMessages",
   description:
-    "Search messages by content text or author. Use this to find specific messages or topics discussed.",
+    'Full-text search over message content, ranked by relevance. Supports "exact phrases", -excluded words and OR. Use this to find specific messages or topics discussed.',
   parameters: {
     type: "object",
     properties: {
       query: {
         type: "string",
-        description: "Search query to match against message content",
+        description:
+          'Search query, e.g. movie night -cancelled or "game night" OR tournament',
       },
       authorId: {
         type: "string",
         description: "Optional author ID to filter messages",
       },
+      channelId: {
+        type: "string",
+        description: "Optional channel ID to filter messages",
+      },
+      after: {
+        type: "string",
+        description: "Optional ISO date; only messages sent on or after it",
+      },
+      before: {
+        type: "string",
+        description: "Optional ISO date; only messages sent before it",
+      },
       limit: {
         type: "number",
         description: "Maximum number of results to return (default: 20)",
@@ -132,34 +132,40 @@ export const searchMessagesTool: DatabaseTool = {
     required: ["query"],
   },
   execute: async (
-    params: { query: string; authorId?: string; limit?: number },
+    params: {
+      query: string;
+      authorId?: string;
+      channelId?: string;
+      after?: string;
+      before?: string;
+      limit?: number;
+    },
     context: ToolContext
   ): Promise<string | DatabaseToolResult> => {
     try {
-      let searchQuery = `SELECT m.id, m.channel_id, m.author_id, m.content, m.created_at,
-                                mem.display_name, mem.username
-                         FROM messages m
-                         JOIN members mem ON m.author_id = mem.user_id AND m.guild_id = mem.guild_id
-                         WHERE m.guild_id = $1 
-                           AND m.active = true
-                           AND LOWER(m.content) LIKE $2`;
-
-      const queryParams: any[] = [
-        context.guildId,
-        `%${params.query.toLowerCase()}%`,
-      ];
-
-      if (params.authorId) {
-        searchQuery += ` AND m.author_id = $3`;
-        queryParams.push(params.authorId);
+      const after = params.after ? new Date(params.after) : undefined;
+      const before = params.before ? new Date(params.before) : undefined;
+      if (
+        (after && Number.isNaN(after.getTime())) ||
+        (before && Number.isNaN(before.getTime()))
+      ) {
+        return {
+          success: false,
+          error: "Invalid date filter, expected an ISO date like 2024-05-01",
+        };
       }
 
-      searchQuery += ` ORDER BY m.created_at DESC LIMIT $${
-        queryParams.length + 1
-      }`;
-      queryParams.push(params.limit || 20);
-
-      const result = await context.db.query(searchQuery, queryParams);
+      const hiddenChannelIds = await getHiddenChannelIds(context);
+      const result = await context.db.searchMessages({
+        guildId: context.guildId,
+        query: params.query,
+        authorId: params.authorId,
+        channelId: params.channelId,
+        excludeChannelIds: hiddenChannelIds,
+        after,
+        before,
+        limit: params.limit || 20,
+      });
 
       if (!result.success || !result.data) {
         return {
@@ -183,13 +189,10 @@ export const searchMessagesTool: DatabaseTool = {
       }
 
       const formatted = messages
-        .map((msg: any) => {
+        .map((msg) => {
           const author = msg.display_name || msg.username || msg.author_id;
           const date = new Date(msg.created_at).toLocaleString();
-          const content = msg.content || "(no content)";
-          return `[${date}] ${author}: ${content.substring(0, 150)}${
-            content.length > 150 ? "..." : ""
-          }`;
+          return `[${date}] ${author}: ${msg.snippet || "(no content)"}`;
         })
         .join("\n");
 
@@ -243,17 +246,14 @@ export const getMessageInteractionsTool: DatabaseTool = {
       const since = new Date();
       since.setMinutes(since.getMinutes() - timeWindowMinutes);
 
+      const hiddenChannelIds = await getHiddenChannelIds(context);
+
       // Get messages that mention the user
-      const mentionsResult = await context.db.query(
-        `SELECT DISTINCT m.author_id, m.channel_id, m.created_at, 
-                mem.display_name, mem.username
-         FROM messages m
-         JOIN members mem ON m.author_id = mem.user_id AND m.guild_id = mem.guild_id
-         WHERE m.guild_id = $1 
-           AND m.active = true
-           AND m.created_at >= $2
-           AND m.content LIKE $3`,
-        [context.guildId, since, `%<@${params.userId}>%`]
+      const messageRepository = new MessageRepository(context.db);
+      const mentionsResult = await messageRepository.findMentioning(
+        context.guildId,
+        params.userId,
+        { since, excludeChannelIds: hiddenChannelIds }
       );
 
       // Get messages from nearby interactions (same channel within time window)
@@ -279,6 +279,7 @@ export const getMessageInteractionsTool: DatabaseTool = {
 
       if (interactionsResult.success && interactionsResult.data) {
         for (const interaction of interactionsResult.data) {
+          if (hiddenChannelIds.includes(interaction.channel_id)) continue;
           interactions.push({
             type: interaction.interaction_type,
             authorId: interaction.other_user_id,
@@ -290,22 +291,15 @@ export const getMessageInteractionsTool: DatabaseTool = {
       // Get author names for interactions
       const authorIds = [...new Set(interactions.map((i) => i.authorId))];
       if (authorIds.length > 0) {
-        const namesResult = await context.db.query(
-          `SELECT user_id, display_name, username 
-           FROM members 
-           WHERE user_id = ANY($1::text[]) AND guild_id = $2 AND active = true`,
-          [authorIds, context.guildId]
-        );
+        const members = new MemberRepository(context.db);
+        const namesResult = await members.getNames(context.guildId, authorIds);
 
         if (namesResult.success && namesResult.data) {
-          const nameMap = new Map(
-            namesResult.data.map((m: any) => [
-              m.user_id,
-              m.display_name || m.username,
-            ])
-          );
+          const nameMap = namesResult.data;
           interactions.forEach((i) => {
-            i.authorName = nameMap.get(i.authorId) || i.authorId;
+            const member = nameMap.get(i.authorId);
+            i.authorName =
+              member?.display_name || member?.username || i.authorId;
           });
         }
       }
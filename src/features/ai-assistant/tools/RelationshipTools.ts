@@ -3,8 +3,15 @@ import {
   type ToolContext,
   type DatabaseToolResult,
   formatRelationship,
+  getHiddenChannelIds,
 } from "../DatabaseTools";
 import type { RelationshipEntry } from "../../database/PostgreSQLManager";
+import { MemberRepository } from "../../database/repositories";
+import {
+  RelationshipAsymmetryAnalyzer,
+  describeAsymmetry,
+} from "../../relationship-network/RelationshipAsymmetry";
+import { RelationshipTrends } from "../../relationship-network/RelationshipTrends";
 
 /**
  * Get user's relationship network
@@ -65,17 +72,11 @@ export const getUserRelationshipsTool: DatabaseTool = {
       // Get display names for relationships
       const userIds = relationships.map((r) => r.user_id);
       if (userIds.length > 0) {
-        const namesResult = await context.db.query(
-          `SELECT user_id, display_name, username 
-           FROM members 
-           WHERE user_id = ANY($1::text[]) AND guild_id = $2 AND active = true`,
-          [userIds, context.guildId]
-        );
+        const members = new MemberRepository(context.db);
+        const namesResult = await members.getNames(context.guildId, userIds);
 
         if (namesResult.success && namesResult.data) {
-          const nameMap = new Map(
-            namesResult.data.map((m: any) => [m.user_id, m])
-          );
+          const nameMap = namesResult.data;
           relationships.forEach((rel) => {
             const member = nameMap.get(rel.user_id);
             if (member) {
@@ -184,17 +185,14 @@ export const getRelationshipBetweenTool: DatabaseTool = {
       }
 
       // Get display names
-      const namesResult = await context.db.query(
-        `SELECT user_id, display_name, username 
-         FROM members 
-         WHERE user_id IN ($1, $2) AND guild_id = $3 AND active = true`,
-        [params.user1Id, params.user2Id, context.guildId]
-      );
+      const members = new MemberRepository(context.db);
+      const namesResult = await members.getNames(context.guildId, [
+        params.user1Id,
+        params.user2Id,
+      ]);
 
       if (namesResult.success && namesResult.data) {
-        const nameMap = new Map(
-          namesResult.data.map((m: any) => [m.user_id, m])
-        );
+        const nameMap = namesResult.data;
         const user2Member = nameMap.get(params.user2Id);
         if (user2Member) {
           relationship.display_name = user2Member.display_name;
@@ -283,17 +281,11 @@ export const getTopRelationshipsTool: DatabaseTool = {
       // Get display names
       const userIds = topRelationships.map((r) => r.user_id);
       if (userIds.length > 0) {
-        const namesResult = await context.db.query(
-          `SELECT user_id, display_name, username 
-           FROM members 
-           WHERE user_id = ANY($1::text[]) AND guild_id = $2 AND active = true`,
-          [userIds, context.guildId]
-        );
+        const members = new MemberRepository(context.db);
+        const namesResult = await members.getNames(context.guildId, userIds);
 
         if (namesResult.success && namesResult.data) {
-          const nameMap = new Map(
-            namesResult.data.map((m: any) => [m.user_id, m])
-          );
+          const nameMap = namesResult.data;
           topRelationships.forEach((rel) => {
             const member = nameMap.get(rel.user_id);
             if (member) {
@@ -405,16 +397,12 @@ export const getMutualConnectionsTool: DatabaseTool = {
       }
 
       // Get details for mutual connections
-      const namesResult = await context.db.query(
-        `SELECT user_id, display_name, username 
-         FROM members 
-         WHERE user_id = ANY($1::text[]) AND guild_id = $2 AND active = true`,
-        [mutualIds, context.guildId]
-      );
+      const members = new MemberRepository(context.db);
+      const namesResult = await members.getNames(context.guildId, mutualIds);
 
       const connections: any[] = [];
       if (namesResult.success && namesResult.data) {
-        for (const member of namesResult.data) {
+        for (const member of namesResult.data.values()) {
           const rel1 = (result1.data || []).find(
             (r: RelationshipEntry) => r.user_id === member.user_id
           );
@@ -469,7 +457,7 @@ export const getMutualConnectionsTool: DatabaseTool = {
 export const analyzeRelationshipTool: DatabaseTool = {
   name: "analyzeRelationship",
   description:
-    "Analyze the relationship between two users including strength, interaction patterns, and conversation frequency. Use this for detailed relationship insights.",
+    "Analyze the relationship between two users including strength, interaction patterns, conversation frequency, and who leads it: who starts their conversations, who replies to whom, and how fast each answers the other. Use this for detailed relationship insights, or questions like \"do I always message first?\"",
   parameters: {
     type: "object",
     properties: {
@@ -578,6 +566,40 @@ export const analyzeRelationshipTool: DatabaseTool = {
 
       parts.push(`  - Relationship Strength: ${strength}`);
 
+      // Who leads: initiations, replies and response times per direction,
+      // from channels the requester may see
+      const hiddenChannelIds = await getHiddenChannelIds(context);
+      const asymmetryResult = await new RelationshipAsymmetryAnalyzer(
+        context.db
+      ).analyze(context.guildId, params.user1Id, params.user2Id, {
+        excludeChannelIds: hiddenChannelIds,
+      });
+      const asymmetry = asymmetryResult.data;
+      if (asymmetry) {
+        const namesResult = await new MemberRepository(context.db).getNames(
+          context.guildId,
+          [params.user1Id, params.user2Id],
+          { includeInactive: true }
+        );
+        const names = namesResult.data;
+        const lines = describeAsymmetry(
+          asymmetry,
+          names?.get(params.user1Id)?.display_name || params.user1Id,
+          names?.get(params.user2Id)?.display_name || params.user2Id
+        );
+        if (lines.length > 0) {
+          parts.push("Direction:");
+          for (const line of lines) {
+            parts.push(`  - ${line}`);
+          }
+        }
+      } else {
+        console.error(
+          "🔸 Failed to analyze relationship direction:",
+          asymmetryResult.error
+        );
+      }
+
       return {
         success: true,
         summary: `${strength} relationship (${relationship.affinity_percentage.toFixed(
@@ -592,6 +614,7 @@ export const analyzeRelationshipTool: DatabaseTool = {
             totalMessages,
             avgDuration,
             recentConversation: recentConv,
+            asymmetry,
           },
         },
       };
@@ -608,6 +631,119 @@ export const analyzeRelationshipTool: DatabaseTool = {
   },
 };
 
+/**
+ * Weekly activity between two users and notable changes in it
+ */
+export const getRelationshipTrendTool: DatabaseTool = {
+  name: "getRelationshipTrend",
+  description:
+    "Get how much two users have interacted week by week, with notable changes flagged (e.g. interaction dropped 80% this month, went silent, new connection). Use this to answer whether a relationship is growing, fading or changed recently.",
+  parameters: {
+    type: "object",
+    properties: {
+      user1Id: {
+        type: "string",
+        description: "First user's Discord ID",
+      },
+      user2Id: {
+        type: "string",
+        description: "Second user's Discord ID",
+      },
+      weeks: {
+        type: "number",
+        description: "Number of weeks to show (default: 12, max: 52)",
+      },
+    },
+    required: ["user1Id", "user2Id"],
+  },
+  execute: async (
+    params: { user1Id?: string; user2Id?: string; weeks?: number },
+    context: ToolContext
+  ): Promise<string | DatabaseToolResult> => {
+    try {
+      if (!params.user1Id || !params.user2Id) {
+        return {
+          success: false,
+          error: "Both user1Id and user2Id are required",
+        };
+      }
+
+      const weeks = Math.min(Math.max(Math.floor(params.weeks || 12), 1), 52);
+      const result = await new RelationshipTrends(context.db).getTrend(
+        context.guildId,
+        params.user1Id,
+        params.user2Id,
+        weeks
+      );
+
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error: result.error || "Failed to get relationship trend",
+        };
+      }
+
+      const trend = result.data;
+      if (!trend.tracked) {
+        return {
+          success: true,
+          summary: "No trend recorded yet",
+          data: {
+            formatted:
+              "No interactions have been recorded between these users yet.",
+          },
+        };
+      }
+
+      const parts: string[] = [];
+      parts.push(`Weekly interactions (last ${weeks} weeks, oldest first):`);
+      for (const week of trend.weeks) {
+        const details = [
+          `${week.messages} messages`,
+          `${week.mentions} mentions`,
+          `${week.replies} replies`,
+          `${week.reactions} reactions`,
+        ];
+        if (week.voice_seconds > 0) {
+          details.push(`${Math.round(week.voice_seconds / 60)} min voice`);
+        }
+        parts.push(
+          `  - Week of ${week.start}: ${week.interactions} (${details.join(", ")})`
+        );
+      }
+
+      parts.push("Notable changes:");
+      if (trend.flags.length > 0) {
+        for (const flag of trend.flags) {
+          parts.push(`  - ${flag.message}`);
+        }
+      } else {
+        parts.push("  - None");
+      }
+
+      return {
+        success: true,
+        summary:
+          trend.flags[0]?.message ||
+          `${weeks} weeks of interactions, no notable changes`,
+        data: {
+          formatted: parts.join("\n"),
+          trend,
+        },
+      };
+    } catch (error) {
+      console.error("🔸 Error in getRelationshipTrend:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to get relationship trend",
+      };
+    }
+  },
+};
+
 /**
  * Export all relationship tools for registration
  */
@@ -617,4 +753,5 @@ export const relationshipTools: DatabaseTool[] = [
   getTopRelationshipsTool,
   getMutualConnectionsTool,
   analyzeRelationshipTool,
+  getRelationshipTrendTool,
 ];
@@ -3,6 +3,20 @@ import {
   type ToolContext,
   type DatabaseToolResult,
 } from "../DatabaseTools";
+import {
+  MemberRepository,
+  MessageRepository,
+  NetworkAnalyticsRepository,
+  type NetworkMemberMetrics,
+} from "../../database/repositories";
+
+function memberName(member: NetworkMemberMetrics): string {
+  return member.display_name || member.username || member.user_id;
+}
+
+function describeCentrality(member: NetworkMemberMetrics): string {
+  return `${memberName(member)} (community ${member.community_id + 1}, centrality rank #${member.pagerank_rank}, betweenness ${(member.betweenness * 100).toFixed(1)}%${member.is_bridge ? ", bridge" : ""})`;
+}
 
 /**
  * Get server/guild statistics
@@ -21,19 +35,14 @@ export const getServerStatsTool: DatabaseTool = {
     context: ToolContext
   ): Promise<string | DatabaseToolResult> => {
     try {
+      const members = new MemberRepository(context.db);
+      const messages = new MessageRepository(context.db);
+
       // Get member count
-      const membersResult = await context.db.query(
-        `SELECT COUNT(*) as count FROM members 
-         WHERE guild_id = $1 AND active = true`,
-        [context.guildId]
-      );
+      const membersResult = await members.countActive(context.guildId);
 
       // Get message count
-      const messagesResult = await context.db.query(
-        `SELECT COUNT(*) as count FROM messages 
-         WHERE guild_id = $1 AND active = true`,
-        [context.guildId]
-      );
+      const messagesResult = await messages.count(context.guildId);
 
       // Get channel count
       const channelsResult = await context.db.query(
@@ -46,28 +55,18 @@ export const getServerStatsTool: DatabaseTool = {
       const yesterday = new Date();
       yesterday.setDate(yesterday.getDate() - 1);
 
-      const recentMessagesResult = await context.db.query(
-        `SELECT COUNT(*) as count FROM messages 
-         WHERE guild_id = $1 AND active = true AND created_at >= $2`,
-        [context.guildId, yesterday]
+      const recentMessagesResult = await messages.count(
+        context.guildId,
+        yesterday
       );
 
-      const memberCount =
-        membersResult.success && membersResult.data?.[0]
-          ? parseInt(membersResult.data[0].count, 10)
-          : 0;
-      const messageCount =
-        messagesResult.success && messagesResult.data?.[0]
-          ? parseInt(messagesResult.data[0].count, 10)
-          : 0;
+      const memberCount = membersResult.data || 0;
+      const messageCount = messagesResult.data || 0;
       const channelCount =
         channelsResult.success && channelsResult.data?.[0]
           ? parseInt(channelsResult.data[0].count, 10)
           : 0;
-      const recentMessages =
-        recentMessagesResult.success && recentMessagesResult.data?.[0]
-          ? parseInt(recentMessagesResult.data[0].count, 10)
-          : 0;
+      const recentMessages = recentMessagesResult.data || 0;
 
       const parts: string[] = [];
       parts.push(`Server Statistics:`);
@@ -131,19 +130,8 @@ export const getActiveMembersTool: DatabaseTool = {
       const since = new Date();
       since.setDate(since.getDate() - timeWindowDays);
 
-      const result = await context.db.query(
-        `SELECT m.author_id, mem.display_name, mem.username, COUNT(*) as message_count
-         FROM messages m
-         JOIN members mem ON m.author_id = mem.user_id AND m.guild_id = mem.guild_id
-         WHERE m.guild_id = $1 
-           AND m.active = true
-           AND m.created_at >= $2
-           AND mem.bot = false
-         GROUP BY m.author_id, mem.display_name, mem.username
-         ORDER BY message_count DESC
-         LIMIT $3`,
-        [context.guildId, since, limit]
-      );
+      const messages = new MessageRepository(context.db);
+      const result = await messages.getTopAuthors(context.guildId, since, limit);
 
       if (!result.success || !result.data) {
         return {
@@ -168,7 +156,7 @@ export const getActiveMembersTool: DatabaseTool = {
 
       const formatted = activeMembers
         .map(
-          (member: any, idx: number) =>
+          (member, idx) =>
             `${idx + 1}. ${member.display_name || member.username}: ${
               member.message_count
             } messages`
@@ -270,7 +258,8 @@ export const getServerNetworkTool: DatabaseTool = {
   ): Promise<string | DatabaseToolResult> => {
     try {
       // Get all members with relationship networks
-      const membersResult = await context.db.getMembersByGuild(context.guildId);
+      const memberRepository = new MemberRepository(context.db);
+      const membersResult = await memberRepository.findByGuild(context.guildId);
 
       if (!membersResult.success || !membersResult.data) {
         return {
@@ -343,6 +332,243 @@ export const getServerNetworkTool: DatabaseTool = {
   },
 };
 
+/**
+ * Get the communities (friend groups) detected in the server's network
+ */
+export const getNetworkCommunitiesTool: DatabaseTool = {
+  name: "getNetworkCommunities",
+  description:
+    "Get the social structure of the server: communities (groups of members who mostly interact with each other) with their most central members, and the bridge members who connect different communities. Computed periodically from relationship data. Use for questions like 'what friend groups are there' or 'who connects the groups'.",
+  parameters: {
+    type: "object",
+    properties: {
+      limit: {
+        type: "number",
+        description: "Number of communities to return, largest first (default: 8)",
+      },
+      membersPerCommunity: {
+        type: "number",
+        description: "Central members to list per community (default: 5)",
+      },
+    },
+    required: [],
+  },
+  execute: async (
+    params: { limit?: number; membersPerCommunity?: number },
+    context: ToolContext
+  ): Promise<string | DatabaseToolResult> => {
+    try {
+      const analytics = new NetworkAnalyticsRepository(context.db);
+      const analysisResult = await analytics.getAnalysis(context.guildId);
+      if (!analysisResult.success) {
+        return {
+          success: false,
+          error: analysisResult.error || "Failed to get network analysis",
+        };
+      }
+
+      const analysis = analysisResult.data;
+      if (!analysis || analysis.node_count === 0) {
+        return {
+          success: true,
+          summary: "The server's network hasn't been analyzed yet",
+          data: { formatted: "No network analysis available", communities: [] },
+        };
+      }
+
+      const [communitiesResult, bridgesResult] = await Promise.all([
+        analytics.getCommunities(
+          context.guildId,
+          Math.min(params.membersPerCommunity || 5, 20)
+        ),
+        analytics.findMembers(context.guildId, {
+          bridgesOnly: true,
+          orderBy: "betweenness",
+          limit: 10,
+        }),
+      ]);
+      if (!communitiesResult.success || !communitiesResult.data) {
+        return {
+          success: false,
+          error: communitiesResult.error || "Failed to get communities",
+        };
+      }
+
+      const communities = communitiesResult.data.slice(
+        0,
+        Math.min(params.limit || 8, 25)
+      );
+      const bridges = bridgesResult.data || [];
+
+      const parts: string[] = [];
+      parts.push(
+        `Network of ${analysis.node_count} members and ${analysis.edge_count} connections, analyzed ${new Date(analysis.computed_at).toISOString()}:`
+      );
+      parts.push(
+        `  - ${analysis.community_count} communities, modularity ${analysis.modularity.toFixed(2)} (above 0.3 means clearly separated groups)`
+      );
+      for (const community of communities) {
+        parts.push(
+          `\nCommunity ${community.community_id + 1} (${community.size} members, ${community.bridge_count} bridges):`
+        );
+        for (const member of community.top_members) {
+          parts.push(`  - ${describeCentrality(member)}`);
+        }
+      }
+      if (bridges.length > 0) {
+        parts.push("\nBridges between communities:");
+        for (const member of bridges) {
+          parts.push(`  - ${describeCentrality(member)}`);
+        }
+      }
+
+      return {
+        success: true,
+        summary: `${analysis.community_count} communities among ${analysis.node_count} members, ${bridges.length} bridge(s)`,
+        data: {
+          formatted: parts.join("\n"),
+          analysis,
+          communities,
+          bridges,
+        },
+      };
+    } catch (error) {
+      console.error("🔸 Error in getNetworkCommunities:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to get network communities",
+      };
+    }
+  },
+};
+
+/**
+ * Get the most central members, or one member's position in the network
+ */
+export const getNetworkCentralityTool: DatabaseTool = {
+  name: "getNetworkCentrality",
+  description:
+    "Get the most central members of the server's network (PageRank: connected to other well-connected members) or the biggest go-betweens (betweenness: on the paths between many others), or one member's community, rank and bridge status when userId is given. Use for questions like 'who is the hub of the server' or 'how connected am I'.",
+  parameters: {
+    type: "object",
+    properties: {
+      userId: {
+        type: "string",
+        description: "Discord user ID to get the network position of",
+      },
+      metric: {
+        type: "string",
+        enum: ["pagerank", "betweenness"],
+        description: "What to rank members by (default: pagerank)",
+      },
+      bridgesOnly: {
+        type: "boolean",
+        description: "Only list members who bridge communities",
+      },
+      limit: {
+        type: "number",
+        description: "Number of members to return (default: 10)",
+      },
+    },
+    required: [],
+  },
+  execute: async (
+    params: {
+      userId?: string;
+      metric?: "pagerank" | "betweenness";
+      bridgesOnly?: boolean;
+      limit?: number;
+    },
+    context: ToolContext
+  ): Promise<string | DatabaseToolResult> => {
+    try {
+      const analytics = new NetworkAnalyticsRepository(context.db);
+
+      if (params.userId) {
+        const result = await analytics.findMember(
+          context.guildId,
+          params.userId
+        );
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error || "Failed to get network position",
+          };
+        }
+        if (!result.data) {
+          return {
+            success: true,
+            summary: `User ${params.userId} isn't in the analyzed network`,
+            data: { formatted: "Not in the analyzed network" },
+          };
+        }
+
+        const member = result.data;
+        const parts: string[] = [];
+        parts.push(`Network position of ${memberName(member)}:`);
+        parts.push(`  - Community: ${member.community_id + 1}`);
+        parts.push(`  - Centrality rank: #${member.pagerank_rank}`);
+        parts.push(
+          `  - Betweenness: ${(member.betweenness * 100).toFixed(1)}% of shortest paths`
+        );
+        parts.push(`  - Connected to: ${member.degree} members`);
+        parts.push(
+          `  - Links spread across communities: ${(member.participation * 100).toFixed(0)}%`
+        );
+        parts.push(`  - Bridge: ${member.is_bridge ? "yes" : "no"}`);
+
+        return {
+          success: true,
+          summary: `${memberName(member)} is #${member.pagerank_rank} in centrality`,
+          data: { formatted: parts.join("\n"), member },
+        };
+      }
+
+      const result = await analytics.findMembers(context.guildId, {
+        bridgesOnly: params.bridgesOnly,
+        orderBy: params.metric,
+        limit: Math.min(params.limit || 10, 50),
+      });
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error: result.error || "Failed to get central members",
+        };
+      }
+
+      if (result.data.length === 0) {
+        return {
+          success: true,
+          summary: "No members found in the analyzed network",
+          data: { formatted: "No members found", members: [] },
+        };
+      }
+
+      const formatted = result.data
+        .map((member, idx) => `${idx + 1}. ${describeCentrality(member)}`)
+        .join("\n");
+
+      return {
+        success: true,
+        summary: `Top ${result.data.length} member(s) by ${params.metric || "pagerank"}`,
+        data: { formatted, members: result.data },
+      };
+    } catch (error) {
+      console.error("🔸 Error in getNetworkCentrality:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to get network centrality",
+      };
+    }
+  },
+};
+
 /**
  * Export all server tools for registration
  */
@@ -351,4 +577,6 @@ export const serverTools: DatabaseTool[] = [
   getActiveMembersTool,
   getTrendingTopicsTool,
   getServerNetworkTool,
+  getNetworkCommunitiesTool,
+  getNetworkCentralityTool,
 ];
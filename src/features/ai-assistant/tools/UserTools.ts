@@ -4,7 +4,13 @@ import {
   type DatabaseToolResult,
   formatUserInfo,
 } from "../DatabaseTools";
-import type { MemberData } from "../../database/PostgreSQLManager";
+import type { MemberEventType } from "../../database/PostgreSQLManager";
+import {
+  MemberEventRepository,
+  MemberRepository,
+  MessageRepository,
+} from "../../database/repositories";
+import { describeMemberEvent } from "../../member-history/MemberEvents";
 
 /**
  * Get complete user profile information
@@ -29,28 +35,16 @@ export const getUserInfoTool: DatabaseTool = {
   ): Promise<string | DatabaseToolResult> => {
     try {
       const targetUserId = params.userId || context.userId;
-      const result = await context.db.query(
-        `SELECT * FROM members 
-         WHERE user_id = $1 AND guild_id = $2 AND active = true
-         LIMIT 1`,
-        [targetUserId, context.guildId]
-      );
-
-      if (!result.success || !result.data || result.data.length === 0) {
-        // Try inactive members
-        const fallbackResult = await context.db.query(
-          `SELECT * FROM members 
-           WHERE user_id = $1 AND guild_id = $2 AND active = false
-           LIMIT 1`,
-          [targetUserId, context.guildId]
-        );
+      const members = new MemberRepository(context.db);
+      const messages = new MessageRepository(context.db);
+      const result = await members.findByUserId(context.guildId, targetUserId, {
+        includeInactive: true,
+      });
 
-        if (
-          fallbackResult.success &&
-          fallbackResult.data &&
-          fallbackResult.data.length > 0
-        ) {
-          const member = fallbackResult.data[0] as MemberData;
+      if (!result.success || !result.data || !result.data.active) {
+        // Members who left the server still have a profile
+        if (result.data) {
+          const member = result.data;
           const formatted = formatUserInfo(member);
           return {
             success: true,
@@ -67,41 +61,23 @@ export const getUserInfoTool: DatabaseTool = {
         };
       }
 
-      const member = result.data[0] as MemberData;
+      const member = result.data;
 
       // Get role names (not just IDs)
-      let roleNames: string[] = [];
-      if (member.roles && member.roles.length > 0) {
-        const rolesResult = await context.db.query(
-          `SELECT name FROM roles 
-           WHERE id = ANY($1::text[]) AND guild_id = $2 AND active = true
-           ORDER BY name`,
-          [member.roles, context.guildId]
-        );
-        if (rolesResult.success && rolesResult.data) {
-          roleNames = rolesResult.data.map((r: any) => r.name);
-        }
-      }
+      const rolesResult = await members.getRoleNames(
+        context.guildId,
+        member.roles
+      );
+      const roleNames = rolesResult.data || [];
 
       // Get message count and activity context
-      const messageStatsResult = await context.db.query(
-        `SELECT COUNT(*) as message_count, 
-                MIN(created_at) as first_message,
-                MAX(created_at) as last_message
-         FROM messages 
-         WHERE author_id = $1 AND guild_id = $2 AND active = true`,
-        [targetUserId, context.guildId]
+      const messageStatsResult = await messages.getAuthorStats(
+        context.guildId,
+        targetUserId
       );
 
-      const messageCount =
-        messageStatsResult.success && messageStatsResult.data?.[0]
-          ? parseInt(messageStatsResult.data[0].message_count, 10)
-          : 0;
-      const firstMessage =
-        messageStatsResult.success &&
-        messageStatsResult.data?.[0]?.first_message
-          ? new Date(messageStatsResult.data[0].first_message)
-          : null;
+      const messageCount = messageStatsResult.data?.message_count || 0;
+      const firstMessage = messageStatsResult.data?.first_message || null;
 
       // Get top relationships with more context
       const network = member.relationship_network || [];
@@ -230,22 +206,17 @@ export const getUserSummaryTool: DatabaseTool = {
   ): Promise<string | DatabaseToolResult> => {
     try {
       const targetUserId = params.userId || context.userId;
-      const result = await context.db.query(
-        `SELECT summary, keywords, emojis, notes, display_name
-         FROM members 
-         WHERE user_id = $1 AND guild_id = $2 AND active = true
-         LIMIT 1`,
-        [targetUserId, context.guildId]
-      );
+      const members = new MemberRepository(context.db);
+      const result = await members.findByUserId(context.guildId, targetUserId);
 
-      if (!result.success || !result.data || result.data.length === 0) {
+      if (!result.success || !result.data) {
         return {
           success: false,
           error: `User ${targetUserId} not found in this server`,
         };
       }
 
-      const member = result.data[0];
+      const member = result.data;
       const parts: string[] = [];
 
       if (member.display_name) {
@@ -319,27 +290,8 @@ export const searchUsersTool: DatabaseTool = {
   ): Promise<string | DatabaseToolResult> => {
     try {
       const limit = params.limit || 10;
-      const searchTerm = `%${params.query.toLowerCase()}%`;
-
-      const result = await context.db.query(
-        `SELECT user_id, display_name, username, global_name, nick, summary, keywords
-         FROM members 
-         WHERE guild_id = $1 
-           AND active = true
-           AND (
-             LOWER(display_name) LIKE $2
-             OR LOWER(username) LIKE $2
-             OR LOWER(COALESCE(global_name, '')) LIKE $2
-             OR LOWER(COALESCE(nick, '')) LIKE $2
-             OR EXISTS (
-               SELECT 1 FROM UNNEST(keywords) AS kw 
-               WHERE LOWER(kw) LIKE $2
-             )
-           )
-         ORDER BY display_name
-         LIMIT $3`,
-        [context.guildId, searchTerm, limit]
-      );
+      const members = new MemberRepository(context.db);
+      const result = await members.search(context.guildId, params.query, limit);
 
       if (!result.success || !result.data || result.data.length === 0) {
         return {
@@ -349,7 +301,7 @@ export const searchUsersTool: DatabaseTool = {
         };
       }
 
-      const users = result.data.map((u: any) => {
+      const users = result.data.map((u) => {
         const parts: string[] = [];
         parts.push(`${u.display_name} (@${u.username})`);
         if (u.user_id) {
@@ -366,7 +318,15 @@ export const searchUsersTool: DatabaseTool = {
         summary: `Found ${users.length} user(s) matching "${params.query}"`,
         data: {
           formatted: users.join("\n"),
-          users: result.data,
+          users: result.data.map((u) => ({
+            user_id: u.user_id,
+            display_name: u.display_name,
+            username: u.username,
+            global_name: u.global_name,
+            nick: u.nick,
+            summary: u.summary,
+            keywords: u.keywords,
+          })),
           count: users.length,
         },
       };
@@ -405,43 +365,30 @@ export const getUserActivityTool: DatabaseTool = {
     try {
       const targetUserId = params.userId || context.userId;
       // Get member data
-      const memberResult = await context.db.query(
-        `SELECT display_name, status, activities, joined_at, updated_at
-         FROM members 
-         WHERE user_id = $1 AND guild_id = $2 AND active = true
-         LIMIT 1`,
-        [targetUserId, context.guildId]
+      const members = new MemberRepository(context.db);
+      const memberResult = await members.findByUserId(
+        context.guildId,
+        targetUserId
       );
 
-      if (
-        !memberResult.success ||
-        !memberResult.data ||
-        memberResult.data.length === 0
-      ) {
+      if (!memberResult.success || !memberResult.data) {
         return {
           success: false,
           error: `User ${targetUserId} not found in this server`,
         };
       }
 
-      const member = memberResult.data[0];
+      const member = memberResult.data;
 
       // Get message count
-      const messageResult = await context.db.query(
-        `SELECT COUNT(*) as count, MAX(created_at) as last_message
-         FROM messages 
-         WHERE author_id = $1 AND guild_id = $2 AND active = true`,
-        [targetUserId, context.guildId]
+      const messages = new MessageRepository(context.db);
+      const messageResult = await messages.getAuthorStats(
+        context.guildId,
+        targetUserId
       );
 
-      const messageCount =
-        messageResult.success && messageResult.data?.[0]
-          ? parseInt(messageResult.data[0].count, 10)
-          : 0;
-      const lastMessage =
-        messageResult.success && messageResult.data?.[0]?.last_message
-          ? new Date(messageResult.data[0].last_message)
-          : null;
+      const messageCount = messageResult.data?.message_count || 0;
+      const lastMessage = messageResult.data?.last_message || null;
 
       const parts: string[] = [];
       parts.push(`Activity for ${member.display_name}:`);
@@ -505,37 +452,22 @@ export const getUserRolesTool: DatabaseTool = {
   ): Promise<string | DatabaseToolResult> => {
     try {
       const targetUserId = params.userId || context.userId;
-      const result = await context.db.query(
-        `SELECT display_name, roles, permissions
-         FROM members 
-         WHERE user_id = $1 AND guild_id = $2 AND active = true
-         LIMIT 1`,
-        [targetUserId, context.guildId]
-      );
+      const members = new MemberRepository(context.db);
+      const result = await members.findByUserId(context.guildId, targetUserId);
 
-      if (!result.success || !result.data || result.data.length === 0) {
+      if (!result.success || !result.data) {
         return {
           success: false,
           error: `User ${targetUserId} not found in this server`,
         };
       }
 
-      const member = result.data[0];
+      const member = result.data;
       const roleIds = member.roles || [];
 
       // Get role names
-      let roleNames: string[] = [];
-      if (roleIds.length > 0) {
-        const rolesResult = await context.db.query(
-          `SELECT name FROM roles 
-           WHERE id = ANY($1::text[]) AND guild_id = $2 AND active = true`,
-          [roleIds, context.guildId]
-        );
-
-        if (rolesResult.success && rolesResult.data) {
-          roleNames = rolesResult.data.map((r: any) => r.name);
-        }
-      }
+      const rolesResult = await members.getRoleNames(context.guildId, roleIds);
+      const roleNames = rolesResult.data || [];
 
       const parts: string[] = [];
       parts.push(`Roles for ${member.display_name}:`);
@@ -570,6 +502,89 @@ export const getUserRolesTool: DatabaseTool = {
   },
 };
 
+/**
+ * Get a member's recorded profile changes
+ */
+export const getMemberHistoryTool: DatabaseTool = {
+  name: "getMemberHistory",
+  description:
+    "Get a member's recorded profile history: joins, leaves, nickname/username/display name changes, avatar changes, roles given and removed, timeouts and boosts, with dates. Use for questions like 'what was X called before' or 'when did X get the mod role'. If no userId is provided, use the requesting user.",
+  parameters: {
+    type: "object",
+    properties: {
+      userId: {
+        type: "string",
+        description: "Discord user ID to query",
+      },
+      eventType: {
+        type: "string",
+        description:
+          "Only return one kind of change: join, leave, nickname, username, global_name, avatar, role_add, role_remove, timeout, timeout_end, boost or boost_end",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of changes to return (default: 30)",
+      },
+    },
+    required: [],
+  },
+  execute: async (
+    params: { userId?: string; eventType?: string; limit?: number },
+    context: ToolContext
+  ): Promise<string | DatabaseToolResult> => {
+    try {
+      const targetUserId = params.userId || context.userId;
+      const events = new MemberEventRepository(context.db);
+      const result = await events.findByUser(context.guildId, targetUserId, {
+        types: params.eventType
+          ? [params.eventType as MemberEventType]
+          : undefined,
+        limit: Math.min(params.limit || 30, 100),
+      });
+
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error: result.error || "Failed to get member history",
+        };
+      }
+
+      if (result.data.length === 0) {
+        return {
+          success: true,
+          summary: `No recorded changes for user ${targetUserId}`,
+          data: { formatted: "No recorded changes", events: [] },
+        };
+      }
+
+      const parts: string[] = ["Profile history (newest first):"];
+      for (const event of result.data) {
+        parts.push(
+          `  - ${new Date(event.occurred_at).toISOString()}: ${describeMemberEvent(event)}`
+        );
+      }
+
+      return {
+        success: true,
+        summary: `${result.data.length} recorded change(s) for user ${targetUserId}`,
+        data: {
+          formatted: parts.join("\n"),
+          events: result.data,
+        },
+      };
+    } catch (error) {
+      console.error("🔸 Error in getMemberHistory:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to get member history",
+      };
+    }
+  },
+};
+
 /**
  * Export all user tools for registration
  */
@@ -579,4 +594,5 @@ export const userTools: DatabaseTool[] = [
   searchUsersTool,
   getUserActivityTool,
   getUserRolesTool,
+  getMemberHistoryTool,
 ];
@@ -0,0 +1,221 @@
+import { createHash } from "node:crypto";
+import { access, mkdir, rename, unlink, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Attachment } from "discord.js";
+import type {
+  AttachmentData,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+
+const ARCHIVE_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = 25;
+// Bound each pass so a large backlog doesn't monopolize the process
+const MAX_FILES_PER_PASS = 200;
+const DOWNLOAD_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Map a Discord attachment to the stored metadata shape
+ */
+export function toAttachmentData(
+  attachment: Attachment,
+  message: { id: string; guildId: string; channelId: string }
+): AttachmentData {
+  return {
+    id: attachment.id,
+    message_id: message.id,
+    guild_id: message.guildId,
+    channel_id: message.channelId,
+    filename: attachment.name,
+    size_bytes: attachment.size,
+    content_type: attachment.contentType || undefined,
+    width: attachment.width ?? undefined,
+    height: attachment.height ?? undefined,
+    url: attachment.url,
+    proxy_url: attachment.proxyURL || undefined,
+  };
+}
+
+/**
+ * Delete archived files (paths relative to the archive root), e.g. after
+ * their attachments were purged. Returns how many were removed; files
+ * already gone are skipped.
+ */
+export async function removeArchivedFiles(
+  rootDir: string,
+  relativePaths: string[]
+): Promise<number> {
+  const root = path.resolve(rootDir);
+  let removed = 0;
+  for (const relativePath of relativePaths) {
+    const fullPath = path.resolve(root, relativePath);
+    // Paths come from the database; never delete outside the archive
+    if (!fullPath.startsWith(`${root}${path.sep}`)) continue;
+    try {
+      await unlink(fullPath);
+      removed++;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`🔸 Failed to remove archived file ${fullPath}:`, error);
+      }
+    }
+  }
+  return removed;
+}
+
+/**
+ * Downloads attachments into a local content-addressed store
+ * (<root>/ab/cd/<sha256><ext>), so files outlive Discord's expiring CDN links.
+ * Identical files are stored once.
+ */
+export class AttachmentArchiver {
+  private db: PostgreSQLManager;
+  private rootDir: string;
+  private maxBytes: number;
+  private archiveTimer?: NodeJS.Timeout;
+  private isRunning = false;
+
+  constructor(db: PostgreSQLManager, rootDir: string, maxBytes: number) {
+    this.db = db;
+    this.rootDir = path.resolve(rootDir);
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Archive pending attachments now and then every minute
+   */
+  start(): void {
+    console.log(
+      `🔹 AttachmentArchiver: Archiving to ${this.rootDir} (max ${Math.round(
+        this.maxBytes / 1024 / 1024
+      )} MB per file)`
+    );
+
+    void this.runOnce();
+    this.archiveTimer = setInterval(() => {
+      void this.runOnce();
+    }, ARCHIVE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.archiveTimer) {
+      clearInterval(this.archiveTimer);
+      this.archiveTimer = undefined;
+    }
+  }
+
+  /**
+   * Archive up to MAX_FILES_PER_PASS pending attachments
+   */
+  async runOnce(): Promise<number> {
+    if (this.isRunning || !this.db.isConnected()) return 0;
+
+    this.isRunning = true;
+    let archived = 0;
+    try {
+      for (let done = 0; done < MAX_FILES_PER_PASS; done += BATCH_SIZE) {
+        const pending = await this.db.getPendingAttachments(
+          this.maxBytes,
+          BATCH_SIZE
+        );
+        if (!pending.success || !pending.data || pending.data.length === 0) {
+          break;
+        }
+
+        for (const attachment of pending.data) {
+          if (await this.archive(attachment)) {
+            archived++;
+          }
+        }
+
+        if (pending.data.length < BATCH_SIZE) break;
+      }
+
+      if (archived > 0) {
+        console.log(`🔹 AttachmentArchiver: Archived ${archived} file(s)`);
+      }
+    } catch (error) {
+      console.error("🔸 Error archiving attachments:", error);
+    } finally {
+      this.isRunning = false;
+    }
+
+    return archived;
+  }
+
+  /**
+   * Download one attachment and record its hash and path. Failures are
+   * recorded on the row so it isn't retried until its URL changes.
+   */
+  private async archive(attachment: AttachmentData): Promise<boolean> {
+    try {
+      const response = await fetch(attachment.url, {
+        signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const declaredSize = Number(response.headers.get("content-length"));
+      if (declaredSize > this.maxBytes) {
+        throw new Error(`File is ${declaredSize} bytes, over the cap`);
+      }
+
+      const data = Buffer.from(await response.arrayBuffer());
+      if (data.length > this.maxBytes) {
+        throw new Error(`File is ${data.length} bytes, over the cap`);
+      }
+
+      const sha256 = createHash("sha256").update(data).digest("hex");
+      const archivedPath = await this.store(
+        data,
+        sha256,
+        path.extname(attachment.filename)
+      );
+
+      await this.db.updateAttachmentArchive(attachment.id, {
+        sha256,
+        archivedPath,
+      });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.db.updateAttachmentArchive(attachment.id, { error: message });
+      return false;
+    }
+  }
+
+  /**
+   * Write data under its hash unless an identical file is already stored.
+   * Returns the path relative to the archive root.
+   */
+  private async store(
+    data: Buffer,
+    sha256: string,
+    extension: string
+  ): Promise<string> {
+    // Extensions come from user-supplied filenames
+    const safeExtension = /^\.[a-z0-9]{1,10}$/i.test(extension)
+      ? extension.toLowerCase()
+      : "";
+    const relativePath = path.join(
+      sha256.substring(0, 2),
+      sha256.substring(2, 4),
+      `${sha256}${safeExtension}`
+    );
+    const fullPath = path.join(this.rootDir, relativePath);
+
+    const exists = await access(fullPath).then(
+      () => true,
+      () => false
+    );
+    if (!exists) {
+      await mkdir(path.dirname(fullPath), { recursive: true });
+      // Write then rename so a crash never leaves a truncated file at the final path
+      const tempPath = `${fullPath}.${process.pid}.tmp`;
+      await writeFile(tempPath, data);
+      await rename(tempPath, fullPath);
+    }
+
+    return relativePath;
+  }
+}
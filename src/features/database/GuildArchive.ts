@@ -0,0 +1,434 @@
+import { createHash } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { once } from "node:events";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import { finished } from "node:stream/promises";
+import { createGunzip, createGzip } from "node:zlib";
+import type { PoolClient } from "pg";
+import type { DatabaseResult, PostgreSQLManager } from "./PostgreSQLManager";
+
+export const ARCHIVE_FORMAT = "arcados-guild-archive";
+export const ARCHIVE_FORMAT_VERSION = 1;
+const MANIFEST_FILE = "manifest.json";
+const FETCH_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+
+export interface ArchiveTableEntry {
+  table: string;
+  file: string;
+  columns: string[];
+  rows: number;
+  sha256: string; // Of the .jsonl.gz file as written
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  format_version: number;
+  schema_version: number; // Highest applied migration in the source database
+  guild_id: string;
+  created_at: string;
+  tables: ArchiveTableEntry[];
+}
+
+/**
+ * Guild-scoped tables in restore order: parents before the rows that
+ * reference them. Messages are ordered by time so replies follow the
+ * message they reference.
+ */
+const ARCHIVE_TABLES: { table: string; where: string; orderBy: string }[] = [
+  { table: "guilds", where: "id = $1", orderBy: "id" },
+  { table: "guild_settings", where: "guild_id = $1", orderBy: "guild_id" },
+  { table: "channels", where: "guild_id = $1", orderBy: "id" },
+  { table: "forum_tags", where: "guild_id = $1", orderBy: "id" },
+  { table: "roles", where: "guild_id = $1", orderBy: "id" },
+  { table: "members", where: "guild_id = $1", orderBy: "id" },
+  { table: "member_events", where: "guild_id = $1", orderBy: "id" },
+  { table: "messages", where: "guild_id = $1", orderBy: "created_at, id" },
+  { table: "message_revisions", where: "guild_id = $1", orderBy: "id" },
+  {
+    table: "message_reactions",
+    where: "guild_id = $1",
+    orderBy: "message_id, user_id, emoji",
+  },
+  { table: "attachments", where: "guild_id = $1", orderBy: "id" },
+  {
+    table: "relationship_edges",
+    where: "guild_id = $1",
+    orderBy: "user_a, user_b",
+  },
+  {
+    table: "relationship_daily_activity",
+    where: "guild_id = $1",
+    orderBy: "user_a, user_b, day",
+  },
+  {
+    table: "relationship_pairs",
+    where: "guild_id = $1",
+    orderBy: "u_min, u_max",
+  },
+  { table: "conversation_segments", where: "guild_id = $1", orderBy: "id" },
+  { table: "voice_sessions", where: "guild_id = $1", orderBy: "id" },
+];
+
+// Columns triggers recompute on insert, so archives leave them out
+const DERIVED_COLUMNS = new Set(["content_tsv"]);
+
+/**
+ * Streams one guild's rows to a directory of gzipped JSONL files plus a
+ * manifest with row counts and SHA-256 checksums, and restores such an
+ * archive into a database that doesn't have the guild yet.
+ */
+export class GuildArchive {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * Export a guild from a single consistent snapshot. The manifest is written
+   * last, so a directory without one is an incomplete export.
+   */
+  async exportGuild(
+    guildId: string,
+    outDir: string,
+    onTable?: (entry: ArchiveTableEntry) => void
+  ): Promise<DatabaseResult<ArchiveManifest>> {
+    await mkdir(outDir, { recursive: true });
+    const existing = await readdir(outDir);
+    if (existing.length > 0) {
+      return { success: false, error: `${outDir} is not empty` };
+    }
+
+    const result = await this.db.withTransaction(async (client) => {
+      await client.query(
+        "SET TRANSACTION ISOLATION LEVEL REPEATABLE READ, READ ONLY"
+      );
+
+      const guildResult = await client.query(
+        "SELECT 1 FROM guilds WHERE id = $1",
+        [guildId]
+      );
+      if (guildResult.rows.length === 0) {
+        throw new Error(`Guild ${guildId} not found`);
+      }
+
+      const tables: ArchiveTableEntry[] = [];
+      for (const spec of ARCHIVE_TABLES) {
+        const entry = await this.exportTable(client, spec, guildId, outDir);
+        tables.push(entry);
+        onTable?.(entry);
+      }
+
+      const manifest: ArchiveManifest = {
+        format: ARCHIVE_FORMAT,
+        format_version: ARCHIVE_FORMAT_VERSION,
+        schema_version: await this.getSchemaVersion(client),
+        guild_id: guildId,
+        created_at: new Date().toISOString(),
+        tables,
+      };
+      return manifest;
+    });
+
+    if (result.success && result.data) {
+      await writeFile(
+        path.join(outDir, MANIFEST_FILE),
+        `${JSON.stringify(result.data, null, 2)}\n`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Check the manifest and every file's checksum without touching the database
+   */
+  async verifyArchive(
+    archiveDir: string
+  ): Promise<DatabaseResult<ArchiveManifest>> {
+    try {
+      const manifest = JSON.parse(
+        await readFile(path.join(archiveDir, MANIFEST_FILE), "utf8")
+      ) as ArchiveManifest;
+
+      if (manifest.format !== ARCHIVE_FORMAT) {
+        return { success: false, error: "Not a guild archive" };
+      }
+      if (manifest.format_version > ARCHIVE_FORMAT_VERSION) {
+        return {
+          success: false,
+          error: `Archive format ${manifest.format_version} is newer than supported (${ARCHIVE_FORMAT_VERSION})`,
+        };
+      }
+
+      const knownTables = new Set(ARCHIVE_TABLES.map((spec) => spec.table));
+      for (const entry of manifest.tables) {
+        // File names come from the manifest; never follow one outside the archive
+        if (
+          !knownTables.has(entry.table) ||
+          entry.file !== `${entry.table}.jsonl.gz`
+        ) {
+          return {
+            success: false,
+            error: `Unexpected table in archive: ${entry.table}`,
+          };
+        }
+
+        const sha256 = await this.hashFile(path.join(archiveDir, entry.file));
+        if (sha256 !== entry.sha256) {
+          return {
+            success: false,
+            error: `Checksum mismatch for ${entry.file}`,
+          };
+        }
+      }
+
+      return { success: true, data: manifest };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Restore an archive in one transaction. Refuses if the guild already
+   * exists or the target schema is older than the archive's.
+   */
+  async importGuild(
+    archiveDir: string,
+    onTable?: (entry: ArchiveTableEntry) => void
+  ): Promise<DatabaseResult<ArchiveManifest>> {
+    const verified = await this.verifyArchive(archiveDir);
+    if (!verified.success || !verified.data) {
+      return verified;
+    }
+    const manifest = verified.data;
+
+    return this.db.withTransaction(async (client) => {
+      const schemaVersion = await this.getSchemaVersion(client);
+      if (schemaVersion < manifest.schema_version) {
+        throw new Error(
+          `Target schema is at version ${schemaVersion}, archive needs ${manifest.schema_version}; run migrations first`
+        );
+      }
+
+      const existing = await client.query(
+        "SELECT 1 FROM guilds WHERE id = $1",
+        [manifest.guild_id]
+      );
+      if (existing.rows.length > 0) {
+        throw new Error(
+          `Guild ${manifest.guild_id} already exists in the target database`
+        );
+      }
+
+      // Restored members keep their archived history instead of logging
+      // fresh joins
+      await client.query("SET LOCAL app.restoring_archive = 'on'");
+
+      for (const entry of manifest.tables) {
+        await this.importTable(client, entry, archiveDir);
+        onTable?.(entry);
+      }
+
+      await this.resetSequences(client, manifest.tables);
+      return manifest;
+    });
+  }
+
+  private async exportTable(
+    client: PoolClient,
+    spec: { table: string; where: string; orderBy: string },
+    guildId: string,
+    outDir: string
+  ): Promise<ArchiveTableEntry> {
+    const columns = await this.getColumns(client, spec.table);
+    if (columns.length === 0) {
+      throw new Error(`Table ${spec.table} does not exist`);
+    }
+
+    const file = `${spec.table}.jsonl.gz`;
+    const filePath = path.join(outDir, file);
+    const gzip = createGzip();
+    const output = createWriteStream(filePath);
+    gzip.pipe(output);
+
+    // DATE columns go out as text; node-postgres would read them as local
+    // midnight, which shifts the day when serialized in UTC
+    const dateColumns = await this.getDateColumns(client, spec.table);
+    const selectList = columns
+      .map((c) => (dateColumns.has(c) ? `"${c}"::text AS "${c}"` : `"${c}"`))
+      .join(", ");
+
+    const cursorName = `archive_${spec.table}`;
+    await client.query(
+      `DECLARE ${cursorName} NO SCROLL CURSOR FOR
+       SELECT ${selectList}
+       FROM ${spec.table}
+       WHERE ${spec.where}
+       ORDER BY ${spec.orderBy}`,
+      [guildId]
+    );
+
+    let rows = 0;
+    while (true) {
+      const batch = await client.query(
+        `FETCH ${FETCH_SIZE} FROM ${cursorName}`
+      );
+      for (const row of batch.rows) {
+        // Respect backpressure so large tables never sit in memory
+        if (!gzip.write(`${JSON.stringify(row)}\n`)) {
+          await once(gzip, "drain");
+        }
+      }
+      rows += batch.rows.length;
+      if (batch.rows.length < FETCH_SIZE) break;
+    }
+    await client.query(`CLOSE ${cursorName}`);
+
+    gzip.end();
+    await finished(output);
+
+    return {
+      table: spec.table,
+      file,
+      columns,
+      rows,
+      sha256: await this.hashFile(filePath),
+    };
+  }
+
+  private async importTable(
+    client: PoolClient,
+    entry: ArchiveTableEntry,
+    archiveDir: string
+  ): Promise<void> {
+    const targetColumns = new Set(await this.getColumns(client, entry.table));
+    const missing = entry.columns.filter((c) => !targetColumns.has(c));
+    if (missing.length > 0) {
+      throw new Error(
+        `Target ${entry.table} is missing columns: ${missing.join(", ")}`
+      );
+    }
+
+    // json_populate_recordset converts JSON values to each column's type,
+    // including arrays and JSONB, so rows go in exactly as exported
+    const columnList = entry.columns.map((c) => `"${c}"`).join(", ");
+    const insert = `
+      INSERT INTO ${entry.table} (${columnList})
+      SELECT ${columnList} FROM json_populate_recordset(NULL::${entry.table}, $1::json)
+    `;
+
+    const lines = createInterface({
+      input: createReadStream(path.join(archiveDir, entry.file)).pipe(
+        createGunzip()
+      ),
+      crlfDelay: Number.POSITIVE_INFINITY,
+    });
+
+    let batch: string[] = [];
+    let rows = 0;
+    for await (const line of lines) {
+      if (!line) continue;
+      batch.push(line);
+      if (batch.length >= INSERT_BATCH_SIZE) {
+        await client.query(insert, [`[${batch.join(",")}]`]);
+        rows += batch.length;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await client.query(insert, [`[${batch.join(",")}]`]);
+      rows += batch.length;
+    }
+
+    if (rows !== entry.rows) {
+      throw new Error(
+        `${entry.file} has ${rows} rows, manifest says ${entry.rows}`
+      );
+    }
+  }
+
+  /**
+   * Move serial sequences past imported IDs so new rows don't collide
+   */
+  private async resetSequences(
+    client: PoolClient,
+    tables: ArchiveTableEntry[]
+  ): Promise<void> {
+    const serialColumns = await client.query(
+      `SELECT table_name, column_name
+       FROM information_schema.columns
+       WHERE table_schema = current_schema()
+         AND table_name = ANY($1::text[])
+         AND column_default LIKE 'nextval(%'`,
+      [tables.map((entry) => entry.table)]
+    );
+
+    for (const { table_name, column_name } of serialColumns.rows) {
+      await client.query(
+        `SELECT setval(
+           pg_get_serial_sequence($1, $2),
+           GREATEST((SELECT MAX("${column_name}") FROM ${table_name}), 1)
+         )`,
+        [table_name, column_name]
+      );
+    }
+  }
+
+  /**
+   * Insertable columns (generated and derived columns such as content_tsv
+   * are rebuilt)
+   */
+  private async getColumns(
+    client: PoolClient,
+    table: string
+  ): Promise<string[]> {
+    const result = await client.query(
+      `SELECT column_name
+       FROM information_schema.columns
+       WHERE table_schema = current_schema()
+         AND table_name = $1
+         AND is_generated = 'NEVER'
+       ORDER BY ordinal_position`,
+      [table]
+    );
+    return result.rows
+      .map((row) => row.column_name)
+      .filter((column) => !DERIVED_COLUMNS.has(column));
+  }
+
+  private async getDateColumns(
+    client: PoolClient,
+    table: string
+  ): Promise<Set<string>> {
+    const result = await client.query(
+      `SELECT column_name
+       FROM information_schema.columns
+       WHERE table_schema = current_schema()
+         AND table_name = $1
+         AND data_type = 'date'`,
+      [table]
+    );
+    return new Set(result.rows.map((row) => row.column_name));
+  }
+
+  private async getSchemaVersion(client: PoolClient): Promise<number> {
+    const result = await client.query(
+      "SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations"
+    );
+    return Number(result.rows[0]?.version || 0);
+  }
+
+  private async hashFile(filePath: string): Promise<string> {
+    const hash = createHash("sha256");
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest("hex");
+  }
+}
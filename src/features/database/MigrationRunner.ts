@@ -0,0 +1,316 @@
+import { createHash } from "node:crypto";
+import type { DatabaseResult, PostgreSQLManager } from "./PostgreSQLManager";
+import { migrations as registeredMigrations } from "./migrations";
+
+// Arbitrary constant shared by every process that migrates this database
+const MIGRATION_LOCK_KEY = 727_001;
+
+/**
+ * A single numbered schema change. Statements run in order inside one
+ * transaction together with the schema_migrations bookkeeping row.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string[];
+  down: string[];
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at?: Date;
+  checksum_mismatch?: boolean;
+}
+
+export interface MigrationStep {
+  version: number;
+  name: string;
+  direction: "up" | "down";
+  statements: string[];
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+  // Up: highest version to apply. Down: lowest version to keep.
+  targetVersion?: number;
+}
+
+export class MigrationRunner {
+  private db: PostgreSQLManager;
+  private migrations: Migration[];
+
+  constructor(
+    db: PostgreSQLManager,
+    migrations: Migration[] = registeredMigrations
+  ) {
+    this.db = db;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+    this.validateMigrations();
+  }
+
+  /**
+   * Create the bookkeeping table if it does not exist yet
+   */
+  async ensureMigrationsTable(): Promise<DatabaseResult<void>> {
+    const result = await this.db.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `);
+    return result.success
+      ? { success: true }
+      : { success: false, error: result.error };
+  }
+
+  /**
+   * Get migrations recorded in schema_migrations
+   */
+  async getAppliedMigrations(): Promise<DatabaseResult<AppliedMigration[]>> {
+    const tableResult = await this.ensureMigrationsTable();
+    if (!tableResult.success) {
+      return { success: false, error: tableResult.error };
+    }
+
+    const result = await this.db.query(
+      "SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version ASC"
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, data: result.data as AppliedMigration[] };
+  }
+
+  /**
+   * Compare registered migrations against the database
+   */
+  async status(): Promise<DatabaseResult<MigrationStatus[]>> {
+    const appliedResult = await this.getAppliedMigrations();
+    if (!appliedResult.success || !appliedResult.data) {
+      return { success: false, error: appliedResult.error };
+    }
+
+    const applied = new Map(appliedResult.data.map((m) => [m.version, m]));
+    const statuses: MigrationStatus[] = this.migrations.map((migration) => {
+      const record = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied: !!record,
+        applied_at: record?.applied_at,
+        checksum_mismatch: record
+          ? record.checksum !== this.checksum(migration)
+          : undefined,
+      };
+    });
+
+    return { success: true, data: statuses };
+  }
+
+  /**
+   * Apply pending migrations in ascending order. Returns the planned steps
+   * for a dry run, otherwise only those this runner executed (another
+   * process may have applied some while we waited for the lock).
+   */
+  async migrateUp(
+    options: MigrationOptions = {}
+  ): Promise<DatabaseResult<MigrationStep[]>> {
+    const appliedResult = await this.getAppliedMigrations();
+    if (!appliedResult.success || !appliedResult.data) {
+      return { success: false, error: appliedResult.error };
+    }
+
+    const appliedVersions = new Set(appliedResult.data.map((m) => m.version));
+    for (const record of appliedResult.data) {
+      const migration = this.migrations.find((m) => m.version === record.version);
+      if (!migration) {
+        console.warn(
+          `🔸 Database has migration ${record.version} (${record.name}) that this build does not know about`
+        );
+      } else if (record.checksum !== this.checksum(migration)) {
+        console.warn(
+          `🔸 Migration ${record.version} (${record.name}) changed after it was applied`
+        );
+      }
+    }
+
+    const pending = this.migrations.filter(
+      (m) =>
+        !appliedVersions.has(m.version) &&
+        (options.targetVersion === undefined ||
+          m.version <= options.targetVersion)
+    );
+
+    const steps: MigrationStep[] = pending.map((m) => ({
+      version: m.version,
+      name: m.name,
+      direction: "up",
+      statements: m.up,
+    }));
+
+    if (options.dryRun) {
+      return { success: true, data: steps };
+    }
+
+    const executed: MigrationStep[] = [];
+    for (const [i, migration] of pending.entries()) {
+      const result = await this.db.withTransaction(async (client) => {
+        // Serialize concurrent runners (bot + scripts) and re-check under the lock
+        await client.query("SELECT pg_advisory_xact_lock($1)", [
+          MIGRATION_LOCK_KEY,
+        ]);
+        const existing = await client.query(
+          "SELECT 1 FROM schema_migrations WHERE version = $1",
+          [migration.version]
+        );
+        if (existing.rows.length > 0) return false;
+
+        for (const statement of migration.up) {
+          await client.query(statement);
+        }
+        await client.query(
+          `INSERT INTO schema_migrations (version, name, checksum, applied_at)
+           VALUES ($1, $2, $3, NOW())`,
+          [migration.version, migration.name, this.checksum(migration)]
+        );
+        return true;
+      });
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: `Migration ${migration.version} (${migration.name}) failed: ${result.error}`,
+        };
+      }
+
+      const step = steps[i];
+      if (result.data && step) {
+        executed.push(step);
+        console.log(
+          `🔹 Applied migration ${migration.version} (${migration.name})`
+        );
+      }
+    }
+
+    return { success: true, data: executed };
+  }
+
+  /**
+   * Revert applied migrations in descending order.
+   * Without a target version only the latest migration is reverted. Like
+   * migrateUp, returns only the steps executed unless it's a dry run.
+   */
+  async migrateDown(
+    options: MigrationOptions = {}
+  ): Promise<DatabaseResult<MigrationStep[]>> {
+    const appliedResult = await this.getAppliedMigrations();
+    if (!appliedResult.success || !appliedResult.data) {
+      return { success: false, error: appliedResult.error };
+    }
+
+    const appliedDescending = [...appliedResult.data].sort(
+      (a, b) => b.version - a.version
+    );
+    const { targetVersion } = options;
+    const toRevert =
+      targetVersion === undefined
+        ? appliedDescending.slice(0, 1)
+        : appliedDescending.filter((m) => m.version > targetVersion);
+
+    const revertible: Migration[] = [];
+    for (const record of toRevert) {
+      const migration = this.migrations.find((m) => m.version === record.version);
+      if (!migration) {
+        return {
+          success: false,
+          error: `Cannot revert migration ${record.version} (${record.name}): not found in this build`,
+        };
+      }
+      revertible.push(migration);
+    }
+
+    const steps: MigrationStep[] = revertible.map((m) => ({
+      version: m.version,
+      name: m.name,
+      direction: "down",
+      statements: m.down,
+    }));
+
+    if (options.dryRun) {
+      return { success: true, data: steps };
+    }
+
+    const executed: MigrationStep[] = [];
+    for (const [i, migration] of revertible.entries()) {
+      const result = await this.db.withTransaction(async (client) => {
+        await client.query("SELECT pg_advisory_xact_lock($1)", [
+          MIGRATION_LOCK_KEY,
+        ]);
+        const existing = await client.query(
+          "SELECT 1 FROM schema_migrations WHERE version = $1",
+          [migration.version]
+        );
+        if (existing.rows.length === 0) return false;
+
+        for (const statement of migration.down) {
+          await client.query(statement);
+        }
+        await client.query("DELETE FROM schema_migrations WHERE version = $1", [
+          migration.version,
+        ]);
+        return true;
+      });
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: `Reverting migration ${migration.version} (${migration.name}) failed: ${result.error}`,
+        };
+      }
+
+      const step = steps[i];
+      if (result.data && step) {
+        executed.push(step);
+        console.log(
+          `🔹 Reverted migration ${migration.version} (${migration.name})`
+        );
+      }
+    }
+
+    return { success: true, data: executed };
+  }
+
+  /**
+   * Stable hash of a migration's up statements, used to detect edits after release
+   */
+  private checksum(migration: Migration): string {
+    return createHash("sha256").update(migration.up.join("\n;\n")).digest("hex");
+  }
+
+  /**
+   * Guard against duplicate version numbers in the registry
+   */
+  private validateMigrations(): void {
+    const seen = new Set<number>();
+    for (const migration of this.migrations) {
+      if (seen.has(migration.version)) {
+        throw new Error(
+          `Duplicate migration version ${migration.version} (${migration.name})`
+        );
+      }
+      seen.add(migration.version);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { Pool, PoolClient, QueryResult } from "pg";
 import { config } from "../../config/index.js";
 import type { ConversationEntry } from "../relationship-network/types";
+import { MigrationRunner } from "./MigrationRunner";
 
 export interface DatabaseResult<T> {
   success: boolean;
@@ -27,8 +28,34 @@ export interface ChannelData {
   position?: number;
   topic?: string;
   nsfw?: boolean;
-  parent_id?: string;
+  parent_id?: string; // Category, or the parent channel of a thread
   active: boolean;
+  // Threads and forum posts
+  is_thread?: boolean;
+  owner_id?: string;
+  archived?: boolean;
+  locked?: boolean;
+  archived_at?: Date;
+  applied_tags?: string[]; // Forum tag IDs applied to a post
+  // Unset keeps the stored overwrites; threads have none of their own
+  permission_overwrites?: PermissionOverwriteData[];
+}
+
+export interface PermissionOverwriteData {
+  id: string; // Role or member ID
+  type: number; // 0 = role, 1 = member
+  allow: string; // Permission bitfields as decimal strings
+  deny: string;
+}
+
+export interface ForumTagData {
+  id: string;
+  guild_id: string;
+  channel_id: string;
+  name: string;
+  emoji_id?: string;
+  emoji_name?: string;
+  moderated: boolean;
 }
 
 export interface MemberData {
@@ -96,6 +123,7 @@ export interface RelationshipEntry {
   username?: string;
   raw_points?: number;
   total_messages?: number;
+  affinity_score?: number; // Model score at rollup; affinity_percentage is its share
 }
 
 export interface RoleData {
@@ -122,11 +150,283 @@ export interface MessageData {
   embeds?: string[];
   referenced_message_id?: string;
   active: boolean;
+  deleted_at?: Date;
+  deleted_by?: string; // Moderator named by the audit log, if any
+}
+
+export interface AttachmentData {
+  id: string;
+  message_id: string;
+  guild_id: string;
+  channel_id: string;
+  filename: string;
+  size_bytes: number;
+  content_type?: string;
+  width?: number;
+  height?: number;
+  url: string;
+  proxy_url?: string;
+  // Set once the archiver has stored the file locally
+  sha256?: string;
+  archived_path?: string;
+  archived_at?: Date;
+  archive_error?: string;
+}
+
+export interface ReactionData {
+  message_id: string;
+  guild_id: string;
+  channel_id: string;
+  user_id: string;
+  message_author_id?: string;
+  emoji: string; // Custom emoji ID, or the unicode emoji itself
+  emoji_name?: string;
+  added_at?: Date;
+  counted_in_edges?: boolean; // Whether relationship_edges.reactions includes it
+}
+
+export type SyncJobStatus = "running" | "completed" | "failed";
+
+export interface SyncJobData {
+  channel_id: string;
+  guild_id: string;
+  status: SyncJobStatus;
+  newest_message_id?: string; // Watermark to write once history is complete
+  oldest_message_id?: string; // Resume point: continue before this message
+  message_count: number;
+  active_ms: number; // Time spent fetching, excluding downtime between runs
+  error?: string;
+  started_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
+
+export type MaintenanceRunStatus =
+  | "running"
+  | "completed"
+  | "failed"
+  | "interrupted"; // The bot stopped mid-run
+
+export interface MaintenanceRunData {
+  id: string;
+  job: string;
+  status: MaintenanceRunStatus;
+  details: Record<string, number>; // Counts reported by the job
+  error?: string;
+  started_at: Date;
+  finished_at?: Date;
+}
+
+// How relationships are ranked; see relationship-network/AffinityModel.ts
+export type AffinityModelName = "decayed" | "lifetime";
+
+export interface GuildSettingsData {
+  guild_id: string;
+  excluded_channel_ids: string[]; // Not synced or tracked; covers their threads
+  private_channel_ids: string[]; // Synced but hidden from AI tools
+  ai_provider?: string; // Unset uses the bot's default provider
+  ai_persona?: string;
+  log_channel_id?: string; // Deleted-message reports
+  // Unset affinity settings use the defaults
+  affinity_model?: AffinityModelName;
+  affinity_half_life_days?: number;
+  affinity_weights?: Record<string, number>; // By interaction kind
+  updated_by?: string;
+  updated_at?: Date;
+}
+
+// Undefined leaves a setting as is; null resets it to the default
+export interface GuildSettingsUpdate {
+  excluded_channel_ids?: string[];
+  private_channel_ids?: string[];
+  ai_provider?: string | null;
+  ai_persona?: string | null;
+  log_channel_id?: string | null;
+  affinity_model?: AffinityModelName | null;
+  affinity_half_life_days?: number | null;
+  affinity_weights?: Record<string, number> | null;
+}
+
+export interface NetworkAnalysisData {
+  guild_id: string;
+  node_count: number; // Members with at least one weighted edge
+  edge_count: number; // Linked pairs, both directions counted once
+  community_count: number;
+  modularity: number;
+  affinity_model: AffinityModelName; // What the edges were weighted with
+  computed_at: Date;
+}
+
+export interface NetworkMemberMetricsData {
+  guild_id: string;
+  user_id: string;
+  community_id: number; // 0 is the largest community
+  pagerank: number;
+  betweenness: number; // 0-1
+  participation: number; // 0-1, spread of links across communities
+  degree: number; // Members linked to
+  strength: number; // Sum of link weights
+  is_bridge: boolean;
+}
+
+export interface VoiceFlags {
+  self_mute: boolean;
+  self_deaf: boolean;
+  server_mute: boolean;
+  server_deaf: boolean;
+  streaming: boolean; // Go Live
+  video: boolean; // Camera on
+}
+
+export interface VoiceSessionData extends VoiceFlags {
+  id: string; // BIGSERIAL, returned as a string
+  guild_id: string;
+  channel_id: string;
+  user_id: string;
+  joined_at: Date;
+  left_at?: Date; // Unset while the member is still in the channel
+  last_seen_at: Date;
+  flags_changed_at: Date;
+  // Time spent with each flag on, up to flags_changed_at
+  muted_seconds: number;
+  deafened_seconds: number;
+  streaming_seconds: number;
+  video_seconds: number;
+}
+
+export type MemberEventType =
+  | "join"
+  | "leave"
+  | "nickname"
+  | "username"
+  | "global_name"
+  | "avatar"
+  | "role_add"
+  | "role_remove"
+  | "timeout"
+  | "timeout_end"
+  | "boost"
+  | "boost_end";
+
+export interface MemberEventData {
+  id: string; // BIGSERIAL, returned as a string
+  guild_id: string;
+  user_id: string;
+  event_type: MemberEventType;
+  old_value?: string;
+  new_value?: string;
+  role_name?: string; // Resolved for role events when the role is stored
+  occurred_at: Date;
+}
+
+export interface MessageRevision {
+  id: number;
+  message_id: string;
+  content: string;
+  embeds?: string[];
+  attachments?: string[];
+  written_at: Date; // When this version was posted or last edited
+  replaced_at: Date; // When the next edit replaced it
+}
+
+export interface MessageHistory {
+  message: MessageData;
+  revisions: MessageRevision[]; // Oldest first; message holds the current version
+}
+
+export interface EdgeData {
+  guild_id: string;
+  user_a: string; // Directed: counters are from user_a's perspective
+  user_b: string;
+  last_interaction: Date;
+  msg_a_to_b: number;
+  msg_b_to_a: number;
+  mentions: number;
+  replies: number;
+  reactions: number;
+  voice_seconds: number; // Time both users spent in the same voice channel
+  rolling_7d: number;
+  rolling_30d: number;
+  total: number;
+  affinity_score: number; // Decayed score as of score_updated_at
+  score_updated_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// An edge's interactions on one day (UTC), booked when they happened
+export interface RelationshipActivityData {
+  guild_id: string;
+  user_a: string;
+  user_b: string;
+  day: string; // YYYY-MM-DD
+  messages: number; // Both msg_a_to_b and msg_b_to_a
+  mentions: number;
+  replies: number;
+  reactions: number;
+  voice_seconds: number;
+}
+
+export interface SegmentData {
+  id: string;
+  guild_id: string;
+  channel_id: string;
+  participants: string[];
+  start_time: Date;
+  end_time: Date;
+  message_ids: string[];
+  message_count: number;
+  features: Record<string, any>;
+  summary?: string;
+  created_at: Date;
+}
+
+export interface MessageSearchOptions {
+  guildId: string;
+  // Web-search syntax: "exact phrase", -excluded, either OR other
+  query: string;
+  channelId?: string;
+  excludeChannelIds?: string[];
+  authorId?: string;
+  after?: Date;
+  before?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MessageSearchResult {
+  id: string;
+  channel_id: string;
+  author_id: string;
+  content: string;
+  created_at: Date;
+  display_name?: string;
+  username?: string;
+  rank: number;
+  // Matching fragments with hits wrapped in ** for Discord markdown
+  snippet: string;
 }
 
+// Reconnect delays double from the base up to the cap
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60000;
+
+// Open voice sessions are touched more often than this (see
+// touchVoiceSessions), so one that wasn't is ended this long after last seen
+const VOICE_SESSION_STALE_SECONDS = 10 * 60;
+// Time in voice together that counts as one interaction in edge totals
+const VOICE_SECONDS_PER_INTERACTION = 5 * 60;
+
 export class PostgreSQLManager {
   private pool: Pool | null = null;
+  // Optional read replica for heavy analytical reads; null when not configured
+  private replicaPool: Pool | null = null;
   private isConnectedFlag = false;
+  private isReplicaHealthy = false;
+  private healthTimer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  private reconnectAttempts = 0;
+  private isCheckingHealth = false;
 
   constructor() {
     if (!config.postgresUrl) {
@@ -136,21 +436,16 @@ export class PostgreSQLManager {
     }
   }
 
-  async connect(): Promise<boolean> {
+  async connect(
+    options: { runMigrations?: boolean } = {}
+  ): Promise<boolean> {
     if (!config.postgresUrl) {
       console.log("🔸 PostgreSQL URL not configured");
       return false;
     }
 
     try {
-      this.pool = new Pool({
-        connectionString: config.postgresUrl,
-        max: 20,
-        idleTimeoutMillis: 30000,
-        connectionTimeoutMillis: 10000, // Increased from 2s to 10s
-        keepAlive: true,
-        keepAliveInitialDelayMillis: 10000,
-      });
+      this.pool = this.createPool(config.postgresUrl, "primary");
 
       // Test the connection
       const client = await this.pool.connect();
@@ -158,19 +453,41 @@ export class PostgreSQLManager {
       client.release();
 
       this.isConnectedFlag = true;
+      this.reconnectAttempts = 0;
+
+      // Apply pending schema migrations (the migrate:schema script opts out)
+      if (options.runMigrations !== false) {
+        const migrated = await this.initializeSchema();
+        if (!migrated) {
+          await this.disconnect();
+          return false;
+        }
+      }
 
-      // Initialize schema
-      await this.initializeSchema();
+      if (config.postgresReplicaUrl) {
+        await this.connectReplica(config.postgresReplicaUrl);
+      }
 
+      this.startHealthChecks();
       return true;
     } catch (error) {
       console.error("🔸 Failed to connect to PostgreSQL:", error);
       this.isConnectedFlag = false;
+      await this.closePool(this.pool);
+      this.pool = null;
       return false;
     }
   }
 
   async disconnect(): Promise<void> {
+    this.stopHealthChecks();
+
+    if (this.replicaPool) {
+      await this.closePool(this.replicaPool);
+      this.replicaPool = null;
+      this.isReplicaHealthy = false;
+    }
+
     if (this.pool) {
       await this.pool.end();
       this.pool = null;
@@ -183,225 +500,238 @@ export class PostgreSQLManager {
     return this.isConnectedFlag && this.pool !== null;
   }
 
-  private async initializeSchema(): Promise<void> {
-    if (!this.isConnected()) return;
+  /**
+   * Whether reads passed to readQuery are currently served by the replica
+   */
+  isUsingReplica(): boolean {
+    return this.replicaPool !== null && this.isReplicaHealthy;
+  }
 
-    const client = await this.pool!.connect();
+  /**
+   * Build a pool whose idle-client errors mark the database unhealthy instead
+   * of crashing the process (pg emits "error" when the server drops a socket)
+   */
+  private createPool(connectionString: string, role: "primary" | "replica"): Pool {
+    const pool = new Pool({
+      connectionString,
+      max: config.postgresPoolMax,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 10000, // Increased from 2s to 10s
+      keepAlive: true,
+      keepAliveInitialDelayMillis: 10000,
+    });
+
+    pool.on("error", (error) => {
+      console.error(`🔸 PostgreSQL ${role} pool error:`, error.message);
+      if (role === "primary") {
+        void this.checkHealth();
+      } else {
+        this.isReplicaHealthy = false;
+      }
+    });
+
+    return pool;
+  }
+
+  private async closePool(pool: Pool | null): Promise<void> {
+    if (!pool) return;
     try {
-      // Create tables if they don't exist
-      await client.query(`
-				CREATE TABLE IF NOT EXISTS guilds (
-					id VARCHAR(20) PRIMARY KEY,
-					name VARCHAR(100) NOT NULL,
-					description TEXT,
-					icon VARCHAR(100),
-					owner_id VARCHAR(20) NOT NULL,
-					created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					member_count INTEGER DEFAULT 0,
-					active BOOLEAN DEFAULT true,
-					updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-				)
-			`);
-
-      await client.query(`
-				CREATE TABLE IF NOT EXISTS channels (
-					id VARCHAR(20) PRIMARY KEY,
-					guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
-					name VARCHAR(100) NOT NULL,
-					type INTEGER NOT NULL,
-					position INTEGER,
-					topic TEXT,
-					nsfw BOOLEAN DEFAULT false,
-					parent_id VARCHAR(20),
-					active BOOLEAN DEFAULT true,
-					created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-				)
-			`);
-
-      await client.query(`
-				CREATE TABLE IF NOT EXISTS roles (
-					id VARCHAR(20) PRIMARY KEY,
-					guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
-					name VARCHAR(100) NOT NULL,
-					color INTEGER DEFAULT 0,
-					position INTEGER DEFAULT 0,
-					permissions VARCHAR(20) DEFAULT '0',
-					mentionable BOOLEAN DEFAULT false,
-					hoist BOOLEAN DEFAULT false,
-					active BOOLEAN DEFAULT true,
-					created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-				)
-			`);
-
-      await client.query(`
-				CREATE TABLE IF NOT EXISTS members (
-					id VARCHAR(50) PRIMARY KEY,
-					guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
-					user_id VARCHAR(20) NOT NULL,
-					
-					-- User profile data
-					username VARCHAR(100) NOT NULL,
-					display_name VARCHAR(100) NOT NULL,
-					global_name VARCHAR(100),
-					avatar VARCHAR(100),
-					avatar_decoration VARCHAR(100),
-					banner VARCHAR(100),
-					accent_color INTEGER,
-					discriminator VARCHAR(10) NOT NULL,
-					bio TEXT,
-					flags INTEGER,
-					premium_type INTEGER,
-					public_flags INTEGER,
-					bot BOOLEAN DEFAULT false,
-					system BOOLEAN DEFAULT false,
-					
-					-- Guild-specific member data
-					nick VARCHAR(100),
-					joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					roles TEXT[] DEFAULT '{}',
-					permissions VARCHAR(20) DEFAULT '0',
-					communication_disabled_until TIMESTAMP WITH TIME ZONE,
-					pending BOOLEAN DEFAULT false,
-					premium_since TIMESTAMP WITH TIME ZONE,
-					timeout TIMESTAMP WITH TIME ZONE,
-					
-					-- Activity and presence
-					status VARCHAR(20),
-					activities TEXT,
-					client_status TEXT,
-					
-					-- Relationship metadata
-					summary TEXT,
-					keywords TEXT[],
-					emojis TEXT[],
-					notes TEXT[],
-					relationship_network JSONB DEFAULT '[]',
-					
-					-- Metadata
-					active BOOLEAN DEFAULT true,
-					created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					UNIQUE(guild_id, user_id)
-				)
-			`);
-
-      await client.query(`
-				CREATE TABLE IF NOT EXISTS messages (
-					id VARCHAR(20) PRIMARY KEY,
-					guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
-					channel_id VARCHAR(20) NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
-					author_id VARCHAR(20) NOT NULL,
-					content TEXT NOT NULL,
-					created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					edited_at TIMESTAMP WITH TIME ZONE,
-					attachments TEXT[],
-					embeds TEXT[],
-					referenced_message_id VARCHAR(20) REFERENCES messages(id) ON DELETE SET NULL,
-					active BOOLEAN DEFAULT true
-				)
-			`);
-
-      // Add referenced_message_id column if it doesn't exist (migration for existing databases)
-      await client.query(`
-        DO $$ 
-        BEGIN
-          IF NOT EXISTS (
-            SELECT 1 FROM information_schema.columns 
-            WHERE table_name = 'messages' AND column_name = 'referenced_message_id'
-          ) THEN
-            ALTER TABLE messages ADD COLUMN referenced_message_id VARCHAR(20) REFERENCES messages(id) ON DELETE SET NULL;
-          END IF;
-        END $$;
-      `);
-
-      // Relationship edges - directed dyads for realtime updates
-      await client.query(`
-				CREATE TABLE IF NOT EXISTS relationship_edges (
-					guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
-					user_a VARCHAR(20) NOT NULL,
-					user_b VARCHAR(20) NOT NULL,
-					last_interaction TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					msg_a_to_b INTEGER DEFAULT 0,
-					msg_b_to_a INTEGER DEFAULT 0,
-					mentions INTEGER DEFAULT 0,
-					replies INTEGER DEFAULT 0,
-					reactions INTEGER DEFAULT 0,
-					rolling_7d INTEGER DEFAULT 0,
-					rolling_30d INTEGER DEFAULT 0,
-					total INTEGER DEFAULT 0,
-					created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					PRIMARY KEY (guild_id, user_a, user_b)
-				)
-			`);
-
-      // Conversation segments - multi-participant conversations
-      await client.query(`
-				CREATE TABLE IF NOT EXISTS conversation_segments (
-					id VARCHAR(50) PRIMARY KEY,
-					guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
-					channel_id VARCHAR(20) NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
-					participants TEXT[] NOT NULL,
-					start_time TIMESTAMP WITH TIME ZONE NOT NULL,
-					end_time TIMESTAMP WITH TIME ZONE NOT NULL,
-					message_ids TEXT[] NOT NULL,
-					message_count INTEGER NOT NULL,
-					features JSONB DEFAULT '{}',
-					summary TEXT,
-					created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-				)
-			`);
-
-      // Relationship pairs - optional cache for quick undirected reads
-      await client.query(`
-				CREATE TABLE IF NOT EXISTS relationship_pairs (
-					guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
-					u_min VARCHAR(20) NOT NULL,
-					u_max VARCHAR(20) NOT NULL,
-					last_interaction TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					total_interactions INTEGER DEFAULT 0,
-					segment_ids TEXT[] DEFAULT '{}',
-					created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-					PRIMARY KEY (guild_id, u_min, u_max),
-					CHECK (u_min < u_max)
-				)
-			`);
-
-      // Add last_message_id to channels for watermark tracking
-      await client.query(`
-				ALTER TABLE channels
-				ADD COLUMN IF NOT EXISTS last_message_id VARCHAR(20),
-				ADD COLUMN IF NOT EXISTS last_message_sync TIMESTAMP WITH TIME ZONE
-			`);
-
-      // Create indexes for better performance
-      await client.query(`
-				CREATE INDEX IF NOT EXISTS idx_channels_guild_id ON channels(guild_id);
-				CREATE INDEX IF NOT EXISTS idx_roles_guild_id ON roles(guild_id);
-				CREATE INDEX IF NOT EXISTS idx_members_guild_id ON members(guild_id);
-				CREATE INDEX IF NOT EXISTS idx_members_user_id ON members(user_id);
-				CREATE INDEX IF NOT EXISTS idx_messages_guild_id ON messages(guild_id);
-				CREATE INDEX IF NOT EXISTS idx_messages_channel_id ON messages(channel_id);
-				CREATE INDEX IF NOT EXISTS idx_messages_author_id ON messages(author_id);
-				CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
-				CREATE INDEX IF NOT EXISTS idx_relationship_edges_guild ON relationship_edges(guild_id);
-				CREATE INDEX IF NOT EXISTS idx_relationship_edges_user_a ON relationship_edges(user_a);
-				CREATE INDEX IF NOT EXISTS idx_relationship_edges_user_b ON relationship_edges(user_b);
-				CREATE INDEX IF NOT EXISTS idx_relationship_edges_last_interaction ON relationship_edges(last_interaction);
-				CREATE INDEX IF NOT EXISTS idx_conversation_segments_guild ON conversation_segments(guild_id);
-				CREATE INDEX IF NOT EXISTS idx_conversation_segments_channel ON conversation_segments(channel_id);
-				CREATE INDEX IF NOT EXISTS idx_conversation_segments_participants ON conversation_segments USING GIN(participants);
-				CREATE INDEX IF NOT EXISTS idx_conversation_segments_start_time ON conversation_segments(start_time);
-				CREATE INDEX IF NOT EXISTS idx_relationship_pairs_guild ON relationship_pairs(guild_id);
-				CREATE INDEX IF NOT EXISTS idx_relationship_pairs_users ON relationship_pairs(u_min, u_max);
-			`);
+      await pool.end();
+    } catch {
+      // Already closed or the server went away; nothing left to release
+    }
+  }
+
+  /**
+   * Connect the read replica. Failure is not fatal: reads fall back to the
+   * primary and the health probe keeps retrying.
+   */
+  private async connectReplica(connectionString: string): Promise<void> {
+    this.replicaPool = this.createPool(connectionString, "replica");
+    this.isReplicaHealthy = await this.probe(this.replicaPool);
+
+    if (this.isReplicaHealthy) {
+      console.log("🔹 PostgreSQL read replica connected");
+    } else {
+      console.warn(
+        "🔸 PostgreSQL read replica unavailable, reads will use the primary"
+      );
+    }
+  }
+
+  private async probe(pool: Pool): Promise<boolean> {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query("SELECT 1");
+        return true;
+      } finally {
+        client.release();
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  // ============================================================================
+  // Connection Health - Periodic probe and reconnect with backoff
+  // ============================================================================
+
+  private startHealthChecks(): void {
+    this.stopHealthChecks();
+    this.healthTimer = setInterval(() => {
+      void this.checkHealth();
+    }, config.postgresHealthCheckIntervalMs);
+    // Don't keep short-lived scripts alive just for the probe
+    this.healthTimer.unref();
+  }
+
+  private stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+  }
+
+  /**
+   * Probe the primary (and replica) and update isConnected(). A failed
+   * primary probe schedules a reconnect.
+   */
+  async checkHealth(): Promise<boolean> {
+    if (!this.pool || this.isCheckingHealth || this.reconnectTimer) {
+      return this.isConnected();
+    }
+
+    this.isCheckingHealth = true;
+    try {
+      const healthy = await this.probe(this.pool);
+      if (!healthy && this.isConnectedFlag) {
+        console.error("🔸 PostgreSQL health check failed, reconnecting");
+      }
+      this.isConnectedFlag = healthy;
+      if (!healthy) {
+        this.scheduleReconnect();
+      }
+
+      if (this.replicaPool) {
+        const replicaHealthy = await this.probe(this.replicaPool);
+        if (replicaHealthy !== this.isReplicaHealthy) {
+          console.log(
+            replicaHealthy
+              ? "🔹 PostgreSQL read replica recovered"
+              : "🔸 PostgreSQL read replica unhealthy, reads will use the primary"
+          );
+        }
+        this.isReplicaHealthy = replicaHealthy;
+      }
+
+      return healthy;
+    } finally {
+      this.isCheckingHealth = false;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || !config.postgresUrl) return;
+
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts,
+      RECONNECT_MAX_DELAY_MS
+    );
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      void this.reconnect();
+    }, delay);
+    this.reconnectTimer.unref();
+  }
+
+  /**
+   * Replace the primary pool with a fresh one; on failure try again later
+   */
+  private async reconnect(): Promise<void> {
+    if (!config.postgresUrl) return;
+
+    const previous = this.pool;
+    const next = this.createPool(config.postgresUrl, "primary");
+
+    const healthy = await this.probe(next);
+    // disconnect() ran while we were probing
+    if (this.pool !== previous) {
+      await this.closePool(next);
+      return;
+    }
+
+    if (healthy) {
+      this.pool = next;
+      this.isConnectedFlag = true;
+      console.log(
+        `✅ Reconnected to PostgreSQL after ${this.reconnectAttempts} attempt(s)`
+      );
+      this.reconnectAttempts = 0;
+      await this.closePool(previous);
+      return;
+    }
+
+    await this.closePool(next);
+    console.error(
+      `🔸 PostgreSQL reconnect attempt ${this.reconnectAttempts} failed`
+    );
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Bring the schema up to date by applying pending migrations
+   */
+  private async initializeSchema(): Promise<boolean> {
+    if (!this.isConnected()) return false;
+
+    const runner = new MigrationRunner(this);
+    const result = await runner.migrateUp();
+    if (!result.success) {
+      console.error("🔸 Failed to migrate PostgreSQL schema:", result.error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Run work on a single pooled client inside BEGIN/COMMIT, rolling back on
+   * error. A client that can't roll back is discarded rather than returned
+   * to the pool mid-transaction.
+   */
+  async withTransaction<T>(
+    work: (client: PoolClient) => Promise<T>
+  ): Promise<DatabaseResult<T>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    let client: PoolClient | undefined;
+    let rollbackError: Error | undefined;
+    try {
+      client = await this.pool!.connect();
+      await client.query("BEGIN");
+      const data = await work(client);
+      await client.query("COMMIT");
+      return { success: true, data };
     } catch (error) {
-      console.error("🔸 Failed to initialize PostgreSQL schema:", error);
+      await client?.query("ROLLBACK").catch((err: Error) => {
+        rollbackError = err;
+      });
+      console.error("🔸 Transaction failed:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
     } finally {
-      client.release();
+      client?.release(rollbackError);
     }
   }
 
@@ -461,8 +791,15 @@ export class PostgreSQLManager {
     const client = await this.pool!.connect();
     try {
       const query = `
-				INSERT INTO channels (id, guild_id, name, type, position, topic, nsfw, parent_id, active, updated_at)
-				VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+				INSERT INTO channels (
+					id, guild_id, name, type, position, topic, nsfw, parent_id, active,
+					is_thread, owner_id, archived, locked, archived_at, applied_tags,
+					permission_overwrites, updated_at
+				)
+				VALUES (
+					$1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+					COALESCE($16::jsonb, '[]'::jsonb), NOW()
+				)
 				ON CONFLICT (id) DO UPDATE SET
 					name = EXCLUDED.name,
 					type = EXCLUDED.type,
@@ -471,6 +808,13 @@ export class PostgreSQLManager {
 					nsfw = EXCLUDED.nsfw,
 					parent_id = EXCLUDED.parent_id,
 					active = EXCLUDED.active,
+					is_thread = EXCLUDED.is_thread,
+					owner_id = EXCLUDED.owner_id,
+					archived = EXCLUDED.archived,
+					locked = EXCLUDED.locked,
+					archived_at = EXCLUDED.archived_at,
+					applied_tags = EXCLUDED.applied_tags,
+					permission_overwrites = COALESCE($16::jsonb, channels.permission_overwrites),
 					updated_at = NOW()
 				RETURNING *
 			`;
@@ -485,6 +829,15 @@ export class PostgreSQLManager {
         channelData.nsfw,
         channelData.parent_id,
         channelData.active,
+        channelData.is_thread ?? false,
+        channelData.owner_id,
+        channelData.archived ?? false,
+        channelData.locked ?? false,
+        channelData.archived_at,
+        channelData.applied_tags || [],
+        channelData.permission_overwrites
+          ? JSON.stringify(channelData.permission_overwrites)
+          : null,
       ];
 
       const result = await client.query(query, values);
@@ -644,10 +997,82 @@ export class PostgreSQLManager {
     }
   }
 
+  /**
+   * Mark stored members who are no longer in the guild as inactive, e.g.
+   * after leaving while the bot was offline
+   */
+  async deactivateMissingMembers(
+    guildId: string,
+    currentUserIds: string[]
+  ): Promise<DatabaseResult<number>> {
+    const result = await this.query(
+      `UPDATE members SET active = false, updated_at = NOW()
+       WHERE guild_id = $1 AND active = true
+         AND NOT (user_id = ANY($2::text[]))`,
+      [guildId, currentUserIds]
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data?.rowCount || 0 };
+  }
+
+  /**
+   * Update stored roles and guild-level permissions for members after a role
+   * or member change, without touching the rest of their profile
+   */
+  async updateMemberPermissions(
+    guildId: string,
+    members: { user_id: string; roles: string[]; permissions: string }[]
+  ): Promise<DatabaseResult<number>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+    if (members.length === 0) {
+      return { success: true, data: 0 };
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      // Roles travel as JSON because UNNEST can't produce an array per row
+      const result = await client.query(
+        `
+        UPDATE members m
+        SET roles = ARRAY(SELECT jsonb_array_elements_text(u.roles)),
+            permissions = u.permissions,
+            updated_at = NOW()
+        FROM UNNEST($2::text[], $3::jsonb[], $4::text[])
+          AS u(user_id, roles, permissions)
+        WHERE m.guild_id = $1 AND m.user_id = u.user_id
+      `,
+        [
+          guildId,
+          members.map((m) => m.user_id),
+          members.map((m) => JSON.stringify(m.roles)),
+          members.map((m) => m.permissions),
+        ]
+      );
+      return { success: true, data: result.rowCount || 0 };
+    } catch (error) {
+      console.error("🔸 Failed to update member permissions:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
   // Message operations
+
+  /**
+   * Insert or update a message. inserted is false when the row already
+   * existed, so a replayed live event isn't tracked twice.
+   */
   async upsertMessage(
     messageData: MessageData
-  ): Promise<DatabaseResult<MessageData>> {
+  ): Promise<DatabaseResult<MessageData & { inserted: boolean }>> {
     if (!this.isConnected()) {
       return { success: false, error: "Database not connected" };
     }
@@ -657,28 +1082,31 @@ export class PostgreSQLManager {
       // If referenced_message_id is provided, verify it exists in the database
       // If it doesn't exist, set it to NULL to avoid foreign key constraint violations
       let referencedMessageId = messageData.referenced_message_id || null;
+      let pendingReferenceId: string | null = null;
       if (referencedMessageId) {
         const checkResult = await client.query(
           "SELECT id FROM messages WHERE id = $1",
           [referencedMessageId]
         );
         if (!checkResult.rows || checkResult.rows.length === 0) {
-          // Referenced message doesn't exist yet, set to NULL
+          // Referenced message doesn't exist yet; the reply repair job links it
+          pendingReferenceId = referencedMessageId;
           referencedMessageId = null;
         }
       }
 
       const query = `
-				INSERT INTO messages (id, guild_id, channel_id, author_id, content, created_at, edited_at, attachments, embeds, referenced_message_id, active)
-				VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+				INSERT INTO messages (id, guild_id, channel_id, author_id, content, created_at, edited_at, attachments, embeds, referenced_message_id, active, pending_reference_id)
+				VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
 				ON CONFLICT (id) DO UPDATE SET
 					content = EXCLUDED.content,
 					edited_at = EXCLUDED.edited_at,
 					attachments = EXCLUDED.attachments,
 					embeds = EXCLUDED.embeds,
 					referenced_message_id = EXCLUDED.referenced_message_id,
-					active = EXCLUDED.active
-				RETURNING *
+					active = EXCLUDED.active,
+					pending_reference_id = EXCLUDED.pending_reference_id
+				RETURNING *, (xmax = 0) AS inserted
 			`;
 
       const values = [
@@ -693,6 +1121,7 @@ export class PostgreSQLManager {
         messageData.embeds,
         referencedMessageId,
         messageData.active,
+        pendingReferenceId,
       ];
 
       const result = await client.query(query, values);
@@ -708,20 +1137,255 @@ export class PostgreSQLManager {
     }
   }
 
-  // Query operations
-  async query(text: string, params?: any[]): Promise<DatabaseResult<any[] & { rowCount?: number }>> {
-    if (!this.isConnected()) {
-      return { success: false, error: "Database not connected" };
-    }
+  /**
+   * Upsert a page of messages with one multi-row INSERT per chunk inside a single
+   * transaction. When a watermark is given it commits in the same transaction, so
+   * it can never point past messages that failed to insert.
+   */
+  async upsertMessagesBatch(
+    messages: MessageData[],
+    watermark?: { channelId: string; messageId: string }
+  ): Promise<DatabaseResult<{ upserted: number }>> {
+    // ON CONFLICT cannot touch the same row twice in one statement
+    const unique = Array.from(
+      new Map(messages.map((m) => [m.id, m])).values()
+    );
+
+    return this.withTransaction(async (client) => {
+      // Null out references to messages that are neither stored nor in this batch
+      const batchIds = new Set(unique.map((m) => m.id));
+      const externalRefIds = Array.from(
+        new Set(
+          unique
+            .map((m) => m.referenced_message_id)
+            .filter((id): id is string => !!id && !batchIds.has(id))
+        )
+      );
+      const knownRefIds = new Set<string>(batchIds);
+      if (externalRefIds.length > 0) {
+        const refResult = await client.query(
+          "SELECT id FROM messages WHERE id = ANY($1::text[])",
+          [externalRefIds]
+        );
+        for (const row of refResult.rows) {
+          knownRefIds.add(row.id);
+        }
+      }
 
-    let retries = 3;
-    let lastError: Error | null = null;
+      const columnsPerRow = 12;
+      const rowsPerStatement = 500;
+      let upserted = 0;
+
+      for (let i = 0; i < unique.length; i += rowsPerStatement) {
+        const chunk = unique.slice(i, i + rowsPerStatement);
+        const values: any[] = [];
+        const placeholders = chunk.map((messageData, rowIndex) => {
+          const referenceKnown =
+            !!messageData.referenced_message_id &&
+            knownRefIds.has(messageData.referenced_message_id);
+          const referencedMessageId = referenceKnown
+            ? messageData.referenced_message_id
+            : null;
+          // Linked up by the reply repair job once the message is stored
+          const pendingReferenceId = referenceKnown
+            ? null
+            : messageData.referenced_message_id || null;
+          values.push(
+            messageData.id,
+            messageData.guild_id,
+            messageData.channel_id,
+            messageData.author_id,
+            messageData.content,
+            messageData.created_at,
+            messageData.edited_at,
+            messageData.attachments,
+            messageData.embeds,
+            referencedMessageId,
+            messageData.active,
+            pendingReferenceId
+          );
+          const base = rowIndex * columnsPerRow;
+          return `(${Array.from(
+            { length: columnsPerRow },
+            (_, col) => `$${base + col + 1}`
+          ).join(", ")})`;
+        });
+
+        const result = await client.query(
+          `
+          INSERT INTO messages (id, guild_id, channel_id, author_id, content, created_at, edited_at, attachments, embeds, referenced_message_id, active, pending_reference_id)
+          VALUES ${placeholders.join(", ")}
+          ON CONFLICT (id) DO UPDATE SET
+            content = EXCLUDED.content,
+            edited_at = EXCLUDED.edited_at,
+            attachments = EXCLUDED.attachments,
+            embeds = EXCLUDED.embeds,
+            referenced_message_id = EXCLUDED.referenced_message_id,
+            active = EXCLUDED.active,
+            pending_reference_id = EXCLUDED.pending_reference_id
+        `,
+          values
+        );
+        upserted += result.rowCount || 0;
+      }
 
-    while (retries > 0) {
-      const client = await this.pool!.connect().catch((err) => {
-        lastError = err;
-        return null;
-      });
+      if (watermark) {
+        // Only move the watermark forward (snowflakes grow over time)
+        await client.query(
+          `
+          UPDATE channels
+          SET last_message_id = $1, last_message_sync = NOW()
+          WHERE id = $2
+            AND (last_message_id IS NULL OR last_message_id::numeric < $1::numeric)
+        `,
+          [watermark.messageId, watermark.channelId]
+        );
+      }
+
+      return { upserted };
+    });
+  }
+
+  /**
+   * Soft-delete messages, keeping their content. The first deletion time is
+   * kept; deletedBy fills in the moderator once the audit log names one.
+   * Returns the stored rows, so callers can show what was deleted.
+   */
+  async markMessagesDeleted(
+    messageIds: string[],
+    deletedBy?: string,
+    deletedAt: Date = new Date()
+  ): Promise<DatabaseResult<MessageData[]>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+    if (messageIds.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `
+        UPDATE messages
+        SET active = false,
+            deleted_at = COALESCE(deleted_at, $3),
+            deleted_by = COALESCE($2, deleted_by)
+        WHERE id = ANY($1::text[])
+        RETURNING id, guild_id, channel_id, author_id, content, created_at, edited_at,
+                  attachments, embeds, referenced_message_id, active, deleted_at, deleted_by
+      `,
+        [messageIds, deletedBy || null, deletedAt]
+      );
+
+      return { success: true, data: result.rows };
+    } catch (error) {
+      console.error("🔸 Failed to mark messages deleted:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get a message with every earlier version recorded by the revisions trigger
+   */
+  async getMessageHistory(
+    messageId: string
+  ): Promise<DatabaseResult<MessageHistory | null>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      const messageResult = await client.query(
+        `
+        SELECT id, guild_id, channel_id, author_id, content, created_at, edited_at,
+               attachments, embeds, referenced_message_id, active
+        FROM messages
+        WHERE id = $1
+      `,
+        [messageId]
+      );
+
+      const message = messageResult.rows[0];
+      if (!message) {
+        return { success: true, data: null };
+      }
+
+      const revisionsResult = await client.query(
+        `
+        SELECT id, message_id, content, embeds, attachments, written_at, replaced_at
+        FROM message_revisions
+        WHERE message_id = $1
+        ORDER BY replaced_at ASC, id ASC
+      `,
+        [messageId]
+      );
+
+      return {
+        success: true,
+        data: {
+          message,
+          revisions: revisionsResult.rows.map((row) => ({
+            ...row,
+            id: Number(row.id),
+          })),
+        },
+      };
+    } catch (error) {
+      console.error("🔸 Failed to get message history:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  // Query operations
+  async query<Row = any>(text: string, params?: any[]): Promise<DatabaseResult<Row[] & { rowCount?: number }>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    return this.runQuery<Row>(this.pool!, text, params);
+  }
+
+  /**
+   * Run a read-only query on the read replica when one is configured and
+   * healthy, otherwise on the primary. Results may lag the primary slightly,
+   * so use it for analytical reads, never to read back a write.
+   */
+  async readQuery<Row = any>(text: string, params?: any[]): Promise<DatabaseResult<Row[] & { rowCount?: number }>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    return this.runQuery<Row>(this.getReadPool(), text, params);
+  }
+
+  private getReadPool(): Pool {
+    if (this.replicaPool && this.isReplicaHealthy) {
+      return this.replicaPool;
+    }
+    return this.pool!;
+  }
+
+  private async runQuery<Row>(pool: Pool, text: string, params?: any[]): Promise<DatabaseResult<Row[] & { rowCount?: number }>> {
+    let retries = 3;
+    let lastError: Error | null = null;
+
+    while (retries > 0) {
+      const client = await pool.connect().catch((err) => {
+        lastError = err;
+        return null;
+      });
 
       if (!client) {
         retries--;
@@ -729,6 +1393,7 @@ export class PostgreSQLManager {
           await new Promise((resolve) => setTimeout(resolve, 1000 * (4 - retries))); // Exponential backoff
           continue;
         }
+        void this.checkHealth();
         return {
           success: false,
           error: lastError?.message || "Failed to acquire connection",
@@ -738,7 +1403,7 @@ export class PostgreSQLManager {
       try {
         const result = await client.query(text, params);
         // Include rowCount for DELETE/UPDATE queries by attaching it to the array
-        const data = result.rows as any[];
+        const data = result.rows as Row[];
         if (data && Array.isArray(data)) {
           Object.defineProperty(data, 'rowCount', {
             value: result.rowCount,
@@ -763,6 +1428,9 @@ export class PostgreSQLManager {
 
         // Non-retryable error or out of retries
         console.error("🔸 Query failed:", lastError.message);
+        if (isConnectionError) {
+          void this.checkHealth();
+        }
         return {
           success: false,
           error: lastError.message,
@@ -1132,6 +1800,16 @@ export class PostgreSQLManager {
 
       const result = await client.query(query, [userId, guildId]);
 
+      // Names the member used before, from the profile change log
+      const history = await client.query(
+        `SELECT old_value FROM member_events
+         WHERE user_id = $1 AND guild_id = $2
+           AND event_type IN ('nickname', 'username', 'global_name')
+           AND old_value IS NOT NULL
+         ORDER BY occurred_at`,
+        [userId, guildId]
+      );
+
       // Collect all unique names
       const names = new Set<string>();
       result.rows.forEach((row) => {
@@ -1140,6 +1818,9 @@ export class PostgreSQLManager {
         if (row.global_name) names.add(row.global_name);
         if (row.nick) names.add(row.nick);
       });
+      for (const row of history.rows) {
+        names.add(row.old_value);
+      }
 
       return { success: true, data: Array.from(names) };
     } catch (error) {
@@ -1158,7 +1839,8 @@ export class PostgreSQLManager {
   // ============================================================================
 
   /**
-   * Upsert relationship edge counters (O(1) update for realtime)
+   * Upsert relationship edge counters (O(1) update for realtime). `at` is
+   * when the interaction happened, which its affinity decays from.
    */
   async upsertEdgeCounters(
     guildId: string,
@@ -1171,7 +1853,8 @@ export class PostgreSQLManager {
       replies?: number;
       reactions?: number;
       total?: number;
-    }
+    },
+    at: Date = new Date()
   ): Promise<DatabaseResult<void>> {
     if (!this.isConnected()) {
       return { success: false, error: "Database not connected" };
@@ -1182,9 +1865,10 @@ export class PostgreSQLManager {
       const query = `
         INSERT INTO relationship_edges (
           guild_id, user_a, user_b, 
-          last_interaction, msg_a_to_b, msg_b_to_a, mentions, replies, reactions, total
+          last_interaction, msg_a_to_b, msg_b_to_a, mentions, replies, reactions, total,
+          interaction_at
         )
-        VALUES ($1, $2, $3, NOW(), $4, $5, $6, $7, $8, $9)
+        VALUES ($1, $2, $3, $10, $4, $5, $6, $7, $8, $9, $10)
         ON CONFLICT (guild_id, user_a, user_b) DO UPDATE SET
           msg_a_to_b = relationship_edges.msg_a_to_b + EXCLUDED.msg_a_to_b,
           msg_b_to_a = relationship_edges.msg_b_to_a + EXCLUDED.msg_b_to_a,
@@ -1193,6 +1877,7 @@ export class PostgreSQLManager {
           reactions = relationship_edges.reactions + EXCLUDED.reactions,
           total = relationship_edges.total + EXCLUDED.total,
           last_interaction = GREATEST(relationship_edges.last_interaction, EXCLUDED.last_interaction),
+          interaction_at = EXCLUDED.interaction_at,
           updated_at = NOW()
       `;
 
@@ -1206,6 +1891,7 @@ export class PostgreSQLManager {
         delta.replies || 0,
         delta.reactions || 0,
         delta.total || 0,
+        at,
       ];
 
       await client.query(query, values);
@@ -1288,6 +1974,21 @@ export class PostgreSQLManager {
     }
   }
 
+  /**
+   * Rebuild a guild's affinity scores from the edge counters with its current
+   * weights and half-life. Returns how many edges were rescored.
+   */
+  async rescoreEdges(guildId: string): Promise<DatabaseResult<number>> {
+    const result = await this.query(
+      "SELECT rescore_relationship_edges($1) AS updated",
+      [guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: Number(result.data[0]?.updated) || 0 };
+  }
+
   /**
    * Update rolling windows (7d, 30d) for edges
    */
@@ -1330,6 +2031,24 @@ export class PostgreSQLManager {
     }
   }
 
+  /**
+   * Drop daily relationship activity from before the cutoff. Scores keep
+   * counting it; rescoring dates it like undated history. Returns how many
+   * rows were deleted.
+   */
+  async pruneRelationshipActivity(
+    before: Date
+  ): Promise<DatabaseResult<number>> {
+    const result = await this.query(
+      "DELETE FROM relationship_daily_activity WHERE day < $1::date",
+      [before]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.rowCount || 0 };
+  }
+
   // ============================================================================
   // Conversation Segments - Multi-participant Conversations
   // ============================================================================
@@ -1649,4 +2368,1455 @@ export class PostgreSQLManager {
       client.release();
     }
   }
+
+  // ============================================================================
+  // Sync Jobs - Resumable backfill checkpoints
+  // ============================================================================
+
+  /**
+   * Start or resume a channel backfill. An unfinished job keeps its
+   * checkpoint; a completed one starts over.
+   */
+  async startSyncJob(
+    guildId: string,
+    channelId: string
+  ): Promise<DatabaseResult<SyncJobData>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `
+        INSERT INTO sync_jobs (channel_id, guild_id)
+        VALUES ($1, $2)
+        ON CONFLICT (channel_id) DO UPDATE SET
+          status = 'running',
+          error = NULL,
+          newest_message_id = CASE WHEN sync_jobs.status = 'completed' THEN NULL ELSE sync_jobs.newest_message_id END,
+          oldest_message_id = CASE WHEN sync_jobs.status = 'completed' THEN NULL ELSE sync_jobs.oldest_message_id END,
+          message_count = CASE WHEN sync_jobs.status = 'completed' THEN 0 ELSE sync_jobs.message_count END,
+          active_ms = CASE WHEN sync_jobs.status = 'completed' THEN 0 ELSE sync_jobs.active_ms END,
+          started_at = CASE WHEN sync_jobs.status = 'completed' THEN NOW() ELSE sync_jobs.started_at END,
+          completed_at = NULL,
+          updated_at = NOW()
+        RETURNING *
+      `,
+        [channelId, guildId]
+      );
+      return { success: true, data: this.toSyncJobData(result.rows[0]) };
+    } catch (error) {
+      console.error("🔸 Failed to start sync job:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Record a committed page. newest_message_id is only set by the first page.
+   */
+  async checkpointSyncJob(
+    channelId: string,
+    page: {
+      newestMessageId: string;
+      oldestMessageId: string;
+      messages: number;
+      elapsedMs: number;
+    }
+  ): Promise<DatabaseResult<SyncJobData>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `
+        UPDATE sync_jobs
+        SET newest_message_id = COALESCE(newest_message_id, $2),
+            oldest_message_id = $3,
+            message_count = message_count + $4,
+            active_ms = active_ms + $5,
+            updated_at = NOW()
+        WHERE channel_id = $1
+        RETURNING *
+      `,
+        [
+          channelId,
+          page.newestMessageId,
+          page.oldestMessageId,
+          page.messages,
+          Math.round(page.elapsedMs),
+        ]
+      );
+      if (result.rows.length === 0) {
+        return { success: false, error: "Sync job not found" };
+      }
+      return { success: true, data: this.toSyncJobData(result.rows[0]) };
+    } catch (error) {
+      console.error("🔸 Failed to checkpoint sync job:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Mark a job completed, or failed with its error. A failed job keeps its
+   * checkpoint and resumes on the next start.
+   */
+  async finishSyncJob(
+    channelId: string,
+    error?: string
+  ): Promise<DatabaseResult<SyncJobData>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `
+        UPDATE sync_jobs
+        SET status = $2,
+            error = $3,
+            completed_at = CASE WHEN $2 = 'completed' THEN NOW() ELSE NULL END,
+            updated_at = NOW()
+        WHERE channel_id = $1
+        RETURNING *
+      `,
+        [channelId, error ? "failed" : "completed", error || null]
+      );
+      if (result.rows.length === 0) {
+        return { success: false, error: "Sync job not found" };
+      }
+      return { success: true, data: this.toSyncJobData(result.rows[0]) };
+    } catch (err) {
+      console.error("🔸 Failed to finish sync job:", err);
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get a channel's sync job, if it ever had one
+   */
+  async getSyncJob(
+    channelId: string
+  ): Promise<DatabaseResult<SyncJobData | null>> {
+    const result = await this.query(
+      "SELECT * FROM sync_jobs WHERE channel_id = $1",
+      [channelId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    const row = result.data[0];
+    return { success: true, data: row ? this.toSyncJobData(row) : null };
+  }
+
+  /**
+   * All sync jobs in a guild: unfinished first, then most recently updated
+   */
+  async getSyncJobs(guildId: string): Promise<DatabaseResult<SyncJobData[]>> {
+    const result = await this.readQuery(
+      `SELECT * FROM sync_jobs
+       WHERE guild_id = $1
+       ORDER BY (status = 'completed'), updated_at DESC`,
+      [guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return {
+      success: true,
+      data: result.data.map((row) => this.toSyncJobData(row)),
+    };
+  }
+
+  private toSyncJobData(row: any): SyncJobData {
+    return {
+      channel_id: row.channel_id,
+      guild_id: row.guild_id,
+      status: row.status,
+      newest_message_id: row.newest_message_id ?? undefined,
+      oldest_message_id: row.oldest_message_id ?? undefined,
+      message_count: Number(row.message_count),
+      active_ms: Number(row.active_ms), // BIGINT arrives as a string
+      error: row.error ?? undefined,
+      started_at: row.started_at,
+      updated_at: row.updated_at,
+      completed_at: row.completed_at ?? undefined,
+    };
+  }
+
+  // ============================================================================
+  // Maintenance Runs - History of scheduled maintenance jobs
+  // ============================================================================
+
+  async startMaintenanceRun(
+    job: string
+  ): Promise<DatabaseResult<MaintenanceRunData>> {
+    const result = await this.query(
+      "INSERT INTO maintenance_runs (job) VALUES ($1) RETURNING *",
+      [job]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: this.toMaintenanceRunData(result.data[0]) };
+  }
+
+  /**
+   * Mark a run completed with the job's counts, or failed with its error
+   */
+  async finishMaintenanceRun(
+    id: string,
+    details: Record<string, number>,
+    error?: string
+  ): Promise<DatabaseResult<MaintenanceRunData | null>> {
+    const result = await this.query(
+      `UPDATE maintenance_runs
+       SET status = $2, details = $3, error = $4, finished_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        id,
+        error ? "failed" : "completed",
+        JSON.stringify(details),
+        error || null,
+      ]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    const row = result.data[0];
+    return {
+      success: true,
+      data: row ? this.toMaintenanceRunData(row) : null,
+    };
+  }
+
+  /**
+   * Close runs left open when the bot stopped, and drop history older than
+   * the cutoff. Returns how many runs were interrupted.
+   */
+  async cleanUpMaintenanceRuns(before: Date): Promise<DatabaseResult<number>> {
+    const interrupted = await this.query(
+      `UPDATE maintenance_runs
+       SET status = 'interrupted', finished_at = NOW()
+       WHERE status = 'running'`
+    );
+    if (!interrupted.success || !interrupted.data) {
+      return { success: false, error: interrupted.error };
+    }
+
+    const pruned = await this.query(
+      "DELETE FROM maintenance_runs WHERE started_at < $1",
+      [before]
+    );
+    if (!pruned.success) {
+      return { success: false, error: pruned.error };
+    }
+    return { success: true, data: interrupted.data.rowCount || 0 };
+  }
+
+  /**
+   * The most recent run of each job
+   */
+  async getLatestMaintenanceRuns(): Promise<
+    DatabaseResult<MaintenanceRunData[]>
+  > {
+    const result = await this.query(
+      `SELECT DISTINCT ON (job) *
+       FROM maintenance_runs
+       ORDER BY job, started_at DESC, id DESC`
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return {
+      success: true,
+      data: result.data.map((row) => this.toMaintenanceRunData(row)),
+    };
+  }
+
+  /**
+   * Link replies stored before the message they reply to, now that it is.
+   * Returns how many references were resolved.
+   */
+  async resolvePendingReferences(): Promise<DatabaseResult<number>> {
+    const result = await this.query(
+      `UPDATE messages m
+       SET referenced_message_id = m.pending_reference_id,
+           pending_reference_id = NULL
+       FROM messages target
+       WHERE m.pending_reference_id IS NOT NULL
+         AND target.id = m.pending_reference_id`
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.rowCount || 0 };
+  }
+
+  private toMaintenanceRunData(row: any): MaintenanceRunData {
+    return {
+      id: String(row.id),
+      job: row.job,
+      status: row.status,
+      details: row.details || {},
+      error: row.error ?? undefined,
+      started_at: row.started_at,
+      finished_at: row.finished_at ?? undefined,
+    };
+  }
+
+  // ============================================================================
+  // Network Analytics - Cached communities and centrality per guild
+  // ============================================================================
+
+  /**
+   * Replace a guild's cached analysis and member metrics in one transaction
+   */
+  async replaceNetworkAnalysis(
+    analysis: Omit<NetworkAnalysisData, "computed_at">,
+    metrics: Omit<NetworkMemberMetricsData, "guild_id">[]
+  ): Promise<DatabaseResult<NetworkAnalysisData>> {
+    return this.withTransaction(async (client) => {
+      const result = await client.query(
+        `
+        INSERT INTO network_analyses (
+          guild_id, node_count, edge_count, community_count, modularity,
+          affinity_model, computed_at
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, NOW())
+        ON CONFLICT (guild_id) DO UPDATE SET
+          node_count = EXCLUDED.node_count,
+          edge_count = EXCLUDED.edge_count,
+          community_count = EXCLUDED.community_count,
+          modularity = EXCLUDED.modularity,
+          affinity_model = EXCLUDED.affinity_model,
+          computed_at = EXCLUDED.computed_at
+        RETURNING *
+      `,
+        [
+          analysis.guild_id,
+          analysis.node_count,
+          analysis.edge_count,
+          analysis.community_count,
+          analysis.modularity,
+          analysis.affinity_model,
+        ]
+      );
+
+      await client.query(
+        "DELETE FROM network_member_metrics WHERE guild_id = $1",
+        [analysis.guild_id]
+      );
+      if (metrics.length > 0) {
+        await client.query(
+          `
+          INSERT INTO network_member_metrics (
+            guild_id, user_id, community_id, pagerank, betweenness,
+            participation, degree, strength, is_bridge
+          )
+          SELECT $1, * FROM UNNEST(
+            $2::text[], $3::int[], $4::float8[], $5::float8[],
+            $6::float8[], $7::int[], $8::float8[], $9::boolean[]
+          )
+        `,
+          [
+            analysis.guild_id,
+            metrics.map((m) => m.user_id),
+            metrics.map((m) => m.community_id),
+            metrics.map((m) => m.pagerank),
+            metrics.map((m) => m.betweenness),
+            metrics.map((m) => m.participation),
+            metrics.map((m) => m.degree),
+            metrics.map((m) => m.strength),
+            metrics.map((m) => m.is_bridge),
+          ]
+        );
+      }
+
+      const row = result.rows[0];
+      return {
+        guild_id: row.guild_id,
+        node_count: row.node_count,
+        edge_count: row.edge_count,
+        community_count: row.community_count,
+        modularity: Number(row.modularity),
+        affinity_model: row.affinity_model,
+        computed_at: row.computed_at,
+      };
+    });
+  }
+
+  // ============================================================================
+  // Guild Settings
+  // ============================================================================
+
+  /**
+   * Get a guild's settings row, or null if /config was never used there
+   */
+  async getGuildSettings(
+    guildId: string
+  ): Promise<DatabaseResult<GuildSettingsData | null>> {
+    const result = await this.query(
+      "SELECT * FROM guild_settings WHERE guild_id = $1",
+      [guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    const row = result.data[0];
+    return { success: true, data: row ? this.toGuildSettingsData(row) : null };
+  }
+
+  /**
+   * Apply a partial update, creating the row on first use
+   */
+  async updateGuildSettings(
+    guildId: string,
+    update: GuildSettingsUpdate,
+    updatedBy: string
+  ): Promise<DatabaseResult<GuildSettingsData>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    const columns = (
+      [
+        "excluded_channel_ids",
+        "private_channel_ids",
+        "ai_provider",
+        "ai_persona",
+        "log_channel_id",
+        "affinity_model",
+        "affinity_half_life_days",
+        "affinity_weights",
+      ] as const
+    ).filter((column) => update[column] !== undefined);
+    const values = columns.map((column) => update[column]);
+
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `
+        INSERT INTO guild_settings (guild_id, updated_by, updated_at${columns.map((c) => `, ${c}`).join("")})
+        VALUES ($1, $2, NOW()${columns.map((_, i) => `, $${i + 3}`).join("")})
+        ON CONFLICT (guild_id) DO UPDATE SET
+          ${columns.map((c) => `${c} = EXCLUDED.${c}, `).join("")}updated_by = EXCLUDED.updated_by,
+          updated_at = NOW()
+        RETURNING *
+      `,
+        [guildId, updatedBy, ...values]
+      );
+      return { success: true, data: this.toGuildSettingsData(result.rows[0]) };
+    } catch (error) {
+      console.error("🔸 Failed to update guild settings:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  private toGuildSettingsData(row: any): GuildSettingsData {
+    return {
+      guild_id: row.guild_id,
+      excluded_channel_ids: row.excluded_channel_ids || [],
+      private_channel_ids: row.private_channel_ids || [],
+      ai_provider: row.ai_provider ?? undefined,
+      ai_persona: row.ai_persona ?? undefined,
+      log_channel_id: row.log_channel_id ?? undefined,
+      affinity_model: row.affinity_model ?? undefined,
+      affinity_half_life_days: row.affinity_half_life_days ?? undefined,
+      affinity_weights: row.affinity_weights ?? undefined,
+      updated_by: row.updated_by ?? undefined,
+      updated_at: row.updated_at ?? undefined,
+    };
+  }
+
+  /**
+   * Delete everything stored from channels that are now excluded, including
+   * their threads and forum posts. The channel rows stay (with their sync
+   * watermark cleared) so names still resolve; relationship edges, pairs and
+   * daily activity are aggregates and are left as they are. Returns the
+   * archived attachment files left unreferenced, for the caller to remove.
+   */
+  async purgeChannelData(
+    guildId: string,
+    channelIds: string[]
+  ): Promise<
+    DatabaseResult<{
+      messages: number;
+      reactions: number;
+      segments: number;
+      archived_files: string[]; // No longer referenced, relative to the archive root
+    }>
+  > {
+    return this.withTransaction(async (client) => {
+      if (channelIds.length === 0) {
+        return { messages: 0, reactions: 0, segments: 0, archived_files: [] };
+      }
+
+      const targetsResult = await client.query(
+        `
+        SELECT id FROM channels
+        WHERE guild_id = $1
+          AND (id = ANY($2::text[]) OR parent_id = ANY($2::text[]))
+      `,
+        [guildId, channelIds]
+      );
+      const targets = Array.from(
+        new Set([...channelIds, ...targetsResult.rows.map((row) => row.id)])
+      );
+
+      // Reactions have no foreign key to messages, so they don't cascade
+      const reactions = await client.query(
+        "DELETE FROM message_reactions WHERE channel_id = ANY($1::text[])",
+        [targets]
+      );
+      const segments = await client.query(
+        "DELETE FROM conversation_segments WHERE channel_id = ANY($1::text[])",
+        [targets]
+      );
+      // Archived files are shared by identical attachments; only those no
+      // other channel's attachment uses can be removed
+      const files = await client.query(
+        `
+        SELECT DISTINCT a.archived_path FROM attachments a
+        WHERE a.channel_id = ANY($1::text[])
+          AND a.archived_path IS NOT NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM attachments other
+            WHERE other.archived_path = a.archived_path
+              AND NOT (other.channel_id = ANY($1::text[]))
+          )
+      `,
+        [targets]
+      );
+      // Revisions and attachments cascade with their messages
+      const messages = await client.query(
+        "DELETE FROM messages WHERE channel_id = ANY($1::text[])",
+        [targets]
+      );
+      await client.query(
+        "DELETE FROM sync_jobs WHERE channel_id = ANY($1::text[])",
+        [targets]
+      );
+      await client.query(
+        "DELETE FROM voice_sessions WHERE channel_id = ANY($1::text[])",
+        [targets]
+      );
+      await client.query(
+        `
+        UPDATE channels
+        SET last_message_id = NULL, last_message_sync = NULL
+        WHERE id = ANY($1::text[])
+      `,
+        [targets]
+      );
+
+      return {
+        messages: messages.rowCount || 0,
+        reactions: reactions.rowCount || 0,
+        segments: segments.rowCount || 0,
+        archived_files: files.rows.map((row) => row.archived_path as string),
+      };
+    });
+  }
+
+  // ============================================================================
+  // Threads and Forum Tags
+  // ============================================================================
+
+  /**
+   * Replace a forum channel's tag list. Tags removed in Discord are kept
+   * inactive so posts that still carry their IDs can be resolved.
+   */
+  async upsertForumTags(
+    channelId: string,
+    tags: ForumTagData[]
+  ): Promise<DatabaseResult<void>> {
+    const result = await this.withTransaction(async (client) => {
+      for (const tag of tags) {
+        await client.query(
+          `
+          INSERT INTO forum_tags (id, guild_id, channel_id, name, emoji_id, emoji_name, moderated, active, updated_at)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, true, NOW())
+          ON CONFLICT (id) DO UPDATE SET
+            name = EXCLUDED.name,
+            emoji_id = EXCLUDED.emoji_id,
+            emoji_name = EXCLUDED.emoji_name,
+            moderated = EXCLUDED.moderated,
+            active = true,
+            updated_at = NOW()
+        `,
+          [
+            tag.id,
+            tag.guild_id,
+            channelId,
+            tag.name,
+            tag.emoji_id || null,
+            tag.emoji_name || null,
+            tag.moderated,
+          ]
+        );
+      }
+
+      await client.query(
+        `
+        UPDATE forum_tags
+        SET active = false, updated_at = NOW()
+        WHERE channel_id = $1 AND active = true AND NOT (id = ANY($2::text[]))
+      `,
+        [channelId, tags.map((tag) => tag.id)]
+      );
+    });
+
+    if (!result.success) {
+      console.error("🔸 Failed to upsert forum tags:", result.error);
+    }
+    return result;
+  }
+
+  /**
+   * Mark a channel or thread as gone from Discord. Its messages are kept.
+   */
+  async deactivateChannel(channelId: string): Promise<DatabaseResult<void>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      await client.query(
+        "UPDATE channels SET active = false, updated_at = NOW() WHERE id = $1",
+        [channelId]
+      );
+      return { success: true };
+    } catch (error) {
+      console.error("🔸 Failed to deactivate channel:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  // ============================================================================
+  // Message Reactions - One row per message, user and emoji
+  // ============================================================================
+
+  /**
+   * Record a live reaction. Returns added=false when the reaction was already
+   * active, so callers don't count a duplicate gateway event twice.
+   */
+  async addReaction(
+    reaction: ReactionData
+  ): Promise<DatabaseResult<{ added: boolean }>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `
+        INSERT INTO message_reactions (
+          message_id, guild_id, channel_id, user_id, message_author_id,
+          emoji, emoji_name, added_at, counted_in_edges
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, NOW()), $9)
+        ON CONFLICT (message_id, user_id, emoji) DO UPDATE SET
+          message_author_id = COALESCE(EXCLUDED.message_author_id, message_reactions.message_author_id),
+          emoji_name = EXCLUDED.emoji_name,
+          added_at = EXCLUDED.added_at,
+          removed_at = NULL,
+          counted_in_edges = EXCLUDED.counted_in_edges
+        WHERE message_reactions.removed_at IS NOT NULL
+      `,
+        [
+          reaction.message_id,
+          reaction.guild_id,
+          reaction.channel_id,
+          reaction.user_id,
+          reaction.message_author_id || null,
+          reaction.emoji,
+          reaction.emoji_name || null,
+          reaction.added_at || null,
+          reaction.counted_in_edges ?? false,
+        ]
+      );
+
+      return { success: true, data: { added: (result.rowCount || 0) > 0 } };
+    } catch (error) {
+      console.error("🔸 Failed to add reaction:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Mark active reactions on a message as removed, optionally only one user's
+   * or one emoji's, and reverse the edge counters they contributed to.
+   * Returns the user pairs whose edges changed.
+   */
+  async removeReactions(
+    messageId: string,
+    filter: { userId?: string; emoji?: string } = {}
+  ): Promise<
+    DatabaseResult<{ guildId: string; reactorId: string; authorId: string }[]>
+  > {
+    return this.withTransaction(async (client) => {
+      const conditions = ["message_id = $1", "removed_at IS NULL"];
+      const params: any[] = [messageId];
+      if (filter.userId) {
+        params.push(filter.userId);
+        conditions.push(`user_id = $${params.length}`);
+      }
+      if (filter.emoji) {
+        params.push(filter.emoji);
+        conditions.push(`emoji = $${params.length}`);
+      }
+
+      const result = await client.query(
+        `
+        WITH gone AS (
+          SELECT message_id, user_id, emoji, counted_in_edges
+          FROM message_reactions
+          WHERE ${conditions.join(" AND ")}
+          FOR UPDATE
+        )
+        UPDATE message_reactions r
+        SET removed_at = NOW(), counted_in_edges = false
+        FROM gone
+        WHERE r.message_id = gone.message_id
+          AND r.user_id = gone.user_id
+          AND r.emoji = gone.emoji
+        RETURNING r.guild_id, r.user_id, r.message_author_id, r.added_at, gone.counted_in_edges AS was_counted
+      `,
+        params
+      );
+
+      return this.reverseReactionCounters(
+        client,
+        result.rows.filter((row) => row.was_counted)
+      );
+    });
+  }
+
+  /**
+   * Reconcile stored reactions for fetched messages with what Discord reports:
+   * new reactions are inserted, missing ones are marked removed. Backfilled
+   * reactions are not added to edge counters; removals of counted ones are
+   * still reversed.
+   */
+  async syncMessageReactions(
+    messageIds: string[],
+    reactions: ReactionData[]
+  ): Promise<DatabaseResult<{ added: number; removed: number }>> {
+    // ON CONFLICT cannot touch the same row twice in one statement
+    const unique = Array.from(
+      new Map(
+        reactions.map((r) => [`${r.message_id}:${r.user_id}:${r.emoji}`, r])
+      ).values()
+    );
+
+    return this.withTransaction(async (client) => {
+      if (messageIds.length === 0) {
+        return { added: 0, removed: 0 };
+      }
+
+      const removedResult = await client.query(
+        `
+        WITH gone AS (
+          SELECT message_id, user_id, emoji, counted_in_edges
+          FROM message_reactions
+          WHERE message_id = ANY($1::text[])
+            AND removed_at IS NULL
+            AND (message_id, user_id, emoji) NOT IN (
+              SELECT * FROM UNNEST($2::text[], $3::text[], $4::text[])
+            )
+          FOR UPDATE
+        )
+        UPDATE message_reactions r
+        SET removed_at = NOW(), counted_in_edges = false
+        FROM gone
+        WHERE r.message_id = gone.message_id
+          AND r.user_id = gone.user_id
+          AND r.emoji = gone.emoji
+        RETURNING r.guild_id, r.user_id, r.message_author_id, r.added_at, gone.counted_in_edges AS was_counted
+      `,
+        [
+          messageIds,
+          unique.map((r) => r.message_id),
+          unique.map((r) => r.user_id),
+          unique.map((r) => r.emoji),
+        ]
+      );
+
+      await this.reverseReactionCounters(
+        client,
+        removedResult.rows.filter((row) => row.was_counted)
+      );
+
+      let added = 0;
+      if (unique.length > 0) {
+        const insertResult = await client.query(
+          `
+          INSERT INTO message_reactions (
+            message_id, guild_id, channel_id, user_id, message_author_id,
+            emoji, emoji_name, added_at
+          )
+          SELECT * FROM UNNEST(
+            $1::text[], $2::text[], $3::text[], $4::text[], $5::text[],
+            $6::text[], $7::text[], $8::timestamptz[]
+          )
+          ON CONFLICT (message_id, user_id, emoji) DO UPDATE SET
+            message_author_id = COALESCE(EXCLUDED.message_author_id, message_reactions.message_author_id),
+            emoji_name = EXCLUDED.emoji_name,
+            added_at = EXCLUDED.added_at,
+            removed_at = NULL
+          WHERE message_reactions.removed_at IS NOT NULL
+        `,
+          [
+            unique.map((r) => r.message_id),
+            unique.map((r) => r.guild_id),
+            unique.map((r) => r.channel_id),
+            unique.map((r) => r.user_id),
+            unique.map((r) => r.message_author_id || null),
+            unique.map((r) => r.emoji),
+            unique.map((r) => r.emoji_name || null),
+            unique.map((r) => r.added_at || new Date()),
+          ]
+        );
+        added = insertResult.rowCount || 0;
+      }
+
+      return { added, removed: removedResult.rowCount || 0 };
+    });
+  }
+
+  /**
+   * Take removed reactions back out of relationship_edges (reactor -> author),
+   * dated when they were added so the day and score they counted toward
+   * give them back
+   */
+  private async reverseReactionCounters(
+    client: PoolClient,
+    rows: {
+      guild_id: string;
+      user_id: string;
+      message_author_id: string | null;
+      added_at: Date;
+    }[]
+  ): Promise<{ guildId: string; reactorId: string; authorId: string }[]> {
+    const removals = new Map<
+      string,
+      {
+        guildId: string;
+        reactorId: string;
+        authorId: string;
+        addedAt: Date;
+        count: number;
+      }
+    >();
+    for (const row of rows) {
+      if (!row.message_author_id || row.message_author_id === row.user_id) {
+        continue;
+      }
+      const addedAt = new Date(row.added_at);
+      const day = addedAt.toISOString().slice(0, 10);
+      const key = `${row.guild_id}:${row.user_id}:${row.message_author_id}:${day}`;
+      const removal = removals.get(key) || {
+        guildId: row.guild_id,
+        reactorId: row.user_id,
+        authorId: row.message_author_id,
+        addedAt,
+        count: 0,
+      };
+      removal.count++;
+      removals.set(key, removal);
+    }
+
+    const pairs = new Map<
+      string,
+      { guildId: string; reactorId: string; authorId: string }
+    >();
+    for (const removal of removals.values()) {
+      await client.query(
+        `
+        UPDATE relationship_edges
+        SET reactions = GREATEST(reactions - $4, 0),
+            total = GREATEST(total - $4, 0),
+            interaction_at = $5,
+            updated_at = NOW()
+        WHERE guild_id = $1 AND user_a = $2 AND user_b = $3
+      `,
+        [
+          removal.guildId,
+          removal.reactorId,
+          removal.authorId,
+          removal.count,
+          removal.addedAt,
+        ]
+      );
+      const { guildId, reactorId, authorId } = removal;
+      pairs.set(`${guildId}:${reactorId}:${authorId}`, {
+        guildId,
+        reactorId,
+        authorId,
+      });
+    }
+
+    return Array.from(pairs.values());
+  }
+
+  // ============================================================================
+  // Attachments - Metadata and local archive state
+  // ============================================================================
+
+  /**
+   * Upsert attachment metadata for stored messages. A changed URL (Discord
+   * re-signs CDN links) clears a previous archive error so the archiver
+   * retries with the fresh link.
+   */
+  async upsertAttachments(
+    attachments: AttachmentData[]
+  ): Promise<DatabaseResult<{ upserted: number }>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+    if (attachments.length === 0) {
+      return { success: true, data: { upserted: 0 } };
+    }
+
+    // ON CONFLICT cannot touch the same row twice in one statement
+    const unique = Array.from(
+      new Map(attachments.map((a) => [a.id, a])).values()
+    );
+
+    const client = await this.pool!.connect();
+    try {
+      const result = await client.query(
+        `
+        INSERT INTO attachments (
+          id, message_id, guild_id, channel_id, filename, size_bytes,
+          content_type, width, height, url, proxy_url
+        )
+        SELECT a.* FROM UNNEST(
+          $1::text[], $2::text[], $3::text[], $4::text[], $5::text[], $6::bigint[],
+          $7::text[], $8::int[], $9::int[], $10::text[], $11::text[]
+        ) AS a(id, message_id, guild_id, channel_id, filename, size_bytes,
+               content_type, width, height, url, proxy_url)
+        WHERE EXISTS (SELECT 1 FROM messages m WHERE m.id = a.message_id)
+        ON CONFLICT (id) DO UPDATE SET
+          url = EXCLUDED.url,
+          proxy_url = EXCLUDED.proxy_url,
+          archive_error = CASE
+            WHEN attachments.url IS DISTINCT FROM EXCLUDED.url THEN NULL
+            ELSE attachments.archive_error
+          END
+      `,
+        [
+          unique.map((a) => a.id),
+          unique.map((a) => a.message_id),
+          unique.map((a) => a.guild_id),
+          unique.map((a) => a.channel_id),
+          unique.map((a) => a.filename),
+          unique.map((a) => a.size_bytes),
+          unique.map((a) => a.content_type || null),
+          unique.map((a) => a.width ?? null),
+          unique.map((a) => a.height ?? null),
+          unique.map((a) => a.url),
+          unique.map((a) => a.proxy_url || null),
+        ]
+      );
+
+      return { success: true, data: { upserted: result.rowCount || 0 } };
+    } catch (error) {
+      console.error("🔸 Failed to upsert attachments:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Attachments not yet archived (and not failed) within the size cap, oldest first
+   */
+  async getPendingAttachments(
+    maxBytes: number,
+    limit = 25
+  ): Promise<DatabaseResult<AttachmentData[]>> {
+    const result = await this.query(
+      `SELECT * FROM attachments
+       WHERE archived_at IS NULL AND archive_error IS NULL AND size_bytes <= $1
+       ORDER BY created_at ASC
+       LIMIT $2`,
+      [maxBytes, limit]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return {
+      success: true,
+      data: result.data.map((row) => ({
+        ...row,
+        size_bytes: Number(row.size_bytes),
+      })),
+    };
+  }
+
+  /**
+   * Record where an attachment was archived, or why archiving failed
+   */
+  async updateAttachmentArchive(
+    attachmentId: string,
+    archive:
+      | { sha256: string; archivedPath: string }
+      | { error: string }
+  ): Promise<DatabaseResult<void>> {
+    const result =
+      "error" in archive
+        ? await this.query(
+            "UPDATE attachments SET archive_error = $2 WHERE id = $1",
+            [attachmentId, archive.error.substring(0, 500)]
+          )
+        : await this.query(
+            `UPDATE attachments
+             SET sha256 = $2, archived_path = $3, archived_at = NOW(), archive_error = NULL
+             WHERE id = $1`,
+            [attachmentId, archive.sha256, archive.archivedPath]
+          );
+
+    return result.success
+      ? { success: true }
+      : { success: false, error: result.error };
+  }
+
+  // ============================================================================
+  // Message Search - Full-text over messages.content_tsv
+  // ============================================================================
+
+  /**
+   * Index up to batchSize messages stored before the search trigger existed.
+   * Each call is its own short transaction; returns how many were indexed,
+   * so fewer than batchSize means none are left.
+   */
+  async backfillSearchVectors(
+    batchSize: number
+  ): Promise<DatabaseResult<number>> {
+    const result = await this.query(
+      `UPDATE messages
+       SET content_tsv = to_tsvector('english', coalesce(content, ''))
+       WHERE id IN (
+         SELECT id FROM messages
+         WHERE content_tsv IS NULL
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )`,
+      [batchSize]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.rowCount || 0 };
+  }
+
+  /**
+   * Ranked full-text search with optional channel, author and date filters.
+   * Served by the read replica when one is available.
+   */
+  async searchMessages(
+    options: MessageSearchOptions
+  ): Promise<DatabaseResult<MessageSearchResult[]>> {
+    if (!this.isConnected()) {
+      return { success: false, error: "Database not connected" };
+    }
+
+    const client = await this.getReadPool().connect();
+    try {
+      const conditions = [
+        "m.guild_id = $1",
+        "m.active = true",
+        "m.content_tsv @@ q.query",
+      ];
+      const params: any[] = [options.guildId, options.query];
+
+      if (options.channelId) {
+        params.push(options.channelId);
+        conditions.push(`m.channel_id = $${params.length}`);
+      }
+      if (options.excludeChannelIds && options.excludeChannelIds.length > 0) {
+        params.push(options.excludeChannelIds);
+        conditions.push(`NOT (m.channel_id = ANY($${params.length}::text[]))`);
+      }
+      if (options.authorId) {
+        params.push(options.authorId);
+        conditions.push(`m.author_id = $${params.length}`);
+      }
+      if (options.after) {
+        params.push(options.after);
+        conditions.push(`m.created_at >= $${params.length}`);
+      }
+      if (options.before) {
+        params.push(options.before);
+        conditions.push(`m.created_at < $${params.length}`);
+      }
+
+      params.push(Math.min(Math.max(options.limit || 20, 1), 100));
+      const limitParam = params.length;
+      params.push(Math.max(options.offset || 0, 0));
+      const offsetParam = params.length;
+
+      // Rank and page first so ts_headline only runs on the returned rows
+      const query = `
+        WITH q AS (SELECT websearch_to_tsquery('english', $2) AS query),
+        ranked AS (
+          SELECT
+            m.id,
+            m.guild_id,
+            m.channel_id,
+            m.author_id,
+            m.content,
+            m.created_at,
+            ts_rank_cd(m.content_tsv, q.query) AS rank
+          FROM messages m, q
+          WHERE ${conditions.join(" AND ")}
+          ORDER BY rank DESC, m.created_at DESC
+          LIMIT $${limitParam} OFFSET $${offsetParam}
+        )
+        SELECT
+          r.id,
+          r.channel_id,
+          r.author_id,
+          r.content,
+          r.created_at,
+          r.rank,
+          mem.display_name,
+          mem.username,
+          ts_headline(
+            'english',
+            r.content,
+            q.query,
+            'StartSel=**, StopSel=**, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+          ) AS snippet
+        FROM ranked r
+        CROSS JOIN q
+        LEFT JOIN members mem ON mem.user_id = r.author_id AND mem.guild_id = r.guild_id
+        ORDER BY r.rank DESC, r.created_at DESC
+      `;
+
+      const result = await client.query(query, params);
+
+      return {
+        success: true,
+        data: result.rows.map((row) => ({
+          ...row,
+          rank: Number(row.rank),
+        })),
+      };
+    } catch (error) {
+      console.error("🔸 Failed to search messages:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  // ============================================================================
+  // Voice Sessions - Time in voice channels and co-presence
+  // ============================================================================
+
+  /**
+   * Open a session for a member who joined a voice channel. Does nothing if
+   * they already have an open one in the guild.
+   */
+  async startVoiceSession(
+    session: Pick<
+      VoiceSessionData,
+      "guild_id" | "channel_id" | "user_id" | "joined_at"
+    > &
+      VoiceFlags
+  ): Promise<DatabaseResult<VoiceSessionData | null>> {
+    const result = await this.query(
+      `
+      INSERT INTO voice_sessions (
+        guild_id, channel_id, user_id, joined_at, last_seen_at, flags_changed_at,
+        self_mute, self_deaf, server_mute, server_deaf, streaming, video
+      )
+      VALUES ($1, $2, $3, $4, $4, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (guild_id, user_id) WHERE left_at IS NULL DO NOTHING
+      RETURNING *
+    `,
+      [
+        session.guild_id,
+        session.channel_id,
+        session.user_id,
+        session.joined_at,
+        session.self_mute,
+        session.self_deaf,
+        session.server_mute,
+        session.server_deaf,
+        session.streaming,
+        session.video,
+      ]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    const row = result.data[0];
+    return { success: true, data: row ? this.toVoiceSessionData(row) : null };
+  }
+
+  /**
+   * Record a mute/deafen/stream change on a member's open session, adding
+   * the time since the previous change to the counters of the old flags
+   */
+  async updateVoiceSessionFlags(
+    guildId: string,
+    userId: string,
+    flags: VoiceFlags,
+    at: Date
+  ): Promise<DatabaseResult<VoiceSessionData | null>> {
+    const result = await this.query(
+      `
+      UPDATE voice_sessions
+      SET ${this.accumulateVoiceFlags("$3::timestamptz")},
+        self_mute = $4,
+        self_deaf = $5,
+        server_mute = $6,
+        server_deaf = $7,
+        streaming = $8,
+        video = $9,
+        flags_changed_at = GREATEST(flags_changed_at, $3),
+        last_seen_at = GREATEST(last_seen_at, $3)
+      WHERE guild_id = $1 AND user_id = $2 AND left_at IS NULL
+      RETURNING *
+    `,
+      [
+        guildId,
+        userId,
+        at,
+        flags.self_mute,
+        flags.self_deaf,
+        flags.server_mute,
+        flags.server_deaf,
+        flags.streaming,
+        flags.video,
+      ]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    const row = result.data[0];
+    return { success: true, data: row ? this.toVoiceSessionData(row) : null };
+  }
+
+  /**
+   * End a member's open session, if any. A session that hasn't been touched
+   * recently (the bot was down) ends shortly after it was last seen instead.
+   * With countTogether, time shared with members still in the channel is
+   * added to the edges in both directions; the pair is counted once because
+   * whoever leaves second finds the other's session already closed.
+   */
+  async endVoiceSession(
+    guildId: string,
+    userId: string,
+    at: Date,
+    countTogether = true
+  ): Promise<
+    DatabaseResult<{
+      session: VoiceSessionData | null;
+      together: { user_id: string; seconds: number }[];
+    }>
+  > {
+    return this.withTransaction(async (client) => {
+      const leftAt = `GREATEST(joined_at, LEAST($3::timestamptz, last_seen_at + make_interval(secs => ${VOICE_SESSION_STALE_SECONDS})))`;
+      const ended = await client.query(
+        `
+        UPDATE voice_sessions
+        SET ${this.accumulateVoiceFlags(leftAt)},
+          flags_changed_at = ${leftAt},
+          last_seen_at = ${leftAt},
+          left_at = ${leftAt}
+        WHERE guild_id = $1 AND user_id = $2 AND left_at IS NULL
+        RETURNING *
+      `,
+        [guildId, userId, at]
+      );
+      const row = ended.rows[0];
+      if (!row) {
+        return { session: null, together: [] };
+      }
+
+      const session = this.toVoiceSessionData(row);
+      if (!countTogether) {
+        return { session, together: [] };
+      }
+
+      const overlap = await client.query(
+        `
+        SELECT user_id,
+          FLOOR(EXTRACT(EPOCH FROM ($4::timestamptz - GREATEST(joined_at, $5::timestamptz))))::int AS seconds
+        FROM voice_sessions
+        WHERE guild_id = $1
+          AND channel_id = $2
+          AND user_id <> $3
+          AND left_at IS NULL
+          AND joined_at < $4
+      `,
+        [guildId, session.channel_id, userId, session.left_at, session.joined_at]
+      );
+      const together = overlap.rows
+        .map((r) => ({
+          user_id: r.user_id as string,
+          seconds: Number(r.seconds),
+        }))
+        .filter((r) => r.seconds > 0);
+      if (together.length === 0) {
+        return { session, together };
+      }
+
+      // Co-presence is mutual, so both directed edges get the time
+      const userA = together.flatMap((r) => [userId, r.user_id]);
+      const userB = together.flatMap((r) => [r.user_id, userId]);
+      const seconds = together.flatMap((r) => [r.seconds, r.seconds]);
+      await client.query(
+        `
+        INSERT INTO relationship_edges (
+          guild_id, user_a, user_b, last_interaction, voice_seconds, total,
+          interaction_at
+        )
+        SELECT $1, t.user_a, t.user_b, $5, t.seconds, t.seconds / $6, $5
+        FROM UNNEST($2::text[], $3::text[], $4::int[]) AS t(user_a, user_b, seconds)
+        ON CONFLICT (guild_id, user_a, user_b) DO UPDATE SET
+          voice_seconds = relationship_edges.voice_seconds + EXCLUDED.voice_seconds,
+          total = relationship_edges.total
+            + (relationship_edges.voice_seconds + EXCLUDED.voice_seconds) / $6
+            - relationship_edges.voice_seconds / $6,
+          last_interaction = GREATEST(relationship_edges.last_interaction, EXCLUDED.last_interaction),
+          interaction_at = EXCLUDED.interaction_at,
+          updated_at = NOW()
+      `,
+        [
+          guildId,
+          userA,
+          userB,
+          seconds,
+          session.left_at,
+          VOICE_SECONDS_PER_INTERACTION,
+        ]
+      );
+
+      return { session, together };
+    });
+  }
+
+  /**
+   * Mark every open session as still going. Call more often than
+   * VOICE_SESSION_STALE_SECONDS while the bot is connected.
+   */
+  async touchVoiceSessions(): Promise<DatabaseResult<number>> {
+    const result = await this.query(
+      "UPDATE voice_sessions SET last_seen_at = NOW() WHERE left_at IS NULL"
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data?.rowCount || 0 };
+  }
+
+  /**
+   * Sessions in a guild that haven't ended
+   */
+  async getOpenVoiceSessions(
+    guildId: string
+  ): Promise<DatabaseResult<VoiceSessionData[]>> {
+    const result = await this.query(
+      "SELECT * FROM voice_sessions WHERE guild_id = $1 AND left_at IS NULL",
+      [guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return {
+      success: true,
+      data: result.data.map((row) => this.toVoiceSessionData(row)),
+    };
+  }
+
+  /**
+   * SET clauses adding the time from flags_changed_at to `at` to the counters
+   * of the flags that were on
+   */
+  private accumulateVoiceFlags(at: string): string {
+    const elapsed = `GREATEST(FLOOR(EXTRACT(EPOCH FROM (${at} - flags_changed_at))), 0)::int`;
+    return [
+      ["muted_seconds", "self_mute OR server_mute"],
+      ["deafened_seconds", "self_deaf OR server_deaf"],
+      ["streaming_seconds", "streaming"],
+      ["video_seconds", "video"],
+    ]
+      .map(
+        ([column, condition]) =>
+          `${column} = ${column} + CASE WHEN ${condition} THEN ${elapsed} ELSE 0 END`
+      )
+      .join(",\n        ");
+  }
+
+  private toVoiceSessionData(row: any): VoiceSessionData {
+    return {
+      id: String(row.id),
+      guild_id: row.guild_id,
+      channel_id: row.channel_id,
+      user_id: row.user_id,
+      joined_at: row.joined_at,
+      left_at: row.left_at ?? undefined,
+      last_seen_at: row.last_seen_at,
+      flags_changed_at: row.flags_changed_at,
+      self_mute: row.self_mute,
+      self_deaf: row.self_deaf,
+      server_mute: row.server_mute,
+      server_deaf: row.server_deaf,
+      streaming: row.streaming,
+      video: row.video,
+      muted_seconds: row.muted_seconds,
+      deafened_seconds: row.deafened_seconds,
+      streaming_seconds: row.streaming_seconds,
+      video_seconds: row.video_seconds,
+    };
+  }
 }
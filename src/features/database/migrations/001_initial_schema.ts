@@ -0,0 +1,198 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Baseline schema. Every statement is idempotent so databases created by the
+ * old inline initializeSchema() adopt this version without changes.
+ */
+export const migration: Migration = {
+  version: 1,
+  name: "initial_schema",
+  up: [
+    `CREATE TABLE IF NOT EXISTS guilds (
+      id VARCHAR(20) PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      description TEXT,
+      icon VARCHAR(100),
+      owner_id VARCHAR(20) NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      member_count INTEGER DEFAULT 0,
+      active BOOLEAN DEFAULT true,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS channels (
+      id VARCHAR(20) PRIMARY KEY,
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      type INTEGER NOT NULL,
+      position INTEGER,
+      topic TEXT,
+      nsfw BOOLEAN DEFAULT false,
+      parent_id VARCHAR(20),
+      active BOOLEAN DEFAULT true,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS roles (
+      id VARCHAR(20) PRIMARY KEY,
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      color INTEGER DEFAULT 0,
+      position INTEGER DEFAULT 0,
+      permissions VARCHAR(20) DEFAULT '0',
+      mentionable BOOLEAN DEFAULT false,
+      hoist BOOLEAN DEFAULT false,
+      active BOOLEAN DEFAULT true,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS members (
+      id VARCHAR(50) PRIMARY KEY,
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      user_id VARCHAR(20) NOT NULL,
+
+      -- User profile data
+      username VARCHAR(100) NOT NULL,
+      display_name VARCHAR(100) NOT NULL,
+      global_name VARCHAR(100),
+      avatar VARCHAR(100),
+      avatar_decoration VARCHAR(100),
+      banner VARCHAR(100),
+      accent_color INTEGER,
+      discriminator VARCHAR(10) NOT NULL,
+      bio TEXT,
+      flags INTEGER,
+      premium_type INTEGER,
+      public_flags INTEGER,
+      bot BOOLEAN DEFAULT false,
+      system BOOLEAN DEFAULT false,
+
+      -- Guild-specific member data
+      nick VARCHAR(100),
+      joined_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      roles TEXT[] DEFAULT '{}',
+      permissions VARCHAR(20) DEFAULT '0',
+      communication_disabled_until TIMESTAMP WITH TIME ZONE,
+      pending BOOLEAN DEFAULT false,
+      premium_since TIMESTAMP WITH TIME ZONE,
+      timeout TIMESTAMP WITH TIME ZONE,
+
+      -- Activity and presence
+      status VARCHAR(20),
+      activities TEXT,
+      client_status TEXT,
+
+      -- Relationship metadata
+      summary TEXT,
+      keywords TEXT[],
+      emojis TEXT[],
+      notes TEXT[],
+      relationship_network JSONB DEFAULT '[]',
+
+      -- Metadata
+      active BOOLEAN DEFAULT true,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(guild_id, user_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS messages (
+      id VARCHAR(20) PRIMARY KEY,
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      channel_id VARCHAR(20) NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+      author_id VARCHAR(20) NOT NULL,
+      content TEXT NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      edited_at TIMESTAMP WITH TIME ZONE,
+      attachments TEXT[],
+      embeds TEXT[],
+      referenced_message_id VARCHAR(20) REFERENCES messages(id) ON DELETE SET NULL,
+      active BOOLEAN DEFAULT true
+    )`,
+    // Older databases predate reply tracking
+    `DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'messages' AND column_name = 'referenced_message_id'
+      ) THEN
+        ALTER TABLE messages ADD COLUMN referenced_message_id VARCHAR(20) REFERENCES messages(id) ON DELETE SET NULL;
+      END IF;
+    END $$`,
+    // Relationship edges - directed dyads for realtime updates
+    `CREATE TABLE IF NOT EXISTS relationship_edges (
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      user_a VARCHAR(20) NOT NULL,
+      user_b VARCHAR(20) NOT NULL,
+      last_interaction TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      msg_a_to_b INTEGER DEFAULT 0,
+      msg_b_to_a INTEGER DEFAULT 0,
+      mentions INTEGER DEFAULT 0,
+      replies INTEGER DEFAULT 0,
+      reactions INTEGER DEFAULT 0,
+      rolling_7d INTEGER DEFAULT 0,
+      rolling_30d INTEGER DEFAULT 0,
+      total INTEGER DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      PRIMARY KEY (guild_id, user_a, user_b)
+    )`,
+    // Conversation segments - multi-participant conversations
+    `CREATE TABLE IF NOT EXISTS conversation_segments (
+      id VARCHAR(50) PRIMARY KEY,
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      channel_id VARCHAR(20) NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+      participants TEXT[] NOT NULL,
+      start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+      end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+      message_ids TEXT[] NOT NULL,
+      message_count INTEGER NOT NULL,
+      features JSONB DEFAULT '{}',
+      summary TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )`,
+    // Relationship pairs - optional cache for quick undirected reads
+    `CREATE TABLE IF NOT EXISTS relationship_pairs (
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      u_min VARCHAR(20) NOT NULL,
+      u_max VARCHAR(20) NOT NULL,
+      last_interaction TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      total_interactions INTEGER DEFAULT 0,
+      segment_ids TEXT[] DEFAULT '{}',
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      PRIMARY KEY (guild_id, u_min, u_max),
+      CHECK (u_min < u_max)
+    )`,
+    // Watermark tracking for incremental message sync
+    `ALTER TABLE channels
+      ADD COLUMN IF NOT EXISTS last_message_id VARCHAR(20),
+      ADD COLUMN IF NOT EXISTS last_message_sync TIMESTAMP WITH TIME ZONE`,
+    "CREATE INDEX IF NOT EXISTS idx_channels_guild_id ON channels(guild_id)",
+    "CREATE INDEX IF NOT EXISTS idx_roles_guild_id ON roles(guild_id)",
+    "CREATE INDEX IF NOT EXISTS idx_members_guild_id ON members(guild_id)",
+    "CREATE INDEX IF NOT EXISTS idx_members_user_id ON members(user_id)",
+    "CREATE INDEX IF NOT EXISTS idx_messages_guild_id ON messages(guild_id)",
+    "CREATE INDEX IF NOT EXISTS idx_messages_channel_id ON messages(channel_id)",
+    "CREATE INDEX IF NOT EXISTS idx_messages_author_id ON messages(author_id)",
+    "CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at)",
+    "CREATE INDEX IF NOT EXISTS idx_relationship_edges_guild ON relationship_edges(guild_id)",
+    "CREATE INDEX IF NOT EXISTS idx_relationship_edges_user_a ON relationship_edges(user_a)",
+    "CREATE INDEX IF NOT EXISTS idx_relationship_edges_user_b ON relationship_edges(user_b)",
+    "CREATE INDEX IF NOT EXISTS idx_relationship_edges_last_interaction ON relationship_edges(last_interaction)",
+    "CREATE INDEX IF NOT EXISTS idx_conversation_segments_guild ON conversation_segments(guild_id)",
+    "CREATE INDEX IF NOT EXISTS idx_conversation_segments_channel ON conversation_segments(channel_id)",
+    "CREATE INDEX IF NOT EXISTS idx_conversation_segments_participants ON conversation_segments USING GIN(participants)",
+    "CREATE INDEX IF NOT EXISTS idx_conversation_segments_start_time ON conversation_segments(start_time)",
+    "CREATE INDEX IF NOT EXISTS idx_relationship_pairs_guild ON relationship_pairs(guild_id)",
+    "CREATE INDEX IF NOT EXISTS idx_relationship_pairs_users ON relationship_pairs(u_min, u_max)",
+  ],
+  down: [
+    "DROP TABLE IF EXISTS relationship_pairs",
+    "DROP TABLE IF EXISTS conversation_segments",
+    "DROP TABLE IF EXISTS relationship_edges",
+    "DROP TABLE IF EXISTS messages",
+    "DROP TABLE IF EXISTS members",
+    "DROP TABLE IF EXISTS roles",
+    "DROP TABLE IF EXISTS channels",
+    "DROP TABLE IF EXISTS guilds",
+  ],
+};
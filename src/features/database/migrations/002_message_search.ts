@@ -0,0 +1,39 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Full-text search over message content. The tsvector is a plain column kept
+ * current by a trigger: adding a generated column would rewrite the whole
+ * messages table under an ACCESS EXCLUSIVE lock while the bot starts. Adding
+ * a nullable column only touches the catalog; building the indexes scans the
+ * table once, blocking writes but not reads. Existing messages are indexed
+ * afterwards in small batches by the search-backfill maintenance job, which
+ * the partial index lets find them without scanning.
+ */
+export const migration: Migration = {
+  version: 2,
+  name: "message_search",
+  up: [
+    "ALTER TABLE messages ADD COLUMN IF NOT EXISTS content_tsv tsvector",
+    `CREATE OR REPLACE FUNCTION update_message_content_tsv() RETURNS trigger AS $$
+    BEGIN
+      NEW.content_tsv := to_tsvector('english', coalesce(NEW.content, ''));
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql`,
+    "DROP TRIGGER IF EXISTS trg_messages_content_tsv ON messages",
+    `CREATE TRIGGER trg_messages_content_tsv
+      BEFORE INSERT OR UPDATE OF content ON messages
+      FOR EACH ROW
+      EXECUTE FUNCTION update_message_content_tsv()`,
+    "CREATE INDEX IF NOT EXISTS idx_messages_content_tsv ON messages USING GIN(content_tsv)",
+    // Messages stored before the trigger, awaiting the backfill
+    "CREATE INDEX IF NOT EXISTS idx_messages_content_tsv_pending ON messages(id) WHERE content_tsv IS NULL",
+  ],
+  down: [
+    "DROP INDEX IF EXISTS idx_messages_content_tsv_pending",
+    "DROP INDEX IF EXISTS idx_messages_content_tsv",
+    "DROP TRIGGER IF EXISTS trg_messages_content_tsv ON messages",
+    "DROP FUNCTION IF EXISTS update_message_content_tsv()",
+    "ALTER TABLE messages DROP COLUMN IF EXISTS content_tsv",
+  ],
+};
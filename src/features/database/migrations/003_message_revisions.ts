@@ -0,0 +1,54 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Keep every prior version of a message. A trigger snapshots the old row
+ * whenever content or embeds change, so live edits and edits picked up by
+ * the healer's backfill are both captured.
+ */
+export const migration: Migration = {
+  version: 3,
+  name: "message_revisions",
+  up: [
+    `CREATE TABLE IF NOT EXISTS message_revisions (
+      id BIGSERIAL PRIMARY KEY,
+      message_id VARCHAR(20) NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+      guild_id VARCHAR(20) NOT NULL,
+      channel_id VARCHAR(20) NOT NULL,
+      author_id VARCHAR(20) NOT NULL,
+      content TEXT NOT NULL,
+      embeds TEXT[],
+      attachments TEXT[],
+      -- When this version was written (original post or previous edit)
+      written_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      -- When this version was replaced by the next one
+      replaced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_message_revisions_message ON message_revisions(message_id, replaced_at)",
+    `CREATE OR REPLACE FUNCTION record_message_revision() RETURNS trigger AS $$
+    BEGIN
+      INSERT INTO message_revisions (
+        message_id, guild_id, channel_id, author_id,
+        content, embeds, attachments, written_at, replaced_at
+      )
+      VALUES (
+        OLD.id, OLD.guild_id, OLD.channel_id, OLD.author_id,
+        OLD.content, OLD.embeds, OLD.attachments,
+        COALESCE(OLD.edited_at, OLD.created_at, NOW()),
+        COALESCE(NEW.edited_at, NOW())
+      );
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql`,
+    "DROP TRIGGER IF EXISTS trg_messages_revision ON messages",
+    `CREATE TRIGGER trg_messages_revision
+      BEFORE UPDATE OF content, embeds ON messages
+      FOR EACH ROW
+      WHEN (OLD.content IS DISTINCT FROM NEW.content OR OLD.embeds IS DISTINCT FROM NEW.embeds)
+      EXECUTE FUNCTION record_message_revision()`,
+  ],
+  down: [
+    "DROP TRIGGER IF EXISTS trg_messages_revision ON messages",
+    "DROP FUNCTION IF EXISTS record_message_revision()",
+    "DROP TABLE IF EXISTS message_revisions",
+  ],
+};
@@ -0,0 +1,33 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * One row per (message, user, emoji). Removing a reaction stamps removed_at
+ * rather than deleting the row, so reaction history survives; re-adding the
+ * same reaction clears it again. Edge counters are only reversed for rows
+ * that were counted, so backfilled reactions never push them below zero.
+ */
+export const migration: Migration = {
+  version: 4,
+  name: "message_reactions",
+  up: [
+    `CREATE TABLE IF NOT EXISTS message_reactions (
+      message_id VARCHAR(20) NOT NULL,
+      guild_id VARCHAR(20) NOT NULL,
+      channel_id VARCHAR(20) NOT NULL,
+      user_id VARCHAR(20) NOT NULL,
+      message_author_id VARCHAR(20),
+      -- Custom emoji ID, or the unicode emoji itself
+      emoji VARCHAR(100) NOT NULL,
+      emoji_name VARCHAR(100),
+      added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      removed_at TIMESTAMP WITH TIME ZONE,
+      -- Whether this reaction is included in relationship_edges.reactions
+      counted_in_edges BOOLEAN NOT NULL DEFAULT false,
+      PRIMARY KEY (message_id, user_id, emoji)
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_message_reactions_user ON message_reactions(guild_id, user_id) WHERE removed_at IS NULL",
+    "CREATE INDEX IF NOT EXISTS idx_message_reactions_author ON message_reactions(guild_id, message_author_id) WHERE removed_at IS NULL",
+    "CREATE INDEX IF NOT EXISTS idx_message_reactions_emoji ON message_reactions(guild_id, emoji) WHERE removed_at IS NULL",
+  ],
+  down: ["DROP TABLE IF EXISTS message_reactions"],
+};
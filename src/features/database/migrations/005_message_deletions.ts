@@ -0,0 +1,22 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Record when a message was deleted and, when the audit log names one, which
+ * moderator deleted it. Deleted rows keep their content with active = false.
+ */
+export const migration: Migration = {
+  version: 5,
+  name: "message_deletions",
+  up: [
+    `ALTER TABLE messages
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS deleted_by VARCHAR(20)`,
+    "CREATE INDEX IF NOT EXISTS idx_messages_deleted_at ON messages(guild_id, deleted_at) WHERE deleted_at IS NOT NULL",
+  ],
+  down: [
+    "DROP INDEX IF EXISTS idx_messages_deleted_at",
+    `ALTER TABLE messages
+      DROP COLUMN IF EXISTS deleted_by,
+      DROP COLUMN IF EXISTS deleted_at`,
+  ],
+};
@@ -0,0 +1,35 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Attachment metadata, one row per Discord attachment. The archive columns
+ * are filled in by the optional AttachmentArchiver once the file is stored
+ * locally under its SHA-256.
+ */
+export const migration: Migration = {
+  version: 6,
+  name: "attachments",
+  up: [
+    `CREATE TABLE IF NOT EXISTS attachments (
+      id VARCHAR(20) PRIMARY KEY,
+      message_id VARCHAR(20) NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+      guild_id VARCHAR(20) NOT NULL,
+      channel_id VARCHAR(20) NOT NULL,
+      filename TEXT NOT NULL,
+      size_bytes BIGINT NOT NULL,
+      content_type VARCHAR(255),
+      width INTEGER,
+      height INTEGER,
+      url TEXT NOT NULL,
+      proxy_url TEXT,
+      sha256 CHAR(64),
+      archived_path TEXT,
+      archived_at TIMESTAMP WITH TIME ZONE,
+      archive_error TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_attachments_message ON attachments(message_id)",
+    "CREATE INDEX IF NOT EXISTS idx_attachments_sha256 ON attachments(sha256) WHERE sha256 IS NOT NULL",
+    "CREATE INDEX IF NOT EXISTS idx_attachments_pending ON attachments(created_at) WHERE archived_at IS NULL AND archive_error IS NULL",
+  ],
+  down: ["DROP TABLE IF EXISTS attachments"],
+};
@@ -0,0 +1,45 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Threads and forum posts are stored as channels rows with is_thread set and
+ * parent_id pointing at their text, announcement or forum channel. Forum
+ * channels' available tags live in forum_tags; a post's applied tag IDs are
+ * kept on its channels row.
+ */
+export const migration: Migration = {
+  version: 7,
+  name: "threads",
+  up: [
+    `ALTER TABLE channels
+      ADD COLUMN IF NOT EXISTS is_thread BOOLEAN NOT NULL DEFAULT false,
+      ADD COLUMN IF NOT EXISTS owner_id VARCHAR(20),
+      ADD COLUMN IF NOT EXISTS archived BOOLEAN NOT NULL DEFAULT false,
+      ADD COLUMN IF NOT EXISTS locked BOOLEAN NOT NULL DEFAULT false,
+      ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS applied_tags TEXT[] NOT NULL DEFAULT '{}'`,
+    "CREATE INDEX IF NOT EXISTS idx_channels_parent ON channels(parent_id) WHERE parent_id IS NOT NULL",
+    `CREATE TABLE IF NOT EXISTS forum_tags (
+      id VARCHAR(20) PRIMARY KEY,
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      channel_id VARCHAR(20) NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      emoji_id VARCHAR(20),
+      emoji_name VARCHAR(100),
+      moderated BOOLEAN NOT NULL DEFAULT false,
+      active BOOLEAN NOT NULL DEFAULT true,
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_forum_tags_channel ON forum_tags(channel_id)",
+  ],
+  down: [
+    "DROP TABLE IF EXISTS forum_tags",
+    "DROP INDEX IF EXISTS idx_channels_parent",
+    `ALTER TABLE channels
+      DROP COLUMN IF EXISTS is_thread,
+      DROP COLUMN IF EXISTS owner_id,
+      DROP COLUMN IF EXISTS archived,
+      DROP COLUMN IF EXISTS locked,
+      DROP COLUMN IF EXISTS archived_at,
+      DROP COLUMN IF EXISTS applied_tags`,
+  ],
+};
@@ -0,0 +1,28 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * One checkpoint row per channel for historical backfills. Backfills page
+ * backward, so oldest_message_id is where an interrupted run resumes and
+ * newest_message_id becomes the channel watermark once history is complete.
+ */
+export const migration: Migration = {
+  version: 8,
+  name: "sync_jobs",
+  up: [
+    `CREATE TABLE IF NOT EXISTS sync_jobs (
+      channel_id VARCHAR(20) PRIMARY KEY REFERENCES channels(id) ON DELETE CASCADE,
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      status VARCHAR(20) NOT NULL DEFAULT 'running',
+      newest_message_id VARCHAR(20),
+      oldest_message_id VARCHAR(20),
+      message_count INTEGER NOT NULL DEFAULT 0,
+      active_ms BIGINT NOT NULL DEFAULT 0,
+      error TEXT,
+      started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      completed_at TIMESTAMP WITH TIME ZONE
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_sync_jobs_guild_status ON sync_jobs(guild_id, status)",
+  ],
+  down: ["DROP TABLE IF EXISTS sync_jobs"],
+};
@@ -0,0 +1,22 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Per-guild settings edited with /config. A guild without a row uses the
+ * defaults: nothing excluded, default AI provider and persona, no log channel.
+ */
+export const migration: Migration = {
+  version: 9,
+  name: "guild_settings",
+  up: [
+    `CREATE TABLE IF NOT EXISTS guild_settings (
+      guild_id VARCHAR(20) PRIMARY KEY REFERENCES guilds(id) ON DELETE CASCADE,
+      excluded_channel_ids TEXT[] NOT NULL DEFAULT '{}',
+      ai_provider VARCHAR(20),
+      ai_persona VARCHAR(50),
+      log_channel_id VARCHAR(20),
+      updated_by VARCHAR(20),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    )`,
+  ],
+  down: ["DROP TABLE IF EXISTS guild_settings"],
+};
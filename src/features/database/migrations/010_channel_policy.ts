@@ -0,0 +1,18 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Private channels are synced like any other but hidden from AI tools.
+ * Together with excluded_channel_ids this gives each channel one of three
+ * policies: excluded (never stored), private, or public (the default).
+ */
+export const migration: Migration = {
+  version: 10,
+  name: "channel_policy",
+  up: [
+    `ALTER TABLE guild_settings
+      ADD COLUMN IF NOT EXISTS private_channel_ids TEXT[] NOT NULL DEFAULT '{}'`,
+  ],
+  down: [
+    "ALTER TABLE guild_settings DROP COLUMN IF EXISTS private_channel_ids",
+  ],
+};
@@ -0,0 +1,17 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * A channel's own permission overwrites, as [{ id, type, allow, deny }] with
+ * type 0 for roles and 1 for members. With members.roles and
+ * members.permissions this is enough to tell who can view a channel without
+ * asking Discord.
+ */
+export const migration: Migration = {
+  version: 11,
+  name: "channel_permissions",
+  up: [
+    `ALTER TABLE channels
+      ADD COLUMN IF NOT EXISTS permission_overwrites JSONB NOT NULL DEFAULT '[]'`,
+  ],
+  down: ["ALTER TABLE channels DROP COLUMN IF EXISTS permission_overwrites"],
+};
@@ -0,0 +1,47 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * One row per stay in a voice channel; switching channels ends the session
+ * and starts another. The flag columns hold the current mute/deafen/stream
+ * state and the *_seconds columns the time spent in each state, accumulated
+ * whenever the flags change. last_seen_at is refreshed while a session is
+ * open, so one left open by a restart ends close to when it really did.
+ * Time spent together in voice is counted on relationship_edges.voice_seconds.
+ */
+export const migration: Migration = {
+  version: 12,
+  name: "voice_sessions",
+  up: [
+    `CREATE TABLE IF NOT EXISTS voice_sessions (
+      id BIGSERIAL PRIMARY KEY,
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      -- No foreign key: a voice channel may not be synced yet when joined
+      channel_id VARCHAR(20) NOT NULL,
+      user_id VARCHAR(20) NOT NULL,
+      joined_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      left_at TIMESTAMP WITH TIME ZONE,
+      last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      self_mute BOOLEAN NOT NULL DEFAULT false,
+      self_deaf BOOLEAN NOT NULL DEFAULT false,
+      server_mute BOOLEAN NOT NULL DEFAULT false,
+      server_deaf BOOLEAN NOT NULL DEFAULT false,
+      streaming BOOLEAN NOT NULL DEFAULT false,
+      video BOOLEAN NOT NULL DEFAULT false,
+      flags_changed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      muted_seconds INTEGER NOT NULL DEFAULT 0,
+      deafened_seconds INTEGER NOT NULL DEFAULT 0,
+      streaming_seconds INTEGER NOT NULL DEFAULT 0,
+      video_seconds INTEGER NOT NULL DEFAULT 0
+    )`,
+    // A member is in at most one voice channel per guild
+    "CREATE UNIQUE INDEX IF NOT EXISTS idx_voice_sessions_open ON voice_sessions(guild_id, user_id) WHERE left_at IS NULL",
+    "CREATE INDEX IF NOT EXISTS idx_voice_sessions_user ON voice_sessions(guild_id, user_id, joined_at)",
+    "CREATE INDEX IF NOT EXISTS idx_voice_sessions_channel ON voice_sessions(guild_id, channel_id, joined_at)",
+    `ALTER TABLE relationship_edges
+      ADD COLUMN IF NOT EXISTS voice_seconds INTEGER NOT NULL DEFAULT 0`,
+  ],
+  down: [
+    "ALTER TABLE relationship_edges DROP COLUMN IF EXISTS voice_seconds",
+    "DROP TABLE IF EXISTS voice_sessions",
+  ],
+};
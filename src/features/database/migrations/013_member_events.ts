@@ -0,0 +1,114 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Log of member profile changes: joins, leaves, name and avatar changes,
+ * role grants and removals, timeouts and boosts. Like message revisions, a
+ * trigger diffs each members row as it's written, so changes picked up live
+ * and by the healer's refresh are both recorded. Guild imports set
+ * app.restoring_archive so restored members don't log fresh joins.
+ */
+export const migration: Migration = {
+  version: 13,
+  name: "member_events",
+  up: [
+    `CREATE TABLE IF NOT EXISTS member_events (
+      id BIGSERIAL PRIMARY KEY,
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      user_id VARCHAR(20) NOT NULL,
+      event_type VARCHAR(20) NOT NULL,
+      -- Previous and new value (name, avatar hash, role ID, timeout end)
+      old_value TEXT,
+      new_value TEXT,
+      occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_member_events_user ON member_events(guild_id, user_id, occurred_at)",
+    "CREATE INDEX IF NOT EXISTS idx_member_events_type ON member_events(guild_id, event_type, occurred_at)",
+    `CREATE OR REPLACE FUNCTION record_member_events() RETURNS trigger AS $$
+    BEGIN
+      IF current_setting('app.restoring_archive', true) = 'on' THEN
+        RETURN NEW;
+      END IF;
+
+      IF TG_OP = 'INSERT' THEN
+        INSERT INTO member_events (guild_id, user_id, event_type, occurred_at)
+        VALUES (NEW.guild_id, NEW.user_id, 'join', COALESCE(NEW.joined_at, NOW()));
+        IF NEW.premium_since IS NOT NULL THEN
+          INSERT INTO member_events (guild_id, user_id, event_type, occurred_at)
+          VALUES (NEW.guild_id, NEW.user_id, 'boost', NEW.premium_since);
+        END IF;
+        RETURN NEW;
+      END IF;
+
+      IF NEW.active IS DISTINCT FROM OLD.active THEN
+        INSERT INTO member_events (guild_id, user_id, event_type, occurred_at)
+        VALUES (
+          NEW.guild_id, NEW.user_id,
+          CASE WHEN NEW.active THEN 'join' ELSE 'leave' END,
+          CASE WHEN NEW.active THEN GREATEST(COALESCE(NEW.joined_at, NOW()), OLD.updated_at) ELSE NOW() END
+        );
+      END IF;
+
+      INSERT INTO member_events (guild_id, user_id, event_type, old_value, new_value)
+      SELECT NEW.guild_id, NEW.user_id, change.event_type, change.old_value, change.new_value
+      FROM (VALUES
+        ('nickname', OLD.nick, NEW.nick),
+        ('username', OLD.username, NEW.username),
+        ('global_name', OLD.global_name, NEW.global_name),
+        ('avatar', OLD.avatar, NEW.avatar)
+      ) AS change(event_type, old_value, new_value)
+      WHERE change.old_value IS DISTINCT FROM change.new_value;
+
+      INSERT INTO member_events (guild_id, user_id, event_type, new_value)
+      SELECT NEW.guild_id, NEW.user_id, 'role_add', role_id
+      FROM unnest(COALESCE(NEW.roles, '{}')) AS role_id
+      WHERE NOT role_id = ANY(COALESCE(OLD.roles, '{}'));
+
+      INSERT INTO member_events (guild_id, user_id, event_type, old_value)
+      SELECT NEW.guild_id, NEW.user_id, 'role_remove', role_id
+      FROM unnest(COALESCE(OLD.roles, '{}')) AS role_id
+      WHERE NOT role_id = ANY(COALESCE(NEW.roles, '{}'));
+
+      -- A timeout that simply ran out isn't an event
+      IF NEW.communication_disabled_until IS DISTINCT FROM OLD.communication_disabled_until THEN
+        IF NEW.communication_disabled_until > NOW() THEN
+          INSERT INTO member_events (guild_id, user_id, event_type, new_value)
+          VALUES (NEW.guild_id, NEW.user_id, 'timeout', NEW.communication_disabled_until::text);
+        ELSIF OLD.communication_disabled_until > NOW() THEN
+          INSERT INTO member_events (guild_id, user_id, event_type, old_value)
+          VALUES (NEW.guild_id, NEW.user_id, 'timeout_end', OLD.communication_disabled_until::text);
+        END IF;
+      END IF;
+
+      IF NEW.premium_since IS DISTINCT FROM OLD.premium_since THEN
+        INSERT INTO member_events (guild_id, user_id, event_type, occurred_at)
+        VALUES (
+          NEW.guild_id, NEW.user_id,
+          CASE WHEN NEW.premium_since IS NULL THEN 'boost_end' ELSE 'boost' END,
+          COALESCE(NEW.premium_since, NOW())
+        );
+      END IF;
+
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql`,
+    "DROP TRIGGER IF EXISTS trg_members_events ON members",
+    `CREATE TRIGGER trg_members_events
+      AFTER INSERT OR UPDATE ON members
+      FOR EACH ROW
+      EXECUTE FUNCTION record_member_events()`,
+    // Members already stored start their history with when they joined
+    `INSERT INTO member_events (guild_id, user_id, event_type, occurred_at)
+     SELECT guild_id, user_id, 'join', joined_at
+     FROM members
+     WHERE joined_at IS NOT NULL`,
+    `INSERT INTO member_events (guild_id, user_id, event_type, occurred_at)
+     SELECT guild_id, user_id, 'boost', premium_since
+     FROM members
+     WHERE premium_since IS NOT NULL AND active = true`,
+  ],
+  down: [
+    "DROP TRIGGER IF EXISTS trg_members_events ON members",
+    "DROP FUNCTION IF EXISTS record_member_events()",
+    "DROP TABLE IF EXISTS member_events",
+  ],
+};
@@ -0,0 +1,36 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * History of scheduled maintenance runs, one row per job run, so the
+ * scheduler resumes its timetable after a restart and /sync status can show
+ * what ran. Messages stored before the message they reply to keep the
+ * reference in pending_reference_id (it has no foreign key) until the reply
+ * repair job links it up. Replies stored before this dropped the reference,
+ * so there's nothing here to backfill the column from; npm run
+ * backfill:replies refetches them from Discord.
+ */
+export const migration: Migration = {
+  version: 14,
+  name: "maintenance_runs",
+  up: [
+    `CREATE TABLE IF NOT EXISTS maintenance_runs (
+      id BIGSERIAL PRIMARY KEY,
+      job VARCHAR(40) NOT NULL,
+      -- running, completed, failed, or interrupted by a restart
+      status VARCHAR(20) NOT NULL DEFAULT 'running',
+      -- Counts reported by the job (guilds, members, messages, ...)
+      details JSONB NOT NULL DEFAULT '{}',
+      error TEXT,
+      started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      finished_at TIMESTAMP WITH TIME ZONE
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_maintenance_runs_job ON maintenance_runs(job, started_at)",
+    "ALTER TABLE messages ADD COLUMN IF NOT EXISTS pending_reference_id VARCHAR(20)",
+    "CREATE INDEX IF NOT EXISTS idx_messages_pending_reference ON messages(pending_reference_id) WHERE pending_reference_id IS NOT NULL",
+  ],
+  down: [
+    "DROP INDEX IF EXISTS idx_messages_pending_reference",
+    "ALTER TABLE messages DROP COLUMN IF EXISTS pending_reference_id",
+    "DROP TABLE IF EXISTS maintenance_runs",
+  ],
+};
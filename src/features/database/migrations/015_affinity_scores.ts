@@ -0,0 +1,111 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Time-decayed affinity on relationship_edges. affinity_score is the score
+ * as of score_updated_at; it halves every half-life without interactions, so
+ * its current value is affinity_score * 0.5 ^ (elapsed / half-life). A
+ * trigger adds the weighted change in the counters on every write, so live
+ * sync, reaction removals, voice time and the history scripts all score the
+ * same way. Weights per interaction kind (voice counts per 5 minutes
+ * together) and the half-life can be tuned per guild; rescoring a guild
+ * rebuilds its scores from the counters as if every interaction happened at
+ * last_interaction.
+ */
+// Exported so migration 018, which replaces them, can restore them on revert
+export const SCORE_EDGE_FUNCTION = `CREATE OR REPLACE FUNCTION score_relationship_edge() RETURNS trigger AS $$
+    DECLARE
+      weights JSONB;
+      half_life_seconds DOUBLE PRECISION;
+      elapsed DOUBLE PRECISION;
+    BEGIN
+      IF current_setting('app.restoring_archive', true) = 'on' THEN
+        RETURN NEW;
+      END IF;
+
+      weights := guild_affinity_weights(NEW.guild_id);
+      NEW.score_updated_at := NOW();
+
+      IF TG_OP = 'INSERT' THEN
+        NEW.affinity_score := GREATEST(edge_affinity_points(weights, NEW), 0);
+        RETURN NEW;
+      END IF;
+
+      half_life_seconds := guild_affinity_half_life_days(NEW.guild_id) * 86400;
+      elapsed := GREATEST(EXTRACT(EPOCH FROM NOW() - OLD.score_updated_at), 0);
+      NEW.affinity_score := GREATEST(
+        OLD.affinity_score * power(0.5, elapsed / half_life_seconds)
+          + edge_affinity_points(weights, NEW)
+          - edge_affinity_points(weights, OLD),
+        0
+      );
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql`;
+
+export const RESCORE_EDGES_FUNCTION = `CREATE OR REPLACE FUNCTION rescore_relationship_edges(guild VARCHAR) RETURNS INTEGER AS $$
+    DECLARE
+      updated INTEGER;
+    BEGIN
+      UPDATE relationship_edges e
+      SET affinity_score = GREATEST(edge_affinity_points(guild_affinity_weights(guild), e), 0)
+            * power(0.5, GREATEST(EXTRACT(EPOCH FROM NOW() - e.last_interaction), 0)
+              / (guild_affinity_half_life_days(guild) * 86400)),
+          score_updated_at = NOW()
+      WHERE e.guild_id = guild;
+      GET DIAGNOSTICS updated = ROW_COUNT;
+      RETURN updated;
+    END;
+    $$ LANGUAGE plpgsql`;
+
+export const migration: Migration = {
+  version: 15,
+  name: "affinity_scores",
+  up: [
+    `ALTER TABLE relationship_edges
+      ADD COLUMN IF NOT EXISTS affinity_score DOUBLE PRECISION NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()`,
+    `ALTER TABLE guild_settings
+      ADD COLUMN IF NOT EXISTS affinity_model VARCHAR(20),
+      ADD COLUMN IF NOT EXISTS affinity_half_life_days REAL,
+      ADD COLUMN IF NOT EXISTS affinity_weights JSONB`,
+    // Defaults are mirrored in relationship-network/AffinityModel.ts
+    `CREATE OR REPLACE FUNCTION guild_affinity_weights(guild VARCHAR) RETURNS JSONB AS $$
+      SELECT '{"message": 1, "mention": 2, "reply": 3, "reaction": 0.5, "voice": 1}'::jsonb
+        || COALESCE((SELECT affinity_weights FROM guild_settings WHERE guild_id = guild), '{}'::jsonb)
+    $$ LANGUAGE sql STABLE`,
+    `CREATE OR REPLACE FUNCTION guild_affinity_half_life_days(guild VARCHAR) RETURNS DOUBLE PRECISION AS $$
+      SELECT COALESCE((SELECT affinity_half_life_days FROM guild_settings WHERE guild_id = guild), 30)
+    $$ LANGUAGE sql STABLE`,
+    `CREATE OR REPLACE FUNCTION edge_affinity_points(weights JSONB, edge relationship_edges) RETURNS DOUBLE PRECISION AS $$
+      SELECT (weights->>'message')::float8 * (COALESCE(edge.msg_a_to_b, 0) + COALESCE(edge.msg_b_to_a, 0))
+        + (weights->>'mention')::float8 * COALESCE(edge.mentions, 0)
+        + (weights->>'reply')::float8 * COALESCE(edge.replies, 0)
+        + (weights->>'reaction')::float8 * COALESCE(edge.reactions, 0)
+        + (weights->>'voice')::float8 * COALESCE(edge.voice_seconds, 0) / 300.0
+    $$ LANGUAGE sql IMMUTABLE`,
+    SCORE_EDGE_FUNCTION,
+    "DROP TRIGGER IF EXISTS trg_relationship_edges_score ON relationship_edges",
+    `CREATE TRIGGER trg_relationship_edges_score
+      BEFORE INSERT OR UPDATE OF msg_a_to_b, msg_b_to_a, mentions, replies, reactions, voice_seconds
+      ON relationship_edges
+      FOR EACH ROW
+      EXECUTE FUNCTION score_relationship_edge()`,
+    RESCORE_EDGES_FUNCTION,
+    "SELECT rescore_relationship_edges(id) FROM guilds",
+  ],
+  down: [
+    "DROP TRIGGER IF EXISTS trg_relationship_edges_score ON relationship_edges",
+    "DROP FUNCTION IF EXISTS rescore_relationship_edges(VARCHAR)",
+    "DROP FUNCTION IF EXISTS score_relationship_edge()",
+    "DROP FUNCTION IF EXISTS edge_affinity_points(JSONB, relationship_edges)",
+    "DROP FUNCTION IF EXISTS guild_affinity_half_life_days(VARCHAR)",
+    "DROP FUNCTION IF EXISTS guild_affinity_weights(VARCHAR)",
+    `ALTER TABLE guild_settings
+      DROP COLUMN IF EXISTS affinity_weights,
+      DROP COLUMN IF EXISTS affinity_half_life_days,
+      DROP COLUMN IF EXISTS affinity_model`,
+    `ALTER TABLE relationship_edges
+      DROP COLUMN IF EXISTS score_updated_at,
+      DROP COLUMN IF EXISTS affinity_score`,
+  ],
+};
@@ -0,0 +1,43 @@
+import type { Migration } from "../MigrationRunner";
+
+/**
+ * Cached graph analytics over relationship_edges: one summary row per guild
+ * and one row of metrics per member in the graph. Both are derived data,
+ * replaced wholesale by the network-analytics maintenance job, so they are
+ * not included in guild archives.
+ */
+export const migration: Migration = {
+  version: 16,
+  name: "network_analytics",
+  up: [
+    `CREATE TABLE IF NOT EXISTS network_analyses (
+      guild_id VARCHAR(20) PRIMARY KEY REFERENCES guilds(id) ON DELETE CASCADE,
+      node_count INTEGER NOT NULL DEFAULT 0,
+      edge_count INTEGER NOT NULL DEFAULT 0,
+      community_count INTEGER NOT NULL DEFAULT 0,
+      -- How cleanly the graph splits into its communities (-0.5 to 1)
+      modularity DOUBLE PRECISION NOT NULL DEFAULT 0,
+      -- Affinity model the edges were weighted with
+      affinity_model VARCHAR(20) NOT NULL,
+      computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+    )`,
+    `CREATE TABLE IF NOT EXISTS network_member_metrics (
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      user_id VARCHAR(20) NOT NULL,
+      -- Numbered by size, largest community first
+      community_id INTEGER NOT NULL,
+      pagerank DOUBLE PRECISION NOT NULL DEFAULT 0,
+      betweenness DOUBLE PRECISION NOT NULL DEFAULT 0,
+      participation DOUBLE PRECISION NOT NULL DEFAULT 0,
+      degree INTEGER NOT NULL DEFAULT 0,
+      strength DOUBLE PRECISION NOT NULL DEFAULT 0,
+      is_bridge BOOLEAN NOT NULL DEFAULT false,
+      PRIMARY KEY (guild_id, user_id)
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_network_member_metrics_community ON network_member_metrics(guild_id, community_id, pagerank DESC)",
+  ],
+  down: [
+    "DROP TABLE IF EXISTS network_member_metrics",
+    "DROP TABLE IF EXISTS network_analyses",
+  ],
+};
@@ -0,0 +1,255 @@
+import type { Migration } from "../MigrationRunner";
+import {
+  RESCORE_EDGES_FUNCTION,
+  SCORE_EDGE_FUNCTION,
+} from "./015_affinity_scores";
+
+/**
+ * Score interactions from when they happened rather than when they were
+ * written. Writers that know an interaction's time (live sync, history
+ * scripts, voice sessions, reaction removals) set relationship_edges.
+ * interaction_at alongside the counters; the scoring trigger decays the
+ * change from that time, books it in relationship_daily_activity under the
+ * day it happened (UTC), and clears the column again. A backfill of old
+ * messages therefore scores as old, and rescoring rebuilds each edge from
+ * its daily rows. Counters older than an edge's first daily row (history
+ * from before this migration, or days pruned since) are dated like the
+ * author's stored messages before that day, or spread evenly since the
+ * edge was created if there are none; replaying history with
+ * `npm run generate:relationships <guild_id> --clear` dates them exactly.
+ * Rescoring reads the guild's messages once, grouped by author and day.
+ */
+export const migration: Migration = {
+  version: 18,
+  name: "relationship_daily_activity",
+  up: [
+    `CREATE TABLE IF NOT EXISTS relationship_daily_activity (
+      guild_id VARCHAR(20) NOT NULL REFERENCES guilds(id) ON DELETE CASCADE,
+      user_a VARCHAR(20) NOT NULL,
+      user_b VARCHAR(20) NOT NULL,
+      day DATE NOT NULL,
+      messages INTEGER NOT NULL DEFAULT 0,
+      mentions INTEGER NOT NULL DEFAULT 0,
+      replies INTEGER NOT NULL DEFAULT 0,
+      reactions INTEGER NOT NULL DEFAULT 0,
+      voice_seconds INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY (guild_id, user_a, user_b, day)
+    )`,
+    "CREATE INDEX IF NOT EXISTS idx_relationship_daily_activity_day ON relationship_daily_activity(guild_id, day)",
+    // Always NULL at rest: set by writers, read and cleared by the trigger
+    "ALTER TABLE relationship_edges ADD COLUMN IF NOT EXISTS interaction_at TIMESTAMP WITH TIME ZONE",
+    `CREATE OR REPLACE FUNCTION daily_affinity_points(weights JSONB, activity relationship_daily_activity) RETURNS DOUBLE PRECISION AS $$
+      SELECT (weights->>'message')::float8 * activity.messages
+        + (weights->>'mention')::float8 * activity.mentions
+        + (weights->>'reply')::float8 * activity.replies
+        + (weights->>'reaction')::float8 * activity.reactions
+        + (weights->>'voice')::float8 * activity.voice_seconds / 300.0
+    $$ LANGUAGE sql IMMUTABLE`,
+    // Average decay factor of interactions spread evenly over [started, ended]
+    `CREATE OR REPLACE FUNCTION decay_over_span(
+      started TIMESTAMP WITH TIME ZONE,
+      ended TIMESTAMP WITH TIME ZONE,
+      half_life_seconds DOUBLE PRECISION
+    ) RETURNS DOUBLE PRECISION AS $$
+      SELECT CASE
+        WHEN span < 3600 THEN power(0.5, newest_age / half_life_seconds)
+        ELSE half_life_seconds / ln(2)
+          * (power(0.5, newest_age / half_life_seconds)
+            - power(0.5, (newest_age + span) / half_life_seconds))
+          / span
+      END
+      FROM (
+        SELECT GREATEST(EXTRACT(EPOCH FROM NOW() - ended)::float8, 0) AS newest_age,
+               GREATEST(EXTRACT(EPOCH FROM ended - started)::float8, 0) AS span
+      ) ages
+    $$ LANGUAGE sql STABLE`,
+    `CREATE OR REPLACE FUNCTION book_relationship_activity(
+      guild VARCHAR,
+      from_user VARCHAR,
+      to_user VARCHAR,
+      happened_at TIMESTAMP WITH TIME ZONE,
+      d_messages INTEGER,
+      d_mentions INTEGER,
+      d_replies INTEGER,
+      d_reactions INTEGER,
+      d_voice INTEGER
+    ) RETURNS void AS $$
+      INSERT INTO relationship_daily_activity (
+        guild_id, user_a, user_b, day, messages, mentions, replies, reactions, voice_seconds
+      )
+      SELECT guild, from_user, to_user, (happened_at AT TIME ZONE 'UTC')::date,
+             d_messages, d_mentions, d_replies, d_reactions, d_voice
+      WHERE d_messages <> 0 OR d_mentions <> 0 OR d_replies <> 0 OR d_reactions <> 0 OR d_voice <> 0
+      ON CONFLICT (guild_id, user_a, user_b, day) DO UPDATE SET
+        messages = relationship_daily_activity.messages + EXCLUDED.messages,
+        mentions = relationship_daily_activity.mentions + EXCLUDED.mentions,
+        replies = relationship_daily_activity.replies + EXCLUDED.replies,
+        reactions = relationship_daily_activity.reactions + EXCLUDED.reactions,
+        voice_seconds = relationship_daily_activity.voice_seconds + EXCLUDED.voice_seconds
+    $$ LANGUAGE sql`,
+    // BEFORE INSERT also runs for upserts that turn into updates, so it only
+    // scores; rows that really were inserted are booked after the fact
+    `CREATE OR REPLACE FUNCTION score_relationship_edge() RETURNS trigger AS $$
+    DECLARE
+      weights JSONB;
+      half_life_seconds DOUBLE PRECISION;
+      happened_at TIMESTAMP WITH TIME ZONE;
+      previous_score DOUBLE PRECISION := 0;
+      previous_points DOUBLE PRECISION := 0;
+    BEGIN
+      IF current_setting('app.restoring_archive', true) = 'on' THEN
+        NEW.interaction_at := NULL;
+        RETURN NEW;
+      END IF;
+
+      happened_at := LEAST(COALESCE(NEW.interaction_at, NOW()), NOW());
+      weights := guild_affinity_weights(NEW.guild_id);
+      half_life_seconds := guild_affinity_half_life_days(NEW.guild_id) * 86400;
+
+      IF TG_OP = 'UPDATE' THEN
+        previous_points := edge_affinity_points(weights, OLD);
+        previous_score := OLD.affinity_score * power(
+          0.5,
+          GREATEST(EXTRACT(EPOCH FROM NOW() - OLD.score_updated_at)::float8, 0) / half_life_seconds
+        );
+        PERFORM book_relationship_activity(
+          NEW.guild_id, NEW.user_a, NEW.user_b, happened_at,
+          COALESCE(NEW.msg_a_to_b, 0) + COALESCE(NEW.msg_b_to_a, 0)
+            - COALESCE(OLD.msg_a_to_b, 0) - COALESCE(OLD.msg_b_to_a, 0),
+          COALESCE(NEW.mentions, 0) - COALESCE(OLD.mentions, 0),
+          COALESCE(NEW.replies, 0) - COALESCE(OLD.replies, 0),
+          COALESCE(NEW.reactions, 0) - COALESCE(OLD.reactions, 0),
+          COALESCE(NEW.voice_seconds, 0) - COALESCE(OLD.voice_seconds, 0)
+        );
+        NEW.interaction_at := NULL;
+      END IF;
+
+      NEW.affinity_score := GREATEST(
+        previous_score
+          + (edge_affinity_points(weights, NEW) - previous_points) * power(
+            0.5,
+            GREATEST(EXTRACT(EPOCH FROM NOW() - happened_at)::float8, 0) / half_life_seconds
+          ),
+        0
+      );
+      NEW.score_updated_at := NOW();
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql`,
+    `CREATE OR REPLACE FUNCTION book_inserted_relationship_edge() RETURNS trigger AS $$
+    BEGIN
+      IF current_setting('app.restoring_archive', true) = 'on' THEN
+        RETURN NULL;
+      END IF;
+
+      PERFORM book_relationship_activity(
+        NEW.guild_id, NEW.user_a, NEW.user_b,
+        LEAST(COALESCE(NEW.interaction_at, NOW()), NOW()),
+        COALESCE(NEW.msg_a_to_b, 0) + COALESCE(NEW.msg_b_to_a, 0),
+        COALESCE(NEW.mentions, 0),
+        COALESCE(NEW.replies, 0),
+        COALESCE(NEW.reactions, 0),
+        COALESCE(NEW.voice_seconds, 0)
+      );
+      -- Doesn't touch the counters, so it isn't scored again
+      UPDATE relationship_edges SET interaction_at = NULL
+      WHERE guild_id = NEW.guild_id AND user_a = NEW.user_a AND user_b = NEW.user_b;
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql`,
+    "DROP TRIGGER IF EXISTS trg_relationship_edges_book_insert ON relationship_edges",
+    `CREATE TRIGGER trg_relationship_edges_book_insert
+      AFTER INSERT ON relationship_edges
+      FOR EACH ROW
+      EXECUTE FUNCTION book_inserted_relationship_edge()`,
+    `CREATE OR REPLACE FUNCTION rescore_relationship_edges(guild VARCHAR) RETURNS INTEGER AS $$
+    DECLARE
+      weights JSONB := guild_affinity_weights(guild);
+      half_life_seconds DOUBLE PRECISION := guild_affinity_half_life_days(guild) * 86400;
+      updated INTEGER;
+    BEGIN
+      -- Counters without daily rows are dated like their author's stored
+      -- messages: per author and day, the running count and decayed count
+      DROP TABLE IF EXISTS pg_temp.rescore_author_activity;
+      CREATE TEMP TABLE rescore_author_activity AS
+        SELECT author_id, day,
+          SUM(messages) OVER running AS messages,
+          SUM(messages * power(
+            0.5,
+            GREATEST(EXTRACT(EPOCH FROM NOW() - ((day + TIME '12:00') AT TIME ZONE 'UTC'))::float8, 0)
+              / half_life_seconds
+          )) OVER running AS decayed
+        FROM (
+          SELECT author_id, (created_at AT TIME ZONE 'UTC')::date AS day, COUNT(*)::float8 AS messages
+          FROM messages
+          WHERE guild_id = guild
+          GROUP BY 1, 2
+        ) daily
+        WINDOW running AS (PARTITION BY author_id ORDER BY day);
+      CREATE INDEX ON rescore_author_activity (author_id, day);
+
+      UPDATE relationship_edges e
+      SET affinity_score = GREATEST(
+            s.dated_score
+              + GREATEST(edge_affinity_points(weights, e) - s.dated_points, 0)
+                * COALESCE(
+                  s.author_decay,
+                  decay_over_span(LEAST(e.created_at, s.undated_until), s.undated_until, half_life_seconds)
+                ),
+            0
+          ),
+          score_updated_at = NOW()
+      FROM (
+        SELECT x.user_a, x.user_b,
+          COALESCE(dated.score, 0) AS dated_score,
+          COALESCE(dated.points, 0) AS dated_points,
+          -- Undated counters predate the first daily row
+          COALESCE(dated.first_at, x.last_interaction) AS undated_until,
+          (
+            SELECT a.decayed / a.messages
+            FROM rescore_author_activity a
+            WHERE a.author_id = x.user_a
+              AND a.day <= (COALESCE(dated.first_at, x.last_interaction) AT TIME ZONE 'UTC')::date
+            ORDER BY a.day DESC
+            LIMIT 1
+          ) AS author_decay
+        FROM relationship_edges x
+        LEFT JOIN (
+          SELECT d.user_a, d.user_b,
+            SUM(daily_affinity_points(weights, d)) AS points,
+            -- Each day's interactions are scored from its midday
+            SUM(daily_affinity_points(weights, d) * power(
+              0.5,
+              GREATEST(EXTRACT(EPOCH FROM NOW() - ((d.day + TIME '12:00') AT TIME ZONE 'UTC'))::float8, 0)
+                / half_life_seconds
+            )) AS score,
+            MIN(d.day)::timestamp AT TIME ZONE 'UTC' AS first_at
+          FROM relationship_daily_activity d
+          WHERE d.guild_id = guild
+          GROUP BY d.user_a, d.user_b
+        ) dated ON dated.user_a = x.user_a AND dated.user_b = x.user_b
+        WHERE x.guild_id = guild
+      ) s
+      WHERE e.guild_id = guild
+        AND e.user_a = s.user_a
+        AND e.user_b = s.user_b;
+      GET DIAGNOSTICS updated = ROW_COUNT;
+
+      DROP TABLE pg_temp.rescore_author_activity;
+      RETURN updated;
+    END;
+    $$ LANGUAGE plpgsql`,
+    "SELECT rescore_relationship_edges(id) FROM guilds",
+  ],
+  down: [
+    "DROP TRIGGER IF EXISTS trg_relationship_edges_book_insert ON relationship_edges",
+    "DROP FUNCTION IF EXISTS book_inserted_relationship_edge()",
+    SCORE_EDGE_FUNCTION,
+    RESCORE_EDGES_FUNCTION,
+    "DROP FUNCTION IF EXISTS decay_over_span(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION)",
+    "DROP FUNCTION IF EXISTS book_relationship_activity(VARCHAR, VARCHAR, VARCHAR, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER)",
+    "DROP FUNCTION IF EXISTS daily_affinity_points(JSONB, relationship_daily_activity)",
+    "ALTER TABLE relationship_edges DROP COLUMN IF EXISTS interaction_at",
+    "DROP TABLE IF EXISTS relationship_daily_activity",
+  ],
+};
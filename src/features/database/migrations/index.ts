@@ -0,0 +1,42 @@
+import type { Migration } from "../MigrationRunner";
+import { migration as initialSchema } from "./001_initial_schema";
+import { migration as messageSearch } from "./002_message_search";
+import { migration as messageRevisions } from "./003_message_revisions";
+import { migration as messageReactions } from "./004_message_reactions";
+import { migration as messageDeletions } from "./005_message_deletions";
+import { migration as attachments } from "./006_attachments";
+import { migration as threads } from "./007_threads";
+import { migration as syncJobs } from "./008_sync_jobs";
+import { migration as guildSettings } from "./009_guild_settings";
+import { migration as channelPolicy } from "./010_channel_policy";
+import { migration as channelPermissions } from "./011_channel_permissions";
+import { migration as voiceSessions } from "./012_voice_sessions";
+import { migration as memberEvents } from "./013_member_events";
+import { migration as maintenanceRuns } from "./014_maintenance_runs";
+import { migration as affinityScores } from "./015_affinity_scores";
+import { migration as networkAnalytics } from "./016_network_analytics";
+import { migration as relationshipDailyActivity } from "./018_relationship_daily_activity";
+
+/**
+ * Ordered list of schema migrations. Append new migrations here; never edit
+ * or reorder one that has already shipped.
+ */
+export const migrations: Migration[] = [
+  initialSchema,
+  messageSearch,
+  messageRevisions,
+  messageReactions,
+  messageDeletions,
+  attachments,
+  threads,
+  syncJobs,
+  guildSettings,
+  channelPolicy,
+  channelPermissions,
+  voiceSessions,
+  memberEvents,
+  maintenanceRuns,
+  affinityScores,
+  networkAnalytics,
+  relationshipDailyActivity,
+];
@@ -0,0 +1,166 @@
+import type {
+  DatabaseResult,
+  EdgeData,
+  PostgreSQLManager,
+} from "../PostgreSQLManager";
+
+/**
+ * A relationship_edges row, kept in step with the table by hand. The
+ * counters allow NULL in the schema; last_interaction and the timestamps
+ * are always written.
+ */
+export interface EdgeRow {
+  guild_id: string;
+  user_a: string;
+  user_b: string;
+  last_interaction: Date;
+  msg_a_to_b: number | null;
+  msg_b_to_a: number | null;
+  mentions: number | null;
+  replies: number | null;
+  reactions: number | null;
+  voice_seconds: number;
+  rolling_7d: number | null;
+  rolling_30d: number | null;
+  total: number | null;
+  affinity_score: number;
+  score_updated_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Map a relationship_edges row to EdgeData
+ */
+export function toEdgeData(row: EdgeRow): EdgeData {
+  return {
+    guild_id: row.guild_id,
+    user_a: row.user_a,
+    user_b: row.user_b,
+    last_interaction: row.last_interaction,
+    msg_a_to_b: row.msg_a_to_b || 0,
+    msg_b_to_a: row.msg_b_to_a || 0,
+    mentions: row.mentions || 0,
+    replies: row.replies || 0,
+    reactions: row.reactions || 0,
+    voice_seconds: row.voice_seconds || 0,
+    rolling_7d: row.rolling_7d || 0,
+    rolling_30d: row.rolling_30d || 0,
+    total: row.total || 0,
+    affinity_score: Number(row.affinity_score) || 0,
+    score_updated_at: row.score_updated_at,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export class EdgeRepository {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * Get the directed edge from userA to userB, if any
+   */
+  async findPair(
+    guildId: string,
+    userA: string,
+    userB: string
+  ): Promise<DatabaseResult<EdgeData | null>> {
+    const result = await this.db.getEdgeForPair(guildId, userA, userB);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data ? toEdgeData(result.data) : null };
+  }
+
+  /**
+   * Get a user's edges in both directions, busiest first
+   */
+  async findForUser(
+    guildId: string,
+    userId: string,
+    options: { since?: Date; limit?: number } = {}
+  ): Promise<DatabaseResult<EdgeData[]>> {
+    const params: any[] = [guildId, userId, options.limit || 50];
+    if (options.since) params.push(options.since);
+
+    const result = await this.db.readQuery<EdgeRow>(
+      `SELECT * FROM relationship_edges
+       WHERE guild_id = $1 AND (user_a = $2 OR user_b = $2)
+         ${options.since ? "AND last_interaction >= $4" : ""}
+       ORDER BY rolling_7d DESC, total DESC
+       LIMIT $3`,
+      params
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toEdgeData) };
+  }
+
+  /**
+   * Get edges with an interaction since a date, busiest first
+   */
+  async findActive(
+    guildId: string,
+    since: Date,
+    limit = 50
+  ): Promise<DatabaseResult<EdgeData[]>> {
+    const result = await this.db.readQuery<EdgeRow>(
+      `SELECT * FROM relationship_edges
+       WHERE guild_id = $1 AND last_interaction >= $2
+       ORDER BY rolling_7d DESC, total DESC
+       LIMIT $3`,
+      [guildId, since, limit]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toEdgeData) };
+  }
+
+  /**
+   * Edges in either direction between any two of the given users
+   */
+  async findAmong(
+    guildId: string,
+    userIds: string[]
+  ): Promise<DatabaseResult<EdgeData[]>> {
+    const result = await this.db.readQuery<EdgeRow>(
+      `SELECT * FROM relationship_edges
+       WHERE guild_id = $1
+         AND user_a = ANY($2::text[]) AND user_b = ANY($2::text[])`,
+      [guildId, userIds]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toEdgeData) };
+  }
+
+  /**
+   * Every edge in a guild whose ends are both active, non-bot members
+   */
+  async findBetweenMembers(
+    guildId: string
+  ): Promise<DatabaseResult<EdgeData[]>> {
+    const result = await this.db.readQuery<EdgeRow>(
+      `SELECT e.* FROM relationship_edges e
+       JOIN members a
+         ON a.guild_id = e.guild_id AND a.user_id = e.user_a
+        AND a.active = true AND a.bot = false
+       JOIN members b
+         ON b.guild_id = e.guild_id AND b.user_id = e.user_b
+        AND b.active = true AND b.bot = false
+       WHERE e.guild_id = $1`,
+      [guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toEdgeData) };
+  }
+}
@@ -0,0 +1,95 @@
+import type {
+  DatabaseResult,
+  MemberEventData,
+  MemberEventType,
+  PostgreSQLManager,
+} from "../PostgreSQLManager";
+
+/**
+ * A member_events row with its resolved role name. event_type is only ever
+ * written by the record_member_events trigger, which uses the
+ * MemberEventType values.
+ */
+export interface MemberEventRow {
+  id: string; // BIGSERIAL
+  guild_id: string;
+  user_id: string;
+  event_type: MemberEventType;
+  old_value: string | null;
+  new_value: string | null;
+  role_name: string | null;
+  occurred_at: Date;
+}
+
+/**
+ * Map a member_events row to MemberEventData
+ */
+export function toMemberEventData(row: MemberEventRow): MemberEventData {
+  return {
+    id: String(row.id),
+    guild_id: row.guild_id,
+    user_id: row.user_id,
+    event_type: row.event_type,
+    old_value: row.old_value ?? undefined,
+    new_value: row.new_value ?? undefined,
+    role_name: row.role_name ?? undefined,
+    occurred_at: row.occurred_at,
+  };
+}
+
+export interface MemberEventQueryOptions {
+  types?: MemberEventType[];
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export class MemberEventRepository {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * A member's profile history, newest first, with role names resolved
+   */
+  async findByUser(
+    guildId: string,
+    userId: string,
+    options: MemberEventQueryOptions = {}
+  ): Promise<DatabaseResult<MemberEventData[]>> {
+    const conditions = ["e.guild_id = $1", "e.user_id = $2"];
+    const params: any[] = [guildId, userId];
+
+    if (options.types && options.types.length > 0) {
+      params.push(options.types);
+      conditions.push(`e.event_type = ANY($${params.length}::text[])`);
+    }
+    if (options.since) {
+      params.push(options.since);
+      conditions.push(`e.occurred_at >= $${params.length}`);
+    }
+    if (options.until) {
+      params.push(options.until);
+      conditions.push(`e.occurred_at <= $${params.length}`);
+    }
+    params.push(options.limit || 50);
+
+    const result = await this.db.readQuery<MemberEventRow>(
+      `SELECT e.*, r.name AS role_name
+       FROM member_events e
+       LEFT JOIN roles r
+         ON e.event_type IN ('role_add', 'role_remove')
+        AND r.id = COALESCE(e.new_value, e.old_value)
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY e.occurred_at DESC, e.id DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toMemberEventData) };
+  }
+}
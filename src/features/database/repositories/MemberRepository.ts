@@ -0,0 +1,304 @@
+import type {
+  DatabaseResult,
+  MemberData,
+  PostgreSQLManager,
+  RelationshipEntry,
+} from "../PostgreSQLManager";
+
+/**
+ * A members row as node-postgres returns it. This is written by hand from
+ * the schema: the compiler checks toMemberData against it, not against the
+ * database, so a new or retyped column has to be added here as well.
+ * Columns the bot always writes (joined_at, active and the timestamps) are
+ * typed as set even though the schema allows NULL.
+ */
+export interface MemberRow {
+  id: string;
+  guild_id: string;
+  user_id: string;
+  username: string;
+  display_name: string;
+  global_name: string | null;
+  avatar: string | null;
+  avatar_decoration: string | null;
+  banner: string | null;
+  accent_color: number | null;
+  discriminator: string;
+  bio: string | null;
+  flags: number | null;
+  premium_type: number | null;
+  public_flags: number | null;
+  bot: boolean | null;
+  system: boolean | null;
+  nick: string | null;
+  joined_at: Date;
+  roles: string[] | null;
+  permissions: string | null;
+  communication_disabled_until: Date | null;
+  pending: boolean | null;
+  premium_since: Date | null;
+  timeout: Date | null;
+  status: string | null;
+  activities: string | null;
+  client_status: string | null;
+  summary: string | null;
+  keywords: string[] | null;
+  emojis: string[] | null;
+  notes: string[] | null;
+  relationship_network: RelationshipEntry[] | null;
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type MemberName = Pick<
+  MemberData,
+  "user_id" | "display_name" | "username"
+>;
+
+/**
+ * What's needed to draw a member: name, avatar and the color of their
+ * highest colored role
+ */
+export interface MemberProfile extends MemberName {
+  avatar?: string; // Avatar hash
+  bot: boolean;
+  active: boolean;
+  role_color?: number;
+}
+
+/**
+ * Map a members row to MemberData, with NULLs as undefined or defaults
+ */
+export function toMemberData(row: MemberRow): MemberData {
+  return {
+    id: row.id,
+    guild_id: row.guild_id,
+    user_id: row.user_id,
+    username: row.username,
+    display_name: row.display_name,
+    global_name: row.global_name ?? undefined,
+    avatar: row.avatar ?? undefined,
+    avatar_decoration: row.avatar_decoration ?? undefined,
+    banner: row.banner ?? undefined,
+    accent_color: row.accent_color ?? undefined,
+    discriminator: row.discriminator,
+    bio: row.bio ?? undefined,
+    flags: row.flags ?? undefined,
+    premium_type: row.premium_type ?? undefined,
+    public_flags: row.public_flags ?? undefined,
+    bot: row.bot ?? false,
+    system: row.system ?? undefined,
+    nick: row.nick ?? undefined,
+    joined_at: row.joined_at,
+    roles: row.roles || [],
+    permissions: row.permissions || "0",
+    communication_disabled_until:
+      row.communication_disabled_until ?? undefined,
+    pending: row.pending ?? undefined,
+    premium_since: row.premium_since ?? undefined,
+    timeout: row.timeout ?? undefined,
+    status: row.status ?? undefined,
+    activities: row.activities ?? undefined,
+    client_status: row.client_status ?? undefined,
+    summary: row.summary ?? undefined,
+    keywords: row.keywords ?? undefined,
+    emojis: row.emojis ?? undefined,
+    notes: row.notes ?? undefined,
+    relationship_network: row.relationship_network || [],
+    active: row.active,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export class MemberRepository {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * Get a member by Discord user ID. Inactive members (who left the guild)
+   * are only returned when includeInactive is set, and active rows win.
+   */
+  async findByUserId(
+    guildId: string,
+    userId: string,
+    options: { includeInactive?: boolean } = {}
+  ): Promise<DatabaseResult<MemberData | null>> {
+    const result = await this.db.readQuery<MemberRow>(
+      `SELECT * FROM members
+       WHERE user_id = $1 AND guild_id = $2
+         ${options.includeInactive ? "" : "AND active = true"}
+       ORDER BY active DESC
+       LIMIT 1`,
+      [userId, guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const row = result.data[0];
+    return { success: true, data: row ? toMemberData(row) : null };
+  }
+
+  /**
+   * Get all active members of a guild
+   */
+  async findByGuild(guildId: string): Promise<DatabaseResult<MemberData[]>> {
+    const result = await this.db.query<MemberRow>(
+      "SELECT * FROM members WHERE guild_id = $1 AND active = true ORDER BY username",
+      [guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toMemberData) };
+  }
+
+  /**
+   * Search active members by name, nickname or keyword (case-insensitive)
+   */
+  async search(
+    guildId: string,
+    term: string,
+    limit = 10
+  ): Promise<DatabaseResult<MemberData[]>> {
+    const result = await this.db.readQuery<MemberRow>(
+      `SELECT * FROM members
+       WHERE guild_id = $1
+         AND active = true
+         AND (
+           LOWER(display_name) LIKE $2
+           OR LOWER(username) LIKE $2
+           OR LOWER(COALESCE(global_name, '')) LIKE $2
+           OR LOWER(COALESCE(nick, '')) LIKE $2
+           OR EXISTS (
+             SELECT 1 FROM UNNEST(keywords) AS kw
+             WHERE LOWER(kw) LIKE $2
+           )
+         )
+       ORDER BY display_name
+       LIMIT $3`,
+      [guildId, `%${term.toLowerCase()}%`, limit]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toMemberData) };
+  }
+
+  /**
+   * Resolve display names for a set of users, keyed by user ID
+   */
+  async getNames(
+    guildId: string,
+    userIds: string[],
+    options: { includeInactive?: boolean } = {}
+  ): Promise<DatabaseResult<Map<string, MemberName>>> {
+    const names = new Map<string, MemberName>();
+    if (userIds.length === 0) {
+      return { success: true, data: names };
+    }
+
+    const result = await this.db.readQuery<MemberName>(
+      `SELECT user_id, display_name, username
+       FROM members
+       WHERE user_id = ANY($1::text[]) AND guild_id = $2
+         ${options.includeInactive ? "" : "AND active = true"}`,
+      [userIds, guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    for (const row of result.data) {
+      names.set(row.user_id, {
+        user_id: row.user_id,
+        display_name: row.display_name,
+        username: row.username,
+      });
+    }
+    return { success: true, data: names };
+  }
+
+  /**
+   * Names, avatars and role colors for a set of members, active or not
+   */
+  async getProfiles(
+    guildId: string,
+    userIds: string[]
+  ): Promise<DatabaseResult<Map<string, MemberProfile>>> {
+    const profiles = new Map<string, MemberProfile>();
+    if (userIds.length === 0) {
+      return { success: true, data: profiles };
+    }
+
+    const result = await this.db.readQuery(
+      `SELECT m.user_id, m.display_name, m.username, m.avatar, m.bot, m.active,
+              (SELECT r.color FROM roles r
+               WHERE r.guild_id = m.guild_id AND r.id = ANY(m.roles)
+                 AND r.active = true AND r.color <> 0
+               ORDER BY r.position DESC
+               LIMIT 1) AS role_color
+       FROM members m
+       WHERE m.user_id = ANY($1::text[]) AND m.guild_id = $2`,
+      [userIds, guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    for (const row of result.data) {
+      profiles.set(row.user_id, {
+        user_id: row.user_id,
+        display_name: row.display_name,
+        username: row.username,
+        avatar: row.avatar ?? undefined,
+        bot: row.bot ?? false,
+        active: row.active ?? false,
+        role_color: row.role_color ?? undefined,
+      });
+    }
+    return { success: true, data: profiles };
+  }
+
+  /**
+   * Resolve a member's role IDs to role names, alphabetically
+   */
+  async getRoleNames(
+    guildId: string,
+    roleIds: string[]
+  ): Promise<DatabaseResult<string[]>> {
+    if (roleIds.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const result = await this.db.readQuery(
+      `SELECT name FROM roles
+       WHERE id = ANY($1::text[]) AND guild_id = $2 AND active = true
+       ORDER BY name`,
+      [roleIds, guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map((row) => row.name) };
+  }
+
+  /**
+   * Count active members in a guild
+   */
+  async countActive(guildId: string): Promise<DatabaseResult<number>> {
+    const result = await this.db.readQuery(
+      "SELECT COUNT(*) AS count FROM members WHERE guild_id = $1 AND active = true",
+      [guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: Number(result.data[0]?.count || 0) };
+  }
+}
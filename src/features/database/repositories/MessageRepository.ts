@@ -0,0 +1,331 @@
+import type {
+  DatabaseResult,
+  MessageData,
+  PostgreSQLManager,
+} from "../PostgreSQLManager";
+
+/**
+ * A message joined with its author's and channel's display names
+ */
+export interface MessageWithContext extends MessageData {
+  display_name?: string;
+  username?: string;
+  channel_name?: string;
+}
+
+export interface MessageAuthorStats {
+  message_count: number;
+  first_message: Date | null;
+  last_message: Date | null;
+}
+
+export interface MessageAuthorCount {
+  author_id: string;
+  display_name?: string;
+  username?: string;
+  message_count: number;
+}
+
+// A reply from one user to a message by another
+export interface MessageReply {
+  id: string;
+  author_id: string; // Who replied
+  replied_to: string; // Author of the referenced message
+  latency_seconds: number; // Time between the two messages
+}
+
+export interface MessageQueryOptions {
+  channelId?: string;
+  excludeChannelIds?: string[];
+  since?: Date;
+  limit?: number;
+  order?: "asc" | "desc";
+}
+
+/**
+ * A messages row joined with names, as MESSAGE_WITH_CONTEXT returns it.
+ * Kept in step with the messages table by hand; created_at and active are
+ * always written, so they're typed as set.
+ */
+export interface MessageRow {
+  id: string;
+  guild_id: string;
+  channel_id: string;
+  author_id: string;
+  content: string;
+  created_at: Date;
+  edited_at: Date | null;
+  attachments: string[] | null;
+  embeds: string[] | null;
+  referenced_message_id: string | null;
+  active: boolean;
+  deleted_at: Date | null;
+  deleted_by: string | null;
+  display_name: string | null;
+  username: string | null;
+  channel_name: string | null;
+}
+
+/**
+ * Map a messages row (optionally joined with names) to MessageWithContext
+ */
+export function toMessageData(row: MessageRow): MessageWithContext {
+  return {
+    id: row.id,
+    guild_id: row.guild_id,
+    channel_id: row.channel_id,
+    author_id: row.author_id,
+    content: row.content || "",
+    created_at: row.created_at,
+    edited_at: row.edited_at ?? undefined,
+    attachments: row.attachments ?? undefined,
+    embeds: row.embeds ?? undefined,
+    referenced_message_id: row.referenced_message_id ?? undefined,
+    active: row.active,
+    deleted_at: row.deleted_at ?? undefined,
+    deleted_by: row.deleted_by ?? undefined,
+    display_name: row.display_name ?? undefined,
+    username: row.username ?? undefined,
+    channel_name: row.channel_name ?? undefined,
+  };
+}
+
+// Shared projection: the full message plus author and channel names
+const MESSAGE_WITH_CONTEXT = `
+  SELECT m.*, c.name AS channel_name, mem.display_name, mem.username
+  FROM messages m
+  LEFT JOIN channels c ON c.id = m.channel_id AND c.guild_id = m.guild_id
+  LEFT JOIN members mem ON mem.user_id = m.author_id AND mem.guild_id = m.guild_id
+`;
+
+export class MessageRepository {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * Get recent active messages in a guild, optionally scoped to a channel
+   */
+  async findRecent(
+    guildId: string,
+    options: MessageQueryOptions = {}
+  ): Promise<DatabaseResult<MessageWithContext[]>> {
+    return this.find("m.guild_id = $1", [guildId], options);
+  }
+
+  /**
+   * Get active messages sent by one author
+   */
+  async findByAuthor(
+    guildId: string,
+    authorId: string,
+    options: MessageQueryOptions = {}
+  ): Promise<DatabaseResult<MessageWithContext[]>> {
+    return this.find(
+      "m.guild_id = $1 AND m.author_id = $2",
+      [guildId, authorId],
+      options
+    );
+  }
+
+  /**
+   * Get active messages by ID, oldest first
+   */
+  async findByIds(
+    guildId: string,
+    messageIds: string[]
+  ): Promise<DatabaseResult<MessageWithContext[]>> {
+    if (messageIds.length === 0) {
+      return { success: true, data: [] };
+    }
+    return this.find(
+      "m.guild_id = $1 AND m.id = ANY($2::text[])",
+      [guildId, messageIds],
+      { order: "asc" }
+    );
+  }
+
+  /**
+   * Get active messages that @mention a user
+   */
+  async findMentioning(
+    guildId: string,
+    userId: string,
+    options: MessageQueryOptions = {}
+  ): Promise<DatabaseResult<MessageWithContext[]>> {
+    return this.find(
+      "m.guild_id = $1 AND m.content LIKE $2",
+      [guildId, `%<@${userId}>%`],
+      options
+    );
+  }
+
+  /**
+   * Message count and first/last message times for an author
+   */
+  async getAuthorStats(
+    guildId: string,
+    authorId: string
+  ): Promise<DatabaseResult<MessageAuthorStats>> {
+    const result = await this.db.readQuery(
+      `SELECT COUNT(*) AS message_count,
+              MIN(created_at) AS first_message,
+              MAX(created_at) AS last_message
+       FROM messages
+       WHERE author_id = $1 AND guild_id = $2 AND active = true`,
+      [authorId, guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const row = result.data[0] || {};
+    return {
+      success: true,
+      data: {
+        message_count: Number(row.message_count || 0),
+        first_message: row.first_message ? new Date(row.first_message) : null,
+        last_message: row.last_message ? new Date(row.last_message) : null,
+      },
+    };
+  }
+
+  /**
+   * Count active messages in a guild, optionally only since a date
+   */
+  async count(guildId: string, since?: Date): Promise<DatabaseResult<number>> {
+    const result = await this.db.readQuery(
+      `SELECT COUNT(*) AS count FROM messages
+       WHERE guild_id = $1 AND active = true
+         ${since ? "AND created_at >= $2" : ""}`,
+      since ? [guildId, since] : [guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: Number(result.data[0]?.count || 0) };
+  }
+
+  /**
+   * Non-bot authors with the most messages since a date
+   */
+  async getTopAuthors(
+    guildId: string,
+    since: Date,
+    limit = 10
+  ): Promise<DatabaseResult<MessageAuthorCount[]>> {
+    const result = await this.db.readQuery(
+      `SELECT m.author_id, mem.display_name, mem.username, COUNT(*) AS message_count
+       FROM messages m
+       JOIN members mem ON m.author_id = mem.user_id AND m.guild_id = mem.guild_id
+       WHERE m.guild_id = $1
+         AND m.active = true
+         AND m.created_at >= $2
+         AND mem.bot = false
+       GROUP BY m.author_id, mem.display_name, mem.username
+       ORDER BY message_count DESC
+       LIMIT $3`,
+      [guildId, since, limit]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return {
+      success: true,
+      data: result.data.map((row) => ({
+        author_id: row.author_id,
+        display_name: row.display_name ?? undefined,
+        username: row.username ?? undefined,
+        message_count: Number(row.message_count),
+      })),
+    };
+  }
+
+  /**
+   * Active replies either user sent to a message by the other, newest first,
+   * leaving out replies in (or to messages in) the excluded channels
+   */
+  async findRepliesBetween(
+    guildId: string,
+    userA: string,
+    userB: string,
+    options: { excludeChannelIds?: string[]; limit?: number } = {}
+  ): Promise<DatabaseResult<MessageReply[]>> {
+    const result = await this.db.readQuery(
+      `SELECT r.id, r.author_id, m.author_id AS replied_to,
+              GREATEST(EXTRACT(EPOCH FROM r.created_at - m.created_at), 0) AS latency_seconds
+       FROM messages r
+       JOIN messages m ON m.id = r.referenced_message_id
+       WHERE r.guild_id = $1
+         AND r.active = true
+         AND ((r.author_id = $2 AND m.author_id = $3)
+           OR (r.author_id = $3 AND m.author_id = $2))
+         AND NOT (r.channel_id = ANY($4::text[]))
+         AND NOT (m.channel_id = ANY($4::text[]))
+       ORDER BY r.created_at DESC
+       LIMIT $5`,
+      [
+        guildId,
+        userA,
+        userB,
+        options.excludeChannelIds || [],
+        options.limit || 2000,
+      ]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return {
+      success: true,
+      data: result.data.map((row) => ({
+        id: row.id,
+        author_id: row.author_id,
+        replied_to: row.replied_to,
+        latency_seconds: Number(row.latency_seconds),
+      })),
+    };
+  }
+
+  /**
+   * Run the shared message projection with extra filters appended
+   */
+  private async find(
+    where: string,
+    params: any[],
+    options: MessageQueryOptions
+  ): Promise<DatabaseResult<MessageWithContext[]>> {
+    const conditions = [where, "m.active = true"];
+    const values = [...params];
+
+    if (options.channelId) {
+      values.push(options.channelId);
+      conditions.push(`m.channel_id = $${values.length}`);
+    }
+    if (options.excludeChannelIds && options.excludeChannelIds.length > 0) {
+      values.push(options.excludeChannelIds);
+      conditions.push(`NOT (m.channel_id = ANY($${values.length}::text[]))`);
+    }
+    if (options.since) {
+      values.push(options.since);
+      conditions.push(`m.created_at >= $${values.length}`);
+    }
+
+    let query = `${MESSAGE_WITH_CONTEXT}
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY m.created_at ${options.order === "asc" ? "ASC" : "DESC"}`;
+    if (options.limit) {
+      values.push(options.limit);
+      query += ` LIMIT $${values.length}`;
+    }
+
+    const result = await this.db.readQuery<MessageRow>(query, values);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toMessageData) };
+  }
+}
@@ -0,0 +1,231 @@
+import type {
+  AffinityModelName,
+  DatabaseResult,
+  NetworkAnalysisData,
+  NetworkMemberMetricsData,
+  PostgreSQLManager,
+} from "../PostgreSQLManager";
+
+/**
+ * Member metrics with the member's names, for display
+ */
+export interface NetworkMemberMetrics extends NetworkMemberMetricsData {
+  display_name?: string;
+  username?: string;
+  pagerank_rank: number; // 1 is the most central member
+}
+
+export interface NetworkCommunity {
+  community_id: number;
+  size: number;
+  bridge_count: number;
+  top_members: NetworkMemberMetrics[]; // Most central first
+}
+
+export interface NetworkMemberQueryOptions {
+  communityId?: number;
+  bridgesOnly?: boolean;
+  orderBy?: "pagerank" | "betweenness";
+  limit?: number;
+}
+
+// A network_analyses row; every column is NOT NULL
+export interface NetworkAnalysisRow {
+  guild_id: string;
+  node_count: number;
+  edge_count: number;
+  community_count: number;
+  modularity: number;
+  affinity_model: AffinityModelName;
+  computed_at: Date;
+}
+
+/**
+ * A network_member_metrics row as RANKED_METRICS returns it, with the
+ * member's names (NULL once the member row is gone) and a BIGINT rank,
+ * which node-postgres returns as a string
+ */
+export interface NetworkMemberMetricsRow {
+  guild_id: string;
+  user_id: string;
+  community_id: number;
+  pagerank: number;
+  betweenness: number;
+  participation: number;
+  degree: number;
+  strength: number;
+  is_bridge: boolean;
+  display_name: string | null;
+  username: string | null;
+  pagerank_rank: string;
+}
+
+/**
+ * Map a network_analyses row to NetworkAnalysisData
+ */
+export function toNetworkAnalysisData(
+  row: NetworkAnalysisRow
+): NetworkAnalysisData {
+  return {
+    guild_id: row.guild_id,
+    node_count: row.node_count,
+    edge_count: row.edge_count,
+    community_count: row.community_count,
+    modularity: Number(row.modularity),
+    affinity_model: row.affinity_model,
+    computed_at: row.computed_at,
+  };
+}
+
+/**
+ * Map a network_member_metrics row (optionally joined with members) to
+ * NetworkMemberMetrics
+ */
+export function toNetworkMemberMetrics(
+  row: NetworkMemberMetricsRow
+): NetworkMemberMetrics {
+  return {
+    guild_id: row.guild_id,
+    user_id: row.user_id,
+    community_id: row.community_id,
+    pagerank: Number(row.pagerank),
+    betweenness: Number(row.betweenness),
+    participation: Number(row.participation),
+    degree: row.degree,
+    strength: Number(row.strength),
+    is_bridge: row.is_bridge,
+    display_name: row.display_name ?? undefined,
+    username: row.username ?? undefined,
+    pagerank_rank: Number(row.pagerank_rank) || 0,
+  };
+}
+
+// Ranks are over the whole guild, before any filters
+const RANKED_METRICS = `
+  SELECT nm.*, mem.display_name, mem.username,
+         RANK() OVER (ORDER BY nm.pagerank DESC) AS pagerank_rank
+  FROM network_member_metrics nm
+  LEFT JOIN members mem ON mem.guild_id = nm.guild_id AND mem.user_id = nm.user_id
+  WHERE nm.guild_id = $1`;
+
+export class NetworkAnalyticsRepository {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * The guild's latest analysis, or null if it hasn't been computed
+   */
+  async getAnalysis(
+    guildId: string
+  ): Promise<DatabaseResult<NetworkAnalysisData | null>> {
+    const result = await this.db.readQuery<NetworkAnalysisRow>(
+      "SELECT * FROM network_analyses WHERE guild_id = $1",
+      [guildId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    const row = result.data[0];
+    return { success: true, data: row ? toNetworkAnalysisData(row) : null };
+  }
+
+  /**
+   * Communities, largest first, each with its most central members
+   */
+  async getCommunities(
+    guildId: string,
+    membersPerCommunity = 5
+  ): Promise<DatabaseResult<NetworkCommunity[]>> {
+    const result = await this.db.readQuery<
+      NetworkMemberMetricsRow & {
+        community_size: string;
+        community_bridges: string;
+      }
+    >(
+      `WITH ranked AS (${RANKED_METRICS}),
+       grouped AS (
+         SELECT ranked.*,
+                COUNT(*) OVER (PARTITION BY community_id) AS community_size,
+                COUNT(*) FILTER (WHERE is_bridge) OVER (PARTITION BY community_id) AS community_bridges,
+                ROW_NUMBER() OVER (PARTITION BY community_id ORDER BY pagerank DESC) AS position
+         FROM ranked
+       )
+       SELECT * FROM grouped
+       WHERE position <= $2
+       ORDER BY community_id, position`,
+      [guildId, membersPerCommunity]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const communities = new Map<number, NetworkCommunity>();
+    for (const row of result.data) {
+      let community = communities.get(row.community_id);
+      if (!community) {
+        community = {
+          community_id: row.community_id,
+          size: Number(row.community_size),
+          bridge_count: Number(row.community_bridges),
+          top_members: [],
+        };
+        communities.set(row.community_id, community);
+      }
+      community.top_members.push(toNetworkMemberMetrics(row));
+    }
+    return { success: true, data: Array.from(communities.values()) };
+  }
+
+  /**
+   * Members by centrality, optionally limited to a community or to bridges
+   */
+  async findMembers(
+    guildId: string,
+    options: NetworkMemberQueryOptions = {}
+  ): Promise<DatabaseResult<NetworkMemberMetrics[]>> {
+    const conditions = ["true"];
+    const params: any[] = [guildId];
+
+    if (options.communityId !== undefined) {
+      params.push(options.communityId);
+      conditions.push(`community_id = $${params.length}`);
+    }
+    if (options.bridgesOnly) {
+      conditions.push("is_bridge");
+    }
+    params.push(options.limit || 10);
+
+    const result = await this.db.readQuery<NetworkMemberMetricsRow>(
+      `SELECT * FROM (${RANKED_METRICS}) ranked
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY ${options.orderBy === "betweenness" ? "betweenness" : "pagerank"} DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toNetworkMemberMetrics) };
+  }
+
+  /**
+   * One member's metrics, or null if they aren't in the graph
+   */
+  async findMember(
+    guildId: string,
+    userId: string
+  ): Promise<DatabaseResult<NetworkMemberMetrics | null>> {
+    const result = await this.db.readQuery<NetworkMemberMetricsRow>(
+      `SELECT * FROM (${RANKED_METRICS}) ranked WHERE user_id = $2`,
+      [guildId, userId]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    const row = result.data[0];
+    return { success: true, data: row ? toNetworkMemberMetrics(row) : null };
+  }
+}
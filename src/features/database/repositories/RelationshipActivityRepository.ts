@@ -0,0 +1,63 @@
+import type {
+  DatabaseResult,
+  PostgreSQLManager,
+  RelationshipActivityData,
+} from "../PostgreSQLManager";
+
+/**
+ * Map a relationship_daily_activity row (with day as text) to
+ * RelationshipActivityData. Every column is NOT NULL, so the row already
+ * has its shape.
+ */
+export function toRelationshipActivityData(
+  row: RelationshipActivityData
+): RelationshipActivityData {
+  return {
+    guild_id: row.guild_id,
+    user_a: row.user_a,
+    user_b: row.user_b,
+    day: row.day,
+    messages: row.messages,
+    mentions: row.mentions,
+    replies: row.replies,
+    reactions: row.reactions,
+    voice_seconds: row.voice_seconds,
+  };
+}
+
+export class RelationshipActivityRepository {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * Daily activity of both edges between two users from a day onwards,
+   * oldest first
+   */
+  async findForPair(
+    guildId: string,
+    userA: string,
+    userB: string,
+    since: string // YYYY-MM-DD
+  ): Promise<DatabaseResult<RelationshipActivityData[]>> {
+    const result = await this.db.readQuery<RelationshipActivityData>(
+      `SELECT guild_id, user_a, user_b, to_char(day, 'YYYY-MM-DD') AS day,
+              messages, mentions, replies, reactions, voice_seconds
+       FROM relationship_daily_activity
+       WHERE guild_id = $1
+         AND ((user_a = $2 AND user_b = $3) OR (user_a = $3 AND user_b = $2))
+         AND day >= $4::date
+       ORDER BY day, user_a, user_b`,
+      [guildId, userA, userB, since]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return {
+      success: true,
+      data: result.data.map(toRelationshipActivityData),
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import type {
+  DatabaseResult,
+  PostgreSQLManager,
+  SegmentData,
+} from "../PostgreSQLManager";
+
+// One message in a conversation segment
+export interface SegmentMessage {
+  segment_id: string;
+  id: string;
+  author_id: string;
+  created_at: Date;
+}
+
+// A conversation_segments row; created_at is always set by its default
+export interface SegmentRow {
+  id: string;
+  guild_id: string;
+  channel_id: string;
+  participants: string[];
+  start_time: Date;
+  end_time: Date;
+  message_ids: string[];
+  message_count: number;
+  features: Record<string, any> | null;
+  summary: string | null;
+  created_at: Date;
+}
+
+/**
+ * Map a conversation_segments row to SegmentData
+ */
+export function toSegmentData(row: SegmentRow): SegmentData {
+  return {
+    id: row.id,
+    guild_id: row.guild_id,
+    channel_id: row.channel_id,
+    participants: row.participants || [],
+    start_time: row.start_time,
+    end_time: row.end_time,
+    message_ids: row.message_ids || [],
+    message_count: row.message_count || 0,
+    features: row.features || {},
+    summary: row.summary ?? undefined,
+    created_at: row.created_at,
+  };
+}
+
+export class SegmentRepository {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * Get segments that include any of the given participants, newest first
+   */
+  async findForParticipants(
+    guildId: string,
+    participantIds: string[],
+    options: { since?: Date; limit?: number } = {}
+  ): Promise<DatabaseResult<SegmentData[]>> {
+    const result = await this.db.getSegmentsForParticipants(
+      guildId,
+      participantIds,
+      options.limit || 10,
+      options.since
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toSegmentData) };
+  }
+
+  /**
+   * Get segments in a channel, newest first
+   */
+  async findForChannel(
+    guildId: string,
+    channelId: string,
+    limit = 20
+  ): Promise<DatabaseResult<SegmentData[]>> {
+    const result = await this.db.getSegmentsForChannel(
+      guildId,
+      channelId,
+      limit
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data.map(toSegmentData) };
+  }
+
+  /**
+   * Messages the two users posted in the conversations they both took
+   * part in outside the excluded channels, from the most recent
+   * conversations, in order within each
+   */
+  async findSharedMessages(
+    guildId: string,
+    userA: string,
+    userB: string,
+    options: { excludeChannelIds?: string[]; segmentLimit?: number } = {}
+  ): Promise<DatabaseResult<SegmentMessage[]>> {
+    const result = await this.db.readQuery<SegmentMessage>(
+      `SELECT s.id AS segment_id, m.id, m.author_id, m.created_at
+       FROM (
+         SELECT id, start_time, message_ids
+         FROM conversation_segments
+         WHERE guild_id = $1
+           AND participants @> ARRAY[$2, $3]::text[]
+           AND NOT (channel_id = ANY($4::text[]))
+         ORDER BY start_time DESC
+         LIMIT $5
+       ) s
+       CROSS JOIN LATERAL unnest(s.message_ids) AS segment_message(id)
+       JOIN messages m ON m.id = segment_message.id
+       WHERE m.author_id IN ($2, $3) AND m.active = true
+       ORDER BY s.start_time, s.id, m.created_at, m.id`,
+      [
+        guildId,
+        userA,
+        userB,
+        options.excludeChannelIds || [],
+        options.segmentLimit || 200,
+      ]
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return {
+      success: true,
+      data: result.data.map((row) => ({
+        segment_id: row.segment_id,
+        id: row.id,
+        author_id: row.author_id,
+        created_at: new Date(row.created_at),
+      })),
+    };
+  }
+}
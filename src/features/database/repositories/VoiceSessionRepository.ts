@@ -0,0 +1,195 @@
+import type { DatabaseResult, PostgreSQLManager } from "../PostgreSQLManager";
+
+export interface VoiceUserStats {
+  session_count: number;
+  total_seconds: number;
+  muted_seconds: number;
+  deafened_seconds: number;
+  streaming_seconds: number;
+  video_seconds: number;
+  last_seen: Date | null;
+  in_voice_now: boolean;
+  top_channels: {
+    channel_id: string;
+    channel_name?: string;
+    seconds: number;
+  }[];
+}
+
+/**
+ * Time another member spent in the same voice channel as the subject
+ */
+export interface VoiceCompanion {
+  user_id: string;
+  display_name?: string;
+  username?: string;
+  seconds: number;
+  overlaps: number; // Pairs of sessions that overlapped
+  last_together: Date;
+}
+
+// Open sessions count up to now
+const SESSION_END = "COALESCE(s.left_at, NOW())";
+
+export class VoiceSessionRepository {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * A member's voice time since a date. Time before the date is clipped off
+   * sessions that started earlier; the mute/stream breakdown covers whole
+   * sessions up to their last flag change.
+   */
+  async getUserStats(
+    guildId: string,
+    userId: string,
+    since: Date
+  ): Promise<DatabaseResult<VoiceUserStats>> {
+    const totals = await this.db.readQuery(
+      `SELECT COUNT(*) AS session_count,
+              COALESCE(SUM(EXTRACT(EPOCH FROM ${SESSION_END} - GREATEST(s.joined_at, $3))), 0) AS total_seconds,
+              COALESCE(SUM(s.muted_seconds), 0) AS muted_seconds,
+              COALESCE(SUM(s.deafened_seconds), 0) AS deafened_seconds,
+              COALESCE(SUM(s.streaming_seconds), 0) AS streaming_seconds,
+              COALESCE(SUM(s.video_seconds), 0) AS video_seconds,
+              MAX(${SESSION_END}) AS last_seen,
+              BOOL_OR(s.left_at IS NULL) AS in_voice_now
+       FROM voice_sessions s
+       WHERE s.guild_id = $1 AND s.user_id = $2 AND ${SESSION_END} > $3`,
+      [guildId, userId, since]
+    );
+    if (!totals.success || !totals.data) {
+      return { success: false, error: totals.error };
+    }
+
+    const channels = await this.db.readQuery(
+      `SELECT s.channel_id, c.name AS channel_name,
+              SUM(EXTRACT(EPOCH FROM ${SESSION_END} - GREATEST(s.joined_at, $3))) AS seconds
+       FROM voice_sessions s
+       LEFT JOIN channels c ON c.id = s.channel_id
+       WHERE s.guild_id = $1 AND s.user_id = $2 AND ${SESSION_END} > $3
+       GROUP BY s.channel_id, c.name
+       ORDER BY seconds DESC
+       LIMIT 5`,
+      [guildId, userId, since]
+    );
+    if (!channels.success || !channels.data) {
+      return { success: false, error: channels.error };
+    }
+
+    const row = totals.data[0] || {};
+    return {
+      success: true,
+      data: {
+        session_count: Number(row.session_count || 0),
+        total_seconds: Math.round(Number(row.total_seconds || 0)),
+        muted_seconds: Number(row.muted_seconds || 0),
+        deafened_seconds: Number(row.deafened_seconds || 0),
+        streaming_seconds: Number(row.streaming_seconds || 0),
+        video_seconds: Number(row.video_seconds || 0),
+        last_seen: row.last_seen ? new Date(row.last_seen) : null,
+        in_voice_now: row.in_voice_now === true,
+        top_channels: channels.data.map((c) => ({
+          channel_id: c.channel_id,
+          channel_name: c.channel_name ?? undefined,
+          seconds: Math.round(Number(c.seconds)),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Members who shared voice channels with a user since a date, most time
+   * together first
+   */
+  async getCompanions(
+    guildId: string,
+    userId: string,
+    since: Date,
+    limit = 10
+  ): Promise<DatabaseResult<VoiceCompanion[]>> {
+    return this.findOverlaps(guildId, userId, since, { limit });
+  }
+
+  /**
+   * Time two members spent in the same voice channel since a date, or null
+   * if they never overlapped
+   */
+  async getPairStats(
+    guildId: string,
+    userId: string,
+    otherId: string,
+    since: Date
+  ): Promise<DatabaseResult<VoiceCompanion | null>> {
+    const result = await this.findOverlaps(guildId, userId, since, {
+      otherId,
+      limit: 1,
+    });
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: result.data[0] || null };
+  }
+
+  /**
+   * Overlapping sessions in the same channel, clipped to the window
+   */
+  private async findOverlaps(
+    guildId: string,
+    userId: string,
+    since: Date,
+    options: { otherId?: string; limit: number }
+  ): Promise<DatabaseResult<VoiceCompanion[]>> {
+    const params: any[] = [guildId, userId, since, options.limit];
+    let otherFilter = "";
+    if (options.otherId) {
+      params.push(options.otherId);
+      otherFilter = `AND o.user_id = $${params.length}`;
+    }
+
+    const result = await this.db.readQuery(
+      `WITH overlaps AS (
+         SELECT o.user_id,
+                GREATEST(s.joined_at, o.joined_at, $3) AS started,
+                LEAST(${SESSION_END}, COALESCE(o.left_at, NOW())) AS ended
+         FROM voice_sessions s
+         JOIN voice_sessions o
+           ON o.guild_id = s.guild_id
+          AND o.channel_id = s.channel_id
+          AND o.user_id <> s.user_id
+          AND o.joined_at < ${SESSION_END}
+          AND s.joined_at < COALESCE(o.left_at, NOW())
+         WHERE s.guild_id = $1 AND s.user_id = $2 ${otherFilter}
+       )
+       SELECT ov.user_id, mem.display_name, mem.username,
+              SUM(EXTRACT(EPOCH FROM ov.ended - ov.started)) AS seconds,
+              COUNT(*) AS overlaps,
+              MAX(ov.ended) AS last_together
+       FROM overlaps ov
+       LEFT JOIN members mem ON mem.user_id = ov.user_id AND mem.guild_id = $1
+       WHERE ov.ended > ov.started
+       GROUP BY ov.user_id, mem.display_name, mem.username
+       ORDER BY seconds DESC
+       LIMIT $4`,
+      params
+    );
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return {
+      success: true,
+      data: result.data.map((row) => ({
+        user_id: row.user_id,
+        display_name: row.display_name ?? undefined,
+        username: row.username ?? undefined,
+        seconds: Math.round(Number(row.seconds)),
+        overlaps: Number(row.overlaps),
+        last_together: new Date(row.last_together),
+      })),
+    };
+  }
+}
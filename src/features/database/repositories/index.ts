@@ -0,0 +1,49 @@
+export {
+  MemberRepository,
+  type MemberName,
+  type MemberProfile,
+  type MemberRow,
+  toMemberData,
+} from "./MemberRepository";
+export {
+  MessageRepository,
+  type MessageWithContext,
+  type MessageAuthorStats,
+  type MessageAuthorCount,
+  type MessageReply,
+  type MessageQueryOptions,
+  type MessageRow,
+  toMessageData,
+} from "./MessageRepository";
+export { EdgeRepository, type EdgeRow, toEdgeData } from "./EdgeRepository";
+export {
+  SegmentRepository,
+  type SegmentMessage,
+  type SegmentRow,
+  toSegmentData,
+} from "./SegmentRepository";
+export {
+  VoiceSessionRepository,
+  type VoiceUserStats,
+  type VoiceCompanion,
+} from "./VoiceSessionRepository";
+export {
+  MemberEventRepository,
+  type MemberEventQueryOptions,
+  type MemberEventRow,
+  toMemberEventData,
+} from "./MemberEventRepository";
+export {
+  NetworkAnalyticsRepository,
+  type NetworkMemberMetrics,
+  type NetworkCommunity,
+  type NetworkMemberQueryOptions,
+  type NetworkAnalysisRow,
+  type NetworkMemberMetricsRow,
+  toNetworkAnalysisData,
+  toNetworkMemberMetrics,
+} from "./NetworkAnalyticsRepository";
+export {
+  RelationshipActivityRepository,
+  toRelationshipActivityData,
+} from "./RelationshipActivityRepository";
@@ -0,0 +1,150 @@
+import type { Channel } from "discord.js";
+import type {
+  DatabaseResult,
+  GuildSettingsData,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+import { config } from "../../config";
+import { removeArchivedFiles } from "../attachment-archive/AttachmentArchiver";
+import { GuildSettingsManager } from "./GuildSettingsManager";
+
+/**
+ * How much of a channel the bot keeps and shows:
+ * - public: synced and available to AI tools (the default)
+ * - private: synced, but hidden from AI tools and summaries
+ * - excluded: never stored, and left out of relationship tracking
+ */
+export type ChannelPolicyLevel = "public" | "private" | "excluded";
+
+export interface PurgeResult {
+  messages: number;
+  reactions: number;
+  segments: number;
+  files: number; // Archived attachment files removed
+}
+
+/**
+ * A channel's policy. Threads and forum posts inherit their parent's policy
+ * unless they have a stricter one of their own.
+ */
+export function getChannelPolicy(
+  settings: GuildSettingsData,
+  channel: Channel
+): ChannelPolicyLevel {
+  return getChannelPolicyById(
+    settings,
+    channel.id,
+    channel.isThread() ? channel.parentId : null
+  );
+}
+
+/**
+ * A channel's policy from its ID and, for a thread or forum post, its
+ * parent's ID; for queued events whose channel may no longer be cached
+ */
+export function getChannelPolicyById(
+  settings: GuildSettingsData,
+  channelId: string,
+  threadParentId?: string | null
+): ChannelPolicyLevel {
+  const ids = threadParentId ? [channelId, threadParentId] : [channelId];
+
+  if (ids.some((id) => settings.excluded_channel_ids.includes(id))) {
+    return "excluded";
+  }
+  if (ids.some((id) => settings.private_channel_ids.includes(id))) {
+    return "private";
+  }
+  return "public";
+}
+
+/**
+ * Whether a channel's messages are left out of sync and relationship
+ * tracking. Excluding a channel also excludes its threads and forum posts.
+ */
+export function isChannelExcluded(
+  settings: GuildSettingsData,
+  channel: Channel
+): boolean {
+  return getChannelPolicy(settings, channel) === "excluded";
+}
+
+/**
+ * Applies channel policies to stored data: which channels AI tools may read,
+ * and removing what was stored before a channel was excluded
+ */
+export class ChannelPolicy {
+  private db: PostgreSQLManager;
+  private settings: GuildSettingsManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+    this.settings = new GuildSettingsManager(db);
+  }
+
+  /**
+   * Channel IDs AI tools must not read from: private and excluded channels
+   * plus their stored threads and forum posts. Throws if the settings or
+   * threads can't be looked up, so callers never fall back to showing them.
+   */
+  async hiddenChannelIds(guildId: string): Promise<string[]> {
+    const settingsResult = await this.settings.get(guildId);
+    if (!settingsResult.success || !settingsResult.data) {
+      throw new Error("Failed to load channel settings");
+    }
+    const settings = settingsResult.data;
+    const hidden = [
+      ...settings.excluded_channel_ids,
+      ...settings.private_channel_ids,
+    ];
+    if (hidden.length === 0) {
+      return [];
+    }
+
+    const result = await this.db.query(
+      "SELECT id FROM channels WHERE guild_id = $1 AND parent_id = ANY($2::text[])",
+      [guildId, hidden]
+    );
+    if (!result.success || !result.data) {
+      throw new Error("Failed to load hidden channels");
+    }
+
+    return Array.from(
+      new Set([...hidden, ...result.data.map((row) => row.id as string)])
+    );
+  }
+
+  /**
+   * Delete anything stored from a guild's excluded channels, such as history
+   * synced before they were excluded
+   */
+  async purgeExcluded(guildId: string): Promise<DatabaseResult<PurgeResult>> {
+    const settings = await this.settings.get(guildId);
+    if (!settings.success || !settings.data) {
+      return { success: false, error: settings.error };
+    }
+    return this.purgeChannels(guildId, settings.data.excluded_channel_ids);
+  }
+
+  /**
+   * Delete what was stored from channels (and their threads), along with
+   * their archived attachment files. Relationship edges, pairs and the
+   * network built from them are aggregates without a channel and are kept.
+   */
+  async purgeChannels(
+    guildId: string,
+    channelIds: string[]
+  ): Promise<DatabaseResult<PurgeResult>> {
+    const result = await this.db.purgeChannelData(guildId, channelIds);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    const { archived_files: archivedFiles, ...counts } = result.data;
+    const files =
+      config.attachmentArchiveDir && archivedFiles.length > 0
+        ? await removeArchivedFiles(config.attachmentArchiveDir, archivedFiles)
+        : 0;
+    return { success: true, data: { ...counts, files } };
+  }
+}
@@ -0,0 +1,100 @@
+import type {
+  DatabaseResult,
+  GuildSettingsData,
+  GuildSettingsUpdate,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+
+// Settings change rarely; /config writes through the cache immediately
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface CachedSettings {
+  settings: GuildSettingsData;
+  expiresAt: number;
+}
+
+function defaultSettings(guildId: string): GuildSettingsData {
+  return {
+    guild_id: guildId,
+    excluded_channel_ids: [],
+    private_channel_ids: [],
+  };
+}
+
+/**
+ * Per-guild settings with a process-wide cache, so the healer, live sync and
+ * commands all see a /config change as soon as it's saved
+ */
+export class GuildSettingsManager {
+  private static cache = new Map<string, CachedSettings>();
+
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * A guild's settings (the defaults when none are stored). Fails when the
+   * database can't be read and nothing is cached, so channel policies are
+   * never mistaken for "all public": callers treat a failure as every
+   * channel hidden and excluded. Settings cached earlier are used while the
+   * database is unavailable.
+   */
+  async get(guildId: string): Promise<DatabaseResult<GuildSettingsData>> {
+    const cached = GuildSettingsManager.cache.get(guildId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { success: true, data: cached.settings };
+    }
+
+    if (!this.db.isConnected()) {
+      return cached
+        ? { success: true, data: cached.settings }
+        : { success: false, error: "Database not connected" };
+    }
+
+    const result = await this.db.getGuildSettings(guildId);
+    if (!result.success) {
+      return cached
+        ? { success: true, data: cached.settings }
+        : { success: false, error: result.error };
+    }
+
+    const settings = result.data || defaultSettings(guildId);
+    this.store(settings);
+    return { success: true, data: settings };
+  }
+
+  /**
+   * A guild's settings, or the defaults when they can't be read. Only for
+   * settings where the defaults are harmless (AI provider, affinity model,
+   * log channel), never for channel policies.
+   */
+  async getOrDefault(guildId: string): Promise<GuildSettingsData> {
+    const result = await this.get(guildId);
+    return result.data || defaultSettings(guildId);
+  }
+
+  async update(
+    guildId: string,
+    update: GuildSettingsUpdate,
+    updatedBy: string
+  ): Promise<DatabaseResult<GuildSettingsData>> {
+    const result = await this.db.updateGuildSettings(
+      guildId,
+      update,
+      updatedBy
+    );
+    if (result.success && result.data) {
+      this.store(result.data);
+    }
+    return result;
+  }
+
+  private store(settings: GuildSettingsData): void {
+    GuildSettingsManager.cache.set(settings.guild_id, {
+      settings,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+  }
+}
@@ -0,0 +1,457 @@
+import {
+  ChannelType,
+  type ChatInputCommandInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import type { Command } from "../../../types";
+import { AIManager } from "../../ai-assistant/AIManager";
+import type {
+  AffinityModelName,
+  GuildSettingsData,
+  GuildSettingsUpdate,
+} from "../../database/PostgreSQLManager";
+import { PostgreSQLManager } from "../../database/PostgreSQLManager";
+import {
+  affinityModelFor,
+  affinityWeightsFor,
+  DEFAULT_HALF_LIFE_DAYS,
+  type InteractionKind,
+} from "../../relationship-network/AffinityModel";
+import { ChannelPolicy, type ChannelPolicyLevel } from "../ChannelPolicy";
+import { GuildSettingsManager } from "../GuildSettingsManager";
+
+// Value that resets an AI setting to the bot's default
+const DEFAULT_VALUE = "default";
+
+const INTERACTION_KINDS: InteractionKind[] = [
+  "message",
+  "mention",
+  "reply",
+  "reaction",
+  "voice",
+];
+
+const SYNCED_CHANNEL_TYPES = [
+  ChannelType.GuildText,
+  ChannelType.GuildAnnouncement,
+  ChannelType.GuildForum,
+  ChannelType.GuildMedia,
+  ChannelType.GuildVoice,
+  ChannelType.GuildStageVoice,
+] as const;
+
+function listChannels(channelIds: string[]): string {
+  return channelIds.length > 0
+    ? channelIds
+        .map((id) => `<#${id}>`)
+        .join(", ")
+        .substring(0, 1024)
+    : "None";
+}
+
+function describeAffinity(settings: GuildSettingsData): string {
+  const model = affinityModelFor(settings);
+  const weights = affinityWeightsFor(settings);
+  const halfLife = settings.affinity_half_life_days || DEFAULT_HALF_LIFE_DAYS;
+  return [
+    model.name === "decayed"
+      ? `Decayed, ${halfLife}-day half-life`
+      : "Lifetime totals",
+    INTERACTION_KINDS.map((kind) => `${kind} ${weights[kind]}`).join(" • "),
+  ].join("\n");
+}
+
+function describeSettings(
+  settings: GuildSettingsData,
+  manager: AIManager
+): EmbedBuilder {
+  const excluded = settings.excluded_channel_ids;
+  const hidden = settings.private_channel_ids;
+  const provider = manager.resolveProvider(settings.ai_provider);
+
+  const embed = new EmbedBuilder()
+    .setTitle("Server settings")
+    .setColor(0x5865f2)
+    .addFields(
+      {
+        name: `Excluded channels (${excluded.length})`,
+        value: listChannels(excluded),
+        inline: false,
+      },
+      {
+        name: `Private channels (${hidden.length})`,
+        value: listChannels(hidden),
+        inline: false,
+      },
+      {
+        name: "AI provider",
+        value: settings.ai_provider ? provider : `${provider} (default)`,
+        inline: true,
+      },
+      {
+        name: "AI persona",
+        value: settings.ai_persona || "default",
+        inline: true,
+      },
+      {
+        name: "Log channel",
+        value: settings.log_channel_id
+          ? `<#${settings.log_channel_id}>`
+          : "Off",
+        inline: true,
+      },
+      {
+        name: "Relationship affinity",
+        value: describeAffinity(settings),
+        inline: false,
+      }
+    );
+
+  if (settings.updated_by && settings.updated_at) {
+    const changedAt = Math.floor(
+      new Date(settings.updated_at).getTime() / 1000
+    );
+    embed.addFields({
+      name: "Last changed",
+      value: `<@${settings.updated_by}> <t:${changedAt}:R>`,
+      inline: false,
+    });
+  }
+  return embed;
+}
+
+export const configCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName("config")
+    .setDescription("View or change this server's bot settings")
+    .addSubcommand((subcommand) =>
+      subcommand.setName("show").setDescription("Show the current settings")
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("channel")
+        .setDescription("Set what is stored and shown from a channel")
+        .addChannelOption((option) =>
+          option
+            .setName("channel")
+            .setDescription("Channel (its threads follow the same policy)")
+            .addChannelTypes(...SYNCED_CHANNEL_TYPES)
+            .setRequired(true)
+        )
+        .addStringOption((option) =>
+          option
+            .setName("level")
+            .setDescription("Channel policy")
+            .addChoices(
+              { name: "Public: synced and used by AI", value: "public" },
+              { name: "Private: synced, hidden from AI", value: "private" },
+              { name: "Excluded: never stored", value: "excluded" }
+            )
+            .setRequired(true)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("ai")
+        .setDescription("Choose the AI provider and persona for this server")
+        .addStringOption((option) =>
+          option
+            .setName("provider")
+            .setDescription("AI provider")
+            .addChoices(
+              { name: "Grok", value: "grok" },
+              { name: "OpenAI", value: "openai" },
+              { name: "Gemini", value: "gemini" },
+              { name: "Ollama", value: "ollama" },
+              { name: "Default", value: DEFAULT_VALUE }
+            )
+            .setRequired(false)
+        )
+        .addStringOption((option) =>
+          option
+            .setName("persona")
+            .setDescription('Persona key, or "default"')
+            .setMaxLength(50)
+            .setRequired(false)
+        )
+    )
+    .addSubcommand((subcommand) => {
+      subcommand
+        .setName("affinity")
+        .setDescription("Tune how relationships are ranked")
+        .addStringOption((option) =>
+          option
+            .setName("model")
+            .setDescription("Scoring model")
+            .addChoices(
+              {
+                name: "Decayed: recent interactions count most",
+                value: "decayed",
+              },
+              { name: "Lifetime: all-time totals", value: "lifetime" },
+              { name: "Default", value: DEFAULT_VALUE }
+            )
+            .setRequired(false)
+        )
+        .addNumberOption((option) =>
+          option
+            .setName("half-life")
+            .setDescription("Days until an interaction counts half as much")
+            .setMinValue(1)
+            .setMaxValue(365)
+            .setRequired(false)
+        );
+      for (const kind of INTERACTION_KINDS) {
+        subcommand.addNumberOption((option) =>
+          option
+            .setName(kind)
+            .setDescription(
+              kind === "voice"
+                ? "Weight of 5 minutes together in voice"
+                : `Weight of one ${kind}`
+            )
+            .setMinValue(0)
+            .setMaxValue(100)
+            .setRequired(false)
+        );
+      }
+      return subcommand.addBooleanOption((option) =>
+        option
+          .setName("reset")
+          .setDescription("Go back to the default model, half-life and weights")
+          .setRequired(false)
+      );
+    })
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("log-channel")
+        .setDescription(
+          "Where deleted messages are reported (omit to turn off)"
+        )
+        .addChannelOption((option) =>
+          option
+            .setName("channel")
+            .setDescription("Log channel")
+            .addChannelTypes(
+              ChannelType.GuildText,
+              ChannelType.GuildAnnouncement
+            )
+            .setRequired(false)
+        )
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .setDMPermission(false),
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    await interaction.deferReply({ ephemeral: true });
+
+    const guild = interaction.guild;
+    if (!guild) {
+      await interaction.editReply(
+        "🔸 This command can only be used in a server."
+      );
+      return;
+    }
+
+    // Default permissions can be overridden per server; check again here
+    if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+      await interaction.editReply(
+        "🔸 You need the Manage Server permission to change settings."
+      );
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const manager = AIManager.getInstance();
+    const db = new PostgreSQLManager();
+
+    try {
+      const connected = await db.connect();
+
+      if (!connected) {
+        await interaction.editReply("🔸 Failed to connect to database.");
+        return;
+      }
+
+      const settingsManager = new GuildSettingsManager(db);
+      const currentResult = await settingsManager.get(guild.id);
+      if (!currentResult.success || !currentResult.data) {
+        await interaction.editReply(
+          `🔸 Failed to load settings: ${currentResult.error}`
+        );
+        return;
+      }
+      const current = currentResult.data;
+      let update: GuildSettingsUpdate | null = null;
+      // Excluding a channel also deletes what was already stored from it
+      let purgeChannelId: string | null = null;
+      // New weights or half-life rebuild the stored affinity scores
+      let rescore = false;
+
+      switch (subcommand) {
+        case "channel": {
+          const channel = interaction.options.getChannel("channel", true);
+          const level = interaction.options.getString(
+            "level",
+            true
+          ) as ChannelPolicyLevel;
+          const without = (ids: string[]) =>
+            ids.filter((id) => id !== channel.id);
+
+          update = {
+            excluded_channel_ids: without(current.excluded_channel_ids),
+            private_channel_ids: without(current.private_channel_ids),
+          };
+          if (level === "excluded") {
+            update.excluded_channel_ids?.push(channel.id);
+          } else if (level === "private") {
+            update.private_channel_ids?.push(channel.id);
+          }
+          purgeChannelId = level === "excluded" ? channel.id : null;
+          break;
+        }
+        case "ai": {
+          const provider = interaction.options.getString("provider");
+          const persona = interaction.options.getString("persona");
+          if (!provider && !persona) {
+            await interaction.editReply(
+              "🔸 Choose a provider, a persona, or both."
+            );
+            await db.disconnect();
+            return;
+          }
+
+          update = {};
+          if (provider === DEFAULT_VALUE) {
+            update.ai_provider = null;
+          } else if (provider) {
+            const available = manager.getAvailableProviders();
+            if (!available.includes(provider)) {
+              await interaction.editReply(
+                `🔸 ${provider} has no API key configured. Available: ${available.join(", ")}`
+              );
+              await db.disconnect();
+              return;
+            }
+            update.ai_provider = provider;
+          }
+
+          if (persona === DEFAULT_VALUE) {
+            update.ai_persona = null;
+          } else if (persona) {
+            const personas = manager.getAvailablePersonas().map((p) => p.key);
+            if (!personas.includes(persona)) {
+              await interaction.editReply(
+                `🔸 Unknown persona. Available: ${personas.join(", ")}`
+              );
+              await db.disconnect();
+              return;
+            }
+            update.ai_persona = persona;
+          }
+          break;
+        }
+        case "affinity": {
+          const model = interaction.options.getString("model");
+          const halfLife = interaction.options.getNumber("half-life");
+          const weights: Record<string, number> = {};
+          for (const kind of INTERACTION_KINDS) {
+            const weight = interaction.options.getNumber(kind);
+            if (weight !== null) weights[kind] = weight;
+          }
+
+          if (interaction.options.getBoolean("reset")) {
+            update = {
+              affinity_model: null,
+              affinity_half_life_days: null,
+              affinity_weights: null,
+            };
+            rescore = true;
+            break;
+          }
+
+          const weightsChanged = Object.keys(weights).length > 0;
+          if (!model && halfLife === null && !weightsChanged) {
+            await interaction.editReply(
+              "🔸 Choose a model, a half-life, weights, or reset."
+            );
+            await db.disconnect();
+            return;
+          }
+
+          update = {};
+          if (model) {
+            update.affinity_model =
+              model === DEFAULT_VALUE ? null : (model as AffinityModelName);
+          }
+          if (halfLife !== null) {
+            update.affinity_half_life_days = halfLife;
+          }
+          if (weightsChanged) {
+            update.affinity_weights = {
+              ...current.affinity_weights,
+              ...weights,
+            };
+          }
+          rescore = halfLife !== null || weightsChanged;
+          break;
+        }
+        case "log-channel": {
+          const channel = interaction.options.getChannel("channel");
+          update = { log_channel_id: channel ? channel.id : null };
+          break;
+        }
+      }
+
+      let settings = current;
+      if (update) {
+        const result = await settingsManager.update(
+          guild.id,
+          update,
+          interaction.user.id
+        );
+        if (!result.success || !result.data) {
+          await interaction.editReply("🔸 Failed to save settings.");
+          await db.disconnect();
+          return;
+        }
+        settings = result.data;
+      }
+
+      let content = update ? "✅ Settings saved." : undefined;
+      if (purgeChannelId) {
+        const purge = await new ChannelPolicy(db).purgeChannels(guild.id, [
+          purgeChannelId,
+        ]);
+        content =
+          purge.success && purge.data
+            ? `✅ Settings saved. Deleted ${purge.data.messages} stored message(s), ${purge.data.reactions} reaction(s), ${purge.data.segments} conversation segment(s) and ${purge.data.files} archived file(s) from <#${purgeChannelId}>. Relationship scores and the network keep what was learned from it; run \`npm run generate:relationships ${guild.id} --clear\` to rebuild them from the remaining messages.`
+            : "✅ Settings saved. 🔸 Stored messages couldn't be deleted yet; the next healing pass will retry.";
+      }
+      if (rescore) {
+        const rescored = await db.rescoreEdges(guild.id);
+        content = rescored.success
+          ? `✅ Settings saved. Rescored ${rescored.data} relationship edge(s); rankings update as members' networks refresh.`
+          : "✅ Settings saved. 🔸 Existing scores couldn't be rebuilt; new interactions use the new settings.";
+      }
+
+      await interaction.editReply({
+        content,
+        embeds: [describeSettings(settings, manager)],
+      });
+      await db.disconnect();
+    } catch (error) {
+      console.error("Error in config command:", error);
+      await interaction.editReply(
+        "🔸 An error occurred while updating settings."
+      );
+
+      try {
+        await db.disconnect();
+      } catch (disconnectError) {
+        console.error("Error disconnecting from database:", disconnectError);
+      }
+    }
+  },
+};
@@ -0,0 +1,175 @@
+import {
+  ChannelType,
+  type GuildBasedChannel,
+  OverwriteType,
+  PermissionFlagsBits,
+  type ThreadOnlyChannel,
+} from "discord.js";
+import type {
+  PermissionOverwriteData,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+
+interface StoredChannel {
+  id: string;
+  type: number;
+  parent_id: string | null;
+  is_thread: boolean;
+  owner_id: string | null;
+  permission_overwrites: PermissionOverwriteData[];
+}
+
+interface StoredMember {
+  user_id: string;
+  roles: string[];
+  permissions: bigint;
+}
+
+/**
+ * A channel's own permission overwrites, ready for ChannelData. Threads take
+ * their parent's, so they have none.
+ */
+export function toPermissionOverwrites(
+  channel: GuildBasedChannel | ThreadOnlyChannel
+): PermissionOverwriteData[] {
+  if (channel.isThread()) return [];
+  return Array.from(channel.permissionOverwrites.cache.values()).map(
+    (overwrite) => ({
+      id: overwrite.id,
+      type: overwrite.type,
+      allow: overwrite.allow.bitfield.toString(),
+      deny: overwrite.deny.bitfield.toString(),
+    })
+  );
+}
+
+/**
+ * Apply a channel's overwrites to a member's guild-level permissions the way
+ * Discord does: @everyone first, then all of the member's roles together,
+ * then the member's own overwrite
+ */
+function applyOverwrites(
+  guildId: string,
+  member: StoredMember,
+  overwrites: PermissionOverwriteData[]
+): bigint {
+  let permissions = member.permissions;
+
+  const everyone = overwrites.find((o) => o.id === guildId);
+  if (everyone) {
+    permissions &= ~BigInt(everyone.deny);
+    permissions |= BigInt(everyone.allow);
+  }
+
+  let roleAllow = 0n;
+  let roleDeny = 0n;
+  for (const overwrite of overwrites) {
+    if (
+      overwrite.type === OverwriteType.Role &&
+      overwrite.id !== guildId &&
+      member.roles.includes(overwrite.id)
+    ) {
+      roleAllow |= BigInt(overwrite.allow);
+      roleDeny |= BigInt(overwrite.deny);
+    }
+  }
+  permissions &= ~roleDeny;
+  permissions |= roleAllow;
+
+  const own = overwrites.find(
+    (o) => o.type === OverwriteType.Member && o.id === member.user_id
+  );
+  if (own) {
+    permissions &= ~BigInt(own.deny);
+    permissions |= BigInt(own.allow);
+  }
+
+  return permissions;
+}
+
+/**
+ * Works out from synced data which channels a member can view, so AI tools
+ * only return what the person asking could read in Discord themselves
+ */
+export class ChannelPermissionResolver {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * IDs of stored channels, threads and forum posts the user can't view.
+   * A user without a stored member row sees nothing. Throws if the data can't
+   * be loaded, so callers never fall back to showing everything.
+   */
+  async hiddenChannelIds(guildId: string, userId: string): Promise<string[]> {
+    const [memberResult, channelsResult] = await Promise.all([
+      this.db.query(
+        `SELECT user_id, roles, permissions FROM members
+         WHERE guild_id = $1 AND user_id = $2 AND active = true`,
+        [guildId, userId]
+      ),
+      this.db.query(
+        `SELECT id, type, parent_id, is_thread, owner_id, permission_overwrites
+         FROM channels WHERE guild_id = $1`,
+        [guildId]
+      ),
+    ]);
+    if (!memberResult.success || !memberResult.data) {
+      throw new Error("Failed to load member permissions");
+    }
+    if (!channelsResult.success || !channelsResult.data) {
+      throw new Error("Failed to load channel permissions");
+    }
+
+    const channels = channelsResult.data as StoredChannel[];
+    const row = memberResult.data[0];
+    if (!row) {
+      return channels.map((channel) => channel.id);
+    }
+
+    const member: StoredMember = {
+      user_id: row.user_id,
+      roles: row.roles || [],
+      permissions: BigInt(row.permissions || "0"),
+    };
+    if (member.permissions & PermissionFlagsBits.Administrator) {
+      return [];
+    }
+
+    const permissionsIn = new Map<string, bigint>();
+    for (const channel of channels) {
+      if (channel.is_thread) continue;
+      permissionsIn.set(
+        channel.id,
+        applyOverwrites(guildId, member, channel.permission_overwrites || [])
+      );
+    }
+
+    const hidden: string[] = [];
+    for (const channel of channels) {
+      // Threads follow their parent; a thread without a stored parent stays
+      // hidden
+      const permissions = permissionsIn.get(
+        channel.is_thread ? channel.parent_id || "" : channel.id
+      );
+      let visible =
+        permissions !== undefined &&
+        (permissions & PermissionFlagsBits.ViewChannel) !== 0n;
+
+      // Thread membership isn't stored, so private threads are limited to
+      // their creator and members who manage threads
+      if (visible && channel.type === ChannelType.PrivateThread) {
+        visible =
+          channel.owner_id === userId ||
+          ((permissions ?? 0n) & PermissionFlagsBits.ManageThreads) !== 0n;
+      }
+
+      if (!visible) {
+        hidden.push(channel.id);
+      }
+    }
+    return hidden;
+  }
+}
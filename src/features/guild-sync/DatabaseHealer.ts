@@ -1,12 +1,54 @@
-import type { Client, Guild } from "discord.js";
-import type { PostgreSQLManager } from "../database/PostgreSQLManager";
+import type {
+  AnyThreadChannel,
+  Client,
+  Collection,
+  Guild,
+  Message,
+} from "discord.js";
+import { config } from "../../config";
+import type {
+  MessageData,
+  ReactionData,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
 import { RelationshipNetworkManager } from "../relationship-network/NetworkManager";
+import { NetworkAnalytics } from "../relationship-network/NetworkAnalytics";
+import { toAttachmentData } from "../attachment-archive/AttachmentArchiver";
+import {
+  ChannelPolicy,
+  isChannelExcluded,
+} from "../guild-settings/ChannelPolicy";
+import { GuildSettingsManager } from "../guild-settings/GuildSettingsManager";
+import {
+  channelPriority,
+  FetchScheduler,
+  type FetchRoute,
+} from "./FetchScheduler";
+import { toPermissionOverwrites } from "./ChannelPermissions";
+import { ensureWritten } from "./LiveSyncQueue";
+import { MaintenanceScheduler } from "./MaintenanceScheduler";
+import { SyncJobTracker } from "./SyncJobTracker";
+import { ThreadSync, toThreadData } from "./ThreadSync";
+import { toVoiceFlags } from "../voice-activity/VoiceActivityTracker";
+
+const PROGRESS_LOG_INTERVAL = 50;
+// Messages indexed per statement by the search backfill
+const SEARCH_BACKFILL_BATCH = 1000;
 
 export class DatabaseHealer {
   private client: Client;
   private db: PostgreSQLManager;
   private relationshipManager: RelationshipNetworkManager;
-  private maintenanceTimer?: NodeJS.Timeout;
+  private networkAnalytics: NetworkAnalytics;
+  private threadSync: ThreadSync;
+  private scheduler: FetchScheduler;
+  private settings: GuildSettingsManager;
+  private channelPolicy: ChannelPolicy;
+  // Checkpoints for historical backfills; subscribe for progress
+  readonly syncJobs: SyncJobTracker;
+  private maintenance?: MaintenanceScheduler;
+  // Scheduled jobs that fetch from Discord defer to the boot pass
+  private healing = false;
   private verbose: boolean;
 
   constructor(
@@ -18,6 +60,12 @@ export class DatabaseHealer {
     this.client = client;
     this.db = db;
     this.relationshipManager = relationshipManager;
+    this.networkAnalytics = new NetworkAnalytics(db);
+    this.threadSync = new ThreadSync(db);
+    this.scheduler = FetchScheduler.forClient(client);
+    this.settings = new GuildSettingsManager(db);
+    this.channelPolicy = new ChannelPolicy(db);
+    this.syncJobs = new SyncJobTracker(db);
     this.verbose = verbose;
   }
 
@@ -26,6 +74,7 @@ export class DatabaseHealer {
    */
   async runOnce(): Promise<void> {
     console.log("🔹 Starting database healing pass...");
+    this.healing = true;
 
     try {
       const guilds = this.client.guilds.cache;
@@ -33,9 +82,22 @@ export class DatabaseHealer {
         await this.healGuild(guild);
       }
 
-      console.log("✅ Database healing pass completed");
+      const metrics = this.scheduler.getMetrics();
+      console.log(
+        `✅ Database healing pass completed (${metrics.rateLimitEvents} rate limit(s) hit)`
+      );
+      if (this.verbose) {
+        for (const route of metrics.routes) {
+          if (route.completed + route.failed === 0) continue;
+          console.log(
+            `   🔹 ${route.route}: ${route.completed} fetched, ${route.failed} failed, ${route.rateLimited} rate limited, concurrency now ${route.concurrency}`
+          );
+        }
+      }
     } catch (error) {
       console.error("🔸 Error during healing pass:", error);
+    } finally {
+      this.healing = false;
     }
   }
 
@@ -69,9 +131,14 @@ export class DatabaseHealer {
       console.log(`   ✅ Guild data synced`);
     }
 
-    await this.healChannels(guild);
+    // Archived threads and forum posts aren't in the channel cache
+    const threads = await this.threadSync.fetchThreads(guild);
+
+    await this.healChannels(guild, threads);
+    await this.purgeExcludedChannels(guild);
     await this.healMembers(guild);
-    await this.healMessages(guild);
+    await this.healVoiceSessions(guild);
+    await this.healMessages(guild, threads);
 
     if (this.verbose) {
       console.log(`✅ Completed healing for: ${guild.name}`);
@@ -79,75 +146,101 @@ export class DatabaseHealer {
   }
 
   /**
-   * Process items in parallel batches
+   * Process items through the fetch scheduler, with as many in flight as the
+   * route's current concurrency allows
    */
-  private async processInBatches<T>(
+  private async processScheduled<T>(
     items: T[],
-    batchSize: number,
+    route: FetchRoute,
     processor: (item: T) => Promise<{ success: boolean; skipped?: boolean }>,
-    label: string
+    label: string,
+    priorityOf?: (item: T) => number
   ): Promise<{ processed: number; skipped: number }> {
     let processed = 0;
     let skipped = 0;
+    let done = 0;
 
-    for (let i = 0; i < items.length; i += batchSize) {
-      const batch = items.slice(i, i + batchSize);
-      const results = await Promise.all(
-        batch.map((item) =>
-          processor(item).catch(() => ({ success: false, skipped: true }))
-        )
-      );
+    await this.scheduler.forEach(
+      route,
+      items,
+      async (item) => {
+        const result = await processor(item).catch(() => ({
+          success: false,
+          skipped: true,
+        }));
 
-      for (const result of results) {
         if (result.success) {
           processed++;
         } else if (result.skipped) {
           skipped++;
         }
-      }
 
-      if (
-        (i + batchSize) % (batchSize * 5) === 0 ||
-        i + batchSize >= items.length
-      ) {
-        const progress = Math.min(i + batchSize, items.length);
-        if (this.verbose) {
-          console.log(`   ${label} ${progress}/${items.length}...`);
+        done++;
+        if (
+          this.verbose &&
+          (done % PROGRESS_LOG_INTERVAL === 0 || done === items.length)
+        ) {
+          console.log(`   ${label} ${done}/${items.length}...`);
         }
-      }
-    }
+      },
+      priorityOf
+    );
 
     return { processed, skipped };
   }
 
   /**
-   * Heal channels and update watermarks
+   * Heal channels, forum channels and threads, and update watermarks
    */
-  private async healChannels(guild: Guild): Promise<void> {
-    const channels = Array.from(guild.channels.cache.values()).filter(
-      (ch) => ch.isTextBased() && !ch.isDMBased()
-    );
+  private async healChannels(
+    guild: Guild,
+    threads: AnyThreadChannel[]
+  ): Promise<void> {
+    const channels = [
+      ...Array.from(guild.channels.cache.values()).filter(
+        (ch) =>
+          (ch.isTextBased() || ch.isThreadOnly()) &&
+          !ch.isDMBased() &&
+          !ch.isThread()
+      ),
+      ...threads,
+    ];
 
     if (this.verbose) {
-      console.log(`   📝 Syncing ${channels.length} channels...`);
+      console.log(
+        `   📝 Syncing ${channels.length} channels (${threads.length} threads)...`
+      );
     }
 
-    const results = await this.processInBatches(
+    const results = await this.processScheduled(
       channels,
-      10, // Process 10 channels in parallel
+      "messages",
       async (channel) => {
         try {
-          const channelResult = await this.db.upsertChannel({
-            id: channel.id,
-            guild_id: guild.id,
-            name: channel.name || "",
-            type: channel.type,
-            position: (channel as any).position || 0,
-            topic: (channel as any).topic || undefined,
-            nsfw: (channel as any).nsfw || false,
-            parent_id: (channel as any).parentId || undefined,
-            active: true,
-          });
+          // Forum and media channels hold no messages of their own
+          if (channel.isThreadOnly()) {
+            const forumResult = await this.threadSync.syncForumChannel(channel);
+            return forumResult.success
+              ? { success: true }
+              : { success: false, skipped: true };
+          }
+
+          const channelResult = await this.db.upsertChannel(
+            channel.isThread()
+              ? toThreadData(channel)
+              : {
+                  id: channel.id,
+                  guild_id: guild.id,
+                  name: channel.name || "",
+                  type: channel.type,
+                  position: (channel as any).position || 0,
+                  topic: (channel as any).topic || undefined,
+                  nsfw: (channel as any).nsfw || false,
+                  parent_id: (channel as any).parentId || undefined,
+                  active: true,
+                  permission_overwrites: toPermissionOverwrites(channel),
+                }
+          );
 
           if (!channelResult.success) {
             return { success: false, skipped: true };
@@ -160,9 +253,10 @@ export class DatabaseHealer {
               // Quick check: fetch latest message to see if there's anything new
               try {
                 const textChannel = channel as any;
-                const latestMessages = await textChannel.messages.fetch({
-                  limit: 1,
-                });
+                const latestMessages = await this.scheduler.run<any>(
+                  "messages",
+                  () => textChannel.messages.fetch({ limit: 1 })
+                );
                 const latestMessage = latestMessages.first();
 
                 // If latest message ID matches watermark, channel is up to date
@@ -188,7 +282,8 @@ export class DatabaseHealer {
           return { success: false, skipped: true };
         }
       },
-      "📝"
+      "📝",
+      channelPriority
     );
 
     if (this.verbose) {
@@ -203,19 +298,23 @@ export class DatabaseHealer {
   /**
    * Heal members
    */
-  private async healMembers(guild: Guild): Promise<void> {
+  private async healMembers(
+    guild: Guild
+  ): Promise<{ synced: number; departed: number }> {
     if (this.verbose) {
       console.log(`   👥 Fetching members...`);
     }
-    const members = await guild.members.fetch();
+    const members = await this.scheduler.run("members", () =>
+      guild.members.fetch()
+    );
     const membersArray = Array.from(members.values());
     if (this.verbose) {
       console.log(`   👥 Syncing ${membersArray.length} members...`);
     }
 
-    const results = await this.processInBatches(
+    const results = await this.processScheduled(
       membersArray,
-      20, // Process 20 members in parallel
+      "members",
       async (member) => {
         try {
           const memberResult = await this.db.upsertMember({
@@ -260,32 +359,170 @@ export class DatabaseHealer {
       "👥"
     );
 
+    // Members who left while the bot was offline; logged as leaves
+    const departed = await this.db.deactivateMissingMembers(
+      guild.id,
+      membersArray.map((member) => member.user.id)
+    );
+
     if (this.verbose) {
       console.log(
         `   ✅ Synced ${results.processed} members${
           results.skipped > 0 ? `, ${results.skipped} errors` : ""
         }`
       );
+      if (departed.data) {
+        console.log(`   👥 ${departed.data} member(s) left since last sync`);
+      }
     }
+
+    return { synced: results.processed, departed: departed.data || 0 };
   }
 
   /**
-   * Heal messages (initial scan)
+   * Reconcile voice sessions with who is in voice now: sessions left open
+   * while the bot was down end (shortly after they were last seen), and
+   * members already in a channel get a session
    */
-  private async healMessages(guild: Guild): Promise<void> {
-    const channels = Array.from(guild.channels.cache.values()).filter(
-      (ch) => ch.isTextBased() && !ch.isDMBased()
-    );
+  private async healVoiceSessions(guild: Guild): Promise<void> {
+    const openResult = await this.db.getOpenVoiceSessions(guild.id);
+    if (!openResult.success || !openResult.data) {
+      console.error(
+        `🔸 Failed to load voice sessions for ${guild.name}:`,
+        openResult.error
+      );
+      return;
+    }
+
+    const now = new Date();
+    const settings = await this.settings.get(guild.id);
+    if (!settings.success) {
+      console.error(
+        `🔸 Failed to load channel settings for ${guild.name}:`,
+        settings.error
+      );
+    }
+    const open = new Set<string>();
+    const rollups = new Set<string>();
+    let ended = 0;
+
+    for (const session of openResult.data) {
+      const state = guild.voiceStates.cache.get(session.user_id);
+      if (state?.channelId === session.channel_id) {
+        await this.db.updateVoiceSessionFlags(
+          guild.id,
+          session.user_id,
+          toVoiceFlags(state),
+          now
+        );
+        open.add(session.user_id);
+        continue;
+      }
+
+      const result = await this.db.endVoiceSession(
+        guild.id,
+        session.user_id,
+        now,
+        session.channel_id !== guild.afkChannelId
+      );
+      if (!result.success || !result.data) continue;
+      ended++;
+      if (result.data.together.length > 0) {
+        rollups.add(session.user_id);
+        for (const partner of result.data.together) {
+          rollups.add(partner.user_id);
+        }
+      }
+    }
+
+    let started = 0;
+    for (const state of guild.voiceStates.cache.values()) {
+      if (!state.channel || !state.channelId || open.has(state.id)) continue;
+      if (state.member?.user.bot) continue;
+      // No new sessions while the channel settings can't be read
+      if (!settings.data || isChannelExcluded(settings.data, state.channel)) {
+        continue;
+      }
+
+      const result = await this.db.startVoiceSession({
+        guild_id: guild.id,
+        channel_id: state.channelId,
+        user_id: state.id,
+        joined_at: now,
+        ...toVoiceFlags(state),
+      });
+      if (result.success && result.data) {
+        started++;
+      }
+    }
+
+    for (const userId of rollups) {
+      await this.relationshipManager.rollupEdgesToMemberNetwork(
+        userId,
+        guild.id
+      );
+    }
+
+    if (this.verbose && ended + started > 0) {
+      console.log(`   🎙️ Voice sessions: ${ended} ended, ${started} started`);
+    }
+  }
+
+  /**
+   * Remove anything stored from channels excluded in /config, including
+   * messages that arrived while the exclusion was being saved
+   */
+  private async purgeExcludedChannels(guild: Guild): Promise<void> {
+    const result = await this.channelPolicy.purgeExcluded(guild.id);
+    if (!result.success || !result.data) {
+      console.error(
+        `🔸 Failed to purge excluded channels in ${guild.name}:`,
+        result.error
+      );
+      return;
+    }
+
+    const { messages, reactions, segments, files } = result.data;
+    if (messages + reactions + segments + files > 0) {
+      console.log(
+        `   🔹 Purged ${messages} message(s), ${reactions} reaction(s), ${segments} conversation segment(s) and ${files} archived file(s) from excluded channels`
+      );
+    }
+  }
+
+  /**
+   * Heal messages (initial scan), including threads and forum posts
+   */
+  private async healMessages(
+    guild: Guild,
+    threads: AnyThreadChannel[]
+  ): Promise<number> {
+    // Channels excluded in /config (and their threads) are left out
+    const settingsResult = await this.settings.get(guild.id);
+    if (!settingsResult.success || !settingsResult.data) {
+      throw new Error(
+        `Failed to load channel settings: ${settingsResult.error}`
+      );
+    }
+    const settings = settingsResult.data;
+    const channels = [
+      ...Array.from(guild.channels.cache.values()).filter(
+        (ch) => ch.isTextBased() && !ch.isDMBased() && !ch.isThread()
+      ),
+      ...threads,
+    ].filter((channel) => !isChannelExcluded(settings, channel));
 
     if (this.verbose) {
-      console.log(`   💬 Checking messages in ${channels.length} channels...`);
+      console.log(
+        `   💬 Checking messages in ${channels.length} channels (${threads.length} threads)...`
+      );
     }
     let totalMessagesSynced = 0;
     let processedCount = 0;
 
-    const results = await this.processInBatches(
+    const results = await this.processScheduled(
       channels,
-      5, // Process 5 channels in parallel (message backfill is heavier)
+      "messages",
       async (channel) => {
         processedCount++;
         const channelName = `#${channel.name || channel.id}`;
@@ -307,6 +544,14 @@ export class DatabaseHealer {
             return { success: true };
           }
 
+          // An interrupted backfill resumes from its checkpoint, even if live
+          // sync has written a watermark since
+          const jobResult = await this.db.getSyncJob(channel.id);
+          const hasUnfinishedJob =
+            jobResult.success &&
+            !!jobResult.data &&
+            jobResult.data.status !== "completed";
+
           const watermarkResult = await this.db.getChannelWatermark(channel.id);
           let lastMessageId: string | null = null;
 
@@ -314,14 +559,15 @@ export class DatabaseHealer {
             lastMessageId = watermarkResult.data.last_message_id;
             // Only skip if watermark exists AND has a valid message ID
             // If last_message_id is NULL, we need to backfill (messages were cleared)
-            if (lastMessageId) {
+            if (lastMessageId && !hasUnfinishedJob) {
               // Channel has watermark with actual message ID, check if up to date
               try {
                 const textChannel = channel as any;
                 // Fetch up to 10 latest messages and choose newest non-bot
-                const latestMessages = await textChannel.messages.fetch({
-                  limit: 10,
-                });
+                const latestMessages = await this.scheduler.run<any>(
+                  "messages",
+                  () => textChannel.messages.fetch({ limit: 10 })
+                );
                 const latestNonBot = Array.from(
                   (latestMessages as any).values()
                 ).find((m: any) => !m.author?.bot) as any;
@@ -377,7 +623,7 @@ export class DatabaseHealer {
             }
           }
 
-          // No watermark or watermark is NULL, need to backfill all messages
+          // No watermark, watermark is NULL or an unfinished job: backfill history
           const result = await this.backfillAllMessages(
             guild.id,
             channel.id,
@@ -410,7 +656,8 @@ export class DatabaseHealer {
           return { success: false, skipped: true };
         }
       },
-      "💬 Channels"
+      "💬 Channels",
+      channelPriority
     );
 
     if (this.verbose) {
@@ -422,6 +669,28 @@ export class DatabaseHealer {
         }`
       );
     }
+
+    return totalMessagesSynced;
+  }
+
+  /**
+   * Backfill a channel's full history, resuming an interrupted run. Unlike
+   * the healing pass, this doesn't stop early when the newest messages are
+   * already stored.
+   */
+  async backfillChannel(
+    guildId: string,
+    channelId: string,
+    channelName: string
+  ): Promise<{ success: boolean; messageCount: number }> {
+    return this.backfillAllMessages(
+      guildId,
+      channelId,
+      channelName,
+      undefined,
+      undefined,
+      true
+    );
   }
 
   /**
@@ -459,7 +728,10 @@ export class DatabaseHealer {
           options.after = lastId;
         }
 
-        const messages = await (channel as any).messages.fetch(options);
+        const messages = await this.scheduler.run<Collection<string, Message>>(
+          "messages",
+          () => (channel as any).messages.fetch(options)
+        );
         if (!messages || messages.size === 0) {
           break;
         }
@@ -467,9 +739,9 @@ export class DatabaseHealer {
         // Quick check: if any message in this batch is already in DB, we've caught up
         // Check a few messages from the batch (prioritize non-bot, but check any if needed)
         let alreadySynced = false;
-        const messagesToCheck = Array.from((messages as any).values()) as any[];
+        const messagesToCheck = Array.from(messages.values());
         // Check non-bot messages first
-        for (const msg of messagesToCheck as any[]) {
+        for (const msg of messagesToCheck) {
           if (!msg.author.bot) {
             const existsResult = await this.db.query(
               "SELECT id FROM messages WHERE id = $1",
@@ -490,7 +762,7 @@ export class DatabaseHealer {
         if (
           !alreadySynced &&
           messagesToCheck.length > 0 &&
-          (messagesToCheck as any[]).every((m: any) => m.author.bot)
+          messagesToCheck.every((m) => m.author.bot)
         ) {
           let allExist = true;
           for (const msg of messagesToCheck.slice(0, 5) as any[]) {
@@ -516,76 +788,46 @@ export class DatabaseHealer {
           break;
         }
 
-        // Batch DB inserts for better performance
         // Store ALL messages (including bots) but only count non-bots for sync stats
-        const insertPromises: Promise<any>[] = [];
-        for (const [, msg] of messages as any as Map<string, any>) {
-          insertPromises.push(
-            this.db.upsertMessage({
-              id: msg.id,
-              guild_id: guildId,
-              channel_id: channelId,
-              author_id: msg.author.id,
-              content: msg.content || "",
-              created_at: msg.createdAt,
-              edited_at: msg.editedAt || undefined,
-              attachments: Array.from(msg.attachments.values()).map(
-                (a: any) => a.url
-              ),
-              embeds: msg.embeds.map((e: any) => JSON.stringify(e.toJSON())),
-              referenced_message_id: msg.reference?.messageId || undefined,
-              active: true,
-            })
+        const pageMessages = Array.from(messages.values());
+        synced += pageMessages.filter((msg) => !msg.author.bot).length;
+
+        // Newest message on this page (forward through time)
+        const newestId: string | undefined = messages.first()?.id;
+
+        // One transaction per page; the watermark advances with the rows it covers
+        const batchResult = await this.db.upsertMessagesBatch(
+          pageMessages.map((msg) => this.toMessageData(msg, guildId, channelId)),
+          newestId ? { channelId, messageId: newestId } : undefined
+        );
+        if (!batchResult.success) {
+          throw new Error(
+            `Failed to store batch ${batchNumber}: ${batchResult.error}`
           );
-          // Only count non-bot messages for sync stats
-          if (!msg.author.bot) {
-            synced++;
-          }
         }
+        await this.storeAttachments(pageMessages, guildId, channelId);
+        await this.backfillReactions(pageMessages, guildId, channelId);
 
-        // Wait for all inserts in this batch
-        if (insertPromises.length > 0) {
-          await Promise.all(insertPromises);
-          cumulativeStored += insertPromises.length;
-          // Only log every 50 batches or on final batch to reduce noise
-          if (
-            this.verbose &&
-            (batchNumber === 1 ||
-              batchNumber % 50 === 0 ||
-              messages.size < batchSize)
-          ) {
-            const fetched = messages.size;
-            console.log(
-              `      💾 ${batchLabel} [${channelName}] Batch ${batchNumber}: fetched ${fetched}; cumulative stored ${cumulativeStored}`
-            );
-          }
+        cumulativeStored += pageMessages.length;
+        // Only log every 50 batches or on final batch to reduce noise
+        if (
+          this.verbose &&
+          (batchNumber === 1 ||
+            batchNumber % 50 === 0 ||
+            messages.size < batchSize)
+        ) {
+          const fetched = messages.size;
+          console.log(
+            `      💾 ${batchLabel} [${channelName}] Batch ${batchNumber}: fetched ${fetched}; cumulative stored ${cumulativeStored}`
+          );
         }
 
-        // Get the newest message ID for pagination (forward through time)
-        lastId = messages.first()?.id || null;
+        lastId = newestId || null;
 
         // Stop if we got less than a full batch
         if (messages.size < batchSize) break;
       }
 
-      if (synced > 0) {
-        // Set watermark to newest non-bot message stored in DB for this channel
-        const mostRecentResult = await this.db.query(
-          "SELECT id FROM messages WHERE channel_id = $1 AND guild_id = $2 ORDER BY created_at DESC LIMIT 1",
-          [channelId, guildId]
-        );
-        if (
-          mostRecentResult.success &&
-          mostRecentResult.data &&
-          mostRecentResult.data.length > 0
-        ) {
-          await this.db.updateChannelLastMessage(
-            channelId,
-            mostRecentResult.data[0].id
-          );
-        }
-      }
-
       return { success: true, messageCount: synced };
     } catch (error: any) {
       if (error.code === 50001 || error.status === 403) {
@@ -603,7 +845,8 @@ export class DatabaseHealer {
     channelId: string,
     channelName: string,
     processedCount?: number,
-    totalChannels?: number
+    totalChannels?: number,
+    fullResync = false
   ): Promise<{ success: boolean; messageCount: number }> {
     // Define batchLabel at function scope so it's available everywhere
     const batchLabel =
@@ -616,11 +859,24 @@ export class DatabaseHealer {
       if (!channel || !channel.isTextBased())
         return { success: false, messageCount: 0 };
 
-      let lastId: string | null = null;
+      // Every committed page is checkpointed; an interrupted run continues
+      // before the oldest message it stored
+      const job = await this.syncJobs.start(guildId, channelId);
+      const resumeFrom = job?.oldest_message_id || null;
+      if (resumeFrom && this.verbose) {
+        console.log(
+          `      🔹 ${batchLabel} [${channelName}] Resuming backfill after ${job?.message_count} messages`
+        );
+      }
+
+      let lastId: string | null = resumeFrom;
       let synced = 0;
       let cumulativeStored = 0; // all messages stored (including bots)
       let batchNumber = 0;
       const batchSize = 100;
+      // Newest message in the channel; becomes the watermark once history is complete
+      let newestMessageId: string | null = job?.newest_message_id || null;
+      let watermarkWritten = false;
       // Collect (messageId, referencedMessageId) pairs during backfill
       const replyReferences = new Map<string, string>();
 
@@ -634,10 +890,13 @@ export class DatabaseHealer {
 
         let messages;
         try {
-          messages = await (channel as any).messages.fetch(options);
+          messages = await this.scheduler.run<any>("messages", () =>
+            (channel as any).messages.fetch(options)
+          );
         } catch (fetchError: any) {
           // Skip channels we don't have access to without logging
           if (fetchError?.code === 50001 || fetchError?.status === 403) {
+            await this.syncJobs.fail(channelId, "Missing access");
             return { success: false, messageCount: 0 };
           }
           // Unexpected error: bubble up to caller where a single-line error will be printed
@@ -648,8 +907,9 @@ export class DatabaseHealer {
           break;
         }
 
-        // Check if channel has any messages in DB (only for first batch)
-        if (batchNumber === 1) {
+        // Check if channel has any messages in DB (only for the first batch
+        // of a fresh run)
+        if (batchNumber === 1 && !resumeFrom && !fullResync) {
           const channelMessageCount = await this.db.query(
             "SELECT COUNT(*) as count FROM messages WHERE channel_id = $1 AND active = true",
             [channelId]
@@ -699,6 +959,7 @@ export class DatabaseHealer {
                     newestAny.data[0].id
                   );
                 }
+                await this.syncJobs.complete(channelId);
                 return { success: true, messageCount: 0 };
               }
               // Has messages but newest doesn't match - continue to sync below
@@ -707,117 +968,94 @@ export class DatabaseHealer {
           // No messages in DB or need to sync - proceed with backfill
         }
 
-        // Batch DB inserts for better performance
         // Store ALL messages (including bots) but only track non-bots for relationships
-        const insertPromises: Promise<any>[] = [];
-        for (const [, msg] of messages) {
+        const pageMessages = Array.from(messages.values()) as any[];
+        for (const msg of pageMessages) {
           // Store reply reference for non-bot messages only (relationships)
           if (!msg.author.bot && msg.reference?.messageId) {
             replyReferences.set(msg.id, msg.reference.messageId);
           }
-
-          insertPromises.push(
-            this.db.upsertMessage({
-              id: msg.id,
-              guild_id: guildId,
-              channel_id: channelId,
-              author_id: msg.author.id,
-              content: msg.content || "",
-              created_at: msg.createdAt,
-              edited_at: msg.editedAt || undefined,
-              attachments: Array.from(msg.attachments.values()).map(
-                (a: any) => a.url
-              ),
-              embeds: msg.embeds.map((e: any) => JSON.stringify(e.toJSON())),
-              referenced_message_id: msg.reference?.messageId || undefined,
-              active: true,
-            })
-          );
           // Only count non-bot messages for sync stats
           if (!msg.author.bot) {
             synced++;
           }
         }
 
-        // Wait for all inserts in this batch
-        if (insertPromises.length > 0) {
-          try {
-            await Promise.all(insertPromises);
-            const totalStored = insertPromises.length;
-            cumulativeStored += totalStored;
-            // Only log every 50 batches or on final batch to reduce noise
-            if (
-              (batchNumber === 1 ||
-                batchNumber % 50 === 0 ||
-                messages.size < batchSize) &&
-              this.verbose
-            ) {
-              const batchLabel =
-                processedCount && totalChannels
-                  ? `[${processedCount}/${totalChannels}]`
-                  : "";
-              const fetched = messages.size;
-              console.log(
-                `      💾 ${batchLabel} [${channelName}] Batch ${batchNumber}: fetched ${fetched}; cumulative stored ${cumulativeStored}`
-              );
-            }
-          } catch (insertError: any) {
-            console.log(
-              `      🔸 [${processedCount || ""}/${
-                totalChannels || ""
-              }] [${channelName}] Error inserting batch ${batchNumber}: ${
-                insertError.message || insertError
-              }`
-            );
-            throw insertError;
-          }
+        if (!newestMessageId) {
+          newestMessageId = messages.first()?.id || null;
+        }
+
+        // The watermark is only written with the page that completes history;
+        // a crash midway leaves none, so the next run backfills again
+        const isLastPage = messages.size < batchSize;
+        const batchResult = await this.db.upsertMessagesBatch(
+          pageMessages.map((msg) => this.toMessageData(msg, guildId, channelId)),
+          isLastPage && newestMessageId
+            ? { channelId, messageId: newestMessageId }
+            : undefined
+        );
+        if (!batchResult.success) {
+          console.log(
+            `      🔸 [${processedCount || ""}/${
+              totalChannels || ""
+            }] [${channelName}] Error inserting batch ${batchNumber}: ${
+              batchResult.error
+            }`
+          );
+          throw new Error(batchResult.error || "Failed to insert batch");
+        }
+        await this.storeAttachments(pageMessages, guildId, channelId);
+        await this.backfillReactions(pageMessages, guildId, channelId);
+        if (newestMessageId) {
+          await this.syncJobs.checkpoint(channelId, {
+            newestMessageId,
+            oldestMessageId: messages.last()?.id || newestMessageId,
+            messages: pageMessages.length,
+          });
+        }
+
+        watermarkWritten = isLastPage;
+        cumulativeStored += pageMessages.length;
+        // Only log every 50 batches or on final batch to reduce noise
+        if (
+          (batchNumber === 1 ||
+            batchNumber % 50 === 0 ||
+            messages.size < batchSize) &&
+          this.verbose
+        ) {
+          const fetched = messages.size;
+          console.log(
+            `      💾 ${batchLabel} [${channelName}] Batch ${batchNumber}: fetched ${fetched}; cumulative stored ${cumulativeStored}`
+          );
         }
 
         // Get oldest message ID for pagination (going backward through history)
         lastId = messages.last()?.id || null;
 
         // Stop if we got less than a full batch (reached the beginning)
-        if (messages.size < batchSize) break;
+        if (isLastPage) break;
       }
 
-      // Update watermark with the most recent message we synced (not the oldest)
-      if (synced > 0) {
-        try {
-          const mostRecentResult = await this.db.query(
-            "SELECT id FROM messages WHERE channel_id = $1 AND guild_id = $2 ORDER BY created_at DESC LIMIT 1",
-            [channelId, guildId]
-          );
-
-          if (
-            mostRecentResult.success &&
-            mostRecentResult.data &&
-            mostRecentResult.data.length > 0
-          ) {
-            const updateResult = await this.db.updateChannelLastMessage(
-              channelId,
-              mostRecentResult.data[0].id
-            );
-            if (!updateResult.success) {
-              console.log(
-                `   🔸 [${processedCount || ""}/${
-                  totalChannels || ""
-                }] [${channelName}] Failed to update watermark: ${
-                  updateResult.error || "unknown error"
-                }`
-              );
-            }
-          }
-        } catch (watermarkError: any) {
+      // History ended exactly on a full page: every page is committed, so record it now
+      if (newestMessageId && !watermarkWritten) {
+        const updateResult = await this.db.updateChannelLastMessage(
+          channelId,
+          newestMessageId
+        );
+        if (!updateResult.success) {
           console.log(
             `   🔸 [${processedCount || ""}/${
               totalChannels || ""
-            }] [${channelName}] Error updating watermark: ${
-              watermarkError.message || watermarkError
+            }] [${channelName}] Failed to update watermark: ${
+              updateResult.error || "unknown error"
             }`
           );
-          // Don't fail the whole sync if watermark update fails
         }
+      }
+
+      await this.syncJobs.complete(channelId);
 
+      if (synced > 0) {
         // Repair reply references: messages inserted before their referenced messages existed
         // Now that all messages are in the DB, do a single SQL update to fix references
         if (replyReferences.size > 0) {
@@ -832,6 +1070,8 @@ export class DatabaseHealer {
 
       return { success: true, messageCount: synced };
     } catch (error: any) {
+      // The checkpoint is kept, so the next run resumes where this one stopped
+      await this.syncJobs.fail(channelId, error.message || String(error));
       if (error.code === 50001 || error.status === 403) {
         return { success: false, messageCount: 0 };
       }
@@ -847,6 +1087,100 @@ export class DatabaseHealer {
     }
   }
 
+  /**
+   * Map a fetched Discord message to the stored message shape
+   */
+  private toMessageData(msg: any, guildId: string, channelId: string): MessageData {
+    return {
+      id: msg.id,
+      guild_id: guildId,
+      channel_id: channelId,
+      author_id: msg.author.id,
+      content: msg.content || "",
+      created_at: msg.createdAt,
+      edited_at: msg.editedAt || undefined,
+      attachments: Array.from(msg.attachments.values()).map((a: any) => a.url),
+      embeds: msg.embeds.map((e: any) => JSON.stringify(e.toJSON())),
+      referenced_message_id: msg.reference?.messageId || undefined,
+      active: true,
+    };
+  }
+
+  /**
+   * Store attachment metadata for a page of fetched messages
+   */
+  private async storeAttachments(
+    messages: any[],
+    guildId: string,
+    channelId: string
+  ): Promise<void> {
+    const attachments = messages.flatMap((msg) =>
+      Array.from(msg.attachments.values()).map((attachment: any) =>
+        toAttachmentData(attachment, { id: msg.id, guildId, channelId })
+      )
+    );
+
+    const result = await this.db.upsertAttachments(attachments);
+    if (!result.success) {
+      console.log(
+        `      🔸 Failed to store attachments in ${channelId}: ${result.error}`
+      );
+    }
+  }
+
+  /**
+   * Reconcile stored reactions for a page of fetched messages. Listing who
+   * reacted costs a request per emoji, so messages without reactions only
+   * clear stale rows; messages whose reactors can't be fetched are skipped.
+   */
+  private async backfillReactions(
+    messages: any[],
+    guildId: string,
+    channelId: string
+  ): Promise<void> {
+    const syncedIds: string[] = [];
+    const reactions: ReactionData[] = [];
+
+    for (const msg of messages) {
+      const messageReactions: ReactionData[] = [];
+      try {
+        for (const reaction of msg.reactions.cache.values()) {
+          let after: string | undefined;
+          while (true) {
+            const users = await this.scheduler.run<any>("reactions", () =>
+              reaction.users.fetch({ limit: 100, after })
+            );
+            for (const user of users.values()) {
+              if (user.bot) continue;
+              messageReactions.push({
+                message_id: msg.id,
+                guild_id: guildId,
+                channel_id: channelId,
+                user_id: user.id,
+                message_author_id: msg.author.id,
+                emoji: reaction.emoji.id || reaction.emoji.name || "",
+                emoji_name: reaction.emoji.name || undefined,
+              });
+            }
+            if (users.size < 100) break;
+            after = users.last()?.id;
+          }
+        }
+      } catch {
+        continue;
+      }
+      syncedIds.push(msg.id);
+      reactions.push(...messageReactions);
+    }
+
+    const result = await this.db.syncMessageReactions(syncedIds, reactions);
+    if (!result.success) {
+      console.log(
+        `      🔸 Failed to sync reactions in ${channelId}: ${result.error}`
+      );
+    }
+  }
+
   /**
    * Repair reply references using a single efficient SQL update
    * Updates all messages where referenced_message_id is NULL but the referenced message now exists
@@ -901,7 +1235,7 @@ export class DatabaseHealer {
       // Single SQL UPDATE with JOIN to update all references at once
       const updateQuery = `
         UPDATE messages m
-        SET referenced_message_id = refs.ref_id
+        SET referenced_message_id = refs.ref_id, pending_reference_id = NULL
         FROM (VALUES ${valuesPlaceholders}) AS refs(msg_id, ref_id)
         WHERE m.id = refs.msg_id
           AND m.channel_id = $${updates.length * 2 + 1}::text
@@ -938,40 +1272,82 @@ export class DatabaseHealer {
   }
 
   /**
-   * Start periodic maintenance (every 10 minutes)
+   * Start scheduled maintenance; see MaintenanceScheduler for the jobs and
+   * their policies
    */
   startMaintenance(): void {
-    this.maintenanceTimer = setInterval(async () => {
-      await this.runMaintenance();
-    }, 10 * 60 * 1000);
+    this.maintenance = new MaintenanceScheduler(
+      this.client,
+      this.db,
+      {
+        "member-refresh": () => this.refreshMembers(),
+        "watermark-catch-up": () => this.catchUpMessages(),
+        "reply-repair": () => this.repairPendingReplies(),
+        "segment-consolidation": () => this.consolidateSegments(),
+        "edge-windows": () => this.updateRollingWindows(),
+        "network-analytics": () => this.refreshNetworkAnalytics(),
+        "relationship-activity-prune": () => this.pruneRelationshipActivity(),
+        "search-backfill": () => this.backfillSearchIndex(),
+      },
+      this.verbose
+    );
+    this.maintenance.start().catch((error) => {
+      console.error("🔸 Failed to start maintenance:", error);
+    });
   }
 
   /**
-   * Run periodic maintenance tasks
+   * Re-fetch every guild's members, marking those who left as inactive
    */
-  private async runMaintenance(): Promise<void> {
-    try {
-      // Only log if verbose or on errors
-      if (this.verbose) {
-        console.log("🔹 Running periodic maintenance...");
-      }
+  private async refreshMembers(): Promise<Record<string, number>> {
+    if (this.healing) throw new Error("Deferred while a full heal is running");
+
+    let members = 0;
+    let departed = 0;
+    for (const [, guild] of this.client.guilds.cache) {
+      const result = await this.healMembers(guild);
+      members += result.synced;
+      departed += result.departed;
+    }
+    return { guilds: this.client.guilds.cache.size, members, departed };
+  }
 
-      await this.compactSegments();
-      await this.updateRollingWindows();
-      await this.consolidateOverlappingSegments();
+  /**
+   * Fetch messages posted since each channel's watermark, resuming any
+   * interrupted backfills
+   */
+  private async catchUpMessages(): Promise<Record<string, number>> {
+    if (this.healing) throw new Error("Deferred while a full heal is running");
 
-      if (this.verbose) {
-        console.log("✅ Periodic maintenance completed");
-      }
-    } catch (error) {
-      console.error("🔸 Error during maintenance:", error);
+    let messages = 0;
+    for (const [, guild] of this.client.guilds.cache) {
+      const threads = await this.threadSync.fetchThreads(guild);
+      messages += await this.healMessages(guild, threads);
     }
+    return { guilds: this.client.guilds.cache.size, messages };
+  }
+
+  /**
+   * Link replies whose referenced message has been stored since
+   */
+  private async repairPendingReplies(): Promise<Record<string, number>> {
+    const repaired = ensureWritten(
+      await this.db.resolvePendingReferences(),
+      "Failed to repair reply references"
+    );
+    return { repaired: repaired || 0 };
+  }
+
+  private async consolidateSegments(): Promise<Record<string, number>> {
+    const compacted = await this.compactSegments();
+    const merged = await this.consolidateOverlappingSegments();
+    return { compacted, merged };
   }
 
   /**
    * Compact old conversation segments
    */
-  private async compactSegments(): Promise<void> {
+  private async compactSegments(): Promise<number> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - 30);
 
@@ -982,18 +1358,21 @@ export class DatabaseHealer {
       [cutoffDate]
     );
 
-    if (result.success && this.verbose) {
-      const deleted = (result.data as any)?.rowCount || 0;
-      if (deleted > 0) {
-        console.log(`🔹 Compacted ${deleted} old segments`);
-      }
+    if (!result.success) {
+      throw new Error(`Failed to compact segments: ${result.error}`);
     }
+
+    const deleted = (result.data as any)?.rowCount || 0;
+    if (deleted > 0 && this.verbose) {
+      console.log(`🔹 Compacted ${deleted} old segments`);
+    }
+    return deleted;
   }
 
   /**
    * Update rolling windows for edges
    */
-  private async updateRollingWindows(): Promise<void> {
+  private async updateRollingWindows(): Promise<Record<string, number>> {
     const cutoff7d = new Date();
     cutoff7d.setDate(cutoff7d.getDate() - 7);
 
@@ -1002,167 +1381,224 @@ export class DatabaseHealer {
 
     const guilds = this.client.guilds.cache;
     for (const [, guild] of guilds) {
-      await this.db.updateEdgeRollingWindows(guild.id, cutoff7d, cutoff30d);
+      ensureWritten(
+        await this.db.updateEdgeRollingWindows(guild.id, cutoff7d, cutoff30d),
+        `Failed to update rolling windows for ${guild.name}`
+      );
     }
+    return { guilds: guilds.size };
   }
 
   /**
-   * Consolidate overlapping segments in the same channel
+   * Recompute every guild's communities, centrality and bridges
    */
-  private async consolidateOverlappingSegments(): Promise<void> {
-    try {
-      const guilds = this.client.guilds.cache;
-      let consolidated = 0;
-
-      for (const [, guild] of guilds) {
-        // Find segments in the same channel that overlap in time with shared participants
-        const segmentsResult = await this.db.query(
-          `SELECT id, channel_id, participants, start_time, end_time, message_ids, message_count
-           FROM conversation_segments
-           WHERE guild_id = $1
-           ORDER BY channel_id, start_time ASC`,
-          [guild.id]
+  private async refreshNetworkAnalytics(): Promise<Record<string, number>> {
+    let members = 0;
+    let communities = 0;
+    for (const [, guild] of this.client.guilds.cache) {
+      const result = await this.networkAnalytics.refresh(guild.id);
+      if (!result.success || !result.data) {
+        throw new Error(
+          `Failed to analyze network for ${guild.name}: ${result.error}`
         );
+      }
+      members += result.data.node_count;
+      communities += result.data.community_count;
+    }
+    return { guilds: this.client.guilds.cache.size, members, communities };
+  }
 
-        if (!segmentsResult.success || !segmentsResult.data) continue;
-
-        const segments = segmentsResult.data;
-        const processed = new Set<string>();
-        const toDelete = new Set<string>();
+  /**
+   * Index messages stored before the search trigger, a batch at a time so
+   * no transaction holds many rows. Once they're all indexed a run finds
+   * nothing through the partial index and returns straight away.
+   */
+  private async backfillSearchIndex(): Promise<Record<string, number>> {
+    let indexed = 0;
+    while (true) {
+      const count =
+        ensureWritten(
+          await this.db.backfillSearchVectors(SEARCH_BACKFILL_BATCH),
+          "Failed to index messages for search"
+        ) || 0;
+      indexed += count;
+      if (count < SEARCH_BACKFILL_BATCH) break;
+    }
+    return { indexed };
+  }
 
-        for (let i = 0; i < segments.length; i++) {
-          const seg1 = segments[i];
-          if (processed.has(seg1.id) || toDelete.has(seg1.id)) continue;
+  /**
+   * Drop daily relationship activity past the retention period
+   */
+  private async pruneRelationshipActivity(): Promise<Record<string, number>> {
+    if (config.relationshipActivityRetentionDays === 0) {
+      return { pruned: 0 };
+    }
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - config.relationshipActivityRetentionDays);
+    const pruned = ensureWritten(
+      await this.db.pruneRelationshipActivity(cutoff),
+      "Failed to prune relationship activity"
+    );
+    return { pruned: pruned || 0 };
+  }
 
-          const seg1Participants = Array.isArray(seg1.participants)
-            ? new Set(seg1.participants)
-            : new Set();
+  /**
+   * Consolidate overlapping segments in the same channel
+   */
+  private async consolidateOverlappingSegments(): Promise<number> {
+    let consolidated = 0;
+    const guilds = this.client.guilds.cache;
 
-          // Look for nearby segments to merge (within 30 minutes)
-          const seg1Start = new Date(seg1.start_time).getTime();
-          const seg1End = new Date(seg1.end_time).getTime();
-          const mergeWindow = 30 * 60 * 1000; // 30 minutes
+    for (const [, guild] of guilds) {
+      // Find segments in the same channel that overlap in time with shared participants
+      const segmentsResult = await this.db.query(
+        `SELECT id, channel_id, participants, start_time, end_time, message_ids, message_count
+         FROM conversation_segments
+         WHERE guild_id = $1
+         ORDER BY channel_id, start_time ASC`,
+        [guild.id]
+      );
 
-          const toMerge: any[] = [seg1];
+      const segments =
+        ensureWritten(
+          segmentsResult,
+          `Failed to load segments for ${guild.name}`
+        ) || [];
+      const processed = new Set<string>();
+      const toDelete = new Set<string>();
 
-          for (let j = i + 1; j < segments.length; j++) {
-            const seg2 = segments[j];
-            if (seg1.channel_id !== seg2.channel_id) break; // Different channel
+      for (let i = 0; i < segments.length; i++) {
+        const seg1 = segments[i];
+        if (processed.has(seg1.id) || toDelete.has(seg1.id)) continue;
 
-            if (processed.has(seg2.id) || toDelete.has(seg2.id)) continue;
+        const seg1Participants = Array.isArray(seg1.participants)
+          ? new Set(seg1.participants)
+          : new Set();
 
-            const seg2Start = new Date(seg2.start_time).getTime();
-            const seg2End = new Date(seg2.end_time).getTime();
+        // Look for nearby segments to merge (within 30 minutes)
+        const seg1Start = new Date(seg1.start_time).getTime();
+        const seg1End = new Date(seg1.end_time).getTime();
+        const mergeWindow = 30 * 60 * 1000; // 30 minutes
 
-            // Check if segments are within merge window
-            const timeGap = Math.min(
-              Math.abs(seg2Start - seg1End),
-              Math.abs(seg2End - seg1Start)
-            );
+        const toMerge: any[] = [seg1];
 
-            if (timeGap > mergeWindow) continue;
+        for (let j = i + 1; j < segments.length; j++) {
+          const seg2 = segments[j];
+          if (seg1.channel_id !== seg2.channel_id) break; // Different channel
 
-            // Check for participant overlap
-            const seg2Participants = Array.isArray(seg2.participants)
-              ? new Set(seg2.participants)
-              : new Set();
+          if (processed.has(seg2.id) || toDelete.has(seg2.id)) continue;
 
-            const hasOverlap = Array.from(seg1Participants).some((p) =>
-              seg2Participants.has(p)
-            );
+          const seg2Start = new Date(seg2.start_time).getTime();
+          const seg2End = new Date(seg2.end_time).getTime();
 
-            if (hasOverlap) {
-              toMerge.push(seg2);
-            }
-          }
+          // Check if segments are within merge window
+          const timeGap = Math.min(
+            Math.abs(seg2Start - seg1End),
+            Math.abs(seg2End - seg1Start)
+          );
 
-          // Merge if we found segments to combine
-          if (toMerge.length > 1) {
-            const allParticipants = new Set<string>();
-            const allMessageIds = new Set<string>();
-            let earliestStart = Infinity;
-            let latestEnd = -Infinity;
-
-            for (const seg of toMerge) {
-              const participants = Array.isArray(seg.participants)
-                ? seg.participants
-                : [];
-              participants.forEach((p: string) => allParticipants.add(p));
-
-              const msgIds = Array.isArray(seg.message_ids)
-                ? seg.message_ids
-                : [];
-              msgIds.forEach((id: string) => allMessageIds.add(id));
-
-              const start = new Date(seg.start_time).getTime();
-              const end = new Date(seg.end_time).getTime();
-              earliestStart = Math.min(earliestStart, start);
-              latestEnd = Math.max(latestEnd, end);
-            }
+          if (timeGap > mergeWindow) continue;
 
-            const mergedParticipants = Array.from(allParticipants).sort();
-            const mergedMessageIds = Array.from(allMessageIds);
-
-            // Use the first segment's ID as the merged segment ID
-            const keepId = toMerge[0].id;
-
-            // Update the kept segment
-            await this.db.query(
-              `UPDATE conversation_segments
-               SET participants = $1::TEXT[],
-                   message_ids = $2::TEXT[],
-                   message_count = $3,
-                   start_time = $4,
-                   end_time = $5
-               WHERE id = $6`,
-              [
-                mergedParticipants,
-                mergedMessageIds,
-                mergedMessageIds.length,
-                new Date(earliestStart),
-                new Date(latestEnd),
-                keepId,
-              ]
-            );
+          // Check for participant overlap
+          const seg2Participants = Array.isArray(seg2.participants)
+            ? new Set(seg2.participants)
+            : new Set();
 
-            // Mark others for deletion
-            for (let k = 1; k < toMerge.length; k++) {
-              toDelete.add(toMerge[k].id);
-              processed.add(toMerge[k].id);
-            }
+          const hasOverlap = Array.from(seg1Participants).some((p) =>
+            seg2Participants.has(p)
+          );
 
-            consolidated += toMerge.length - 1;
-            processed.add(keepId);
-          } else {
-            processed.add(seg1.id);
+          if (hasOverlap) {
+            toMerge.push(seg2);
           }
         }
 
-        // Delete merged segments
-        if (toDelete.size > 0) {
-          const deleteIds = Array.from(toDelete);
-          await this.db.query(
-            `DELETE FROM conversation_segments WHERE id = ANY($1::TEXT[])`,
-            [deleteIds]
+        // Merge if we found segments to combine
+        if (toMerge.length > 1) {
+          const allParticipants = new Set<string>();
+          const allMessageIds = new Set<string>();
+          let earliestStart = Infinity;
+          let latestEnd = -Infinity;
+
+          for (const seg of toMerge) {
+            const participants = Array.isArray(seg.participants)
+              ? seg.participants
+              : [];
+            participants.forEach((p: string) => allParticipants.add(p));
+
+            const msgIds = Array.isArray(seg.message_ids)
+              ? seg.message_ids
+              : [];
+            msgIds.forEach((id: string) => allMessageIds.add(id));
+
+            const start = new Date(seg.start_time).getTime();
+            const end = new Date(seg.end_time).getTime();
+            earliestStart = Math.min(earliestStart, start);
+            latestEnd = Math.max(latestEnd, end);
+          }
+
+          const mergedParticipants = Array.from(allParticipants).sort();
+          const mergedMessageIds = Array.from(allMessageIds);
+
+          // Use the first segment's ID as the merged segment ID
+          const keepId = toMerge[0].id;
+
+          // Update the kept segment
+          const updated = await this.db.query(
+            `UPDATE conversation_segments
+             SET participants = $1::TEXT[],
+                 message_ids = $2::TEXT[],
+                 message_count = $3,
+                 start_time = $4,
+                 end_time = $5
+             WHERE id = $6`,
+            [
+              mergedParticipants,
+              mergedMessageIds,
+              mergedMessageIds.length,
+              new Date(earliestStart),
+              new Date(latestEnd),
+              keepId,
+            ]
           );
+          ensureWritten(updated, `Failed to merge segment ${keepId}`);
+
+          // Mark others for deletion
+          for (let k = 1; k < toMerge.length; k++) {
+            toDelete.add(toMerge[k].id);
+            processed.add(toMerge[k].id);
+          }
+
+          consolidated += toMerge.length - 1;
+          processed.add(keepId);
+        } else {
+          processed.add(seg1.id);
         }
       }
 
-      if (consolidated > 0 && this.verbose) {
-        console.log(`🔹 Consolidated ${consolidated} overlapping segments`);
+      // Delete merged segments
+      if (toDelete.size > 0) {
+        const deleteIds = Array.from(toDelete);
+        const deleted = await this.db.query(
+          `DELETE FROM conversation_segments WHERE id = ANY($1::TEXT[])`,
+          [deleteIds]
+        );
+        ensureWritten(deleted, "Failed to delete merged segments");
       }
-    } catch (error) {
-      // Silently fail - consolidation is optional
     }
+
+    if (consolidated > 0 && this.verbose) {
+      console.log(`🔹 Consolidated ${consolidated} overlapping segments`);
+    }
+    return consolidated;
   }
 
   /**
    * Stop maintenance
    */
   stop(): void {
-    if (this.maintenanceTimer) {
-      clearInterval(this.maintenanceTimer);
-    }
+    this.maintenance?.stop();
     console.log("🔹 Database maintenance stopped");
   }
 }
@@ -0,0 +1,336 @@
+import {
+  type Client,
+  type GuildBasedChannel,
+  type RateLimitData,
+  RESTEvents,
+  SnowflakeUtil,
+} from "discord.js";
+
+export type FetchRoute =
+  | "messages"
+  | "reactions"
+  | "threads"
+  | "members"
+  | "users";
+
+interface RouteConfig {
+  // Matches discord.js route strings, which keep the major parameter
+  // (e.g. /channels/123/messages)
+  pattern: RegExp;
+  initialConcurrency: number;
+  maxConcurrency: number;
+}
+
+// Checked in order, so reactions must come before messages
+const ROUTES: [FetchRoute, RouteConfig][] = [
+  [
+    "reactions",
+    {
+      pattern: /^\/channels\/[^/]+\/messages\/[^/]+\/reactions/,
+      initialConcurrency: 2,
+      maxConcurrency: 5,
+    },
+  ],
+  [
+    "messages",
+    {
+      pattern: /^\/channels\/[^/]+\/messages/,
+      initialConcurrency: 5,
+      maxConcurrency: 15,
+    },
+  ],
+  [
+    "threads",
+    {
+      pattern: /^\/(channels\/[^/]+\/(users\/@me\/)?threads|guilds\/[^/]+\/threads)/,
+      initialConcurrency: 3,
+      maxConcurrency: 10,
+    },
+  ],
+  [
+    "members",
+    {
+      pattern: /^\/guilds\/[^/]+\/members/,
+      initialConcurrency: 20,
+      maxConcurrency: 20,
+    },
+  ],
+  [
+    "users",
+    {
+      pattern: /^\/users\//,
+      initialConcurrency: 5,
+      maxConcurrency: 10,
+    },
+  ],
+];
+
+// Successful tasks per slot before concurrency grows by one
+const SUCCESSES_PER_INCREASE = 20;
+
+interface QueuedTask {
+  priority: number;
+  run: () => Promise<void>;
+}
+
+interface RouteState {
+  config: RouteConfig;
+  concurrency: number;
+  running: number;
+  queue: QueuedTask[];
+  pausedUntil: number;
+  successStreak: number;
+  resumeTimer?: NodeJS.Timeout;
+  completed: number;
+  failed: number;
+  rateLimited: number;
+}
+
+export interface RouteMetrics {
+  route: FetchRoute;
+  concurrency: number;
+  running: number;
+  queued: number;
+  completed: number;
+  failed: number;
+  rateLimited: number;
+  pausedForMs: number;
+}
+
+export interface FetchSchedulerMetrics {
+  routes: RouteMetrics[];
+  globalPausedForMs: number;
+  rateLimitEvents: number;
+}
+
+/**
+ * Newer activity first: a channel's priority is its last message time
+ */
+export function channelPriority(channel: GuildBasedChannel): number {
+  const lastMessageId =
+    "lastMessageId" in channel ? channel.lastMessageId : null;
+  return lastMessageId ? SnowflakeUtil.timestampFrom(lastMessageId) : 0;
+}
+
+/**
+ * Central queue for Discord fetches during healing and full syncs. Each route
+ * starts at a modest concurrency, grows by one after a run of successes and
+ * halves (and pauses for retry_after) whenever discord.js reports a rate
+ * limit on it, so boot-time backfills settle just under Discord's buckets
+ * instead of producing 429 storms. One scheduler is shared per client.
+ */
+export class FetchScheduler {
+  private static schedulers = new WeakMap<Client, FetchScheduler>();
+
+  private routes = new Map<FetchRoute, RouteState>();
+  private globalPausedUntil = 0;
+  private rateLimitEvents = 0;
+
+  static forClient(client: Client): FetchScheduler {
+    let scheduler = FetchScheduler.schedulers.get(client);
+    if (!scheduler) {
+      scheduler = new FetchScheduler(client);
+      FetchScheduler.schedulers.set(client, scheduler);
+    }
+    return scheduler;
+  }
+
+  /**
+   * The scheduler for a client, if one has been created
+   */
+  static existingFor(client: Client): FetchScheduler | undefined {
+    return FetchScheduler.schedulers.get(client);
+  }
+
+  private constructor(client: Client) {
+    for (const [route, config] of ROUTES) {
+      this.routes.set(route, {
+        config,
+        concurrency: config.initialConcurrency,
+        running: 0,
+        queue: [],
+        pausedUntil: 0,
+        successStreak: 0,
+        completed: 0,
+        failed: 0,
+        rateLimited: 0,
+      });
+    }
+
+    client.rest.on(RESTEvents.RateLimited, (info) => {
+      this.handleRateLimit(info);
+    });
+  }
+
+  /**
+   * Run a fetch when the route has a free slot; higher priority runs first
+   */
+  run<T>(route: FetchRoute, task: () => Promise<T>, priority = 0): Promise<T> {
+    const state = this.getState(route);
+
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = {
+        priority,
+        run: async () => {
+          try {
+            const result = await task();
+            state.completed++;
+            this.recordSuccess(state);
+            resolve(result);
+          } catch (error) {
+            state.failed++;
+            reject(error);
+          }
+        },
+      };
+
+      // Keep the queue sorted by priority, FIFO within equal priority
+      const index = state.queue.findIndex((item) => item.priority < priority);
+      if (index === -1) {
+        state.queue.push(queued);
+      } else {
+        state.queue.splice(index, 0, queued);
+      }
+      this.pump(state);
+    });
+  }
+
+  /**
+   * Process items (highest priority first) with as many in flight as the
+   * route currently allows. The processor's own fetches should go through
+   * run() on the same route.
+   */
+  async forEach<T>(
+    route: FetchRoute,
+    items: T[],
+    processor: (item: T) => Promise<void>,
+    priorityOf?: (item: T) => number
+  ): Promise<void> {
+    const state = this.getState(route);
+    const ordered = priorityOf
+      ? items
+          .map((item) => ({ item, priority: priorityOf(item) }))
+          .sort((a, b) => b.priority - a.priority)
+          .map(({ item }) => item)
+      : items;
+
+    let next = 0;
+    let active = 0;
+
+    await new Promise<void>((resolve) => {
+      const launch = () => {
+        while (active < state.concurrency && next < ordered.length) {
+          const item = ordered[next++] as T;
+          active++;
+          processor(item)
+            .catch(() => {})
+            .finally(() => {
+              active--;
+              if (next >= ordered.length && active === 0) {
+                resolve();
+              } else {
+                launch();
+              }
+            });
+        }
+      };
+
+      if (ordered.length === 0) {
+        resolve();
+      } else {
+        launch();
+      }
+    });
+  }
+
+  getConcurrency(route: FetchRoute): number {
+    return this.getState(route).concurrency;
+  }
+
+  getMetrics(): FetchSchedulerMetrics {
+    const now = Date.now();
+    return {
+      routes: Array.from(this.routes.entries()).map(([route, state]) => ({
+        route,
+        concurrency: state.concurrency,
+        running: state.running,
+        queued: state.queue.length,
+        completed: state.completed,
+        failed: state.failed,
+        rateLimited: state.rateLimited,
+        pausedForMs: Math.max(0, state.pausedUntil - now),
+      })),
+      globalPausedForMs: Math.max(0, this.globalPausedUntil - now),
+      rateLimitEvents: this.rateLimitEvents,
+    };
+  }
+
+  private getState(route: FetchRoute): RouteState {
+    const state = this.routes.get(route);
+    if (!state) {
+      throw new Error(`Unknown fetch route: ${route}`);
+    }
+    return state;
+  }
+
+  /**
+   * Start queued tasks while the route has free slots and isn't paused
+   */
+  private pump(state: RouteState): void {
+    const now = Date.now();
+    const pausedUntil = Math.max(state.pausedUntil, this.globalPausedUntil);
+    if (pausedUntil > now) {
+      if (!state.resumeTimer && state.queue.length > 0) {
+        state.resumeTimer = setTimeout(() => {
+          state.resumeTimer = undefined;
+          this.pump(state);
+        }, pausedUntil - now);
+      }
+      return;
+    }
+
+    while (state.running < state.concurrency && state.queue.length > 0) {
+      const task = state.queue.shift();
+      if (!task) break;
+
+      state.running++;
+      task.run().finally(() => {
+        state.running--;
+        this.pump(state);
+      });
+    }
+  }
+
+  private recordSuccess(state: RouteState): void {
+    state.successStreak++;
+    if (
+      state.successStreak >= state.concurrency * SUCCESSES_PER_INCREASE &&
+      state.concurrency < state.config.maxConcurrency
+    ) {
+      state.concurrency++;
+      state.successStreak = 0;
+    }
+  }
+
+  private handleRateLimit(info: RateLimitData): void {
+    this.rateLimitEvents++;
+    const resumeAt = Date.now() + info.retryAfter;
+
+    if (info.global) {
+      this.globalPausedUntil = Math.max(this.globalPausedUntil, resumeAt);
+      console.warn(
+        `🔸 FetchScheduler: Global rate limit, pausing all fetches for ${info.retryAfter}ms`
+      );
+      return;
+    }
+
+    const match = ROUTES.find(([, config]) => config.pattern.test(info.route));
+    if (!match) return;
+
+    const state = this.getState(match[0]);
+    state.rateLimited++;
+    state.successStreak = 0;
+    state.pausedUntil = Math.max(state.pausedUntil, resumeAt);
+    state.concurrency = Math.max(1, Math.floor(state.concurrency / 2));
+  }
+}
@@ -16,13 +16,24 @@ import {
   MessageData,
 } from "../database/PostgreSQLManager.js";
 import { config } from "../../config/index.js";
+import { isChannelExcluded } from "../guild-settings/ChannelPolicy.js";
+import { GuildSettingsManager } from "../guild-settings/GuildSettingsManager.js";
+import { toPermissionOverwrites } from "./ChannelPermissions.js";
+import { channelPriority, FetchScheduler } from "./FetchScheduler.js";
+import { ThreadSync } from "./ThreadSync.js";
 
 export class GuildSyncManager {
   private client: Client;
   private db: PostgreSQLManager;
-  private guildId: string;
+  private threadSync: ThreadSync;
+  private scheduler: FetchScheduler;
+  private settings: GuildSettingsManager;
+  private guildIds: string[];
 
-  constructor() {
+  /**
+   * Sync the given guilds, or every guild the bot is in when none are given
+   */
+  constructor(guildIds: string[] = []) {
     this.client = new Client({
       intents: [
         GatewayIntentBits.Guilds,
@@ -33,12 +44,17 @@ export class GuildSyncManager {
     });
 
     this.db = new PostgreSQLManager();
-    this.guildId = config.guildId || "";
+    this.threadSync = new ThreadSync(this.db);
+    this.scheduler = FetchScheduler.forClient(this.client);
+    this.settings = new GuildSettingsManager(this.db);
+    this.guildIds = guildIds;
   }
 
   async start(): Promise<void> {
     console.log("🔹 Starting Guild Sync Manager for PostgreSQL...");
-    console.log(`🔹 Target Guild ID: ${this.guildId}`);
+    console.log(
+      `🔹 Target guilds: ${this.guildIds.length > 0 ? this.guildIds.join(", ") : "all"}`
+    );
 
     try {
       // Connect to Discord
@@ -69,25 +85,19 @@ export class GuildSyncManager {
         }
       });
 
-      // Fetch the guild explicitly
-      console.log(`🔹 Fetching guild ${this.guildId}...`);
-      let guild: Guild;
-      try {
-        guild = await this.client.guilds.fetch(this.guildId);
-      } catch (error) {
-        throw new Error(`Failed to fetch guild ${this.guildId}: ${error}`);
-      }
+      const guildIds =
+        this.guildIds.length > 0
+          ? this.guildIds
+          : Array.from(this.client.guilds.cache.keys());
 
-      if (!guild) {
-        throw new Error(`Guild ${this.guildId} not found!`);
+      // One guild failing doesn't stop the others
+      for (const guildId of guildIds) {
+        try {
+          await this.syncGuildById(guildId);
+        } catch (error) {
+          console.error(`🔸 Failed to sync guild ${guildId}:`, error);
+        }
       }
-
-      console.log(
-        `✅ Found guild: ${guild.name} (${guild.memberCount} members)`
-      );
-
-      // Perform full guild sync
-      await this.performFullGuildSync(guild);
     } catch (error) {
       console.error("🔸 Error:", error);
     } finally {
@@ -95,6 +105,28 @@ export class GuildSyncManager {
     }
   }
 
+  private async syncGuildById(guildId: string): Promise<void> {
+    // Fetch the guild explicitly
+    console.log(`🔹 Fetching guild ${guildId}...`);
+    let guild: Guild;
+    try {
+      guild = await this.client.guilds.fetch(guildId);
+    } catch (error) {
+      throw new Error(`Failed to fetch guild ${guildId}: ${error}`);
+    }
+
+    if (!guild) {
+      throw new Error(`Guild ${guildId} not found!`);
+    }
+
+    console.log(
+      `✅ Found guild: ${guild.name} (${guild.memberCount} members)`
+    );
+
+    // Perform full guild sync
+    await this.performFullGuildSync(guild);
+  }
+
   private async performFullGuildSync(guild: Guild): Promise<void> {
     console.log(`🔹 Starting full sync for guild: ${guild.name}`);
 
@@ -154,6 +186,27 @@ export class GuildSyncManager {
   }
 
   private async syncChannel(channel: Channel, guildId: string): Promise<void> {
+    if (channel.isThread()) {
+      const result = await this.threadSync.syncThread(channel);
+      if (!result.success) {
+        console.error(
+          `🔸 Failed to sync thread ${channel.name}: ${result.error}`
+        );
+      }
+      return;
+    }
+
+    // Forum and media channels: the channel row plus its available tags
+    if (channel.isThreadOnly()) {
+      const result = await this.threadSync.syncForumChannel(channel);
+      if (!result.success) {
+        console.error(
+          `🔸 Failed to sync forum channel ${channel.name}: ${result.error}`
+        );
+      }
+      return;
+    }
+
     if (!channel.isTextBased() && !channel.isVoiceBased()) return;
 
     const channelData: ChannelData = {
@@ -168,6 +221,9 @@ export class GuildSyncManager {
       parent_id:
         "parent" in channel && channel.parent ? channel.parent.id : undefined,
       active: true,
+      permission_overwrites: channel.isDMBased()
+        ? undefined
+        : toPermissionOverwrites(channel),
     };
 
     const result = await this.db.upsertChannel(channelData);
@@ -204,7 +260,7 @@ export class GuildSyncManager {
 
     try {
       // Fetch all members
-      await guild.members.fetch();
+      await this.scheduler.run("members", () => guild.members.fetch());
       console.log(`🔹 Found ${guild.members.cache.size} members`);
 
       let memberCount = 0;
@@ -248,7 +304,9 @@ export class GuildSyncManager {
     // Also fetch the user data directly to get accurate profile information
     let user = member.user;
     try {
-      user = await this.client.users.fetch(member.id);
+      user = await this.scheduler.run("users", () =>
+        this.client.users.fetch(member.id)
+      );
     } catch (error) {
       console.warn(
         `🔸 Could not fetch user ${member.id} directly, using member data: ${error}`
@@ -342,16 +400,21 @@ export class GuildSyncManager {
   }
 
   private async syncMessages(guild: Guild): Promise<void> {
-    // Include all guild channels that are text-based (text, announcement, forum, media),
-    // threads are fetched from their parent channels below.
+    // Text-based guild channels (text, announcement, voice chat); threads and
+    // forum posts, active and archived, are fetched separately below.
+    // Channels excluded in /config, and their threads, are skipped.
+    const settingsResult = await this.settings.get(guild.id);
+    if (!settingsResult.success || !settingsResult.data) {
+      throw new Error(
+        `Failed to load channel settings: ${settingsResult.error}`
+      );
+    }
+    const settings = settingsResult.data;
     const textParents = guild.channels.cache.filter(
       (channel) =>
         channel.isTextBased() &&
-        !(
-          "isThread" in channel &&
-          typeof (channel as any).isThread === "function" &&
-          (channel as any).isThread()
-        )
+        !channel.isThread() &&
+        !isChannelExcluded(settings, channel)
     );
 
     console.log(`🔹 Found ${textParents.size} text-based parent channels`);
@@ -374,16 +437,19 @@ export class GuildSyncManager {
       let batchCount = 0;
 
       while (true) {
-        const fetchPromise = channel.messages.fetch({
-          limit: batchSize,
-          before: lastMessageId,
-        });
+        // The timeout starts once the scheduler runs the fetch, not while queued
+        const messages = await this.scheduler.run("messages", () => {
+          const fetchPromise = channel.messages.fetch({
+            limit: batchSize,
+            before: lastMessageId,
+          });
 
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error("Message fetch timeout")), 30000);
-        });
+          const timeoutPromise = new Promise<never>((_, reject) => {
+            setTimeout(() => reject(new Error("Message fetch timeout")), 30000);
+          });
 
-        const messages = await Promise.race([fetchPromise, timeoutPromise]);
+          return Promise.race([fetchPromise, timeoutPromise]);
+        });
         if (messages.size === 0) break;
 
         for (const [, message] of messages) {
@@ -408,54 +474,57 @@ export class GuildSyncManager {
       return { count: channelMessageCount };
     };
 
-    for (const [, parent] of textParents) {
-      try {
-        const parentLabel =
-          (parent as any)?.name ?? (parent as any)?.id ?? String(parent);
-        console.log(`🔹 Syncing messages from channel: ${parentLabel}`);
-        // Backfill parent channel itself
-        await backfillChannel(parent);
-        processedChannels++;
+    // Recently active channels first, as many at once as the messages route allows
+    await this.scheduler.forEach(
+      "messages",
+      Array.from(textParents.values()),
+      async (parent) => {
+        try {
+          const parentLabel =
+            (parent as any)?.name ?? (parent as any)?.id ?? String(parent);
+          console.log(`🔹 Syncing messages from channel: ${parentLabel}`);
+          // Backfill parent channel itself
+          await backfillChannel(parent);
+          processedChannels++;
+        } catch (error) {
+          const parentLabelErr =
+            (parent as any)?.name ?? (parent as any)?.id ?? String(parent);
+          console.error(
+            `🔸 Failed to sync messages from ${parentLabelErr}:`,
+            error
+          );
+          processedChannels++; // count and continue
+        }
+      },
+      channelPriority
+    );
 
-        // Handle threads under this parent (active and archived)
-        if ("threads" in parent && parent.threads) {
-          try {
-            const active = await parent.threads.fetchActive();
-            for (const [, thread] of active.threads) {
-              await backfillChannel(thread);
-              processedChannels++;
-            }
-          } catch (e) {
-            console.warn(
-              `🔸 Could not fetch active threads for ${parent.name}:`,
-              e
-            );
-          }
-          try {
-            const archived = await parent.threads.fetchArchived({
-              fetchAll: true,
-            });
-            for (const [, thread] of archived.threads) {
-              await backfillChannel(thread);
-              processedChannels++;
-            }
-          } catch (e) {
-            console.warn(
-              `🔸 Could not fetch archived threads for ${parent.name}:`,
-              e
-            );
-          }
+    const threads = (await this.threadSync.fetchThreads(guild)).filter(
+      (thread) => !isChannelExcluded(settings, thread)
+    );
+    console.log(`🔹 Found ${threads.length} active and archived threads`);
+
+    await this.scheduler.forEach(
+      "messages",
+      threads,
+      async (thread) => {
+        try {
+          await backfillChannel(thread);
+        } catch (error) {
+          console.error(
+            `🔸 Failed to sync messages from ${thread.name}:`,
+            error
+          );
         }
-      } catch (error) {
-        const parentLabelErr =
-          (parent as any)?.name ?? (parent as any)?.id ?? String(parent);
-        console.error(
-          `🔸 Failed to sync messages from ${parentLabelErr}:`,
-          error
-        );
-        processedChannels++; // count and continue
-      }
-    }
+        processedChannels++;
+      },
+      channelPriority
+    );
+
+    const metrics = this.scheduler.getMetrics();
+    console.log(
+      `🔹 Fetch scheduler: ${metrics.rateLimitEvents} rate limit(s) hit, messages concurrency ${this.scheduler.getConcurrency("messages")}`
+    );
 
     console.log(
       `✅ Synced ${totalMessages} messages from ${processedChannels} channels/threads`
@@ -572,13 +641,8 @@ export class GuildSyncManager {
   }
 
   // Public method to get guild statistics
-  async getGuildStats(): Promise<void> {
-    if (!this.guildId) {
-      console.error("🔸 No guild ID configured");
-      return;
-    }
-
-    const result = await this.db.getGuildStats(this.guildId);
+  async getGuildStats(guildId: string): Promise<void> {
+    const result = await this.db.getGuildStats(guildId);
     if (result.success && result.data) {
       console.log("🔹 Guild Statistics:");
       console.log(`  Guild Name: ${result.data.guild_name}`);
@@ -0,0 +1,390 @@
+import {
+  appendFile,
+  mkdir,
+  open,
+  readFile,
+  rename,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import type { Client } from "discord.js";
+import type {
+  DatabaseResult,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+
+const LOG_FILE = "events.jsonl";
+const CHECKPOINT_FILE = "checkpoint";
+const FAILED_FILE = "failed.jsonl";
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60 * 1000;
+// Attempts while the database is up before an event is set aside
+const MAX_ATTEMPTS = 8;
+
+interface QueuedEvent {
+  seq: number;
+  type: string;
+  data: unknown;
+  queued_at: Date;
+}
+
+export interface LiveSyncQueueStatus {
+  depth: number;
+  oldestQueuedAt: Date | null;
+  applied: number;
+  replayed: number; // Loaded from disk on start
+  retries: number;
+  failed: number; // Set aside in failed.jsonl after MAX_ATTEMPTS
+  retryInMs: number;
+  lastError?: string;
+}
+
+type EventHandler = (data: any) => Promise<void>;
+
+/**
+ * Dates survive the round trip through the log as { $date: iso }
+ */
+function serialize(event: QueuedEvent): string {
+  return JSON.stringify(event, function (key, value) {
+    const original = (this as Record<string, unknown>)[key];
+    return original instanceof Date ? { $date: original.toISOString() } : value;
+  });
+}
+
+function deserialize(line: string): QueuedEvent {
+  return JSON.parse(line, (_key, value) =>
+    value && typeof value === "object" && typeof value.$date === "string"
+      ? new Date(value.$date)
+      : value
+  );
+}
+
+/**
+ * Throw unless a database write succeeded, so the queue retries the event
+ */
+export function ensureWritten<T>(
+  result: DatabaseResult<T>,
+  what: string
+): T | undefined {
+  if (!result.success) {
+    throw new Error(`${what}: ${result.error || "unknown error"}`);
+  }
+  return result.data;
+}
+
+/**
+ * Durable write-ahead queue between Discord events and the database. Events
+ * are appended to a JSONL log and flushed to disk before they're applied,
+ * one at a time and in order; an event whose append failed is written again
+ * before it's applied, a failed database write is retried with exponential
+ * backoff, and events are held while the database is unavailable. Each
+ * applied event is checkpointed and flushed before the next is applied, so
+ * after a crash or restart the rest of the log is replayed; at most the
+ * event in flight when the process stopped is applied twice. The log is
+ * truncated whenever the queue empties. One queue is kept per client so
+ * /sync status can report on it.
+ */
+export class LiveSyncQueue {
+  private static queues = new WeakMap<Client, LiveSyncQueue>();
+
+  private db: PostgreSQLManager;
+  private dir: string;
+  private handlers = new Map<string, EventHandler>();
+  private pending: QueuedEvent[] = [];
+  // Appends not yet confirmed on disk (replayed events are), and events
+  // whose append failed and must be written again
+  private logged = new WeakMap<QueuedEvent, Promise<void>>();
+  private unlogged = new WeakSet<QueuedEvent>();
+  private lastSeq = 0;
+  // File writes run in order: appends, checkpoints and truncation
+  private writeChain: Promise<void> = Promise.resolve();
+  private started = false;
+  private draining = false;
+  private attempts = 0;
+  private retryTimer?: NodeJS.Timeout;
+  private retryAt = 0;
+  private stats = { applied: 0, replayed: 0, retries: 0, failed: 0 };
+  private lastError?: string;
+
+  /**
+   * The queue for a client, if live sync has created one
+   */
+  static existingFor(client: Client): LiveSyncQueue | undefined {
+    return LiveSyncQueue.queues.get(client);
+  }
+
+  constructor(client: Client, db: PostgreSQLManager, dir: string) {
+    this.db = db;
+    this.dir = path.resolve(dir);
+    LiveSyncQueue.queues.set(client, this);
+  }
+
+  /**
+   * Register how events of a type are applied. Handlers must throw when a
+   * write fails.
+   */
+  handle(type: string, handler: EventHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Load events left from a previous run and start applying them
+   */
+  async start(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const checkpoint = Number.parseInt(
+      await this.readOptional(CHECKPOINT_FILE),
+      10
+    );
+    this.lastSeq = Number.isNaN(checkpoint) ? 0 : checkpoint;
+
+    const leftover: QueuedEvent[] = [];
+    for (const line of (await this.readOptional(LOG_FILE)).split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const event = deserialize(line);
+        if (event.seq > this.lastSeq) {
+          leftover.push(event);
+        }
+      } catch {
+        // A line cut short by a crash mid-write; nothing after it was applied
+      }
+    }
+
+    // Appends written again after a failure land after later events
+    leftover.sort((a, b) => a.seq - b.seq);
+    this.lastSeq = Math.max(
+      this.lastSeq,
+      ...leftover.map((event) => event.seq)
+    );
+    this.stats.replayed = leftover.length;
+    this.started = true;
+
+    // Events that arrived while loading follow the replayed ones
+    const early = this.pending;
+    this.pending = leftover;
+    for (const event of early) {
+      this.append(event);
+    }
+
+    if (leftover.length > 0) {
+      console.log(
+        `🔹 LiveSyncQueue: Replaying ${leftover.length} event(s) from ${this.dir}`
+      );
+    }
+    this.drain();
+  }
+
+  /**
+   * Record an event and apply it once everything before it has been
+   */
+  enqueue(type: string, data: unknown): void {
+    const event: QueuedEvent = { seq: 0, type, data, queued_at: new Date() };
+    if (!this.started) {
+      // Numbered once start() knows where the previous run left off
+      this.pending.push(event);
+      return;
+    }
+    this.append(event);
+    this.drain();
+  }
+
+  getStatus(): LiveSyncQueueStatus {
+    return {
+      depth: this.pending.length,
+      oldestQueuedAt: this.pending[0]?.queued_at ?? null,
+      ...this.stats,
+      retryInMs: Math.max(0, this.retryAt - Date.now()),
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * Stop retrying and wait for pending file writes. Unapplied events stay in
+   * the log for the next start.
+   */
+  async stop(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+    this.started = false;
+    await this.writeChain;
+  }
+
+  private drain(): void {
+    if (!this.started || this.draining || this.retryTimer) return;
+    this.draining = true;
+    this.applyPending()
+      .catch((err) => {
+        console.error("🔸 LiveSyncQueue: Drain failed:", err);
+      })
+      .finally(() => {
+        this.draining = false;
+        // Events enqueued while this drain was finishing
+        if (this.pending.length > 0) this.drain();
+      });
+  }
+
+  private async applyPending(): Promise<void> {
+    while (this.started) {
+      const event = this.pending[0];
+      if (!event) return;
+
+      // Apply an event only once it's on disk, so a restart can replay it;
+      // a failed append is written again first
+      if (this.unlogged.delete(event)) {
+        this.logEvent(event);
+      }
+      const logged = this.logged.get(event);
+      if (logged) {
+        try {
+          await logged;
+          this.logged.delete(event);
+        } catch (error) {
+          this.lastError = `Failed to log event: ${error instanceof Error ? error.message : String(error)}`;
+          console.error(
+            `🔸 LiveSyncQueue: Failed to log ${event.type} event ${event.seq}:`,
+            error
+          );
+          this.stats.retries++;
+          this.logged.delete(event);
+          this.unlogged.add(event);
+          this.scheduleRetry(RETRY_BASE_DELAY_MS * 5);
+          return;
+        }
+      }
+
+      // Hold everything while the database reconnects; that isn't an attempt
+      if (!this.db.isConnected()) {
+        this.scheduleRetry(RETRY_BASE_DELAY_MS * 5);
+        return;
+      }
+
+      try {
+        const handler = this.handlers.get(event.type);
+        if (!handler) {
+          throw new Error(`No handler for ${event.type} events`);
+        }
+        await handler(event.data);
+        this.stats.applied++;
+      } catch (error) {
+        this.attempts++;
+        this.lastError = error instanceof Error ? error.message : String(error);
+
+        if (this.attempts < MAX_ATTEMPTS) {
+          this.stats.retries++;
+          this.scheduleRetry(
+            Math.min(
+              RETRY_BASE_DELAY_MS * 2 ** (this.attempts - 1),
+              RETRY_MAX_DELAY_MS
+            )
+          );
+          return;
+        }
+
+        console.error(
+          `🔸 LiveSyncQueue: Setting aside ${event.type} event ${event.seq} after ${this.attempts} attempts:`,
+          this.lastError
+        );
+        this.stats.failed++;
+        const failed = serialize(event);
+        this.write(() =>
+          appendFile(this.path(FAILED_FILE), `${failed}\n`)
+        ).catch((err) => {
+          console.error("🔸 LiveSyncQueue: Failed to set event aside:", err);
+        });
+      }
+
+      this.attempts = 0;
+      this.pending.shift();
+      await this.checkpoint(event.seq);
+    }
+  }
+
+  private append(event: QueuedEvent): void {
+    event.seq = ++this.lastSeq;
+    this.pending.push(event);
+    this.logEvent(event);
+  }
+
+  /**
+   * Append an event to the log and flush it; applying waits for this
+   */
+  private logEvent(event: QueuedEvent): void {
+    const line = `${serialize(event)}\n`;
+    const logged = this.write(async () => {
+      const file = await open(this.path(LOG_FILE), "a");
+      try {
+        await file.appendFile(line);
+        await file.sync();
+      } finally {
+        await file.close();
+      }
+    });
+    // Handled when the event is applied
+    logged.catch(() => {});
+    this.logged.set(event, logged);
+  }
+
+  private scheduleRetry(delayMs: number): void {
+    this.retryAt = Date.now() + delayMs;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.retryAt = 0;
+      this.drain();
+    }, delayMs);
+  }
+
+  /**
+   * Record the last applied event on disk, and empty the log once nothing
+   * is left
+   */
+  private async checkpoint(seq: number): Promise<void> {
+    try {
+      await this.write(async () => {
+        const tempPath = `${this.path(CHECKPOINT_FILE)}.tmp`;
+        const file = await open(tempPath, "w");
+        try {
+          await file.writeFile(String(seq));
+          await file.sync();
+        } finally {
+          await file.close();
+        }
+        await rename(tempPath, this.path(CHECKPOINT_FILE));
+
+        if (this.pending.length === 0) {
+          await writeFile(this.path(LOG_FILE), "");
+        }
+      });
+    } catch (err) {
+      // Costs a replay of applied events after a restart; messages are
+      // only tracked once, and reactions are deduplicated
+      console.error("🔸 LiveSyncQueue: Failed to write checkpoint:", err);
+    }
+  }
+
+  /**
+   * Run a file write after the ones before it. The returned promise fails
+   * with the write; later writes run either way.
+   */
+  private write(operation: () => Promise<void>): Promise<void> {
+    const result = this.writeChain.then(operation);
+    this.writeChain = result.catch(() => {});
+    return result;
+  }
+
+  private async readOptional(file: string): Promise<string> {
+    try {
+      return await readFile(this.path(file), "utf8");
+    } catch {
+      return "";
+    }
+  }
+
+  private path(file: string): string {
+    return path.join(this.dir, file);
+  }
+}
@@ -1,20 +1,96 @@
 import type {
+  AnyThreadChannel,
+  Channel,
   Client,
   MessageReaction,
+  PartialMessage,
+  PartialMessageReaction,
+  PartialUser,
   User,
   GuildMember,
+  NonThreadGuildBasedChannel,
   Role,
 } from "discord.js";
 import { Message } from "discord.js";
-import type { PostgreSQLManager } from "../database/PostgreSQLManager";
+import { config } from "../../config";
+import type {
+  AttachmentData,
+  ChannelData,
+  DatabaseResult,
+  ForumTagData,
+  MemberData,
+  MessageData,
+  PostgreSQLManager,
+  ReactionData,
+} from "../database/PostgreSQLManager";
 import { RelationshipNetworkManager } from "../relationship-network/NetworkManager";
 import { ConversationManager } from "../relationship-network/ConversationManager";
+import {
+  DeletionLog,
+  type MessageDeletion,
+} from "../message-history/DeletionLog";
+import { getChannelPolicyById } from "../guild-settings/ChannelPolicy";
+import { GuildSettingsManager } from "../guild-settings/GuildSettingsManager";
+import { toAttachmentData } from "../attachment-archive/AttachmentArchiver";
+import { toPermissionOverwrites } from "./ChannelPermissions";
+import { ensureWritten, LiveSyncQueue } from "./LiveSyncQueue";
+import { toForumChannelData, toForumTags, toThreadData } from "./ThreadSync";
+
+// Events go through the write-ahead queue as plain data, so they can be
+// replayed after a restart. Channel policy is checked when an event is
+// applied; a thread's events carry the parent whose policy it inherits.
+interface QueuedMessage {
+  message: MessageData;
+  attachments: AttachmentData[];
+  isBot: boolean;
+  mentionedUserIds: string[];
+  repliedToId?: string;
+  threadParentId?: string;
+}
+
+interface QueuedMessageUpdate {
+  message: MessageData;
+  threadParentId?: string;
+}
+
+interface QueuedReaction {
+  reaction: ReactionData;
+  threadParentId?: string;
+}
+
+interface QueuedReactionRemoval {
+  messageId: string;
+  filter: { userId?: string; emoji?: string };
+}
+
+interface QueuedChannel {
+  channel: ChannelData;
+  forumTags?: ForumTagData[]; // Forum and media channels
+}
+
+interface QueuedMemberPermissions {
+  guildId: string;
+  members: { user_id: string; roles: string[]; permissions: string }[];
+}
+
+/**
+ * The parent a thread or forum post inherits its channel policy from
+ */
+function getThreadParentId(channel: Channel): string | undefined {
+  return (channel.isThread() && channel.parentId) || undefined;
+}
 
 export class LiveSyncWatcher {
   private client: Client;
   private db: PostgreSQLManager;
   private relationshipManager: RelationshipNetworkManager;
   private conversationManager: ConversationManager;
+  private deletionLog: DeletionLog;
+  private settings: GuildSettingsManager;
+  private queue: LiveSyncQueue;
+  // Threads whose channels row exists or is queued, so messages can
+  // reference them
+  private knownThreads: Set<string> = new Set();
   private rollupQueue: Set<string> = new Set();
   private rollupTimer?: NodeJS.Timeout;
 
@@ -28,12 +104,20 @@ export class LiveSyncWatcher {
     this.db = db;
     this.relationshipManager = relationshipManager;
     this.conversationManager = conversationManager;
+    this.settings = new GuildSettingsManager(db);
+    this.queue = new LiveSyncQueue(client, db, config.liveSyncQueueDir);
+    // Soft deletes queue behind the messages they delete
+    this.deletionLog = new DeletionLog(db, (deletion: MessageDeletion) =>
+      this.queue.enqueue("messagesDeleted", deletion)
+    );
+    this.registerQueueHandlers();
   }
 
   /**
-   * Start watching Discord events
+   * Start watching Discord events. Rejects when the queue can't be loaded;
+   * events are only held in memory until it is.
    */
-  start(): void {
+  async start(): Promise<void> {
     console.log("🔹 LiveSyncWatcher: Starting event listeners");
 
     this.client.on("messageCreate", (message) => {
@@ -46,37 +130,109 @@ export class LiveSyncWatcher {
     });
 
     this.client.on("messageUpdate", (oldMessage, newMessage) => {
-      if (newMessage instanceof Message && !newMessage.author?.bot) {
+      if (
+        newMessage instanceof Message &&
+        !newMessage.partial &&
+        !newMessage.author?.bot
+      ) {
         this.handleMessageUpdate(newMessage).catch((err) => {
           console.error("🔸 Error in messageUpdate handler:", err);
         });
       }
     });
 
+    // Uncached (partial) deletions still carry the ID; content comes from the database
     this.client.on("messageDelete", (message) => {
-      if (message instanceof Message && !message.author?.bot) {
+      if (!message.author?.bot) {
         this.handleMessageDelete(message).catch((err) => {
           console.error("🔸 Error in messageDelete handler:", err);
         });
       }
     });
 
+    this.client.on("messageDeleteBulk", (messages, channel) => {
+      this.deletionLog.recordBulkDeletion(messages, channel).catch((err) => {
+        console.error("🔸 Error in messageDeleteBulk handler:", err);
+      });
+    });
+
+    // Reactions on uncached messages arrive as partials and are fetched
     this.client.on("messageReactionAdd", (reaction, user) => {
-      if (user && !user.bot && !user.partial && !reaction.partial) {
+      if (!user.bot) {
         this.handleReactionAdd(reaction, user).catch((err) => {
           console.error("🔸 Error in reactionAdd handler:", err);
         });
       }
     });
 
+    // Removals only need IDs; a partial user's bot flag is unknown, but
+    // removing a bot's reaction matches no stored row
     this.client.on("messageReactionRemove", (reaction, user) => {
-      if (user && !user.bot && !user.partial && !reaction.partial) {
+      if (!user.bot) {
         this.handleReactionRemove(reaction, user).catch((err) => {
           console.error("🔸 Error in reactionRemove handler:", err);
         });
       }
     });
 
+    this.client.on("messageReactionRemoveEmoji", (reaction) => {
+      this.handleReactionRemoveEmoji(reaction).catch((err) => {
+        console.error("🔸 Error in reactionRemoveEmoji handler:", err);
+      });
+    });
+
+    this.client.on("messageReactionRemoveAll", (message) => {
+      this.handleReactionRemoveAll(message.id, message.guildId).catch(
+        (err) => {
+          console.error("🔸 Error in reactionRemoveAll handler:", err);
+        }
+      );
+    });
+
+    // Threads and forum posts: created, archived/locked/retagged, deleted
+    this.client.on("threadCreate", (thread) => {
+      this.handleThreadUpsert(thread).catch((err) => {
+        console.error("🔸 Error in threadCreate handler:", err);
+      });
+    });
+    this.client.on("threadUpdate", (_oldThread, newThread) => {
+      this.handleThreadUpsert(newThread).catch((err) => {
+        console.error("🔸 Error in threadUpdate handler:", err);
+      });
+    });
+    this.client.on("threadDelete", (thread) => {
+      this.handleThreadDelete(thread).catch((err) => {
+        console.error("🔸 Error in threadDelete handler:", err);
+      });
+    });
+
+    // Channel rows, including forum tags and permission overwrites
+    this.client.on("channelCreate", (channel) => {
+      this.handleChannelUpsert(channel).catch((err) => {
+        console.error("🔸 Error in channelCreate handler:", err);
+      });
+    });
+    this.client.on("channelUpdate", (_oldChannel, newChannel) => {
+      if (newChannel.isDMBased()) return;
+      this.handleChannelUpsert(newChannel).catch((err) => {
+        console.error("🔸 Error in channelUpdate handler:", err);
+      });
+    });
+
+    // Profile, role and permission changes; roles and permissions decide
+    // which channels AI tools may show a member
+    this.client.on("guildMemberUpdate", (_oldMember, newMember) => {
+      this.queue.enqueue("member", this.toMemberData(newMember));
+    });
+    this.client.on("roleUpdate", (oldRole, newRole) => {
+      if (oldRole.permissions.bitfield === newRole.permissions.bitfield) return;
+      this.handleMemberPermissions(Array.from(newRole.members.values())).catch(
+        (err) => {
+          console.error("🔸 Error in roleUpdate handler:", err);
+        }
+      );
+    });
+
     // Reapply previous roles on rejoin; mark inactive on leave
     this.client.on("guildMemberAdd", (member) => {
       this.handleGuildMemberAdd(member as GuildMember).catch(() => {});
@@ -86,74 +242,227 @@ export class LiveSyncWatcher {
     });
 
     this.startRollupTimer();
+    await this.queue.start();
+  }
+
+  /**
+   * How each queued event is written. Only the writes that store Discord
+   * data throw, so a retry can't count relationship interactions twice.
+   */
+  private registerQueueHandlers(): void {
+    this.queue.handle("message", (event: QueuedMessage) =>
+      this.applyMessage(event)
+    );
+    this.queue.handle(
+      "messageUpdate",
+      async ({ message, threadParentId }: QueuedMessageUpdate) => {
+        if (
+          await this.isExcluded(
+            message.guild_id,
+            message.channel_id,
+            threadParentId
+          )
+        ) {
+          return;
+        }
+        ensureWritten(
+          await this.db.upsertMessage(message),
+          `Failed to update message ${message.id}`
+        );
+      }
+    );
+    this.queue.handle("reactionAdd", (event: QueuedReaction) =>
+      this.applyReactionAdd(event)
+    );
+    this.queue.handle(
+      "reactionRemove",
+      async ({ messageId, filter }: QueuedReactionRemoval) => {
+        const result = await this.db.removeReactions(messageId, filter);
+        ensureWritten(result, `Failed to remove reactions on ${messageId}`);
+        this.queueReactionRollups(result);
+      }
+    );
+    this.queue.handle(
+      "messagesDeleted",
+      async ({ messageIds, deletedBy, deletedAt }: MessageDeletion) => {
+        ensureWritten(
+          await this.db.markMessagesDeleted(messageIds, deletedBy, deletedAt),
+          `Failed to mark ${messageIds.length} message(s) deleted`
+        );
+      }
+    );
+    this.queue.handle(
+      "channel",
+      async ({ channel, forumTags }: QueuedChannel) => {
+        ensureWritten(
+          await this.db.upsertChannel(channel),
+          `Failed to save channel ${channel.id}`
+        );
+        if (forumTags) {
+          ensureWritten(
+            await this.db.upsertForumTags(channel.id, forumTags),
+            `Failed to save forum tags for ${channel.id}`
+          );
+        }
+      }
+    );
+    this.queue.handle("thread", async (thread: ChannelData) => {
+      ensureWritten(
+        await this.db.upsertChannel(thread),
+        `Failed to save thread ${thread.id}`
+      );
+    });
+    this.queue.handle("threadDelete", async (threadId: string) => {
+      ensureWritten(
+        await this.db.deactivateChannel(threadId),
+        `Failed to deactivate thread ${threadId}`
+      );
+    });
+    this.queue.handle("member", async (member: MemberData) => {
+      ensureWritten(
+        await this.db.upsertMember(member),
+        `Failed to save member ${member.user_id}`
+      );
+    });
+    this.queue.handle(
+      "memberLeave",
+      async ({ guildId, userId }: { guildId: string; userId: string }) => {
+        ensureWritten(
+          await this.db.query(
+            `UPDATE members SET active = false, updated_at = NOW()
+             WHERE guild_id = $1 AND user_id = $2`,
+            [guildId, userId]
+          ),
+          `Failed to mark member ${userId} as left`
+        );
+      }
+    );
+    this.queue.handle(
+      "memberPermissions",
+      async ({ guildId, members }: QueuedMemberPermissions) => {
+        ensureWritten(
+          await this.db.updateMemberPermissions(guildId, members),
+          `Failed to update member permissions in ${guildId}`
+        );
+      }
+    );
   }
 
   /**
    * Handle new message
    */
   private async handleMessageCreate(message: Message): Promise<void> {
-    // Debug logging
-
     if (!message.guildId) {
       console.log(`   ⏭️ Skipping: no guildId`);
       return;
     }
 
-    const guildId = message.guildId;
+    // A thread may predate the last healing pass; its row must exist first
+    if (message.channel.isThread()) {
+      this.ensureThread(message.channel);
+    }
+
     const authorId = message.author.id;
-    const timestamp = message.createdAt;
     const isBot = message.author.bot;
+    const mentionedUserIds = isBot
+      ? []
+      : Array.from(message.mentions.users.values())
+          .filter((u) => !u.bot && u.id !== authorId)
+          .map((u) => u.id);
+
+    let repliedToId: string | undefined;
+    if (!isBot && message.reference?.messageId) {
+      repliedToId = message.mentions.repliedUser?.id;
+      if (!repliedToId) {
+        try {
+          const referencedMessage = await message.channel.messages.fetch(
+            message.reference.messageId
+          );
+          repliedToId = referencedMessage.author.id;
+        } catch (err) {
+          // Referenced message may not exist
+        }
+      }
+    }
 
-    try {
-      // Save ALL messages to database (including bots)
-      const result = await this.db.upsertMessage({
-        id: message.id,
-        guild_id: guildId,
-        channel_id: message.channel.id,
-        author_id: authorId,
-        content: message.content || "",
-        created_at: timestamp,
-        edited_at: message.editedAt || undefined,
-        attachments: Array.from(message.attachments.values()).map(
-          (a: any) => a.url
-        ),
-        embeds: message.embeds.map((e: any) => JSON.stringify(e.toJSON())),
-        referenced_message_id: message.reference?.messageId || undefined,
-        active: true,
-      });
+    // Save ALL messages to database (including bots)
+    const queued: QueuedMessage = {
+      message: this.toMessageData(message),
+      attachments: Array.from(message.attachments.values()).map(
+        (attachment) =>
+          toAttachmentData(attachment, {
+            id: message.id,
+            guildId: message.guildId as string,
+            channelId: message.channel.id,
+          })
+      ),
+      isBot,
+      mentionedUserIds,
+      repliedToId,
+      threadParentId: getThreadParentId(message.channel),
+    };
+    this.queue.enqueue("message", queued);
+  }
 
-      if (!result.success) {
-        console.error(`🔸 Failed to save message ${message.id}:`, result.error);
-        return;
-      }
-    } catch (error) {
-      console.error(`🔸 Exception saving message ${message.id}:`, error);
-      throw error; // Re-throw so outer catch can log it
+  /**
+   * Store a queued message, then update relationships and conversations.
+   * Only a newly stored message is tracked, so replaying an event after a
+   * crash doesn't count it twice.
+   */
+  private async applyMessage(event: QueuedMessage): Promise<void> {
+    const { message } = event;
+    if (
+      await this.isExcluded(
+        message.guild_id,
+        message.channel_id,
+        event.threadParentId
+      )
+    ) {
+      return;
     }
 
-    await this.db.updateChannelLastMessage(message.channel.id, message.id);
+    const stored = ensureWritten(
+      await this.db.upsertMessage(message),
+      `Failed to save message ${message.id}`
+    );
+    if (event.attachments.length > 0) {
+      ensureWritten(
+        await this.db.upsertAttachments(event.attachments),
+        `Failed to save attachments of message ${message.id}`
+      );
+    }
+    await this.db.updateChannelLastMessage(message.channel_id, message.id);
 
     // Skip relationship/conversation tracking for bot messages
-    if (isBot) {
+    if (event.isBot || !stored?.inserted) {
       return;
     }
 
-    const mentionedUsers = Array.from(message.mentions.users.values())
-      .filter((u) => !u.bot && u.id !== authorId)
-      .map((u) => u.id);
+    try {
+      await this.trackMessage(event);
+    } catch (err) {
+      console.error(`🔸 Failed to track message ${message.id}:`, err);
+    }
+  }
+
+  private async trackMessage(event: QueuedMessage): Promise<void> {
+    const { message, mentionedUserIds, repliedToId } = event;
+    const guildId = message.guild_id;
+    const authorId = message.author_id;
+    const timestamp = message.created_at;
 
     await this.conversationManager.addMessageToStream({
       id: message.id,
       author_id: authorId,
-      content: message.content || "",
+      content: message.content,
       created_at: timestamp,
       guild_id: guildId,
-      channel_id: message.channel.id,
-      referenced_message_id: message.reference?.messageId || undefined,
-      mentioned_user_ids: mentionedUsers,
+      channel_id: message.channel_id,
+      referenced_message_id: message.referenced_message_id,
+      mentioned_user_ids: mentionedUserIds,
     });
 
-    for (const mentionedId of mentionedUsers) {
+    for (const mentionedId of mentionedUserIds) {
       await this.relationshipManager.recordInteraction(
         guildId,
         authorId,
@@ -166,33 +475,22 @@ export class LiveSyncWatcher {
       this.queueRollup(mentionedId, guildId);
     }
 
-    if (message.reference?.messageId) {
-      try {
-        const referencedMessage = await message.channel.messages.fetch(
-          message.reference.messageId
-        );
-        const repliedToId = referencedMessage.author.id;
-
-        if (repliedToId !== authorId) {
-          await this.relationshipManager.recordInteraction(
-            guildId,
-            authorId,
-            repliedToId,
-            "reply",
-            "a_to_b",
-            timestamp
-          );
-          this.queueRollup(authorId, guildId);
-          this.queueRollup(repliedToId, guildId);
-        }
-      } catch (err) {
-        // Referenced message may not exist
-      }
+    if (repliedToId && repliedToId !== authorId) {
+      await this.relationshipManager.recordInteraction(
+        guildId,
+        authorId,
+        repliedToId,
+        "reply",
+        "a_to_b",
+        timestamp
+      );
+      this.queueRollup(authorId, guildId);
+      this.queueRollup(repliedToId, guildId);
     }
 
     const recentMessages = await this.getRecentChannelMessages(
       guildId,
-      message.channel.id,
+      message.channel_id,
       10
     );
 
@@ -221,10 +519,18 @@ export class LiveSyncWatcher {
   private async handleMessageUpdate(message: Message): Promise<void> {
     if (!message.guildId || message.author.bot) return;
 
-    // Update message in database
-    await this.db.upsertMessage({
+    // Update message in database; the previous version is kept in message_revisions
+    const queued: QueuedMessageUpdate = {
+      message: this.toMessageData(message),
+      threadParentId: getThreadParentId(message.channel),
+    };
+    this.queue.enqueue("messageUpdate", queued);
+  }
+
+  private toMessageData(message: Message): MessageData {
+    return {
       id: message.id,
-      guild_id: message.guildId,
+      guild_id: message.guildId as string,
       channel_id: message.channel.id,
       author_id: message.author.id,
       content: message.content || "",
@@ -236,28 +542,141 @@ export class LiveSyncWatcher {
       embeds: message.embeds.map((e: any) => JSON.stringify(e.toJSON())),
       referenced_message_id: message.reference?.messageId || undefined,
       active: true,
-    });
+    };
   }
 
   /**
    * Handle message delete
    */
-  private async handleMessageDelete(message: Message): Promise<void> {
-    if (!message.guildId || message.author.bot) return;
+  private async handleMessageDelete(
+    message: Message | PartialMessage
+  ): Promise<void> {
+    if (!message.guildId || message.author?.bot) return;
 
-    // Mark message as inactive in database
-    await this.db.query("UPDATE messages SET active = false WHERE id = $1", [
-      message.id,
-    ]);
+    // Mark inactive with deleted_at/deleted_by and report to the mod log
+    await this.deletionLog.recordDeletion(message);
+  }
+
+  /**
+   * Whether the guild's settings leave a channel out of sync, checked as an
+   * event is applied so a /config change covers events still queued. Throws
+   * while the settings can't be read, so the queue retries the event instead
+   * of storing or dropping it.
+   */
+  private async isExcluded(
+    guildId: string,
+    channelId: string,
+    threadParentId?: string
+  ): Promise<boolean> {
+    const settings = await this.settings.get(guildId);
+    if (!settings.success || !settings.data) {
+      throw new Error(
+        `Channel settings for ${guildId} unavailable: ${settings.error || "unknown error"}`
+      );
+    }
+    return (
+      getChannelPolicyById(settings.data, channelId, threadParentId) ===
+      "excluded"
+    );
+  }
+
+  /**
+   * Store a new or changed channel with its permission overwrites. Threads
+   * have their own events; categories aren't stored.
+   */
+  private async handleChannelUpsert(
+    channel: NonThreadGuildBasedChannel
+  ): Promise<void> {
+    if (channel.isThreadOnly()) {
+      const queued: QueuedChannel = {
+        channel: toForumChannelData(channel),
+        forumTags: toForumTags(channel),
+      };
+      this.queue.enqueue("channel", queued);
+      return;
+    }
+    if (!channel.isTextBased() && !channel.isVoiceBased()) return;
+
+    const queued: QueuedChannel = {
+      channel: {
+        id: channel.id,
+        guild_id: channel.guildId,
+        name: channel.name,
+        type: channel.type,
+        position: channel.position,
+        topic: "topic" in channel ? channel.topic || undefined : undefined,
+        nsfw: "nsfw" in channel ? channel.nsfw : undefined,
+        parent_id: channel.parentId || undefined,
+        active: true,
+        permission_overwrites: toPermissionOverwrites(channel),
+      },
+    };
+    this.queue.enqueue("channel", queued);
+  }
+
+  /**
+   * Store members' current roles and guild-level permissions
+   */
+  private async handleMemberPermissions(members: GuildMember[]): Promise<void> {
+    const [first] = members;
+    if (!first) return;
+
+    const queued: QueuedMemberPermissions = {
+      guildId: first.guild.id,
+      members: members.map((member) => ({
+        user_id: member.id,
+        roles: Array.from(member.roles.cache.keys()),
+        permissions: member.permissions.bitfield.toString(),
+      })),
+    };
+    this.queue.enqueue("memberPermissions", queued);
+  }
+
+  /**
+   * Store a new or changed thread
+   */
+  private async handleThreadUpsert(thread: AnyThreadChannel): Promise<void> {
+    this.queue.enqueue("thread", toThreadData(thread));
+    this.knownThreads.add(thread.id);
+  }
+
+  /**
+   * Keep a deleted thread's stored messages, but mark the thread inactive
+   */
+  private async handleThreadDelete(thread: AnyThreadChannel): Promise<void> {
+    this.knownThreads.delete(thread.id);
+    this.queue.enqueue("threadDelete", thread.id);
+  }
+
+  /**
+   * Make sure a thread has a channels row before storing its messages
+   */
+  private ensureThread(thread: AnyThreadChannel): void {
+    if (this.knownThreads.has(thread.id)) return;
+    this.queue.enqueue("thread", toThreadData(thread));
+    this.knownThreads.add(thread.id);
   }
 
   /**
    * Handle reaction add
    */
   private async handleReactionAdd(
-    reaction: MessageReaction,
-    user: User
+    partialReaction: MessageReaction | PartialMessageReaction,
+    partialUser: User | PartialUser
   ): Promise<void> {
+    if (!partialReaction.message.guildId) return;
+
+    let reaction: MessageReaction;
+    let user: User;
+    try {
+      reaction = partialReaction.partial
+        ? await partialReaction.fetch()
+        : partialReaction;
+      user = partialUser.partial ? await partialUser.fetch() : partialUser;
+    } catch (err) {
+      // Removed again or no longer accessible
+      return;
+    }
     if (!reaction.message.guildId || user.bot) return;
 
     let authorId: string | null = null;
@@ -278,18 +697,56 @@ export class LiveSyncWatcher {
       }
     }
 
-    if (!authorId || authorId === user.id) return;
+    if (!authorId) return;
+
+    const queued: QueuedReaction = {
+      reaction: {
+        message_id: reaction.message.id,
+        guild_id: reaction.message.guildId,
+        channel_id: reaction.message.channelId,
+        user_id: user.id,
+        message_author_id: authorId,
+        emoji: this.getEmojiKey(reaction),
+        emoji_name: reaction.emoji.name || undefined,
+        counted_in_edges: authorId !== user.id,
+        added_at: new Date(),
+      },
+      threadParentId: getThreadParentId(reaction.message.channel),
+    };
+    this.queue.enqueue("reactionAdd", queued);
+  }
 
-    const guildId = reaction.message.guildId;
-    const reactorId = user.id;
+  private async applyReactionAdd({
+    reaction,
+    threadParentId,
+  }: QueuedReaction): Promise<void> {
+    if (
+      await this.isExcluded(
+        reaction.guild_id,
+        reaction.channel_id,
+        threadParentId
+      )
+    ) {
+      return;
+    }
+
+    const result = await this.db.addReaction(reaction);
+    ensureWritten(result, `Failed to save reaction on ${reaction.message_id}`);
 
+    // Skip duplicate events for a reaction that is already recorded
+    const authorId = reaction.message_author_id;
+    if (!result.data?.added || !reaction.counted_in_edges || !authorId) {
+      return;
+    }
+
+    const { guild_id: guildId, user_id: reactorId } = reaction;
     await this.relationshipManager.recordInteraction(
       guildId,
       reactorId,
       authorId,
       "reaction",
       "a_to_b",
-      new Date()
+      reaction.added_at || new Date()
     );
     this.queueRollup(reactorId, guildId);
     this.queueRollup(authorId, guildId);
@@ -299,11 +756,70 @@ export class LiveSyncWatcher {
    * Handle reaction remove
    */
   private async handleReactionRemove(
-    reaction: MessageReaction,
-    user: User
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): Promise<void> {
+    if (!reaction.message.guildId) return;
+
+    this.enqueueReactionRemoval(reaction.message.id, {
+      userId: user.id,
+      emoji: this.getEmojiKey(reaction),
+    });
+  }
+
+  /**
+   * Handle a moderator clearing one emoji from a message
+   */
+  private async handleReactionRemoveEmoji(
+    reaction: MessageReaction | PartialMessageReaction
   ): Promise<void> {
-    // Reactions are additive, so we don't need to decrement counters
-    // The relationship still exists even if reaction is removed
+    if (!reaction.message.guildId) return;
+
+    this.enqueueReactionRemoval(reaction.message.id, {
+      emoji: this.getEmojiKey(reaction),
+    });
+  }
+
+  /**
+   * Handle a moderator clearing every reaction from a message
+   */
+  private async handleReactionRemoveAll(
+    messageId: string,
+    guildId: string | null
+  ): Promise<void> {
+    if (!guildId) return;
+
+    this.enqueueReactionRemoval(messageId, {});
+  }
+
+  private enqueueReactionRemoval(
+    messageId: string,
+    filter: QueuedReactionRemoval["filter"]
+  ): void {
+    const queued: QueuedReactionRemoval = { messageId, filter };
+    this.queue.enqueue("reactionRemove", queued);
+  }
+
+  /**
+   * Stored emoji key: custom emoji ID, or the unicode emoji itself
+   */
+  private getEmojiKey(
+    reaction: MessageReaction | PartialMessageReaction
+  ): string {
+    return reaction.emoji.id || reaction.emoji.name || "";
+  }
+
+  private queueReactionRollups(
+    result: DatabaseResult<
+      { guildId: string; reactorId: string; authorId: string }[]
+    >
+  ): void {
+    if (!result.success || !result.data) return;
+
+    for (const pair of result.data) {
+      this.queueRollup(pair.reactorId, pair.guildId);
+      this.queueRollup(pair.authorId, pair.guildId);
+    }
   }
 
   private async handleGuildMemberAdd(member: GuildMember): Promise<void> {
@@ -344,54 +860,55 @@ export class LiveSyncWatcher {
       }
 
       // Upsert member as active with current state
-      await this.db.upsertMember({
-        id: `${guildId}_${userId}`,
-        guild_id: guildId,
-        user_id: userId,
-        username: member.user.username,
-        display_name: member.displayName,
-        global_name: member.user.globalName || undefined,
-        avatar: member.user.avatar || undefined,
-        avatar_decoration: member.user.avatarDecoration || undefined,
-        banner: member.user.banner || undefined,
-        accent_color: member.user.accentColor || undefined,
-        discriminator: member.user.discriminator,
-        bio: undefined,
-        flags: member.user.flags?.bitfield || undefined,
-        premium_type: undefined,
-        public_flags: member.user.flags?.bitfield || undefined,
-        bot: member.user.bot,
-        system: member.user.system || undefined,
-        nick: member.nickname || undefined,
-        joined_at: member.joinedAt || new Date(),
-        roles: Array.from(member.roles.cache.keys()),
-        permissions: member.permissions.bitfield.toString(),
-        communication_disabled_until:
-          member.communicationDisabledUntil || undefined,
-        pending: member.pending || undefined,
-        premium_since: member.premiumSince || undefined,
-        timeout: undefined,
-        active: true,
-        created_at: member.user.createdAt || new Date(),
-        updated_at: new Date(),
-      });
+      this.queue.enqueue("member", this.toMemberData(member));
     } catch {
       // Quiet
     }
   }
 
+  /**
+   * A member's current profile, roles and permissions. When stored, the
+   * member_events trigger logs whatever changed.
+   */
+  private toMemberData(member: GuildMember): MemberData {
+    return {
+      id: `${member.guild.id}_${member.user.id}`,
+      guild_id: member.guild.id,
+      user_id: member.user.id,
+      username: member.user.username,
+      display_name: member.displayName,
+      global_name: member.user.globalName || undefined,
+      avatar: member.user.avatar || undefined,
+      avatar_decoration: member.user.avatarDecoration || undefined,
+      banner: member.user.banner || undefined,
+      accent_color: member.user.accentColor || undefined,
+      discriminator: member.user.discriminator,
+      bio: undefined,
+      flags: member.user.flags?.bitfield || undefined,
+      premium_type: undefined,
+      public_flags: member.user.flags?.bitfield || undefined,
+      bot: member.user.bot,
+      system: member.user.system || undefined,
+      nick: member.nickname || undefined,
+      joined_at: member.joinedAt || new Date(),
+      roles: Array.from(member.roles.cache.keys()),
+      permissions: member.permissions.bitfield.toString(),
+      communication_disabled_until:
+        member.communicationDisabledUntil || undefined,
+      pending: member.pending || undefined,
+      premium_since: member.premiumSince || undefined,
+      timeout: undefined,
+      active: true,
+      created_at: member.user.createdAt || new Date(),
+      updated_at: new Date(),
+    };
+  }
+
   private async handleGuildMemberRemove(member: GuildMember): Promise<void> {
-    try {
-      const guildId = member.guild.id;
-      const userId = member.user.id;
-      await this.db.query(
-        `UPDATE members SET active = false, updated_at = NOW()
-         WHERE guild_id = $1 AND user_id = $2`,
-        [guildId, userId]
-      );
-    } catch {
-      // Quiet
-    }
+    this.queue.enqueue("memberLeave", {
+      guildId: member.guild.id,
+      userId: member.user.id,
+    });
   }
 
   /**
@@ -467,6 +984,7 @@ export class LiveSyncWatcher {
     if (this.rollupTimer) {
       clearInterval(this.rollupTimer);
     }
+    await this.queue.stop();
     await this.conversationManager.finalizeAllSegments();
     await this.processRollupQueue();
     console.log("🔹 LiveSyncWatcher stopped");
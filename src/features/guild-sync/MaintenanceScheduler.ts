@@ -0,0 +1,274 @@
+import type { Client } from "discord.js";
+import { config } from "../../config";
+import type {
+  MaintenanceRunData,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+
+export type MaintenanceJob =
+  | "member-refresh" // Re-fetch members; those who left are marked inactive
+  | "watermark-catch-up" // Fetch messages newer than each channel's watermark
+  | "reply-repair" // Link replies stored before the message they reply to
+  | "segment-consolidation" // Merge overlapping segments, compact old ones
+  | "edge-windows" // Recompute 7- and 30-day relationship edge windows
+  | "network-analytics" // Recompute communities, centrality and bridges
+  | "relationship-activity-prune" // Drop daily relationship activity past retention
+  | "search-backfill"; // Index messages stored before search existed
+
+export interface MaintenancePolicy {
+  intervalMinutes: number; // 0 disables the job
+  quietHours: [number, number] | null; // [start, end) hours, local time
+}
+
+// Counts a job reports, stored with its run
+export type MaintenanceRunner = () => Promise<Record<string, number>>;
+
+export interface MaintenanceJobStatus {
+  job: MaintenanceJob;
+  policy: MaintenancePolicy;
+  running: boolean;
+  lastRun?: MaintenanceRunData;
+  nextRunAt: Date | null; // Null when disabled
+}
+
+const DEFAULT_INTERVAL_MINUTES: Record<MaintenanceJob, number> = {
+  "member-refresh": 6 * 60,
+  "watermark-catch-up": 60,
+  "reply-repair": 60,
+  "segment-consolidation": 60,
+  "edge-windows": 10,
+  "network-analytics": 6 * 60,
+  "relationship-activity-prune": 24 * 60,
+  "search-backfill": 10,
+};
+
+const JOBS = Object.keys(DEFAULT_INTERVAL_MINUTES) as MaintenanceJob[];
+
+const TICK_MS = 60 * 1000;
+// A failed run is retried sooner than its interval, but not straight away
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+const HISTORY_DAYS = 30;
+
+/**
+ * Each job's policy: its default interval and the shared quiet hours, with
+ * any MAINTENANCE_<JOB>_* overrides from the environment applied
+ */
+export function resolvePolicies(): Record<MaintenanceJob, MaintenancePolicy> {
+  for (const name of Object.keys(config.maintenancePolicies)) {
+    if (!JOBS.includes(name as MaintenanceJob)) {
+      console.log(
+        `🔸 Ignoring settings for unknown maintenance job "${name}" (jobs: ${JOBS.join(", ")})`
+      );
+    }
+  }
+
+  const policies = {} as Record<MaintenanceJob, MaintenancePolicy>;
+  for (const job of JOBS) {
+    const override = config.maintenancePolicies[job] || {};
+    policies[job] = {
+      intervalMinutes:
+        override.intervalMinutes ?? DEFAULT_INTERVAL_MINUTES[job],
+      quietHours:
+        override.quietHours !== undefined
+          ? override.quietHours
+          : config.maintenanceQuietHours || null,
+    };
+  }
+  return policies;
+}
+
+/**
+ * Whether a time falls in a policy's quiet hours; "22-6" wraps midnight
+ */
+export function inQuietHours(policy: MaintenancePolicy, at: Date): boolean {
+  if (!policy.quietHours) return false;
+  const [start, end] = policy.quietHours;
+  const hour = at.getHours();
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+/**
+ * Runs the healer's incremental maintenance jobs, each on its own interval
+ * and outside its quiet hours. Jobs run one at a time; when several are due
+ * the most overdue goes first, and a job that's due during quiet hours waits
+ * until they end (one already running isn't stopped). Every run is recorded
+ * in maintenance_runs, which is also where the timetable resumes from after
+ * a restart. One scheduler is kept per client so /sync status can report on
+ * it.
+ */
+export class MaintenanceScheduler {
+  private static schedulers = new WeakMap<Client, MaintenanceScheduler>();
+
+  private db: PostgreSQLManager;
+  private runners: Record<MaintenanceJob, MaintenanceRunner>;
+  private policies: Record<MaintenanceJob, MaintenancePolicy>;
+  private lastRuns = new Map<MaintenanceJob, MaintenanceRunData>();
+  private nextRunAt = new Map<MaintenanceJob, number>();
+  private timer?: NodeJS.Timeout;
+  private current?: MaintenanceJob;
+  private verbose: boolean;
+
+  /**
+   * The scheduler for a client, if maintenance has been started
+   */
+  static existingFor(client: Client): MaintenanceScheduler | undefined {
+    return MaintenanceScheduler.schedulers.get(client);
+  }
+
+  constructor(
+    client: Client,
+    db: PostgreSQLManager,
+    runners: Record<MaintenanceJob, MaintenanceRunner>,
+    verbose = false
+  ) {
+    this.db = db;
+    this.runners = runners;
+    this.policies = resolvePolicies();
+    this.verbose = verbose;
+    MaintenanceScheduler.schedulers.set(client, this);
+  }
+
+  /**
+   * Pick up the timetable from the run history and start ticking. Jobs that
+   * have never run are due straight away.
+   */
+  async start(): Promise<void> {
+    const cutoff = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const cleanup = await this.db.cleanUpMaintenanceRuns(cutoff);
+    if (cleanup.success && cleanup.data) {
+      console.log(
+        `🔹 Maintenance: ${cleanup.data} run(s) were interrupted by the last shutdown`
+      );
+    }
+
+    const latest = await this.db.getLatestMaintenanceRuns();
+    for (const run of latest.data || []) {
+      if (JOBS.includes(run.job as MaintenanceJob)) {
+        this.lastRuns.set(run.job as MaintenanceJob, run);
+      }
+    }
+
+    for (const job of JOBS) {
+      const lastRun = this.lastRuns.get(job);
+      this.nextRunAt.set(
+        job,
+        lastRun ? this.nextRunAfter(job, lastRun) : Date.now()
+      );
+    }
+
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    this.tick();
+  }
+
+  getStatus(): MaintenanceJobStatus[] {
+    return JOBS.map((job) => {
+      const policy = this.policies[job];
+      const nextRunAt = this.nextRunAt.get(job);
+      return {
+        job,
+        policy,
+        running: this.current === job,
+        lastRun: this.lastRuns.get(job),
+        nextRunAt:
+          policy.intervalMinutes > 0 && nextRunAt !== undefined
+            ? new Date(nextRunAt)
+            : null,
+      };
+    });
+  }
+
+  /**
+   * Stop scheduling runs. A job in progress finishes in the background; if
+   * the process exits first, its run is marked interrupted on the next start.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private tick(): void {
+    if (this.current || !this.db.isConnected()) return;
+
+    const now = new Date();
+    const due = JOBS.filter((job) => {
+      const policy = this.policies[job];
+      const nextRunAt = this.nextRunAt.get(job);
+      return (
+        policy.intervalMinutes > 0 &&
+        nextRunAt !== undefined &&
+        nextRunAt <= now.getTime() &&
+        !inQuietHours(policy, now)
+      );
+    }).sort(
+      (a, b) => (this.nextRunAt.get(a) || 0) - (this.nextRunAt.get(b) || 0)
+    );
+
+    const job = due[0];
+    if (!job) return;
+
+    this.run(job).catch((error) => {
+      console.error(`🔸 Maintenance: Failed to run ${job}:`, error);
+    });
+  }
+
+  private async run(job: MaintenanceJob): Promise<void> {
+    this.current = job;
+    const startedAt = new Date();
+    if (this.verbose) {
+      console.log(`🔹 Maintenance: Running ${job}...`);
+    }
+
+    try {
+      const started = await this.db.startMaintenanceRun(job);
+
+      let details: Record<string, number> = {};
+      let error: string | undefined;
+      try {
+        details = await this.runners[job]();
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+        console.error(`🔸 Maintenance: ${job} failed:`, err);
+      }
+
+      const finished = started.data
+        ? await this.db.finishMaintenanceRun(started.data.id, details, error)
+        : undefined;
+
+      // Without a history row the run is only remembered in memory
+      const run: MaintenanceRunData = finished?.data || {
+        id: "",
+        job,
+        status: error ? "failed" : "completed",
+        details,
+        error,
+        started_at: startedAt,
+        finished_at: new Date(),
+      };
+      this.lastRuns.set(job, run);
+      this.nextRunAt.set(job, this.nextRunAfter(job, run));
+
+      if (this.verbose && !error) {
+        const counts = Object.entries(details)
+          .map(([key, value]) => `${value} ${key}`)
+          .join(", ");
+        console.log(
+          `✅ Maintenance: ${job} completed${counts ? ` (${counts})` : ""}`
+        );
+      }
+    } finally {
+      this.current = undefined;
+    }
+  }
+
+  private nextRunAfter(job: MaintenanceJob, run: MaintenanceRunData): number {
+    const intervalMs = this.policies[job].intervalMinutes * 60 * 1000;
+    const endedAt = new Date(run.finished_at || run.started_at).getTime();
+    return run.status === "failed" || run.status === "interrupted"
+      ? endedAt + Math.min(intervalMs, RETRY_DELAY_MS)
+      : endedAt + intervalMs;
+  }
+}
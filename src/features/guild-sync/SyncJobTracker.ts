@@ -0,0 +1,151 @@
+import { SnowflakeUtil } from "discord.js";
+import type {
+  PostgreSQLManager,
+  SyncJobData,
+} from "../database/PostgreSQLManager";
+
+export interface SyncProgress {
+  job: SyncJobData;
+  fraction: number; // 0..1 of the channel's lifetime covered so far
+  messagesPerSecond: number;
+  etaMs: number | null; // Null until the first page gives a rate
+}
+
+export type SyncProgressListener = (progress: SyncProgress) => void;
+
+/**
+ * Compact duration for progress lines, e.g. "42m", "3h 5m", "2d 4h"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return "<1m";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/**
+ * Estimate how far a backward backfill has come. Discord has no message
+ * count per channel, but snowflakes carry timestamps: the span from the
+ * newest message back to the oldest fetched one, against the span back to
+ * the channel's creation, is the share of history already covered.
+ */
+export function toSyncProgress(job: SyncJobData): SyncProgress {
+  const seconds = job.active_ms / 1000;
+  const messagesPerSecond = seconds > 0 ? job.message_count / seconds : 0;
+
+  if (job.status === "completed") {
+    return { job, fraction: 1, messagesPerSecond, etaMs: 0 };
+  }
+  if (!job.newest_message_id || !job.oldest_message_id) {
+    return { job, fraction: 0, messagesPerSecond, etaMs: null };
+  }
+
+  const createdAt = SnowflakeUtil.timestampFrom(job.channel_id);
+  const newestAt = SnowflakeUtil.timestampFrom(job.newest_message_id);
+  const oldestAt = SnowflakeUtil.timestampFrom(job.oldest_message_id);
+  const span = newestAt - createdAt;
+  const fraction =
+    span > 0 ? Math.min(1, Math.max(0, (newestAt - oldestAt) / span)) : 1;
+
+  return {
+    job,
+    fraction,
+    messagesPerSecond,
+    etaMs: fraction > 0 ? (job.active_ms * (1 - fraction)) / fraction : null,
+  };
+}
+
+/**
+ * Checkpoints channel backfills in sync_jobs and reports each committed page
+ * to progress listeners (the healer's log, the sync:channel script)
+ */
+export class SyncJobTracker {
+  private db: PostgreSQLManager;
+  private listeners = new Set<SyncProgressListener>();
+  // When each running job last checkpointed, to accumulate active time only
+  private lastCheckpointAt = new Map<string, number>();
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * Subscribe to progress; returns an unsubscribe function
+   */
+  onProgress(listener: SyncProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start a channel's job. A returned oldest_message_id means an earlier
+   * run was interrupted and paging should continue before it.
+   */
+  async start(
+    guildId: string,
+    channelId: string
+  ): Promise<SyncJobData | null> {
+    const result = await this.db.startSyncJob(guildId, channelId);
+    if (!result.success || !result.data) return null;
+
+    this.lastCheckpointAt.set(channelId, Date.now());
+    return result.data;
+  }
+
+  /**
+   * Record a page whose messages are already committed
+   */
+  async checkpoint(
+    channelId: string,
+    page: {
+      newestMessageId: string;
+      oldestMessageId: string;
+      messages: number;
+    }
+  ): Promise<void> {
+    const now = Date.now();
+    const elapsedMs = now - (this.lastCheckpointAt.get(channelId) ?? now);
+    this.lastCheckpointAt.set(channelId, now);
+
+    const result = await this.db.checkpointSyncJob(channelId, {
+      ...page,
+      elapsedMs,
+    });
+    if (result.success && result.data) {
+      this.emit(result.data);
+    }
+  }
+
+  async complete(channelId: string): Promise<void> {
+    await this.finish(channelId);
+  }
+
+  async fail(channelId: string, error: string): Promise<void> {
+    await this.finish(channelId, error);
+  }
+
+  private async finish(channelId: string, error?: string): Promise<void> {
+    this.lastCheckpointAt.delete(channelId);
+    const result = await this.db.finishSyncJob(channelId, error);
+    if (result.success && result.data) {
+      this.emit(result.data);
+    }
+  }
+
+  private emit(job: SyncJobData): void {
+    if (this.listeners.size === 0) return;
+
+    const progress = toSyncProgress(job);
+    for (const listener of this.listeners) {
+      try {
+        listener(progress);
+      } catch (error) {
+        console.error("🔸 Sync progress listener failed:", error);
+      }
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import {
+  type AnyThreadChannel,
+  ChannelType,
+  type ForumChannel,
+  type Guild,
+  type GuildBasedChannel,
+  type MediaChannel,
+  type NewsChannel,
+  PermissionFlagsBits,
+  type TextChannel,
+  type ThreadOnlyChannel,
+} from "discord.js";
+import type {
+  ChannelData,
+  DatabaseResult,
+  ForumTagData,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+import { toPermissionOverwrites } from "./ChannelPermissions";
+import { FetchScheduler } from "./FetchScheduler";
+
+const ARCHIVED_PAGE_SIZE = 100;
+
+type ThreadParent = TextChannel | NewsChannel | ForumChannel | MediaChannel;
+
+/**
+ * Map a thread or forum post to its channels row
+ */
+export function toThreadData(thread: AnyThreadChannel): ChannelData {
+  return {
+    id: thread.id,
+    guild_id: thread.guildId,
+    name: thread.name,
+    type: thread.type,
+    nsfw:
+      thread.parent && "nsfw" in thread.parent ? thread.parent.nsfw : false,
+    parent_id: thread.parentId || undefined,
+    active: true,
+    is_thread: true,
+    owner_id: thread.ownerId || undefined,
+    archived: thread.archived ?? false,
+    locked: thread.locked ?? false,
+    // archivedAt also changes on unarchive; only keep it while archived
+    archived_at: thread.archived ? thread.archivedAt || undefined : undefined,
+    applied_tags: thread.appliedTags,
+  };
+}
+
+/**
+ * Map a forum or media channel to its channels row
+ */
+export function toForumChannelData(channel: ThreadOnlyChannel): ChannelData {
+  return {
+    id: channel.id,
+    guild_id: channel.guildId,
+    name: channel.name,
+    type: channel.type,
+    position: channel.position,
+    topic: channel.topic || undefined,
+    nsfw: channel.nsfw,
+    parent_id: channel.parentId || undefined,
+    active: true,
+    permission_overwrites: toPermissionOverwrites(channel),
+  };
+}
+
+/**
+ * Map a forum or media channel's available tags to forum_tags rows
+ */
+export function toForumTags(channel: ThreadOnlyChannel): ForumTagData[] {
+  return channel.availableTags.map((tag) => ({
+    id: tag.id,
+    guild_id: channel.guildId,
+    channel_id: channel.id,
+    name: tag.name,
+    emoji_id: tag.emoji?.id || undefined,
+    emoji_name: tag.emoji?.name || undefined,
+    moderated: tag.moderated,
+  }));
+}
+
+function isThreadParent(channel: GuildBasedChannel): channel is ThreadParent {
+  return (
+    channel.type === ChannelType.GuildText ||
+    channel.type === ChannelType.GuildAnnouncement ||
+    channel.isThreadOnly()
+  );
+}
+
+/**
+ * Discovers and stores threads and forum posts, which never appear in
+ * guild.channels.cache once archived
+ */
+export class ThreadSync {
+  private db: PostgreSQLManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+  }
+
+  /**
+   * Fetch every active and archived thread in a guild. Private archived
+   * threads need Manage Threads and are skipped without it.
+   */
+  async fetchThreads(guild: Guild): Promise<AnyThreadChannel[]> {
+    const threads = new Map<string, AnyThreadChannel>();
+    const scheduler = FetchScheduler.forClient(guild.client);
+
+    try {
+      const active = await scheduler.run("threads", () =>
+        guild.channels.fetchActiveThreads()
+      );
+      for (const thread of active.threads.values()) {
+        threads.set(thread.id, thread);
+      }
+    } catch (error) {
+      console.warn(
+        `🔸 Could not fetch active threads for ${guild.name}:`,
+        error
+      );
+    }
+
+    const me = guild.members.me;
+    for (const channel of guild.channels.cache.values()) {
+      if (!isThreadParent(channel)) continue;
+
+      const types: ("public" | "private")[] = ["public"];
+      if (
+        channel.type === ChannelType.GuildText &&
+        me &&
+        channel.permissionsFor(me).has(PermissionFlagsBits.ManageThreads)
+      ) {
+        types.push("private");
+      }
+
+      for (const type of types) {
+        try {
+          const archived = await this.fetchArchived(scheduler, channel, type);
+          for (const thread of archived) {
+            threads.set(thread.id, thread);
+          }
+        } catch (error: any) {
+          // Missing access or history permission: the channel is skipped
+          if (error.code !== 50001 && error.status !== 403) {
+            console.warn(
+              `🔸 Could not fetch archived ${type} threads for #${channel.name}:`,
+              error.message || error
+            );
+          }
+        }
+      }
+    }
+
+    return Array.from(threads.values());
+  }
+
+  /**
+   * Store a thread's row
+   */
+  async syncThread(
+    thread: AnyThreadChannel
+  ): Promise<DatabaseResult<ChannelData>> {
+    return this.db.upsertChannel(toThreadData(thread));
+  }
+
+  /**
+   * Store a forum or media channel's row and its available tags
+   */
+  async syncForumChannel(
+    channel: ThreadOnlyChannel
+  ): Promise<DatabaseResult<void>> {
+    const channelResult = await this.db.upsertChannel(
+      toForumChannelData(channel)
+    );
+    if (!channelResult.success) {
+      return { success: false, error: channelResult.error };
+    }
+
+    return this.db.upsertForumTags(channel.id, toForumTags(channel));
+  }
+
+  /**
+   * Page through a channel's archived threads, newest archive first
+   */
+  private async fetchArchived(
+    scheduler: FetchScheduler,
+    channel: ThreadParent,
+    type: "public" | "private"
+  ): Promise<AnyThreadChannel[]> {
+    const threads: AnyThreadChannel[] = [];
+    let before: Date | undefined;
+
+    while (true) {
+      const page = await scheduler.run("threads", () =>
+        channel.threads.fetchArchived({
+          type,
+          fetchAll: type === "private",
+          before,
+          limit: ARCHIVED_PAGE_SIZE,
+        })
+      );
+      threads.push(...page.threads.values());
+      if (!page.hasMore || page.threads.size === 0) break;
+
+      // Pages are keyed by archive time, so continue from the oldest seen
+      before = new Date(
+        Math.min(
+          ...page.threads.map(
+            (thread) => thread.archiveTimestamp ?? Date.now()
+          )
+        )
+      );
+    }
+
+    return threads;
+  }
+}
@@ -0,0 +1,257 @@
+import {
+  type ChatInputCommandInteraction,
+  EmbedBuilder,
+  SlashCommandBuilder,
+} from "discord.js";
+import { config } from "../../../config";
+import type { Command } from "../../../types";
+import { PostgreSQLManager } from "../../database/PostgreSQLManager";
+import { FetchScheduler } from "../FetchScheduler";
+import { LiveSyncQueue, type LiveSyncQueueStatus } from "../LiveSyncQueue";
+import {
+  type MaintenanceJobStatus,
+  MaintenanceScheduler,
+} from "../MaintenanceScheduler";
+import { formatDuration, toSyncProgress } from "../SyncJobTracker";
+
+const MAX_JOBS_SHOWN = 15;
+// A running job this long without a checkpoint belongs to a stopped process
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+function toUnix(date: Date): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+function describeQueue(queue: LiveSyncQueueStatus): string {
+  return [
+    queue.depth > 0 && queue.oldestQueuedAt
+      ? `**${queue.depth}** queued, oldest <t:${toUnix(queue.oldestQueuedAt)}:R>`
+      : "Empty",
+    `${queue.applied} applied • ${queue.replayed} replayed on start • ${queue.retries} retries • ${queue.failed} set aside`,
+    queue.retryInMs > 0
+      ? `Retrying in ${Math.ceil(queue.retryInMs / 1000)}s`
+      : null,
+    queue.lastError ? `Last error: ${queue.lastError.substring(0, 200)}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function describeMaintenance(jobs: MaintenanceJobStatus[]): string {
+  return jobs
+    .map(({ job, policy, running, lastRun, nextRunAt }) => {
+      if (policy.intervalMinutes === 0) {
+        return `\`${job}\` disabled`;
+      }
+
+      const last = lastRun
+        ? `${lastRun.status} <t:${toUnix(lastRun.started_at)}:R>`
+        : "never run";
+      const next = running
+        ? "running now"
+        : nextRunAt
+          ? `next <t:${toUnix(nextRunAt)}:R>`
+          : "not scheduled";
+      const quiet = policy.quietHours
+        ? ` • quiet ${policy.quietHours[0]}:00-${policy.quietHours[1]}:00`
+        : "";
+      return `\`${job}\` every ${formatDuration(policy.intervalMinutes * 60 * 1000)}${quiet} • ${last} • ${next}`;
+    })
+    .join("\n");
+}
+
+export const syncCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName("sync")
+    .setDescription("Historical backfill (bot owner only)")
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("status")
+        .setDescription("Show backfill progress, rate and ETA per channel")
+    )
+    .setDMPermission(false),
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    await interaction.deferReply({ ephemeral: true });
+
+    const guild = interaction.guild;
+    if (!guild) {
+      await interaction.editReply(
+        "🔸 This command can only be used in a server."
+      );
+      return;
+    }
+
+    // Without a configured bot owner, fall back to the server owner
+    const ownerId = config.botOwnerId || guild.ownerId;
+    if (interaction.user.id !== ownerId) {
+      await interaction.editReply(
+        "🔸 Only the bot owner can use this command."
+      );
+      return;
+    }
+
+    const db = new PostgreSQLManager();
+
+    try {
+      const connected = await db.connect();
+
+      if (!connected) {
+        await interaction.editReply("🔸 Failed to connect to database.");
+        return;
+      }
+
+      const result = await db.getSyncJobs(guild.id);
+
+      if (!result.success || !result.data) {
+        await interaction.editReply("🔸 Failed to load sync jobs.");
+        await db.disconnect();
+        return;
+      }
+
+      const jobs = result.data.map(toSyncProgress);
+      if (jobs.length === 0) {
+        const queue = LiveSyncQueue.existingFor(
+          interaction.client
+        )?.getStatus();
+        const maintenance = MaintenanceScheduler.existingFor(
+          interaction.client
+        )?.getStatus();
+        await interaction.editReply(
+          `🔹 No backfills have run in this server yet.${
+            queue ? `\n\n**Live sync queue**\n${describeQueue(queue)}` : ""
+          }${
+            maintenance
+              ? `\n\n**Scheduled maintenance**\n${describeMaintenance(maintenance)}`
+              : ""
+          }`
+        );
+        await db.disconnect();
+        return;
+      }
+
+      const now = Date.now();
+      const isLive = (updatedAt: Date) =>
+        now - new Date(updatedAt).getTime() < STALE_JOB_MS;
+      const unfinished = jobs.filter(({ job }) => job.status !== "completed");
+      const live = unfinished.filter(
+        ({ job }) => job.status === "running" && isLive(job.updated_at)
+      );
+      const completed = jobs.length - unfinished.length;
+
+      // Channels backfill in parallel, so the slowest one sets the ETA
+      const rate = live.reduce((sum, p) => sum + p.messagesPerSecond, 0);
+      const etas = live
+        .map((p) => p.etaMs)
+        .filter((eta): eta is number => eta !== null);
+      const stored = jobs.reduce((sum, p) => sum + p.job.message_count, 0);
+      const eta =
+        etas.length > 0 ? formatDuration(Math.max(...etas)) : "unknown";
+
+      const embed = new EmbedBuilder()
+        .setTitle("Backfill status")
+        .setColor(unfinished.length === 0 ? 0x57f287 : 0x5865f2)
+        .setDescription(
+          [
+            `**${completed}/${jobs.length}** channels complete, **${live.length}** in progress`,
+            `**${stored.toLocaleString()}** messages stored by backfills`,
+            live.length > 0
+              ? `**${rate.toFixed(1)}** messages/s • ETA **${eta}**`
+              : null,
+          ]
+            .filter(Boolean)
+            .join("\n")
+        )
+        .setTimestamp();
+
+      for (const progress of unfinished.slice(0, MAX_JOBS_SHOWN)) {
+        const { job } = progress;
+        const name = guild.channels.cache.get(job.channel_id)?.name;
+
+        let state: string;
+        if (job.status === "failed") {
+          state = `Failed: ${(job.error || "unknown").substring(0, 200)}`;
+        } else if (!isLive(job.updated_at)) {
+          state = "Interrupted; resumes on the next healing pass";
+        } else {
+          const jobRate = progress.messagesPerSecond.toFixed(1);
+          const jobEta =
+            progress.etaMs !== null
+              ? formatDuration(progress.etaMs)
+              : "unknown";
+          state = `${jobRate} msg/s • ETA ${jobEta}`;
+        }
+
+        embed.addFields({
+          name: name ? `#${name}` : job.channel_id,
+          value: `${(progress.fraction * 100).toFixed(1)}% • ${job.message_count.toLocaleString()} messages\n${state}\nUpdated <t:${toUnix(job.updated_at)}:R>`,
+          inline: false,
+        });
+      }
+
+      // Fetch scheduler state for this bot process, once healing has used it
+      const metrics = FetchScheduler.existingFor(
+        interaction.client
+      )?.getMetrics();
+      const activeRoutes = metrics?.routes.filter(
+        (route) => route.completed + route.failed + route.queued > 0
+      );
+      if (metrics && activeRoutes && activeRoutes.length > 0) {
+        const lines = activeRoutes.map(
+          (route) =>
+            `\`${route.route}\` ${route.running}/${route.concurrency} running, ${route.queued} queued • ${route.completed} done, ${route.rateLimited} rate limited${
+              route.pausedForMs > 0
+                ? ` • paused ${Math.ceil(route.pausedForMs / 1000)}s`
+                : ""
+            }`
+        );
+        embed.addFields({
+          name: `Fetch scheduler (${metrics.rateLimitEvents} rate limit(s) hit)`,
+          value: lines.join("\n").substring(0, 1024),
+          inline: false,
+        });
+      }
+
+      // Live events waiting for (or retrying) their database writes
+      const queue = LiveSyncQueue.existingFor(interaction.client)?.getStatus();
+      if (queue) {
+        embed.addFields({
+          name: "Live sync queue",
+          value: describeQueue(queue),
+          inline: false,
+        });
+      }
+
+      // Last and next run of each maintenance job
+      const maintenance = MaintenanceScheduler.existingFor(
+        interaction.client
+      )?.getStatus();
+      if (maintenance) {
+        embed.addFields({
+          name: "Scheduled maintenance",
+          value: describeMaintenance(maintenance).substring(0, 1024),
+          inline: false,
+        });
+      }
+
+      if (unfinished.length > MAX_JOBS_SHOWN) {
+        embed.setFooter({
+          text: `${unfinished.length - MAX_JOBS_SHOWN} more unfinished channel(s) not shown`,
+        });
+      }
+
+      await interaction.editReply({ embeds: [embed] });
+      await db.disconnect();
+    } catch (error) {
+      console.error("Error in sync status command:", error);
+      await interaction.editReply(
+        "🔸 An error occurred while loading sync status."
+      );
+
+      try {
+        await db.disconnect();
+      } catch (disconnectError) {
+        console.error("Error disconnecting from database:", disconnectError);
+      }
+    }
+  },
+};
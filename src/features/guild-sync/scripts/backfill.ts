@@ -1,7 +1,8 @@
 import { GuildSyncManager } from "../GuildSyncManager";
 
+// Usage: npm run sync:guild [guild_id ...] (all guilds when none are given)
 async function run() {
-  const manager = new GuildSyncManager();
+  const manager = new GuildSyncManager(process.argv.slice(2));
   await manager.start();
 }
 
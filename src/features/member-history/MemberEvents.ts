@@ -0,0 +1,51 @@
+import type { MemberEventData } from "../database/PostgreSQLManager";
+
+/**
+ * One line describing a profile change. With mentions, roles and timeout ends
+ * render as Discord role mentions and timestamps; otherwise as plain text for
+ * AI tools.
+ */
+export function describeMemberEvent(
+  event: MemberEventData,
+  options: { mentions?: boolean } = {}
+): string {
+  const quote = (value?: string) => (value ? `"${value}"` : "none");
+  const role = (id?: string) =>
+    options.mentions ? `<@&${id}>` : event.role_name || `role ${id}`;
+  const time = (value?: string) => {
+    const date = new Date(value || "");
+    if (Number.isNaN(date.getTime())) return "unknown";
+    return options.mentions
+      ? `<t:${Math.floor(date.getTime() / 1000)}:f>`
+      : date.toISOString();
+  };
+
+  switch (event.event_type) {
+    case "join":
+      return "Joined the server";
+    case "leave":
+      return "Left the server";
+    case "nickname":
+      return `Nickname changed from ${quote(event.old_value)} to ${quote(event.new_value)}`;
+    case "username":
+      return `Username changed from ${quote(event.old_value)} to ${quote(event.new_value)}`;
+    case "global_name":
+      return `Display name changed from ${quote(event.old_value)} to ${quote(event.new_value)}`;
+    case "avatar":
+      return event.new_value ? "Changed avatar" : "Removed avatar";
+    case "role_add":
+      return `Given ${role(event.new_value)}`;
+    case "role_remove":
+      return `Lost ${role(event.old_value)}`;
+    case "timeout":
+      return `Timed out until ${time(event.new_value)}`;
+    case "timeout_end":
+      return "Timeout removed early";
+    case "boost":
+      return "Started boosting the server";
+    case "boost_end":
+      return "Stopped boosting the server";
+    default:
+      return event.event_type;
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  type ChatInputCommandInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import type { Command } from "../../../types";
+import type { MemberEventType } from "../../database/PostgreSQLManager";
+import { PostgreSQLManager } from "../../database/PostgreSQLManager";
+import { MemberEventRepository } from "../../database/repositories";
+import { describeMemberEvent } from "../MemberEvents";
+
+const MAX_EVENTS_SHOWN = 25;
+
+// Choices group related event types
+const EVENT_FILTERS: Record<string, MemberEventType[]> = {
+  membership: ["join", "leave"],
+  names: ["nickname", "username", "global_name"],
+  avatar: ["avatar"],
+  roles: ["role_add", "role_remove"],
+  timeouts: ["timeout", "timeout_end"],
+  boosts: ["boost", "boost_end"],
+};
+
+function toUnix(date: Date): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+export const historyCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName("history")
+    .setDescription("Recorded profile changes")
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("user")
+        .setDescription(
+          "A member's joins, leaves, name, avatar, role, timeout and boost changes"
+        )
+        .addUserOption((option) =>
+          option.setName("user").setDescription("Member").setRequired(true)
+        )
+        .addStringOption((option) =>
+          option
+            .setName("type")
+            .setDescription("Only show one kind of change")
+            .addChoices(
+              { name: "Joins and leaves", value: "membership" },
+              { name: "Names", value: "names" },
+              { name: "Avatar", value: "avatar" },
+              { name: "Roles", value: "roles" },
+              { name: "Timeouts", value: "timeouts" },
+              { name: "Boosts", value: "boosts" }
+            )
+            .setRequired(false)
+        )
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+    .setDMPermission(false),
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    await interaction.deferReply({ ephemeral: true });
+
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      await interaction.editReply(
+        "🔸 This command can only be used in a server."
+      );
+      return;
+    }
+
+    const user = interaction.options.getUser("user", true);
+    const filter = interaction.options.getString("type");
+    const db = new PostgreSQLManager();
+
+    try {
+      const connected = await db.connect();
+
+      if (!connected) {
+        await interaction.editReply("🔸 Failed to connect to database.");
+        return;
+      }
+
+      const events = new MemberEventRepository(db);
+      const result = await events.findByUser(guildId, user.id, {
+        types: filter ? EVENT_FILTERS[filter] : undefined,
+        limit: MAX_EVENTS_SHOWN,
+      });
+
+      if (!result.success || !result.data) {
+        await interaction.editReply("🔸 Failed to load member history.");
+        await db.disconnect();
+        return;
+      }
+
+      if (result.data.length === 0) {
+        await interaction.editReply(
+          `🔹 No changes have been recorded for <@${user.id}>.`
+        );
+        await db.disconnect();
+        return;
+      }
+
+      const lines = result.data.map(
+        (event) =>
+          `<t:${toUnix(event.occurred_at)}:d> ${describeMemberEvent(event, {
+            mentions: true,
+          })}`
+      );
+
+      const embed = new EmbedBuilder()
+        .setTitle(`History: ${user.displayName}`)
+        .setColor(0x5865f2)
+        .setThumbnail(user.displayAvatarURL())
+        .setDescription(lines.join("\n").substring(0, 4096))
+        .setFooter({
+          text:
+            result.data.length === MAX_EVENTS_SHOWN
+              ? `Latest ${MAX_EVENTS_SHOWN} changes`
+              : `${result.data.length} change(s)`,
+        });
+
+      await interaction.editReply({ embeds: [embed] });
+      await db.disconnect();
+    } catch (error) {
+      console.error("Error in history command:", error);
+      await interaction.editReply(
+        "🔸 An error occurred while loading member history."
+      );
+
+      try {
+        await db.disconnect();
+      } catch (disconnectError) {
+        console.error("Error disconnecting from database:", disconnectError);
+      }
+    }
+  },
+};
@@ -0,0 +1,414 @@
+import {
+  AttachmentBuilder,
+  AuditLogEvent,
+  type Channel,
+  EmbedBuilder,
+  type Guild,
+  type GuildTextBasedChannel,
+  type Message,
+  type PartialMessage,
+  type ReadonlyCollection,
+} from "discord.js";
+import type {
+  MessageData,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+import { MemberRepository, MessageRepository } from "../database/repositories";
+import { isChannelExcluded } from "../guild-settings/ChannelPolicy";
+import { GuildSettingsManager } from "../guild-settings/GuildSettingsManager";
+
+// Audit log entries appear shortly after the gateway event
+const AUDIT_LOG_DELAY_MS = 1500;
+// Entries older than this can't describe the deletion we just saw
+const AUDIT_LOG_WINDOW_MS = 15_000;
+const MAX_TRACKED_AUDIT_ENTRIES = 1000;
+
+// A soft delete to write; live sync queues it behind the messages' creation
+export interface MessageDeletion {
+  messageIds: string[];
+  deletedBy?: string;
+  deletedAt: Date;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max - 3)}...` : text;
+}
+
+function toUnix(date: Date): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+/**
+ * Soft-deletes messages with who/when, through the writer it's given, and
+ * reports them to the mod-log channel using the content already stored in
+ * the messages table
+ */
+export class DeletionLog {
+  private db: PostgreSQLManager;
+  private messages: MessageRepository;
+  private settings: GuildSettingsManager;
+  private markDeleted: (deletion: MessageDeletion) => void;
+  // Discord folds repeat deletions by one moderator into a single entry and
+  // bumps its count, so the last seen count tells a new deletion from an old one
+  private auditEntryCounts = new Map<string, number>();
+
+  constructor(
+    db: PostgreSQLManager,
+    markDeleted: (deletion: MessageDeletion) => void
+  ) {
+    this.db = db;
+    this.messages = new MessageRepository(db);
+    this.settings = new GuildSettingsManager(db);
+    this.markDeleted = markDeleted;
+  }
+
+  /**
+   * Record a single deleted message and post it to the mod log. Deletions in
+   * excluded channels are only marked, never looked up or posted.
+   */
+  async recordDeletion(message: Message | PartialMessage): Promise<void> {
+    const guild = message.guild;
+    if (!guild) return;
+    const deletedAt = new Date();
+    if (await this.isExcluded(guild.id, message.channel)) {
+      this.markDeleted({ messageIds: [message.id], deletedAt });
+      return;
+    }
+
+    const result = await this.messages.findByIds(guild.id, [message.id]);
+    const stored = result.success ? result.data?.[0] : undefined;
+
+    const authorId = message.author?.id || stored?.author_id;
+    if (!authorId) {
+      // Neither cached nor stored yet; its creation may still be queued
+      this.markDeleted({ messageIds: [message.id], deletedAt });
+      return;
+    }
+
+    const deletedBy = await this.findDeleteExecutor(
+      guild,
+      message.channelId,
+      authorId
+    );
+    this.markDeleted({ messageIds: [message.id], deletedBy, deletedAt });
+
+    await this.postDeletion(guild, message, stored, authorId, deletedBy);
+  }
+
+  /**
+   * Record a bulk delete (purge) and post one summary with a transcript
+   * unless the channel is excluded
+   */
+  async recordBulkDeletion(
+    messages: ReadonlyCollection<string, Message | PartialMessage>,
+    channel: GuildTextBasedChannel
+  ): Promise<void> {
+    const deletedAt = new Date();
+    const messageIds = Array.from(messages.keys());
+    if (await this.isExcluded(channel.guild.id, channel)) {
+      this.markDeleted({ messageIds, deletedAt });
+      return;
+    }
+    const result = await this.messages.findByIds(channel.guild.id, messageIds);
+    const stored = result.success && result.data ? result.data : [];
+
+    const deletedBy = await this.findBulkDeleteExecutor(
+      channel.guild,
+      channel.id
+    );
+    this.markDeleted({ messageIds, deletedBy, deletedAt });
+
+    await this.postBulkDeletion(channel, messages, stored, deletedBy);
+  }
+
+  /**
+   * Whether the guild's settings leave this channel out. Deletions aren't
+   * attributed or posted while the settings can't be read.
+   */
+  private async isExcluded(
+    guildId: string,
+    channel: Channel
+  ): Promise<boolean> {
+    const settings = await this.settings.get(guildId);
+    if (!settings.success || !settings.data) {
+      console.error(
+        `🔸 Not logging deletion in ${channel.id}, channel settings unavailable:`,
+        settings.error
+      );
+      return true;
+    }
+    return isChannelExcluded(settings.data, channel);
+  }
+
+  /**
+   * Find the moderator who deleted someone else's message. Self-deletes have
+   * no audit log entry, so undefined usually means the author deleted it.
+   */
+  private async findDeleteExecutor(
+    guild: Guild,
+    channelId: string,
+    authorId: string
+  ): Promise<string | undefined> {
+    await new Promise((resolve) => setTimeout(resolve, AUDIT_LOG_DELAY_MS));
+
+    try {
+      const logs = await guild.fetchAuditLogs({
+        type: AuditLogEvent.MessageDelete,
+        limit: 10,
+      });
+
+      for (const entry of logs.entries.values()) {
+        if (
+          entry.targetId !== authorId ||
+          entry.extra.channel.id !== channelId
+        ) {
+          continue;
+        }
+
+        const seenCount = this.auditEntryCounts.get(entry.id);
+        this.trackAuditEntry(entry.id, entry.extra.count);
+
+        const isNewEntry =
+          seenCount === undefined &&
+          Date.now() - entry.createdTimestamp < AUDIT_LOG_WINDOW_MS;
+        const isBumpedEntry =
+          seenCount !== undefined && entry.extra.count > seenCount;
+        if (isNewEntry || isBumpedEntry) {
+          return entry.executorId || undefined;
+        }
+      }
+    } catch (error) {
+      // Missing View Audit Log permission: record the deletion unattributed
+      console.warn("🔸 Could not read audit log for message delete:", error);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the moderator or bot behind a bulk delete in a channel
+   */
+  private async findBulkDeleteExecutor(
+    guild: Guild,
+    channelId: string
+  ): Promise<string | undefined> {
+    await new Promise((resolve) => setTimeout(resolve, AUDIT_LOG_DELAY_MS));
+
+    try {
+      const logs = await guild.fetchAuditLogs({
+        type: AuditLogEvent.MessageBulkDelete,
+        limit: 5,
+      });
+
+      const entry = logs.entries.find(
+        (candidate) =>
+          candidate.targetId === channelId &&
+          Date.now() - candidate.createdTimestamp < AUDIT_LOG_WINDOW_MS
+      );
+      return entry?.executorId || undefined;
+    } catch (error) {
+      console.warn("🔸 Could not read audit log for bulk delete:", error);
+      return undefined;
+    }
+  }
+
+  private trackAuditEntry(entryId: string, count: number): void {
+    if (this.auditEntryCounts.size >= MAX_TRACKED_AUDIT_ENTRIES) {
+      this.auditEntryCounts.clear();
+    }
+    this.auditEntryCounts.set(entryId, count);
+  }
+
+  /**
+   * Resolve the guild's log channel from its settings, if one is set
+   */
+  private async getModLogChannel(
+    guild: Guild
+  ): Promise<GuildTextBasedChannel | null> {
+    const { log_channel_id: logChannelId } = await this.settings.getOrDefault(
+      guild.id
+    );
+    if (!logChannelId) return null;
+
+    const channel =
+      guild.channels.cache.get(logChannelId) ||
+      (await guild.channels.fetch(logChannelId).catch(() => null));
+    return channel?.isTextBased() ? channel : null;
+  }
+
+  private async postDeletion(
+    guild: Guild,
+    message: Message | PartialMessage,
+    stored: MessageData | undefined,
+    authorId: string,
+    deletedBy: string | undefined
+  ): Promise<void> {
+    const modLog = await this.getModLogChannel(guild);
+    // Never log deletions from the mod log itself
+    if (!modLog || modLog.id === message.channelId) return;
+
+    const content = stored?.content ?? message.content ?? "";
+    const attachments =
+      stored?.attachments ||
+      Array.from(message.attachments.values()).map((a) => a.url);
+    const createdAt = stored?.created_at ?? message.createdAt;
+
+    const embed = new EmbedBuilder()
+      .setTitle("Message deleted")
+      .setColor(0xed4245)
+      .setDescription(
+        content
+          ? truncate(content, 4000)
+          : stored
+            ? "*(no text content)*"
+            : "*(message was not stored)*"
+      )
+      .addFields(
+        { name: "Author", value: `<@${authorId}> (${authorId})`, inline: true },
+        { name: "Channel", value: `<#${message.channelId}>`, inline: true },
+        {
+          name: "Deleted by",
+          value: deletedBy
+            ? `<@${deletedBy}>`
+            : "Author (no audit log entry)",
+          inline: true,
+        }
+      )
+      .setFooter({ text: `Message ID: ${message.id}` })
+      .setTimestamp();
+
+    if (message.author) {
+      embed.setAuthor({
+        name: message.author.tag,
+        iconURL: message.author.displayAvatarURL(),
+      });
+    }
+    if (attachments.length > 0) {
+      embed.addFields({
+        name: `Attachments (${attachments.length})`,
+        value: truncate(attachments.join("\n"), 1024),
+      });
+    }
+    if (createdAt) {
+      embed.addFields({ name: "Sent", value: `<t:${toUnix(createdAt)}:f>` });
+    }
+
+    try {
+      await modLog.send({ embeds: [embed], allowedMentions: { parse: [] } });
+    } catch (error) {
+      console.error("🔸 Failed to post deletion to mod log:", error);
+    }
+  }
+
+  private async postBulkDeletion(
+    channel: GuildTextBasedChannel,
+    messages: ReadonlyCollection<string, Message | PartialMessage>,
+    stored: MessageData[],
+    deletedBy: string | undefined
+  ): Promise<void> {
+    const modLog = await this.getModLogChannel(channel.guild);
+    if (!modLog || modLog.id === channel.id) return;
+
+    // Prefer stored rows; fall back to whatever the cache still had
+    const storedById = new Map(stored.map((row) => [row.id, row]));
+    const recovered: {
+      id: string;
+      authorId: string;
+      content: string;
+      createdAt: Date;
+      attachments: string[];
+    }[] = [];
+    for (const message of messages.values()) {
+      const row = storedById.get(message.id);
+      const authorId = row?.author_id || message.author?.id;
+      if (!authorId) continue;
+      recovered.push({
+        id: message.id,
+        authorId,
+        content: row?.content ?? message.content ?? "",
+        createdAt: new Date(row?.created_at ?? message.createdAt),
+        attachments:
+          row?.attachments ||
+          Array.from(message.attachments.values()).map((a) => a.url),
+      });
+    }
+    recovered.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    const authorCounts = new Map<string, number>();
+    for (const message of recovered) {
+      authorCounts.set(
+        message.authorId,
+        (authorCounts.get(message.authorId) || 0) + 1
+      );
+    }
+    const namesResult = await new MemberRepository(this.db).getNames(
+      channel.guild.id,
+      Array.from(authorCounts.keys()),
+      { includeInactive: true }
+    );
+    const names = namesResult.data || new Map();
+
+    const transcript = recovered
+      .map((message) => {
+        const name =
+          names.get(message.authorId)?.display_name || message.authorId;
+        const files =
+          message.attachments.length > 0
+            ? `\n    Attachments: ${message.attachments.join(" ")}`
+            : "";
+        return `[${message.createdAt.toISOString()}] ${name} (${
+          message.authorId
+        }): ${message.content}${files}`;
+      })
+      .join("\n");
+
+    const topAuthors = Array.from(authorCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .map(([authorId, count]) => `<@${authorId}> × ${count}`)
+      .join("\n");
+
+    const embed = new EmbedBuilder()
+      .setTitle("Bulk delete")
+      .setColor(0xed4245)
+      .setDescription(
+        `${messages.size} message(s) deleted in <#${channel.id}>`
+      )
+      .addFields(
+        {
+          name: "Deleted by",
+          value: deletedBy ? `<@${deletedBy}>` : "Unknown",
+          inline: true,
+        },
+        {
+          name: "Recovered",
+          value: `${recovered.length}/${messages.size}`,
+          inline: true,
+        }
+      )
+      .setTimestamp();
+
+    if (topAuthors) {
+      embed.addFields({ name: "Authors", value: truncate(topAuthors, 1024) });
+    }
+
+    const files =
+      recovered.length > 0
+        ? [
+            new AttachmentBuilder(Buffer.from(transcript, "utf8"), {
+              name: `bulk-delete-${channel.id}-${Date.now()}.txt`,
+            }),
+          ]
+        : [];
+
+    try {
+      await modLog.send({
+        embeds: [embed],
+        files,
+        allowedMentions: { parse: [] },
+      });
+    } catch (error) {
+      console.error("🔸 Failed to post bulk delete to mod log:", error);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  ApplicationCommandType,
+  ContextMenuCommandBuilder,
+  EmbedBuilder,
+  type MessageContextMenuCommandInteraction,
+  PermissionFlagsBits,
+} from "discord.js";
+import type { MessageContextMenuCommand } from "../../../types";
+import { PostgreSQLManager } from "../../database/PostgreSQLManager";
+
+// Discord allows 25 fields per embed; one is kept for the current version
+const MAX_REVISIONS_SHOWN = 24;
+
+/**
+ * Fit message content into an embed field value
+ */
+function formatContent(content: string): string {
+  if (!content) return "*(no text content)*";
+  return content.length > 900 ? `${content.substring(0, 897)}...` : content;
+}
+
+function toUnix(date: Date): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+export const showEditsCommand: MessageContextMenuCommand = {
+  data: new ContextMenuCommandBuilder()
+    .setName("Show edits")
+    .setType(ApplicationCommandType.Message)
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageMessages)
+    .setDMPermission(false),
+  execute: async (interaction: MessageContextMenuCommandInteraction) => {
+    const target = interaction.targetMessage;
+
+    await interaction.deferReply({ ephemeral: true });
+
+    if (!interaction.guild) {
+      await interaction.editReply(
+        "🔸 This command can only be used in a server."
+      );
+      return;
+    }
+
+    const db = new PostgreSQLManager();
+
+    try {
+      const connected = await db.connect();
+
+      if (!connected) {
+        await interaction.editReply("🔸 Failed to connect to database.");
+        return;
+      }
+
+      const result = await db.getMessageHistory(target.id);
+
+      if (!result.success) {
+        await interaction.editReply("🔸 Failed to load edit history.");
+        await db.disconnect();
+        return;
+      }
+
+      if (!result.data) {
+        await interaction.editReply(
+          "🔹 This message has not been synced to the database yet."
+        );
+        await db.disconnect();
+        return;
+      }
+
+      const { message, revisions } = result.data;
+
+      if (revisions.length === 0) {
+        await interaction.editReply(
+          "🔹 No edits have been recorded for this message."
+        );
+        await db.disconnect();
+        return;
+      }
+
+      const shown = revisions.slice(-MAX_REVISIONS_SHOWN);
+      const skipped = revisions.length - shown.length;
+
+      const embed = new EmbedBuilder()
+        .setTitle("Message edit history")
+        .setURL(target.url)
+        .setColor(0x5865f2)
+        .setAuthor({
+          name: target.author.tag,
+          iconURL: target.author.displayAvatarURL(),
+        })
+        .setTimestamp()
+        .setFooter({
+          text: `${revisions.length} earlier version(s)${
+            skipped > 0 ? ` • oldest ${skipped} not shown` : ""
+          }`,
+        });
+
+      shown.forEach((revision, index) => {
+        const embedNote =
+          revision.embeds && revision.embeds.length > 0
+            ? `\n*${revision.embeds.length} embed(s)*`
+            : "";
+
+        embed.addFields({
+          name: `Version ${skipped + index + 1}`,
+          value: `${formatContent(revision.content)}${embedNote}\nWritten <t:${toUnix(
+            revision.written_at
+          )}:f> • replaced <t:${toUnix(revision.replaced_at)}:R>`,
+          inline: false,
+        });
+      });
+
+      embed.addFields({
+        name: "Current version",
+        value: `${formatContent(message.content)}\n${
+          message.edited_at
+            ? `Edited <t:${toUnix(message.edited_at)}:f>`
+            : `Posted <t:${toUnix(message.created_at)}:f>`
+        }`,
+        inline: false,
+      });
+
+      await interaction.editReply({ embeds: [embed] });
+      await db.disconnect();
+    } catch (error) {
+      console.error("Error in show edits command:", error);
+      await interaction.editReply(
+        "🔸 An error occurred while loading edit history."
+      );
+
+      try {
+        await db.disconnect();
+      } catch (disconnectError) {
+        console.error("Error disconnecting from database:", disconnectError);
+      }
+    }
+  },
+};
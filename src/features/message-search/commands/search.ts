@@ -0,0 +1,188 @@
+import {
+  type ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  EmbedBuilder,
+} from "discord.js";
+import type { Command } from "../../../types";
+import { PostgreSQLManager } from "../../database/PostgreSQLManager";
+import { ChannelPermissionResolver } from "../../guild-sync/ChannelPermissions";
+
+const RESULTS_PER_PAGE = 10;
+
+/**
+ * Parse a YYYY-MM-DD (or any Date-parsable) option, returning null when invalid
+ */
+function parseDateOption(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export const searchCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName("search")
+    .setDescription("Search message history, ranked by relevance")
+    .addStringOption((option) =>
+      option
+        .setName("query")
+        .setDescription(
+          'Words to find. Use "quotes" for phrases, -word to exclude, OR for either'
+        )
+        .setRequired(true)
+    )
+    .addUserOption((option) =>
+      option
+        .setName("author")
+        .setDescription("Only messages from this user")
+        .setRequired(false)
+    )
+    .addChannelOption((option) =>
+      option
+        .setName("channel")
+        .setDescription("Only messages in this channel")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("after")
+        .setDescription("Only messages on or after this date (YYYY-MM-DD)")
+        .setRequired(false)
+    )
+    .addStringOption((option) =>
+      option
+        .setName("before")
+        .setDescription("Only messages before this date (YYYY-MM-DD)")
+        .setRequired(false)
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("page")
+        .setDescription("Result page (default: 1)")
+        .setMinValue(1)
+        .setRequired(false)
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("ephemeral")
+        .setDescription(
+          "Make the response visible only to you (default: true)"
+        )
+        .setRequired(false)
+    )
+    .setDMPermission(false),
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    const query = interaction.options.getString("query", true);
+    const author = interaction.options.getUser("author");
+    const channel = interaction.options.getChannel("channel");
+    const after = parseDateOption(interaction.options.getString("after"));
+    const before = parseDateOption(interaction.options.getString("before"));
+    const page = interaction.options.getInteger("page") ?? 1;
+    const ephemeral = interaction.options.getBoolean("ephemeral") ?? true;
+    const guild = interaction.guild;
+
+    await interaction.deferReply({ ephemeral });
+
+    if (!guild) {
+      await interaction.editReply(
+        "🔸 This command can only be used in a server."
+      );
+      return;
+    }
+
+    if (after === null || before === null) {
+      await interaction.editReply("🔸 Dates must look like 2024-05-01.");
+      return;
+    }
+
+    const db = new PostgreSQLManager();
+
+    try {
+      const connected = await db.connect();
+
+      if (!connected) {
+        await interaction.editReply("🔸 Failed to connect to database.");
+        return;
+      }
+
+      // Never surface messages from channels the caller cannot read; left
+      // out in the query so every page is full
+      const hiddenChannelIds = await new ChannelPermissionResolver(
+        db
+      ).hiddenChannelIds(guild.id, interaction.user.id);
+
+      const result = await db.searchMessages({
+        guildId: guild.id,
+        query,
+        authorId: author?.id,
+        channelId: channel?.id,
+        excludeChannelIds: hiddenChannelIds,
+        after,
+        before,
+        limit: RESULTS_PER_PAGE,
+        offset: (page - 1) * RESULTS_PER_PAGE,
+      });
+
+      if (!result.success || !result.data) {
+        await interaction.editReply("🔸 Search failed. Please try again.");
+        await db.disconnect();
+        return;
+      }
+
+      if (result.data.length === 0) {
+        await interaction.editReply(
+          `🔹 No messages found matching \`${query}\`${
+            page > 1 ? ` on page ${page}` : ""
+          }.`
+        );
+        await db.disconnect();
+        return;
+      }
+
+      const embed = new EmbedBuilder()
+        .setTitle(`Search: ${query.substring(0, 200)}`)
+        .setColor(0x5865f2)
+        .setTimestamp()
+        .setFooter({
+          text: `Page ${page} • ${result.data.length} result(s)`,
+        });
+
+      for (const message of result.data) {
+        const name =
+          message.display_name || message.username || message.author_id;
+        const timestamp = Math.floor(
+          new Date(message.created_at).getTime() / 1000
+        );
+        const link = `https://discord.com/channels/${guild.id}/${message.channel_id}/${message.id}`;
+        const snippet =
+          message.snippet.length > 900
+            ? `${message.snippet.substring(0, 897)}...`
+            : message.snippet;
+
+        embed.addFields({
+          name: `${name} in #${
+            guild.channels.cache.get(message.channel_id)?.name ||
+            message.channel_id
+          }`,
+          value: `${
+            snippet || "(no content)"
+          }\n<t:${timestamp}:R> • [Jump](${link})`,
+          inline: false,
+        });
+      }
+
+      await interaction.editReply({ embeds: [embed] });
+      await db.disconnect();
+    } catch (error) {
+      console.error("Error in search command:", error);
+      await interaction.editReply(
+        "🔸 An error occurred while searching messages."
+      );
+
+      try {
+        await db.disconnect();
+      } catch (disconnectError) {
+        console.error("Error disconnecting from database:", disconnectError);
+      }
+    }
+  },
+};
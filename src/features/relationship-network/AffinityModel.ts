@@ -0,0 +1,102 @@
+import type {
+  AffinityModelName,
+  EdgeData,
+  GuildSettingsData,
+} from "../database/PostgreSQLManager";
+
+export type InteractionKind =
+  | "message"
+  | "mention"
+  | "reply"
+  | "reaction"
+  | "voice"; // Per 5 minutes in the same voice channel
+
+export type AffinityWeights = Record<InteractionKind, number>;
+
+// Mirrors guild_affinity_weights() and guild_affinity_half_life_days() in
+// migration 015, which score edges as they're written
+export const DEFAULT_AFFINITY_WEIGHTS: AffinityWeights = {
+  message: 1,
+  mention: 2,
+  reply: 3,
+  reaction: 0.5,
+  voice: 1,
+};
+export const DEFAULT_HALF_LIFE_DAYS = 30;
+export const DEFAULT_AFFINITY_MODEL: AffinityModelName = "decayed";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Ranks a user's relationships. Scores are only compared within one user's
+ * edges, where each edge's share of the total becomes affinity_percentage.
+ */
+export interface AffinityModel {
+  readonly name: AffinityModelName;
+  score(edge: EdgeData, at: Date): number;
+}
+
+/**
+ * Weighted interactions with exponential decay: an interaction counts half
+ * as much after one half-life. The trigger keeps the weighted sum up to date
+ * on the edge, so this only decays it to the present.
+ */
+export class DecayedAffinityModel implements AffinityModel {
+  readonly name = "decayed";
+  private halfLifeMs: number;
+
+  constructor(halfLifeDays: number) {
+    this.halfLifeMs = halfLifeDays * DAY_MS;
+  }
+
+  score(edge: EdgeData, at: Date): number {
+    const elapsed = Math.max(
+      0,
+      at.getTime() - new Date(edge.score_updated_at).getTime()
+    );
+    return edge.affinity_score * 0.5 ** (elapsed / this.halfLifeMs);
+  }
+}
+
+/**
+ * Lifetime interaction totals, without weights or decay
+ */
+export class LifetimeAffinityModel implements AffinityModel {
+  readonly name = "lifetime";
+
+  score(edge: EdgeData): number {
+    return edge.total;
+  }
+}
+
+const MODELS: Record<
+  AffinityModelName,
+  (settings: GuildSettingsData) => AffinityModel
+> = {
+  decayed: (settings) =>
+    new DecayedAffinityModel(
+      settings.affinity_half_life_days || DEFAULT_HALF_LIFE_DAYS
+    ),
+  lifetime: () => new LifetimeAffinityModel(),
+};
+
+export const AFFINITY_MODEL_NAMES = Object.keys(MODELS) as AffinityModelName[];
+
+/**
+ * The model a guild ranks relationships with
+ */
+export function affinityModelFor(settings: GuildSettingsData): AffinityModel {
+  const create =
+    MODELS[settings.affinity_model || DEFAULT_AFFINITY_MODEL] ||
+    MODELS[DEFAULT_AFFINITY_MODEL];
+  return create(settings);
+}
+
+/**
+ * A guild's interaction weights, defaults filled in
+ */
+export function affinityWeightsFor(
+  settings: GuildSettingsData
+): AffinityWeights {
+  return { ...DEFAULT_AFFINITY_WEIGHTS, ...settings.affinity_weights };
+}
@@ -50,13 +50,15 @@ export class ConversationManager {
   }
 
   /**
-   * Detect conversations between two users using interaction-driven clustering
+   * Detect conversations between two users using interaction-driven clustering,
+   * ignoring messages in excludeChannelIds
    */
   async detectConversations(
     user1Id: string,
     user2Id: string,
     guildId: string,
-    timeWindowMinutes: number = 5
+    timeWindowMinutes: number = 5,
+    excludeChannelIds: string[] = []
   ): Promise<DatabaseResult<ConversationEntry[]>> {
     try {
       // Get all messages between the two users
@@ -73,7 +75,9 @@ export class ConversationManager {
         };
       }
 
-      const messages = messagesResult.data;
+      const messages = messagesResult.data.filter(
+        (message) => !excludeChannelIds.includes(message.channel_id)
+      );
       if (messages.length === 0) {
         return { success: true, data: [] };
       }
@@ -0,0 +1,442 @@
+/**
+ * Graph algorithms over the relationship network, treated as an undirected
+ * weighted graph: one node per member, and one link per pair weighted by the
+ * affinity of both directed edges together. Pure functions, so they can run
+ * anywhere the edges can be loaded. The expensive ones are async and hand
+ * the event loop back between Louvain sweeps and betweenness sources, so
+ * analyzing a large guild doesn't stall the bot's gateway heartbeat.
+ */
+
+export interface NetworkGraph {
+  nodes: string[]; // User IDs
+  adjacency: Map<number, number>[]; // Node index -> neighbour index -> weight
+}
+
+export interface NodeMetrics {
+  user_id: string;
+  community_id: number; // Largest community is 0
+  pagerank: number; // Sums to 1 across the graph
+  betweenness: number; // 0-1, share of shortest paths through the node
+  participation: number; // 0-1, how evenly links spread across communities
+  degree: number;
+  strength: number; // Sum of link weights
+  is_bridge: boolean;
+}
+
+export interface NetworkAnalysisResult {
+  metrics: NodeMetrics[];
+  modularity: number;
+  community_count: number;
+  edge_count: number;
+}
+
+const PAGERANK_DAMPING = 0.85;
+const PAGERANK_MAX_ITERATIONS = 100;
+const PAGERANK_TOLERANCE = 1e-9;
+// Above this many nodes, betweenness is estimated from a sample of sources
+const BETWEENNESS_MAX_SOURCES = 400;
+// A bridge spreads its links across communities, at least this evenly...
+const BRIDGE_MIN_PARTICIPATION = 0.3;
+// ...with this share of its link weight reaching at least two of them
+const BRIDGE_MIN_COMMUNITY_SHARE = 0.15;
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Build the undirected graph from directed edges. Weights of a→b and b→a
+ * are added together; self-links and non-positive weights are dropped.
+ */
+export function buildNetworkGraph(
+  edges: { user_a: string; user_b: string; weight: number }[]
+): NetworkGraph {
+  const index = new Map<string, number>();
+  const nodes: string[] = [];
+  const adjacency: Map<number, number>[] = [];
+  const nodeFor = (userId: string) => {
+    let i = index.get(userId);
+    if (i === undefined) {
+      i = nodes.length;
+      index.set(userId, i);
+      nodes.push(userId);
+      adjacency.push(new Map());
+    }
+    return i;
+  };
+
+  for (const edge of edges) {
+    if (edge.user_a === edge.user_b || !(edge.weight > 0)) continue;
+    const a = nodeFor(edge.user_a);
+    const b = nodeFor(edge.user_b);
+    adjacency[a]?.set(b, (adjacency[a]?.get(b) || 0) + edge.weight);
+    adjacency[b]?.set(a, (adjacency[b]?.get(a) || 0) + edge.weight);
+  }
+
+  return { nodes, adjacency };
+}
+
+function strengths(adjacency: Map<number, number>[]): number[] {
+  return adjacency.map((links) => {
+    let sum = 0;
+    for (const weight of links.values()) sum += weight;
+    return sum;
+  });
+}
+
+/**
+ * Louvain community detection: move nodes to the neighbouring community
+ * that most improves modularity until none do, then merge each community
+ * into one node and repeat on the smaller graph until nothing changes.
+ * Communities are numbered by size, largest first.
+ */
+export async function detectCommunities(graph: NetworkGraph): Promise<{
+  membership: number[];
+  modularity: number;
+}> {
+  const nodeCount = graph.nodes.length;
+  let membership = graph.nodes.map((_, i) => i);
+  let adjacency = graph.adjacency;
+  const totalWeight = strengths(adjacency).reduce((sum, k) => sum + k, 0);
+
+  if (totalWeight === 0) {
+    return { membership, modularity: 0 };
+  }
+
+  while (true) {
+    const levelCount = adjacency.length;
+    const degree = strengths(adjacency);
+    const community = adjacency.map((_, i) => i);
+    const communityTotal = [...degree];
+    let moved = false;
+    let improved = true;
+
+    while (improved) {
+      await yieldToEventLoop();
+      improved = false;
+      for (let i = 0; i < levelCount; i++) {
+        const current = community[i] ?? i;
+        const k = degree[i] ?? 0;
+
+        // Weight from i into each neighbouring community
+        const linksTo = new Map<number, number>();
+        for (const [j, weight] of adjacency[i] || []) {
+          if (j === i) continue;
+          const c = community[j] ?? j;
+          linksTo.set(c, (linksTo.get(c) || 0) + weight);
+        }
+
+        communityTotal[current] = (communityTotal[current] ?? 0) - k;
+        let best = current;
+        let bestGain =
+          (linksTo.get(current) || 0) -
+          ((communityTotal[current] ?? 0) * k) / totalWeight;
+        for (const [c, weight] of linksTo) {
+          const gain = weight - ((communityTotal[c] ?? 0) * k) / totalWeight;
+          if (gain > bestGain + 1e-12) {
+            best = c;
+            bestGain = gain;
+          }
+        }
+        communityTotal[best] = (communityTotal[best] ?? 0) + k;
+
+        if (best !== current) {
+          community[i] = best;
+          improved = true;
+          moved = true;
+        }
+      }
+    }
+
+    if (!moved) break;
+
+    // Renumber this level's communities and merge each into one node
+    const renumber = new Map<number, number>();
+    for (const c of community) {
+      if (!renumber.has(c)) renumber.set(c, renumber.size);
+    }
+    const merged: Map<number, number>[] = Array.from(
+      { length: renumber.size },
+      () => new Map()
+    );
+    for (let i = 0; i < levelCount; i++) {
+      const from = renumber.get(community[i] ?? i) ?? 0;
+      for (const [j, weight] of adjacency[i] || []) {
+        const to = renumber.get(community[j] ?? j) ?? 0;
+        merged[from]?.set(to, (merged[from]?.get(to) || 0) + weight);
+      }
+    }
+    membership = membership.map(
+      (node) => renumber.get(community[node] ?? node) ?? 0
+    );
+    adjacency = merged;
+
+    if (merged.length === levelCount) break;
+  }
+
+  // Largest community first
+  const sizes = new Map<number, number>();
+  for (const c of membership) sizes.set(c, (sizes.get(c) || 0) + 1);
+  const order = Array.from(sizes.keys()).sort(
+    (a, b) => (sizes.get(b) || 0) - (sizes.get(a) || 0) || a - b
+  );
+  const rank = new Map(order.map((c, i) => [c, i]));
+  membership = membership.map((c) => rank.get(c) ?? 0);
+
+  return {
+    membership,
+    modularity: modularity(graph, membership, totalWeight),
+  };
+
+  function modularity(
+    g: NetworkGraph,
+    groups: number[],
+    m2: number
+  ): number {
+    const inside = new Map<number, number>();
+    const total = new Map<number, number>();
+    const degree = strengths(g.adjacency);
+    for (let i = 0; i < nodeCount; i++) {
+      const c = groups[i] ?? 0;
+      total.set(c, (total.get(c) || 0) + (degree[i] ?? 0));
+      for (const [j, weight] of g.adjacency[i] || []) {
+        if ((groups[j] ?? -1) === c) {
+          inside.set(c, (inside.get(c) || 0) + weight);
+        }
+      }
+    }
+    let q = 0;
+    for (const [c, tot] of total) {
+      q += (inside.get(c) || 0) / m2 - (tot / m2) ** 2;
+    }
+    return q;
+  }
+}
+
+/**
+ * Weighted PageRank: a member is central when central members spend much of
+ * their affinity on them
+ */
+export function pageRank(graph: NetworkGraph): number[] {
+  const n = graph.nodes.length;
+  if (n === 0) return [];
+
+  const degree = strengths(graph.adjacency);
+  let rank = new Array<number>(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < PAGERANK_MAX_ITERATIONS; iteration++) {
+    // Rank of nodes without links is spread evenly
+    let dangling = 0;
+    for (let i = 0; i < n; i++) {
+      if (!degree[i]) dangling += rank[i] ?? 0;
+    }
+
+    const next = new Array<number>(n).fill(
+      (1 - PAGERANK_DAMPING) / n + (PAGERANK_DAMPING * dangling) / n
+    );
+    for (let i = 0; i < n; i++) {
+      const k = degree[i] ?? 0;
+      if (!k) continue;
+      const share = (PAGERANK_DAMPING * (rank[i] ?? 0)) / k;
+      for (const [j, weight] of graph.adjacency[i] || []) {
+        next[j] = (next[j] ?? 0) + share * weight;
+      }
+    }
+
+    let change = 0;
+    for (let i = 0; i < n; i++) change += Math.abs((next[i] ?? 0) - (rank[i] ?? 0));
+    rank = next;
+    if (change < PAGERANK_TOLERANCE) break;
+  }
+
+  return rank;
+}
+
+/**
+ * Minimal binary heap of [distance, node], closest first
+ */
+class DistanceHeap {
+  private items: [number, number][] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: [number, number]): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      const [p, c] = [items[parent], items[i]];
+      if (!p || !c || p[0] <= c[0]) break;
+      items[parent] = c;
+      items[i] = p;
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if ((items[left]?.[0] ?? Infinity) < (items[smallest]?.[0] ?? Infinity)) {
+          smallest = left;
+        }
+        if ((items[right]?.[0] ?? Infinity) < (items[smallest]?.[0] ?? Infinity)) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        const swap = items[i] as [number, number];
+        items[i] = items[smallest] as [number, number];
+        items[smallest] = swap;
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Brandes betweenness on shortest paths where a stronger link is a shorter
+ * one (distance 1/weight), normalized to 0-1. Large graphs use an evenly
+ * spaced sample of sources, scaled up.
+ */
+export async function betweenness(graph: NetworkGraph): Promise<number[]> {
+  const n = graph.nodes.length;
+  const centrality = new Array<number>(n).fill(0);
+  if (n < 3) return centrality;
+
+  const step = Math.max(1, n / BETWEENNESS_MAX_SOURCES);
+  const sources: number[] = [];
+  for (let s = 0; s < n; s += step) sources.push(Math.floor(s));
+
+  for (const source of sources) {
+    await yieldToEventLoop();
+    const stack: number[] = [];
+    const predecessors: number[][] = Array.from({ length: n }, () => []);
+    const paths = new Array<number>(n).fill(0);
+    const distance = new Array<number>(n).fill(Infinity);
+    paths[source] = 1;
+    distance[source] = 0;
+
+    const heap = new DistanceHeap();
+    heap.push([0, source]);
+    while (heap.size > 0) {
+      const [d, v] = heap.pop() as [number, number];
+      if (d > (distance[v] ?? Infinity)) continue;
+      stack.push(v);
+      for (const [w, weight] of graph.adjacency[v] || []) {
+        const through = d + 1 / weight;
+        const known = distance[w] ?? Infinity;
+        if (through < known - 1e-12) {
+          distance[w] = through;
+          paths[w] = paths[v] ?? 0;
+          predecessors[w] = [v];
+          heap.push([through, w]);
+        } else if (Math.abs(through - known) <= 1e-12) {
+          paths[w] = (paths[w] ?? 0) + (paths[v] ?? 0);
+          predecessors[w]?.push(v);
+        }
+      }
+    }
+
+    const dependency = new Array<number>(n).fill(0);
+    while (stack.length > 0) {
+      const w = stack.pop() as number;
+      for (const v of predecessors[w] || []) {
+        dependency[v] =
+          (dependency[v] ?? 0) +
+          ((paths[v] ?? 0) / (paths[w] || 1)) * (1 + (dependency[w] ?? 0));
+      }
+      if (w !== source) {
+        centrality[w] = (centrality[w] ?? 0) + (dependency[w] ?? 0);
+      }
+    }
+  }
+
+  // Each pair is counted from both ends; scale a sample up to every source
+  const scale = n / sources.length / ((n - 1) * (n - 2));
+  return centrality.map((value) => value * scale);
+}
+
+/**
+ * Participation coefficient: 0 when all of a node's link weight stays in
+ * one community, approaching 1 as it spreads evenly across many
+ */
+export function participation(
+  graph: NetworkGraph,
+  membership: number[]
+): number[] {
+  return graph.adjacency.map((links) => {
+    const byCommunity = new Map<number, number>();
+    let total = 0;
+    for (const [j, weight] of links) {
+      const c = membership[j] ?? 0;
+      byCommunity.set(c, (byCommunity.get(c) || 0) + weight);
+      total += weight;
+    }
+    if (total === 0) return 0;
+    let concentration = 0;
+    for (const weight of byCommunity.values()) {
+      concentration += (weight / total) ** 2;
+    }
+    return 1 - concentration;
+  });
+}
+
+/**
+ * Communities, centrality and bridges for a whole graph. A bridge is a
+ * member whose links reach at least two communities substantially and
+ * spread across them, so they connect groups that otherwise barely talk.
+ */
+export async function analyzeNetwork(
+  graph: NetworkGraph
+): Promise<NetworkAnalysisResult> {
+  const { membership, modularity } = await detectCommunities(graph);
+  const ranks = pageRank(graph);
+  const between = await betweenness(graph);
+  const spread = participation(graph, membership);
+  const degree = strengths(graph.adjacency);
+
+  let edgeCount = 0;
+  const metrics = graph.nodes.map((userId, i) => {
+    const links = graph.adjacency[i] || new Map<number, number>();
+    edgeCount += links.size;
+
+    const byCommunity = new Map<number, number>();
+    for (const [j, weight] of links) {
+      const c = membership[j] ?? 0;
+      byCommunity.set(c, (byCommunity.get(c) || 0) + weight);
+    }
+    const strength = degree[i] ?? 0;
+    const reached = Array.from(byCommunity.values()).filter(
+      (weight) => strength > 0 && weight / strength >= BRIDGE_MIN_COMMUNITY_SHARE
+    ).length;
+
+    return {
+      user_id: userId,
+      community_id: membership[i] ?? 0,
+      pagerank: ranks[i] ?? 0,
+      betweenness: between[i] ?? 0,
+      participation: spread[i] ?? 0,
+      degree: links.size,
+      strength,
+      is_bridge: reached >= 2 && (spread[i] ?? 0) >= BRIDGE_MIN_PARTICIPATION,
+    };
+  });
+
+  return {
+    metrics,
+    modularity,
+    community_count: new Set(membership).size,
+    edge_count: edgeCount / 2,
+  };
+}
@@ -0,0 +1,77 @@
+import type {
+  DatabaseResult,
+  NetworkAnalysisData,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+import { EdgeRepository } from "../database/repositories";
+import { GuildSettingsManager } from "../guild-settings/GuildSettingsManager";
+import { affinityModelFor } from "./AffinityModel";
+import { analyzeNetwork, buildNetworkGraph } from "./GraphAnalytics";
+
+// Guilds being analyzed, so concurrent refreshes share one run
+const inFlight = new Map<string, Promise<DatabaseResult<NetworkAnalysisData>>>();
+
+/**
+ * Computes a guild's communities, centrality and bridges from its
+ * relationship edges and caches them in network_analyses and
+ * network_member_metrics. Edges are weighted with the guild's affinity
+ * model, so a decayed model groups members by who they talk to now rather
+ * than who they talked to a year ago. Bots and members who left are left
+ * out of the graph.
+ */
+export class NetworkAnalytics {
+  private db: PostgreSQLManager;
+  private edges: EdgeRepository;
+  private settings: GuildSettingsManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+    this.edges = new EdgeRepository(db);
+    this.settings = new GuildSettingsManager(db);
+  }
+
+  /**
+   * Recompute and cache a guild's analysis. A refresh already running for
+   * the guild is joined rather than started again.
+   */
+  refresh(guildId: string): Promise<DatabaseResult<NetworkAnalysisData>> {
+    const running = inFlight.get(guildId);
+    if (running) return running;
+
+    const run = this.analyze(guildId).finally(() => inFlight.delete(guildId));
+    inFlight.set(guildId, run);
+    return run;
+  }
+
+  private async analyze(
+    guildId: string
+  ): Promise<DatabaseResult<NetworkAnalysisData>> {
+    const edgesResult = await this.edges.findBetweenMembers(guildId);
+    if (!edgesResult.success || !edgesResult.data) {
+      return { success: false, error: edgesResult.error };
+    }
+
+    const model = affinityModelFor(await this.settings.getOrDefault(guildId));
+    const now = new Date();
+    const graph = buildNetworkGraph(
+      edgesResult.data.map((edge) => ({
+        user_a: edge.user_a,
+        user_b: edge.user_b,
+        weight: model.score(edge, now),
+      }))
+    );
+    const analysis = await analyzeNetwork(graph);
+
+    return this.db.replaceNetworkAnalysis(
+      {
+        guild_id: guildId,
+        node_count: graph.nodes.length,
+        edge_count: analysis.edge_count,
+        community_count: analysis.community_count,
+        modularity: analysis.modularity,
+        affinity_model: model.name,
+      },
+      analysis.metrics
+    );
+  }
+}
@@ -9,14 +9,19 @@ import type {
   UserInteractionSummary,
 } from "./types";
 import { ConversationManager } from "./ConversationManager.js";
+import { toEdgeData } from "../database/repositories";
+import { GuildSettingsManager } from "../guild-settings/GuildSettingsManager";
+import { affinityModelFor } from "./AffinityModel";
 
 export class RelationshipNetworkManager {
   private db: PostgreSQLManager;
   private conversationManager: ConversationManager;
+  private settings: GuildSettingsManager;
 
   constructor(db: PostgreSQLManager) {
     this.db = db;
     this.conversationManager = new ConversationManager(db);
+    this.settings = new GuildSettingsManager(db);
   }
 
   /**
@@ -623,7 +628,8 @@ export class RelationshipNetworkManager {
         guildId,
         authorId,
         otherId,
-        delta
+        delta,
+        timestamp
       );
 
       if (!result.success) {
@@ -640,7 +646,8 @@ export class RelationshipNetworkManager {
   }
 
   /**
-   * Roll up edges to member's relationship_network JSONB (top-N format)
+   * Roll up edges to member's relationship_network JSONB (top-N format),
+   * ranked by the guild's affinity model
    */
   async rollupEdgesToMemberNetwork(
     userId: string,
@@ -667,36 +674,51 @@ export class RelationshipNetworkManager {
         throw new Error(`Failed to get edges: ${edgesResult.error}`);
       }
 
-      const edges = edgesResult.data;
-      const totalInteractions = edges.reduce((sum, e) => sum + (e.total || 0), 0);
+      const model = affinityModelFor(await this.settings.getOrDefault(guildId));
+      const now = new Date();
 
-      const relationships: RelationshipEntry[] = [];
-
-      for (const edge of edges) {
+      // Edges are directed; both directions count towards the same person
+      const byUser = new Map<string, RelationshipEntry>();
+      for (const edge of edgesResult.data.map(toEdgeData)) {
         const otherUserId = edge.user_a === userId ? edge.user_b : edge.user_a;
-        
         if (otherUserId === userId) continue; // Skip self
 
-        const relevancePercentage =
-          totalInteractions > 0
-            ? ((edge.total || 0) / totalInteractions) * 100
-            : 0;
-
         const interactionCount =
           (edge.user_a === userId ? edge.msg_a_to_b : edge.msg_b_to_a) +
-          (edge.mentions || 0) +
-          (edge.replies || 0);
+          edge.mentions +
+          edge.replies;
+        const lastInteraction = new Date(edge.last_interaction);
 
-        const relationship: RelationshipEntry = {
+        const entry = byUser.get(otherUserId) || {
           user_id: otherUserId,
-          affinity_percentage: Math.round(relevancePercentage * 100) / 100,
-          interaction_count: interactionCount,
-          last_interaction: new Date(edge.last_interaction),
-          raw_points: edge.total || 0,
-          total_messages: interactionCount,
+          affinity_percentage: 0,
+          interaction_count: 0,
+          last_interaction: lastInteraction,
+          raw_points: 0,
+          total_messages: 0,
+          affinity_score: 0,
         };
+        entry.interaction_count += interactionCount;
+        entry.total_messages = (entry.total_messages || 0) + interactionCount;
+        entry.raw_points = (entry.raw_points || 0) + edge.total;
+        entry.affinity_score =
+          (entry.affinity_score || 0) + model.score(edge, now);
+        if (lastInteraction > entry.last_interaction) {
+          entry.last_interaction = lastInteraction;
+        }
+        byUser.set(otherUserId, entry);
+      }
 
-        relationships.push(relationship);
+      const relationships = Array.from(byUser.values());
+      const totalScore = relationships.reduce(
+        (sum, r) => sum + (r.affinity_score || 0),
+        0
+      );
+      for (const relationship of relationships) {
+        const score = relationship.affinity_score || 0;
+        relationship.affinity_percentage =
+          totalScore > 0 ? Math.round((score / totalScore) * 10000) / 100 : 0;
+        relationship.affinity_score = Math.round(score * 100) / 100;
       }
 
       relationships.sort(
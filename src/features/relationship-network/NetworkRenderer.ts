@@ -0,0 +1,445 @@
+import {
+  createCanvas,
+  type Image,
+  loadImage,
+  type SKRSContext2D,
+} from "@napi-rs/canvas";
+import type {
+  DatabaseResult,
+  EdgeData,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+import {
+  EdgeRepository,
+  MemberRepository,
+  type MemberProfile,
+  NetworkAnalyticsRepository,
+} from "../database/repositories";
+import { GuildSettingsManager } from "../guild-settings/GuildSettingsManager";
+import { type AffinityModel, affinityModelFor } from "./AffinityModel";
+import { NetworkAnalytics } from "./NetworkAnalytics";
+
+interface ImageNode {
+  id: string;
+  profile?: MemberProfile;
+  focus: boolean;
+  x: number;
+  y: number;
+}
+
+interface ImageLink {
+  source: number; // Node index
+  target: number;
+  weight: number;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 800;
+const MARGIN = 70;
+const NODE_RADIUS = 22;
+const FOCUS_RADIUS = 34;
+// Neighbours drawn around one member; shared between two
+const EGO_NEIGHBOURS = 16;
+// Most central members drawn for the whole guild
+const GUILD_MEMBERS = 40;
+const LAYOUT_ITERATIONS = 300;
+const AVATAR_TIMEOUT_MS = 5000;
+
+const BACKGROUND = "#2b2d31";
+const LABEL_COLOR = "#dbdee1";
+const DEFAULT_NODE_COLOR = "#99aab5"; // Members without a colored role
+
+/**
+ * Draws relationship networks as PNGs: a force-directed layout where
+ * strongly linked members pull together, link thickness by affinity (the
+ * guild's affinity model), nodes ringed in each member's top role color and
+ * filled with their avatar or initials. Bots and members who left aren't
+ * drawn.
+ */
+export class NetworkRenderer {
+  private db: PostgreSQLManager;
+  private edges: EdgeRepository;
+  private members: MemberRepository;
+  private settings: GuildSettingsManager;
+
+  constructor(db: PostgreSQLManager) {
+    this.db = db;
+    this.edges = new EdgeRepository(db);
+    this.members = new MemberRepository(db);
+    this.settings = new GuildSettingsManager(db);
+  }
+
+  /**
+   * The members one or two users are closest to, and the links among all
+   * of them, with the users themselves in the middle
+   */
+  async renderEgoNetwork(
+    guildId: string,
+    userIds: string[]
+  ): Promise<DatabaseResult<Buffer>> {
+    const model = affinityModelFor(await this.settings.getOrDefault(guildId));
+    const now = new Date();
+
+    // Each user's affinity with everyone they have an edge with
+    const scoresByUser = new Map<string, Map<string, number>>();
+    for (const userId of userIds) {
+      const result = await this.edges.findForUser(guildId, userId, {
+        limit: 200,
+      });
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+
+      const scores = new Map<string, number>();
+      for (const edge of result.data) {
+        const other = edge.user_a === userId ? edge.user_b : edge.user_a;
+        scores.set(other, (scores.get(other) || 0) + model.score(edge, now));
+      }
+      scoresByUser.set(userId, scores);
+    }
+
+    const candidates = new Set<string>();
+    for (const scores of scoresByUser.values()) {
+      for (const other of scores.keys()) candidates.add(other);
+    }
+    const profiles = await this.members.getProfiles(
+      guildId,
+      Array.from(candidates)
+    );
+    if (!profiles.success || !profiles.data) {
+      return { success: false, error: profiles.error };
+    }
+
+    const perUser = Math.ceil(EGO_NEIGHBOURS / userIds.length);
+    const nodeIds = new Set(userIds);
+    for (const scores of scoresByUser.values()) {
+      const closest = Array.from(scores.entries())
+        .filter(
+          ([other, score]) =>
+            score > 0 && isDrawn(profiles.data?.get(other))
+        )
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, perUser);
+      for (const [other] of closest) nodeIds.add(other);
+    }
+
+    return this.render(guildId, Array.from(nodeIds), userIds, model);
+  }
+
+  /**
+   * The guild's most central members and the links among them. Analyzes
+   * the network first if the scheduled job hasn't yet.
+   */
+  async renderGuildNetwork(guildId: string): Promise<DatabaseResult<Buffer>> {
+    const analytics = new NetworkAnalyticsRepository(this.db);
+    const analysis = await analytics.getAnalysis(guildId);
+    if (!analysis.success) {
+      return { success: false, error: analysis.error };
+    }
+    if (!analysis.data) {
+      const refreshed = await new NetworkAnalytics(this.db).refresh(guildId);
+      if (!refreshed.success) {
+        return { success: false, error: refreshed.error };
+      }
+    }
+
+    const central = await analytics.findMembers(guildId, {
+      limit: GUILD_MEMBERS,
+    });
+    if (!central.success || !central.data) {
+      return { success: false, error: central.error };
+    }
+
+    const model = affinityModelFor(await this.settings.getOrDefault(guildId));
+    return this.render(
+      guildId,
+      central.data.map((member) => member.user_id),
+      [],
+      model
+    );
+  }
+
+  private async render(
+    guildId: string,
+    userIds: string[],
+    focusIds: string[],
+    model: AffinityModel
+  ): Promise<DatabaseResult<Buffer>> {
+    const [edgesResult, profilesResult] = await Promise.all([
+      this.edges.findAmong(guildId, userIds),
+      this.members.getProfiles(guildId, userIds),
+    ]);
+    if (!edgesResult.success || !edgesResult.data) {
+      return { success: false, error: edgesResult.error };
+    }
+    if (!profilesResult.success || !profilesResult.data) {
+      return { success: false, error: profilesResult.error };
+    }
+    const profiles = profilesResult.data;
+
+    const nodes: ImageNode[] = userIds
+      .filter((id) => focusIds.includes(id) || isDrawn(profiles.get(id)))
+      .map((id) => ({
+        id,
+        profile: profiles.get(id),
+        focus: focusIds.includes(id),
+        x: 0,
+        y: 0,
+      }));
+    const links = toLinks(nodes, edgesResult.data, model);
+
+    try {
+      layout(nodes, links);
+      const avatars = await loadAvatars(nodes);
+
+      const canvas = createCanvas(WIDTH, HEIGHT);
+      const ctx = canvas.getContext("2d");
+      ctx.fillStyle = BACKGROUND;
+      ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+      drawLinks(ctx, nodes, links);
+      for (const node of nodes) {
+        drawNode(ctx, node, avatars.get(node.id));
+      }
+
+      return { success: true, data: canvas.toBuffer("image/png") };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
+
+function isDrawn(profile: MemberProfile | undefined): boolean {
+  return !!profile && profile.active && !profile.bot;
+}
+
+/**
+ * One undirected link per pair, weighted by both directions' affinity
+ */
+function toLinks(
+  nodes: ImageNode[],
+  edges: EdgeData[],
+  model: AffinityModel
+): ImageLink[] {
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const now = new Date();
+  const links = new Map<string, ImageLink>();
+
+  for (const edge of edges) {
+    const a = index.get(edge.user_a);
+    const b = index.get(edge.user_b);
+    if (a === undefined || b === undefined || a === b) continue;
+
+    const [source, target] = a < b ? [a, b] : [b, a];
+    const key = `${source}:${target}`;
+    const link = links.get(key) || { source, target, weight: 0 };
+    link.weight += model.score(edge, now);
+    links.set(key, link);
+  }
+
+  return Array.from(links.values()).filter((link) => link.weight > 0);
+}
+
+/**
+ * Fruchterman-Reingold: every pair of nodes pushes apart, links pull
+ * together in proportion to their weight, and moves shrink as the layout
+ * cools. Starts from a circle so the same network always draws the same
+ * way. A single focus stays in the middle. The result is scaled to fit the
+ * image.
+ */
+function layout(nodes: ImageNode[], links: ImageLink[]): void {
+  const n = nodes.length;
+  if (n === 0) return;
+
+  const area = (WIDTH - 2 * MARGIN) * (HEIGHT - 2 * MARGIN);
+  const k = Math.sqrt(area / n) * 0.8;
+  const maxWeight = Math.max(1e-9, ...links.map((link) => link.weight));
+  const pinned = nodes.filter((node) => node.focus).length === 1;
+
+  nodes.forEach((node, i) => {
+    if (node.focus) {
+      node.x = pinned ? 0 : (i === 0 ? -k : k) / 2;
+      node.y = 0;
+      return;
+    }
+    const angle = (2 * Math.PI * i) / n;
+    node.x = Math.cos(angle) * k * 2;
+    node.y = Math.sin(angle) * k * 2;
+  });
+
+  let temperature = WIDTH / 10;
+  const cooling = temperature / (LAYOUT_ITERATIONS + 1);
+
+  for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration++) {
+    const dx = new Array<number>(n).fill(0);
+    const dy = new Array<number>(n).fill(0);
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const a = nodes[i] as ImageNode;
+        const b = nodes[j] as ImageNode;
+        const x = a.x - b.x || 0.01;
+        const y = a.y - b.y || 0.01;
+        const distance = Math.max(Math.hypot(x, y), 0.01);
+        const force = (k * k) / distance;
+        dx[i] = (dx[i] ?? 0) + (x / distance) * force;
+        dy[i] = (dy[i] ?? 0) + (y / distance) * force;
+        dx[j] = (dx[j] ?? 0) - (x / distance) * force;
+        dy[j] = (dy[j] ?? 0) - (y / distance) * force;
+      }
+    }
+
+    for (const link of links) {
+      const a = nodes[link.source] as ImageNode;
+      const b = nodes[link.target] as ImageNode;
+      const x = a.x - b.x;
+      const y = a.y - b.y;
+      const distance = Math.max(Math.hypot(x, y), 0.01);
+      // Weak links still hold a little, so everyone stays in view
+      const strength = 0.2 + 0.8 * Math.sqrt(link.weight / maxWeight);
+      const force = ((distance * distance) / k) * strength;
+      dx[link.source] = (dx[link.source] ?? 0) - (x / distance) * force;
+      dy[link.source] = (dy[link.source] ?? 0) - (y / distance) * force;
+      dx[link.target] = (dx[link.target] ?? 0) + (x / distance) * force;
+      dy[link.target] = (dy[link.target] ?? 0) + (y / distance) * force;
+    }
+
+    nodes.forEach((node, i) => {
+      if (pinned && node.focus) return;
+      // Gravity keeps unlinked members from drifting off
+      const x = (dx[i] ?? 0) - node.x * 0.05;
+      const y = (dy[i] ?? 0) - node.y * 0.05;
+      const length = Math.max(Math.hypot(x, y), 0.01);
+      node.x += (x / length) * Math.min(length, temperature);
+      node.y += (y / length) * Math.min(length, temperature);
+    });
+
+    temperature -= cooling;
+  }
+
+  const xs = nodes.map((node) => node.x);
+  const ys = nodes.map((node) => node.y);
+  const [minX, maxX] = [Math.min(...xs), Math.max(...xs)];
+  const [minY, maxY] = [Math.min(...ys), Math.max(...ys)];
+  const scale = Math.min(
+    (WIDTH - 2 * MARGIN) / Math.max(maxX - minX, 1),
+    (HEIGHT - 2 * MARGIN) / Math.max(maxY - minY, 1)
+  );
+  for (const node of nodes) {
+    node.x = WIDTH / 2 + (node.x - (minX + maxX) / 2) * scale;
+    node.y = HEIGHT / 2 + (node.y - (minY + maxY) / 2) * scale;
+  }
+}
+
+/**
+ * Fetch each member's avatar from the Discord CDN. Members without one, or
+ * whose avatar can't be loaded in time, are drawn with initials.
+ */
+async function loadAvatars(nodes: ImageNode[]): Promise<Map<string, Image>> {
+  const avatars = new Map<string, Image>();
+  await Promise.all(
+    nodes.map(async (node) => {
+      if (!node.profile?.avatar) return;
+      try {
+        const response = await fetch(
+          `https://cdn.discordapp.com/avatars/${node.id}/${node.profile.avatar}.png?size=128`,
+          { signal: AbortSignal.timeout(AVATAR_TIMEOUT_MS) }
+        );
+        if (!response.ok) return;
+        avatars.set(
+          node.id,
+          await loadImage(Buffer.from(await response.arrayBuffer()))
+        );
+      } catch {
+        // Fall back to initials
+      }
+    })
+  );
+  return avatars;
+}
+
+function drawLinks(
+  ctx: SKRSContext2D,
+  nodes: ImageNode[],
+  links: ImageLink[]
+): void {
+  const maxWeight = Math.max(1e-9, ...links.map((link) => link.weight));
+  ctx.lineCap = "round";
+
+  // Strongest on top
+  for (const link of [...links].sort((a, b) => a.weight - b.weight)) {
+    const a = nodes[link.source] as ImageNode;
+    const b = nodes[link.target] as ImageNode;
+    const share = Math.sqrt(link.weight / maxWeight);
+    ctx.strokeStyle = `rgba(255, 255, 255, ${(0.12 + 0.5 * share).toFixed(2)})`;
+    ctx.lineWidth = 1 + 9 * share;
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.stroke();
+  }
+}
+
+function drawNode(
+  ctx: SKRSContext2D,
+  node: ImageNode,
+  avatar: Image | undefined
+): void {
+  const radius = node.focus ? FOCUS_RADIUS : NODE_RADIUS;
+  const name = node.profile?.display_name || node.profile?.username || "?";
+  const color = node.profile?.role_color
+    ? `#${node.profile.role_color.toString(16).padStart(6, "0")}`
+    : DEFAULT_NODE_COLOR;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(node.x, node.y, radius, 0, 2 * Math.PI);
+  ctx.closePath();
+  ctx.fillStyle = "#1e1f22";
+  ctx.fill();
+  ctx.clip();
+  if (avatar) {
+    ctx.drawImage(
+      avatar,
+      node.x - radius,
+      node.y - radius,
+      radius * 2,
+      radius * 2
+    );
+  } else {
+    ctx.fillStyle = color;
+    ctx.font = `bold ${Math.round(radius * 0.8)}px sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(initials(name), node.x, node.y);
+  }
+  ctx.restore();
+
+  ctx.beginPath();
+  ctx.arc(node.x, node.y, radius, 0, 2 * Math.PI);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = node.focus ? 5 : 3;
+  ctx.stroke();
+
+  const label = name.length > 18 ? `${name.slice(0, 17)}…` : name;
+  ctx.font = `${node.focus ? "bold 16px" : "13px"} sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+  ctx.lineWidth = 4;
+  ctx.strokeStyle = BACKGROUND;
+  ctx.strokeText(label, node.x, node.y + radius + 4);
+  ctx.fillStyle = LABEL_COLOR;
+  ctx.fillText(label, node.x, node.y + radius + 4);
+}
+
+function initials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const letters =
+    words.length > 1
+      ? `${Array.from(words[0] || "")[0] || ""}${Array.from(words[1] || "")[0] || ""}`
+      : Array.from(words[0] || "?").slice(0, 2).join("");
+  return letters.toUpperCase();
+}
@@ -0,0 +1,262 @@
+import type {
+  DatabaseResult,
+  PostgreSQLManager,
+} from "../database/PostgreSQLManager";
+import {
+  EdgeRepository,
+  MessageRepository,
+  SegmentRepository,
+  type SegmentMessage,
+} from "../database/repositories";
+import { formatDuration } from "../guild-sync/SyncJobTracker";
+
+// One user's side of a relationship: what they did toward the other
+export interface DirectionalStats {
+  user_id: string;
+  initiated: number; // Shared conversations this user spoke in first
+  messages: number; // Sent in shared conversations
+  replies: number; // Explicit replies to the other's messages
+  responses: number; // Replies, plus turns answering the other in conversation
+  median_response_seconds: number | null; // Null without responses
+  mentions: number;
+  reactions: number;
+}
+
+export interface RelationshipAsymmetry {
+  user_a: string;
+  user_b: string;
+  conversations: number; // Shared conversations looked at
+  from_a: DirectionalStats;
+  from_b: DirectionalStats;
+}
+
+// Latency medians over fewer responses than this aren't shown
+const MIN_RESPONSES = 3;
+// Sides within this share of each other are described as even
+const EVEN_SHARE = 0.1;
+
+function emptyStats(userId: string): DirectionalStats {
+  return {
+    user_id: userId,
+    initiated: 0,
+    messages: 0,
+    replies: 0,
+    responses: 0,
+    median_response_seconds: null,
+    mentions: 0,
+    reactions: 0,
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? (sorted[middle] ?? 0)
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+}
+
+/**
+ * Who does what in a relationship. Edges count interactions per direction
+ * but affinity merges them; this splits them back out: who starts the
+ * conversations the two share, who replies to whom, and how quickly each
+ * answers the other. Replies come from messages.referenced_message_id; in
+ * conversation segments, whoever speaks first started it, and a message
+ * that follows the other's (without replying to something) answers it.
+ */
+export class RelationshipAsymmetryAnalyzer {
+  private edges: EdgeRepository;
+  private messages: MessageRepository;
+  private segments: SegmentRepository;
+
+  constructor(db: PostgreSQLManager) {
+    this.edges = new EdgeRepository(db);
+    this.messages = new MessageRepository(db);
+    this.segments = new SegmentRepository(db);
+  }
+
+  /**
+   * Replies and conversations in excludeChannelIds (private and hidden
+   * channels) aren't looked at
+   */
+  async analyze(
+    guildId: string,
+    userA: string,
+    userB: string,
+    options: { excludeChannelIds?: string[] } = {}
+  ): Promise<DatabaseResult<RelationshipAsymmetry>> {
+    const [edgeAB, edgeBA, replies, shared] = await Promise.all([
+      this.edges.findPair(guildId, userA, userB),
+      this.edges.findPair(guildId, userB, userA),
+      this.messages.findRepliesBetween(guildId, userA, userB, options),
+      this.segments.findSharedMessages(guildId, userA, userB, options),
+    ]);
+    for (const result of [edgeAB, edgeBA, replies, shared]) {
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+    }
+
+    const stats = new Map([
+      [userA, emptyStats(userA)],
+      [userB, emptyStats(userB)],
+    ]);
+    const latencies = new Map<string, number[]>([
+      [userA, []],
+      [userB, []],
+    ]);
+
+    // Explicit replies
+    const replyIds = new Set<string>();
+    for (const reply of replies.data || []) {
+      const side = stats.get(reply.author_id);
+      if (!side) continue;
+      side.replies++;
+      latencies.get(reply.author_id)?.push(reply.latency_seconds);
+      replyIds.add(reply.id);
+    }
+
+    // Conversation order
+    const conversations = groupBySegment(shared.data || []);
+    for (const messages of conversations) {
+      const first = messages[0];
+      if (!first) continue;
+      const starter = stats.get(first.author_id);
+      if (starter) starter.initiated++;
+
+      let previous: SegmentMessage | undefined;
+      for (const message of messages) {
+        const side = stats.get(message.author_id);
+        if (side) side.messages++;
+        if (
+          previous &&
+          previous.author_id !== message.author_id &&
+          !replyIds.has(message.id)
+        ) {
+          const elapsed =
+            message.created_at.getTime() - previous.created_at.getTime();
+          latencies.get(message.author_id)?.push(Math.max(elapsed / 1000, 0));
+        }
+        previous = message;
+      }
+    }
+
+    for (const [userId, side] of stats) {
+      const values = latencies.get(userId) || [];
+      side.responses = values.length;
+      side.median_response_seconds = median(values);
+    }
+
+    const fromA = stats.get(userA) || emptyStats(userA);
+    const fromB = stats.get(userB) || emptyStats(userB);
+    fromA.mentions = edgeAB.data?.mentions || 0;
+    fromA.reactions = edgeAB.data?.reactions || 0;
+    fromB.mentions = edgeBA.data?.mentions || 0;
+    fromB.reactions = edgeBA.data?.reactions || 0;
+
+    return {
+      success: true,
+      data: {
+        user_a: userA,
+        user_b: userB,
+        conversations: conversations.length,
+        from_a: fromA,
+        from_b: fromB,
+      },
+    };
+  }
+}
+
+function groupBySegment(messages: SegmentMessage[]): SegmentMessage[][] {
+  const bySegment = new Map<string, SegmentMessage[]>();
+  for (const message of messages) {
+    const segment = bySegment.get(message.segment_id);
+    if (segment) {
+      segment.push(message);
+    } else {
+      bySegment.set(message.segment_id, [message]);
+    }
+  }
+  // Only conversations both of them spoke in
+  return [...bySegment.values()].filter(
+    (segment) => new Set(segment.map((message) => message.author_id)).size > 1
+  );
+}
+
+/**
+ * Compare a count between the two sides, e.g. "Alice 18, Bob 6 (3.0×)"
+ */
+function compare(nameA: string, a: number, nameB: string, b: number): string {
+  const high = Math.max(a, b);
+  const low = Math.min(a, b);
+  const ratio =
+    low > 0 && high / low >= 1.5 ? ` (${(high / low).toFixed(1)}×)` : "";
+  return `${nameA} ${a}, ${nameB} ${b}${ratio}`;
+}
+
+/**
+ * Plain sentences about who leads the relationship, for embeds and the AI
+ * assistant, e.g. "Alice starts 72% of their conversations (18 of 25)"
+ */
+export function describeAsymmetry(
+  asymmetry: RelationshipAsymmetry,
+  nameA: string,
+  nameB: string
+): string[] {
+  const { from_a: a, from_b: b } = asymmetry;
+  const lines: string[] = [];
+
+  const started = a.initiated + b.initiated;
+  if (started > 0) {
+    const share = a.initiated / started;
+    if (Math.abs(share - 0.5) <= EVEN_SHARE) {
+      lines.push(
+        `They start conversations about equally (${nameA} ${a.initiated}, ${nameB} ${b.initiated})`
+      );
+    } else {
+      const [leader, count] =
+        share > 0.5 ? [nameA, a.initiated] : [nameB, b.initiated];
+      lines.push(
+        `${leader} starts ${Math.round(Math.max(share, 1 - share) * 100)}% of their conversations (${count} of ${started})`
+      );
+    }
+  }
+
+  if (a.messages + b.messages > 0) {
+    lines.push(
+      `Messages in shared conversations: ${compare(nameA, a.messages, nameB, b.messages)}`
+    );
+  }
+  if (a.replies + b.replies > 0) {
+    lines.push(
+      `Replies to the other: ${compare(nameA, a.replies, nameB, b.replies)}`
+    );
+  }
+  if (a.mentions + b.mentions > 0) {
+    lines.push(
+      `Mentions of the other: ${compare(nameA, a.mentions, nameB, b.mentions)}`
+    );
+  }
+  if (a.reactions + b.reactions > 0) {
+    lines.push(
+      `Reactions to the other: ${compare(nameA, a.reactions, nameB, b.reactions)}`
+    );
+  }
+
+  for (const [name, other, side] of [
+    [nameA, nameB, a],
+    [nameB, nameA, b],
+  ] as const) {
+    if (
+      side.responses >= MIN_RESPONSES &&
+      side.median_response_seconds !== null
+    ) {
+      lines.push(
+        `${name} usually answers ${other} within ${formatDuration(side.median_response_seconds * 1000)} (median of ${side.responses})`
+      );
+    }
+  }
+
+  return lines;
+}
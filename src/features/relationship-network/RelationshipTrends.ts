@@ -0,0 +1,280 @@
+import type {
+  DatabaseResult,
+  EdgeData,
+  PostgreSQLManager,
+  RelationshipActivityData,
+} from "../database/PostgreSQLManager";
+import {
+  EdgeRepository,
+  RelationshipActivityRepository,
+} from "../database/repositories";
+
+export interface TrendWeek {
+  start: string; // YYYY-MM-DD, first day of the week
+  messages: number; // Both directions
+  mentions: number;
+  replies: number;
+  reactions: number;
+  voice_seconds: number;
+  interactions: number; // All of the above, voice counted per 5 minutes
+}
+
+export type TrendFlagKind = "drop" | "rise" | "silent" | "new" | "spike";
+
+export interface TrendFlag {
+  kind: TrendFlagKind;
+  message: string; // e.g. "Interaction dropped 80% this month (50 → 10)"
+}
+
+export interface RelationshipTrend {
+  user_a: string;
+  user_b: string;
+  weeks: TrendWeek[]; // Oldest first; the last one ends today
+  flags: TrendFlag[];
+  tracked: boolean; // False until the pair has interacted
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VOICE_SECONDS_PER_INTERACTION = 300;
+// "This month" is the last four weeks, compared with the four before
+const MONTH_WEEKS = 4;
+// Changes between months quieter than this are noise
+const MIN_MONTH_INTERACTIONS = 10;
+const DROP_SHARE = 0.5;
+const RISE_SHARE = 1;
+const SILENT_WEEKS = 2;
+// A week this many times the pair's weekly average is a spike
+const SPIKE_FACTOR = 3;
+
+// Days are numbered in UTC, like relationship_daily_activity
+function dayNumber(key: string): number {
+  return Math.round(Date.parse(`${key}T00:00:00Z`) / DAY_MS);
+}
+
+function dayKeyOf(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function emptyWeek(start: string): TrendWeek {
+  return {
+    start,
+    messages: 0,
+    mentions: 0,
+    replies: 0,
+    reactions: 0,
+    voice_seconds: 0,
+    interactions: 0,
+  };
+}
+
+/**
+ * Weekly activity between two members from relationship_daily_activity,
+ * where each interaction is booked under the day it happened (so a
+ * backfill of old messages lands in the weeks they were sent), with notable
+ * changes flagged: a month much quieter or busier than the one before, a
+ * pair that went silent, a new connection, or a week far busier than usual.
+ */
+export class RelationshipTrends {
+  private activity: RelationshipActivityRepository;
+  private edges: EdgeRepository;
+
+  constructor(db: PostgreSQLManager) {
+    this.activity = new RelationshipActivityRepository(db);
+    this.edges = new EdgeRepository(db);
+  }
+
+  async getTrend(
+    guildId: string,
+    userA: string,
+    userB: string,
+    weeks: number
+  ): Promise<DatabaseResult<RelationshipTrend>> {
+    // Flags compare months, so always look back at least two
+    const loadedWeeks = Math.max(weeks, MONTH_WEEKS * 2);
+    const today = Math.floor(Date.now() / DAY_MS);
+    const since = dayKeyOf(today - (loadedWeeks * 7 - 1));
+
+    const [activity, edgeAB, edgeBA] = await Promise.all([
+      this.activity.findForPair(guildId, userA, userB, since),
+      this.edges.findPair(guildId, userA, userB),
+      this.edges.findPair(guildId, userB, userA),
+    ]);
+    for (const result of [activity, edgeAB, edgeBA]) {
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+    }
+
+    const allWeeks = bucketWeeks(activity.data || [], since, loadedWeeks);
+    // Whatever the edges counted that isn't in the window came before it
+    // (or was never dated, for history older than daily activity)
+    const priorInteractions = Math.max(
+      edgeInteractions(edgeAB.data) +
+        edgeInteractions(edgeBA.data) -
+        sumInteractions(allWeeks, false),
+      0
+    );
+
+    return {
+      success: true,
+      data: {
+        user_a: userA,
+        user_b: userB,
+        weeks: allWeeks.slice(-weeks),
+        flags: flagChanges(allWeeks, priorInteractions),
+        tracked: Boolean(edgeAB.data || edgeBA.data),
+      },
+    };
+  }
+}
+
+function edgeInteractions(edge: EdgeData | null | undefined): number {
+  if (!edge) return 0;
+  return (
+    (edge.msg_a_to_b || 0) +
+    (edge.msg_b_to_a || 0) +
+    (edge.mentions || 0) +
+    (edge.replies || 0) +
+    (edge.reactions || 0)
+  );
+}
+
+/**
+ * Add up daily activity by week. Voice time is recorded on both edges of a
+ * pair, so it's counted once.
+ */
+function bucketWeeks(
+  activity: RelationshipActivityData[],
+  since: string,
+  weekCount: number
+): TrendWeek[] {
+  const first = dayNumber(since);
+  const weeks = Array.from({ length: weekCount }, (_, i) =>
+    emptyWeek(dayKeyOf(first + i * 7))
+  );
+  // Voice per week and edge, to take the larger of the two edges
+  const voiceByEdge = new Map<string, number[]>();
+
+  for (const row of activity) {
+    const index = Math.floor((dayNumber(row.day) - first) / 7);
+    const week = weeks[index];
+    if (!week) continue;
+
+    week.messages += row.messages;
+    week.mentions += row.mentions;
+    week.replies += row.replies;
+    week.reactions += row.reactions;
+
+    const key = `${row.user_a}:${row.user_b}`;
+    const voice =
+      voiceByEdge.get(key) || new Array<number>(weekCount).fill(0);
+    voice[index] = (voice[index] ?? 0) + row.voice_seconds;
+    voiceByEdge.set(key, voice);
+  }
+
+  for (const [i, week] of weeks.entries()) {
+    // Removals are booked on the day of what they remove, never below zero
+    week.messages = Math.max(week.messages, 0);
+    week.mentions = Math.max(week.mentions, 0);
+    week.replies = Math.max(week.replies, 0);
+    week.reactions = Math.max(week.reactions, 0);
+    week.voice_seconds = Math.max(
+      0,
+      ...Array.from(voiceByEdge.values(), (voice) => voice[i] ?? 0)
+    );
+    week.interactions =
+      week.messages +
+      week.mentions +
+      week.replies +
+      week.reactions +
+      Math.floor(week.voice_seconds / VOICE_SECONDS_PER_INTERACTION);
+  }
+
+  return weeks;
+}
+
+function sumInteractions(weeks: TrendWeek[], withVoice = true): number {
+  return weeks.reduce(
+    (sum, week) =>
+      sum +
+      (withVoice
+        ? week.interactions
+        : week.messages + week.mentions + week.replies + week.reactions),
+    0
+  );
+}
+
+/**
+ * Notable changes in a pair's weekly activity, most significant first
+ */
+export function flagChanges(
+  weeks: TrendWeek[],
+  priorInteractions = 0
+): TrendFlag[] {
+  const flags: TrendFlag[] = [];
+  if (weeks.length === 0) return flags;
+
+  const thisMonth = sumInteractions(weeks.slice(-MONTH_WEEKS));
+  const lastMonth = sumInteractions(
+    weeks.slice(-MONTH_WEEKS * 2, -MONTH_WEEKS)
+  );
+  const earlier = sumInteractions(weeks.slice(0, -MONTH_WEEKS));
+
+  if (lastMonth >= MIN_MONTH_INTERACTIONS) {
+    const change = (thisMonth - lastMonth) / lastMonth;
+    if (change <= -DROP_SHARE) {
+      flags.push({
+        kind: "drop",
+        message: `Interaction dropped ${Math.round(-change * 100)}% this month (${lastMonth} → ${thisMonth})`,
+      });
+    } else if (change >= RISE_SHARE) {
+      flags.push({
+        kind: "rise",
+        message: `Interaction up ${Math.round(change * 100)}% this month (${lastMonth} → ${thisMonth})`,
+      });
+    }
+  }
+
+  if (
+    thisMonth >= MIN_MONTH_INTERACTIONS &&
+    earlier === 0 &&
+    priorInteractions === 0
+  ) {
+    flags.push({
+      kind: "new",
+      message: `New connection: ${thisMonth} interactions this month, none before`,
+    });
+  }
+
+  // Weeks without interaction, counting back from this one
+  let silentWeeks = 0;
+  for (let i = weeks.length - 1; i >= 0 && !weeks[i]?.interactions; i--) {
+    silentWeeks++;
+  }
+  if (
+    silentWeeks >= SILENT_WEEKS &&
+    (sumInteractions(weeks) > 0 || priorInteractions > 0)
+  ) {
+    flags.push({
+      kind: "silent",
+      message: `No interactions in the last ${silentWeeks} weeks`,
+    });
+  }
+
+  const latest = weeks[weeks.length - 1];
+  const before = weeks.slice(0, -1);
+  const average = before.length > 0 ? sumInteractions(before) / before.length : 0;
+  if (
+    latest &&
+    average > 0 &&
+    latest.interactions >= MIN_MONTH_INTERACTIONS &&
+    latest.interactions >= average * SPIKE_FACTOR
+  ) {
+    flags.push({
+      kind: "spike",
+      message: `Busiest week: ${latest.interactions} interactions, ${(latest.interactions / average).toFixed(1)}× the weekly average`,
+    });
+  }
+
+  return flags;
+}
@@ -0,0 +1,107 @@
+import { createCanvas } from "@napi-rs/canvas";
+import type { RelationshipTrend } from "./RelationshipTrends";
+
+const WIDTH = 1000;
+const HEIGHT = 400;
+const PADDING = { top: 50, right: 30, bottom: 50, left: 60 };
+// Leaves room to read the value above the tallest bar
+const HEADROOM = 1.15;
+
+const BACKGROUND = "#2b2d31";
+const TEXT_COLOR = "#dbdee1";
+const GRID_COLOR = "rgba(255, 255, 255, 0.08)";
+const BAR_COLOR = "#5865f2";
+const RECENT_BAR_COLOR = "#eb459e"; // This month, which the flags compare
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+function shortDate(day: string): string {
+  const [, month = "1", date = "1"] = day.split("-");
+  return `${MONTHS[Number(month) - 1]} ${Number(date)}`;
+}
+
+/**
+ * A bar chart of a pair's weekly interactions as a PNG, with the last four
+ * weeks highlighted
+ */
+export function renderTrendChart(
+  trend: RelationshipTrend,
+  title: string
+): Buffer {
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const ctx = canvas.getContext("2d");
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+  ctx.fillStyle = TEXT_COLOR;
+  ctx.font = "bold 18px sans-serif";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+  ctx.fillText(title, PADDING.left, PADDING.top / 2);
+
+  const chartWidth = WIDTH - PADDING.left - PADDING.right;
+  const chartHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const peak = Math.max(1, ...trend.weeks.map((week) => week.interactions));
+  const scale = chartHeight / (peak * HEADROOM);
+
+  // Four gridlines at round values
+  const step = Math.max(1, Math.ceil(peak / 4));
+  ctx.font = "12px sans-serif";
+  ctx.textAlign = "right";
+  for (let value = 0; value <= peak * HEADROOM; value += step) {
+    const y = PADDING.top + chartHeight - value * scale;
+    ctx.strokeStyle = GRID_COLOR;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(PADDING.left, y);
+    ctx.lineTo(WIDTH - PADDING.right, y);
+    ctx.stroke();
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText(String(value), PADDING.left - 8, y);
+  }
+
+  const slot = chartWidth / Math.max(trend.weeks.length, 1);
+  const barWidth = slot * 0.7;
+  // Label every week when they fit, otherwise every few
+  const labelEvery = Math.ceil(60 / slot);
+
+  for (const [i, week] of trend.weeks.entries()) {
+    const x = PADDING.left + i * slot + (slot - barWidth) / 2;
+    const height = week.interactions * scale;
+    const y = PADDING.top + chartHeight - height;
+
+    ctx.fillStyle =
+      i >= trend.weeks.length - 4 ? RECENT_BAR_COLOR : BAR_COLOR;
+    ctx.fillRect(x, y, barWidth, height);
+
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.textAlign = "center";
+    if (week.interactions > 0 && barWidth >= 18) {
+      ctx.textBaseline = "bottom";
+      ctx.fillText(String(week.interactions), x + barWidth / 2, y - 2);
+    }
+    if ((trend.weeks.length - 1 - i) % labelEvery === 0) {
+      ctx.textBaseline = "top";
+      ctx.fillText(
+        shortDate(week.start),
+        x + barWidth / 2,
+        PADDING.top + chartHeight + 8
+      );
+    }
+  }
+
+  return canvas.toBuffer("image/png");
+}
@@ -0,0 +1,189 @@
+import {
+  AttachmentBuilder,
+  type ChatInputCommandInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import type { Command } from "../../../types";
+import { PostgreSQLManager } from "../../database/PostgreSQLManager";
+import {
+  NetworkAnalyticsRepository,
+  type NetworkMemberMetrics,
+} from "../../database/repositories";
+import { NetworkAnalytics } from "../NetworkAnalytics";
+import { NetworkRenderer } from "../NetworkRenderer";
+
+const DEFAULT_COMMUNITIES = 6;
+const MEMBERS_PER_COMMUNITY = 5;
+// refresh:true is ignored while the last analysis is younger than this
+const REFRESH_COOLDOWN_MS = 10 * 60 * 1000;
+
+function toUnix(date: Date): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+function describeMember(member: NetworkMemberMetrics): string {
+  return `<@${member.user_id}> #${member.pagerank_rank}${member.is_bridge ? " (bridge)" : ""}`;
+}
+
+export const networkCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName("network")
+    .setDescription("Social structure of the server")
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("communities")
+        .setDescription(
+          "Groups of members who mostly talk to each other, and who connects them"
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName("limit")
+            .setDescription(
+              `Communities to show, largest first (default: ${DEFAULT_COMMUNITIES})`
+            )
+            .setMinValue(1)
+            .setMaxValue(20)
+            .setRequired(false)
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName("refresh")
+            .setDescription("Recompute now instead of using the last analysis")
+            .setRequired(false)
+        )
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .setDMPermission(false),
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    await interaction.deferReply({ ephemeral: true });
+
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      await interaction.editReply(
+        "🔸 This command can only be used in a server."
+      );
+      return;
+    }
+
+    const limit = interaction.options.getInteger("limit") ?? DEFAULT_COMMUNITIES;
+    const refresh = interaction.options.getBoolean("refresh") ?? false;
+    const db = new PostgreSQLManager();
+
+    try {
+      const connected = await db.connect();
+
+      if (!connected) {
+        await interaction.editReply("🔸 Failed to connect to database.");
+        return;
+      }
+
+      const analytics = new NetworkAnalyticsRepository(db);
+      let analysisResult = await analytics.getAnalysis(guildId);
+
+      // Analyze on demand when asked to, or when the scheduled job hasn't
+      // reached this guild yet. Analysis is heavy on large guilds, so asking
+      // again shortly after one finished shows that one instead.
+      const cached = analysisResult.success ? analysisResult.data : undefined;
+      const refreshableAt = cached
+        ? new Date(cached.computed_at).getTime() + REFRESH_COOLDOWN_MS
+        : 0;
+      let cooldownNote = "";
+      if (refresh && Date.now() < refreshableAt) {
+        cooldownNote = `🔹 Analyzed recently, so showing that analysis. Refreshing is available again <t:${Math.floor(refreshableAt / 1000)}:R>.`;
+      } else if (refresh || (analysisResult.success && !cached)) {
+        await interaction.editReply("🔹 Analyzing the network...");
+        analysisResult = await new NetworkAnalytics(db).refresh(guildId);
+      }
+
+      if (!analysisResult.success) {
+        await interaction.editReply("🔸 Failed to load the network analysis.");
+        await db.disconnect();
+        return;
+      }
+
+      const analysis = analysisResult.data;
+      if (!analysis || analysis.node_count === 0) {
+        await interaction.editReply(
+          "🔹 There aren't enough interactions between members to analyze yet."
+        );
+        await db.disconnect();
+        return;
+      }
+
+      const [communitiesResult, bridgesResult] = await Promise.all([
+        analytics.getCommunities(guildId, MEMBERS_PER_COMMUNITY),
+        analytics.findMembers(guildId, {
+          bridgesOnly: true,
+          orderBy: "betweenness",
+          limit: 10,
+        }),
+      ]);
+      if (!communitiesResult.success || !communitiesResult.data) {
+        await interaction.editReply("🔸 Failed to load communities.");
+        await db.disconnect();
+        return;
+      }
+
+      const communities = communitiesResult.data.slice(0, limit);
+      const embed = new EmbedBuilder()
+        .setTitle("Server communities")
+        .setDescription(
+          `${analysis.node_count} members in **${analysis.community_count}** communities, modularity ${analysis.modularity.toFixed(2)}. Analyzed <t:${toUnix(analysis.computed_at)}:R>.\nMembers are listed by centrality rank across the server.`
+        )
+        .setColor(0x5865f2)
+        .addFields(
+          ...communities.map((community) => ({
+            name: `Community ${community.community_id + 1} · ${community.size} member(s)`,
+            value: community.top_members.map(describeMember).join("\n"),
+            inline: true,
+          })),
+          {
+            name: "Bridges between communities",
+            value:
+              (bridgesResult.data || [])
+                .map(
+                  (member) =>
+                    `<@${member.user_id}>: community ${member.community_id + 1}, ${(member.betweenness * 100).toFixed(1)}% of shortest paths`
+                )
+                .join("\n") || "None",
+            inline: false,
+          }
+        );
+
+      if (communitiesResult.data.length > communities.length) {
+        embed.setFooter({
+          text: `${communitiesResult.data.length - communities.length} smaller communities not shown`,
+        });
+      }
+
+      const files: AttachmentBuilder[] = [];
+      const image = await new NetworkRenderer(db).renderGuildNetwork(guildId);
+      if (image.success && image.data) {
+        files.push(new AttachmentBuilder(image.data, { name: "network.png" }));
+        embed.setImage("attachment://network.png");
+      } else {
+        console.error("🔸 Failed to render network image:", image.error);
+      }
+
+      await interaction.editReply({
+        content: cooldownNote,
+        embeds: [embed],
+        files,
+      });
+      await db.disconnect();
+    } catch (error) {
+      console.error("Error in network command:", error);
+      await interaction.editReply(
+        "🔸 An error occurred while loading the network."
+      );
+
+      try {
+        await db.disconnect();
+      } catch (disconnectError) {
+        console.error("Error disconnecting from database:", disconnectError);
+      }
+    }
+  },
+};
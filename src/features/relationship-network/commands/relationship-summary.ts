@@ -1,11 +1,25 @@
 import {
+  AttachmentBuilder,
   type ChatInputCommandInteraction,
   SlashCommandBuilder,
   EmbedBuilder,
   PermissionFlagsBits,
 } from "discord.js";
 import type { Command } from "../../../types";
-import { PostgreSQLManager } from "../../database/PostgreSQLManager";
+import { getHiddenChannelIds } from "../../ai-assistant/DatabaseTools";
+import {
+  type DatabaseResult,
+  PostgreSQLManager,
+} from "../../database/PostgreSQLManager";
+import { MemberRepository } from "../../database/repositories";
+import { NetworkRenderer } from "../NetworkRenderer";
+import {
+  type RelationshipAsymmetry,
+  RelationshipAsymmetryAnalyzer,
+  describeAsymmetry,
+} from "../RelationshipAsymmetry";
+import { RelationshipTrends } from "../RelationshipTrends";
+import { renderTrendChart } from "../TrendChart";
 
 export const relationshipSummaryCommand: Command = {
   data: new SlashCommandBuilder()
@@ -25,12 +39,23 @@ export const relationshipSummaryCommand: Command = {
         )
         .setRequired(false)
     )
+    .addIntegerOption((option) =>
+      option
+        .setName("trend-weeks")
+        .setDescription(
+          "Chart their interactions over this many weeks and flag notable changes"
+        )
+        .setMinValue(2)
+        .setMaxValue(52)
+        .setRequired(false)
+    )
     .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
     .setDMPermission(false),
   execute: async (interaction: ChatInputCommandInteraction) => {
     const user1 = interaction.options.getUser("user1", true);
     const user2 = interaction.options.getUser("user2", true);
     const ephemeral = interaction.options.getBoolean("ephemeral") ?? false;
+    const trendWeeks = interaction.options.getInteger("trend-weeks");
     const guildId = interaction.guildId;
 
     await interaction.deferReply({ ephemeral });
@@ -57,50 +82,18 @@ export const relationshipSummaryCommand: Command = {
       }
 
       // Get user1's relationship with user2
-      const relationshipResult = await db.query(
-        `
-				SELECT 
-					rn.target_user_id,
-					rn.affinity_percentage,
-					rn.interaction_count,
-					rn.last_interaction,
-					rn.summary as relationship_summary,
-					rn.keywords as relationship_keywords,
-					rn.emojis as relationship_emojis,
-					rn.notes as relationship_notes,
-					rn.conversations as relationship_conversations,
-					u1.display_name as user1_display_name,
-					u1.username as user1_username,
-					u2.display_name as user2_display_name,
-					u2.username as user2_username
-				FROM members u1
-				CROSS JOIN LATERAL (
-					SELECT 
-						jsonb_array_elements(relationship_network) as rel
-				) rn_expanded
-				CROSS JOIN LATERAL (
-					SELECT 
-						(rel->>'target_user_id')::text as target_user_id,
-						(rel->>'affinity_percentage')::float as affinity_percentage,
-						(rel->>'interaction_count')::int as interaction_count,
-						(rel->>'last_interaction')::timestamp as last_interaction,
-						rel->>'summary' as summary,
-						rel->'keywords' as keywords,
-						rel->'emojis' as emojis,
-						rel->'notes' as notes,
-						rel->'conversations' as conversations
-				) rn
-				LEFT JOIN members u2 ON u2.user_id = rn.target_user_id AND u2.guild_id = u1.guild_id
-				WHERE u1.user_id = $1 AND u1.guild_id = $2 AND rn.target_user_id = $3
-			`,
-        [user1.id, guildId, user2.id]
+      const members = new MemberRepository(db);
+      const [member1Result, member2Result] = await Promise.all([
+        members.findByUserId(guildId, user1.id),
+        members.findByUserId(guildId, user2.id, { includeInactive: true }),
+      ]);
+
+      const member1 = member1Result.data;
+      const relationship = member1?.relationship_network?.find(
+        (rel) => rel.user_id === user2.id
       );
 
-      if (
-        !relationshipResult.success ||
-        !relationshipResult.data ||
-        relationshipResult.data.length === 0
-      ) {
+      if (!member1 || !relationship) {
         await interaction.editReply(
           `Sorry, no relationship detected between ${user1.displayName} and ${user2.displayName}.`
         );
@@ -108,15 +101,17 @@ export const relationshipSummaryCommand: Command = {
         return;
       }
 
-      const relationship = relationshipResult.data[0];
+      const member2 = member2Result.data;
 
       // Create embed
       const embed = new EmbedBuilder()
         .setTitle(
-          `Relationship: ${relationship.user1_display_name} ↔ ${relationship.user2_display_name}`
+          `Relationship: ${member1.display_name} ↔ ${
+            member2?.display_name || user2.displayName
+          }`
         )
         .setDescription(
-          `@${relationship.user1_username} • @${relationship.user2_username}`
+          `@${member1.username} • @${member2?.username || user2.username}`
         )
         .setColor(0x5865f2)
         .setTimestamp()
@@ -125,11 +120,11 @@ export const relationshipSummaryCommand: Command = {
         });
 
       // Add relationship metadata
-      if (relationship.relationship_summary) {
+      if (relationship.summary) {
         const summaryText =
-          relationship.relationship_summary.length > 1000
-            ? relationship.relationship_summary.substring(0, 997) + "..."
-            : relationship.relationship_summary;
+          relationship.summary.length > 1000
+            ? relationship.summary.substring(0, 997) + "..."
+            : relationship.summary;
         embed.addFields({
           name: "Summary",
           value: summaryText,
@@ -139,10 +134,10 @@ export const relationshipSummaryCommand: Command = {
 
       // Add keywords
       if (
-        relationship.relationship_keywords &&
-        relationship.relationship_keywords.length > 0
+        relationship.keywords &&
+        relationship.keywords.length > 0
       ) {
-        const keywordText = relationship.relationship_keywords.join(" • ");
+        const keywordText = relationship.keywords.join(" • ");
         embed.addFields({
           name: "Keywords",
           value: keywordText,
@@ -152,10 +147,10 @@ export const relationshipSummaryCommand: Command = {
 
       // Add emojis
       if (
-        relationship.relationship_emojis &&
-        relationship.relationship_emojis.length > 0
+        relationship.emojis &&
+        relationship.emojis.length > 0
       ) {
-        const emojiText = relationship.relationship_emojis.join(" ");
+        const emojiText = relationship.emojis.join(" ");
         embed.addFields({
           name: "Emojis",
           value: emojiText,
@@ -177,20 +172,20 @@ export const relationshipSummaryCommand: Command = {
 
       // Add enhanced affinity breakdown if conversations are present
       if (
-        relationship.relationship_conversations &&
-        relationship.relationship_conversations.length > 0
+        relationship.conversations &&
+        relationship.conversations.length > 0
       ) {
-        const conversations = relationship.relationship_conversations;
+        const conversations = relationship.conversations;
         const totalConversations = conversations.length;
         const totalMessages = conversations.reduce(
-          (sum: number, conv: any) => sum + (conv.message_count || 0),
+          (sum, conv) => sum + (conv.message_count || 0),
           0
         );
 
         // Count mentions and name interactions
         let mentionCount = 0;
         let nameInteractionCount = 0;
-        conversations.forEach((conv: any) => {
+        conversations.forEach((conv) => {
           if (
             conv.interaction_types &&
             conv.interaction_types.includes("mention")
@@ -237,19 +232,21 @@ export const relationshipSummaryCommand: Command = {
 
       // Add conversation info
       if (
-        relationship.relationship_conversations &&
-        relationship.relationship_conversations.length > 0
+        relationship.conversations &&
+        relationship.conversations.length > 0
       ) {
-        const conversations = relationship.relationship_conversations;
+        const conversations = relationship.conversations;
         const totalConversations = conversations.length;
         const totalMessages = conversations.reduce(
-          (sum: number, conv: any) => sum + (conv.message_count || 0),
+          (sum, conv) => sum + (conv.message_count || 0),
           0
         );
 
         // Get most recent conversation
         const mostRecentConv = conversations[conversations.length - 1];
-        const lastConversationTime = new Date(mostRecentConv.end_time);
+        const lastConversationTime = new Date(
+          mostRecentConv?.end_time ?? relationship.last_interaction
+        );
         const lastConversationText = `<t:${Math.floor(
           lastConversationTime.getTime() / 1000
         )}:R>`;
@@ -262,7 +259,7 @@ export const relationshipSummaryCommand: Command = {
         if (conversations.length > 0) {
           conversationText += `\n\n**Recent Conversations:**`;
           const recentConvs = conversations.slice(-3).reverse();
-          recentConvs.forEach((conv: any, index: number) => {
+          recentConvs.forEach((conv, index) => {
             const convStart = new Date(conv.start_time);
             const convEnd = new Date(conv.end_time);
             const duration = Math.round(
@@ -291,7 +288,109 @@ export const relationshipSummaryCommand: Command = {
         });
       }
 
-      await interaction.editReply({ embeds: [embed] });
+      // Who starts their conversations, replies more and answers faster,
+      // from channels the requester may see (left out if that's unknown)
+      let asymmetryResult: DatabaseResult<RelationshipAsymmetry>;
+      try {
+        const hiddenChannelIds = await getHiddenChannelIds({
+          db,
+          guildId,
+          userId: interaction.user.id,
+        });
+        asymmetryResult = await new RelationshipAsymmetryAnalyzer(db).analyze(
+          guildId,
+          user1.id,
+          user2.id,
+          { excludeChannelIds: hiddenChannelIds }
+        );
+      } catch (error) {
+        asymmetryResult = {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      if (asymmetryResult.success && asymmetryResult.data) {
+        const lines = describeAsymmetry(
+          asymmetryResult.data,
+          member1.display_name,
+          member2?.display_name || user2.displayName
+        );
+        if (lines.length > 0) {
+          embed.addFields({
+            name: "Who Leads",
+            value: lines.map((line) => `• ${line}`).join("\n"),
+            inline: false,
+          });
+        }
+      } else {
+        console.error(
+          "🔸 Failed to analyze relationship direction:",
+          asymmetryResult.error
+        );
+      }
+
+      // Both members' closest connections, and how they overlap
+      const files: AttachmentBuilder[] = [];
+      const image = await new NetworkRenderer(db).renderEgoNetwork(guildId, [
+        user1.id,
+        user2.id,
+      ]);
+      if (image.success && image.data) {
+        files.push(new AttachmentBuilder(image.data, { name: "network.png" }));
+        embed.setImage("attachment://network.png");
+      } else {
+        console.error("🔸 Failed to render network image:", image.error);
+      }
+
+      const embeds = [embed];
+      if (trendWeeks) {
+        const trendResult = await new RelationshipTrends(db).getTrend(
+          guildId,
+          user1.id,
+          user2.id,
+          trendWeeks
+        );
+        const trend = trendResult.data;
+        if (trend?.tracked) {
+          const trendEmbed = new EmbedBuilder()
+            .setTitle(`Interactions over the last ${trendWeeks} weeks`)
+            .setColor(0x5865f2)
+            .addFields({
+              name: "Notable changes",
+              value:
+                trend.flags.map((flag) => `• ${flag.message}`).join("\n") ||
+                "None",
+              inline: false,
+            });
+          try {
+            const chart = renderTrendChart(
+              trend,
+              `${member1.display_name} ↔ ${member2?.display_name || user2.displayName}: interactions per week`
+            );
+            files.push(new AttachmentBuilder(chart, { name: "trend.png" }));
+            trendEmbed.setImage("attachment://trend.png");
+          } catch (error) {
+            console.error("🔸 Failed to render trend chart:", error);
+          }
+          embeds.push(trendEmbed);
+        } else if (trendResult.success) {
+          embeds.push(
+            new EmbedBuilder()
+              .setTitle(`Interactions over the last ${trendWeeks} weeks`)
+              .setColor(0x5865f2)
+              .setDescription(
+                "No interactions recorded between them yet."
+              )
+          );
+        } else {
+          console.error(
+            "🔸 Failed to load relationship trend:",
+            trendResult.error
+          );
+        }
+      }
+
+      await interaction.editReply({ embeds, files });
       await db.disconnect();
     } catch (error) {
       console.error("Error in relationship-summary command:", error);
@@ -1,4 +1,5 @@
 import {
+  AttachmentBuilder,
   type ChatInputCommandInteraction,
   SlashCommandBuilder,
   EmbedBuilder,
@@ -6,6 +7,8 @@ import {
 } from "discord.js";
 import type { Command } from "../../../types";
 import { PostgreSQLManager } from "../../database/PostgreSQLManager";
+import { MemberRepository } from "../../database/repositories";
+import { NetworkRenderer } from "../NetworkRenderer";
 
 export const userSummaryCommand: Command = {
   data: new SlashCommandBuilder()
@@ -54,30 +57,12 @@ export const userSummaryCommand: Command = {
       }
 
       // Get user data
-      const userResult = await db.query(
-        `
-				SELECT 
-					user_id,
-					username,
-					display_name,
-					global_name,
-					summary,
-					keywords,
-					emojis,
-					notes,
-					joined_at,
-					roles
-				FROM members 
-				WHERE user_id = $1 AND guild_id = $2
-			`,
-        [targetUser.id, guildId]
-      );
+      const members = new MemberRepository(db);
+      const userResult = await members.findByUserId(guildId, targetUser.id, {
+        includeInactive: true,
+      });
 
-      if (
-        !userResult.success ||
-        !userResult.data ||
-        userResult.data.length === 0
-      ) {
+      if (!userResult.success || !userResult.data) {
         await interaction.editReply(
           `🔸 User ${targetUser.displayName} not found in this server.`
         );
@@ -85,53 +70,7 @@ export const userSummaryCommand: Command = {
         return;
       }
 
-      const userData = userResult.data[0];
-
-      // Get user's relationships
-      const relationshipsResult = await db.query(
-        `
-				SELECT 
-					rn.user_id,
-					rn.affinity_percentage,
-					rn.interaction_count,
-					rn.last_interaction,
-					rn.summary as relationship_summary,
-					rn.keywords as relationship_keywords,
-					rn.emojis as relationship_emojis,
-					rn.notes as relationship_notes,
-					rel_member.username,
-					rel_member.display_name,
-					rel_member.summary,
-					rel_member.keywords,
-					rel_member.emojis,
-					rel_member.notes
-				FROM members m
-				CROSS JOIN LATERAL (
-					SELECT 
-						jsonb_array_elements(relationship_network) as rel
-				) rn_expanded
-				CROSS JOIN LATERAL (
-					SELECT 
-						(rel->>'user_id')::text as user_id,
-						(rel->>'affinity_percentage')::float as affinity_percentage,
-						(rel->>'interaction_count')::int as interaction_count,
-						(rel->>'last_interaction')::timestamp as last_interaction,
-						rel->>'summary' as summary,
-						rel->'keywords' as keywords,
-						rel->'emojis' as emojis,
-						rel->'notes' as notes
-				) rn
-				LEFT JOIN members rel_member ON rel_member.user_id = rn.user_id AND rel_member.guild_id = m.guild_id
-				WHERE m.user_id = $1 AND m.guild_id = $2
-				ORDER BY rn.affinity_percentage DESC
-				LIMIT 10
-			`,
-        [targetUser.id, guildId]
-      );
-
-      const relationships = relationshipsResult.success
-        ? relationshipsResult.data || []
-        : [];
+      const userData = userResult.data;
 
       // Create embed with clean styling
       const embed = new EmbedBuilder()
@@ -181,7 +120,19 @@ export const userSummaryCommand: Command = {
         });
       }
 
-      await interaction.editReply({ embeds: [embed] });
+      // The picture of who they're closest to; the summary stands without it
+      const files: AttachmentBuilder[] = [];
+      const image = await new NetworkRenderer(db).renderEgoNetwork(guildId, [
+        targetUser.id,
+      ]);
+      if (image.success && image.data) {
+        files.push(new AttachmentBuilder(image.data, { name: "network.png" }));
+        embed.setImage("attachment://network.png");
+      } else {
+        console.error("🔸 Failed to render network image:", image.error);
+      }
+
+      await interaction.editReply({ embeds: [embed], files });
       await db.disconnect();
     } catch (error) {
       console.error("Error in user-summary command:", error);
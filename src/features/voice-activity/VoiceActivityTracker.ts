@@ -0,0 +1,182 @@
+import type { Client, VoiceState } from "discord.js";
+import type {
+  PostgreSQLManager,
+  VoiceFlags,
+} from "../database/PostgreSQLManager";
+import { isChannelExcluded } from "../guild-settings/ChannelPolicy";
+import { GuildSettingsManager } from "../guild-settings/GuildSettingsManager";
+import type { RelationshipNetworkManager } from "../relationship-network/NetworkManager";
+
+// Keeps open sessions fresh so a crash can't stretch them past downtime
+const TOUCH_INTERVAL_MS = 2 * 60 * 1000;
+
+export function toVoiceFlags(state: VoiceState): VoiceFlags {
+  return {
+    self_mute: state.selfMute ?? false,
+    self_deaf: state.selfDeaf ?? false,
+    server_mute: state.serverMute ?? false,
+    server_deaf: state.serverDeaf ?? false,
+    streaming: state.streaming ?? false,
+    video: state.selfVideo ?? false,
+  };
+}
+
+/**
+ * Records voice sessions as members join, leave and move between voice
+ * channels, and adds time spent together to relationship edges. Bots and
+ * excluded channels aren't tracked; time in the AFK channel isn't counted as
+ * time together.
+ */
+export class VoiceActivityTracker {
+  private client: Client;
+  private db: PostgreSQLManager;
+  private relationshipManager: RelationshipNetworkManager;
+  private settings: GuildSettingsManager;
+  // Updates for one member run in order so a quick move can't interleave
+  private pending: Map<string, Promise<void>> = new Map();
+  private touchTimer?: NodeJS.Timeout;
+
+  constructor(
+    client: Client,
+    db: PostgreSQLManager,
+    relationshipManager: RelationshipNetworkManager
+  ) {
+    this.client = client;
+    this.db = db;
+    this.relationshipManager = relationshipManager;
+    this.settings = new GuildSettingsManager(db);
+  }
+
+  start(): void {
+    console.log("🔹 VoiceActivityTracker: Watching voice channels");
+
+    this.client.on("voiceStateUpdate", (oldState, newState) => {
+      const key = `${newState.guild.id}:${newState.id}`;
+      const previous = this.pending.get(key) || Promise.resolve();
+      const next = previous
+        .then(() => this.handleVoiceStateUpdate(oldState, newState))
+        .catch((err) => {
+          console.error("🔸 Error in voiceStateUpdate handler:", err);
+        })
+        .finally(() => {
+          if (this.pending.get(key) === next) {
+            this.pending.delete(key);
+          }
+        });
+      this.pending.set(key, next);
+    });
+
+    this.touchTimer = setInterval(() => {
+      this.db.touchVoiceSessions().catch((err) => {
+        console.error("🔸 Failed to touch voice sessions:", err);
+      });
+    }, TOUCH_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.touchTimer) {
+      clearInterval(this.touchTimer);
+      this.touchTimer = undefined;
+    }
+  }
+
+  private async handleVoiceStateUpdate(
+    oldState: VoiceState,
+    newState: VoiceState
+  ): Promise<void> {
+    const member = newState.member || oldState.member;
+    if (member?.user.bot) return;
+
+    const guild = newState.guild;
+    const userId = newState.id;
+    const now = new Date();
+
+    if (oldState.channelId === newState.channelId) {
+      if (!newState.channelId) return;
+
+      const updated = await this.db.updateVoiceSessionFlags(
+        guild.id,
+        userId,
+        toVoiceFlags(newState),
+        now
+      );
+      // No open session means the join was missed; start one now
+      if (updated.success && updated.data === null) {
+        await this.startSession(newState, now);
+      }
+      return;
+    }
+
+    if (oldState.channelId) {
+      await this.endSession(
+        guild.id,
+        userId,
+        now,
+        oldState.channelId !== guild.afkChannelId
+      );
+    }
+    if (newState.channelId) {
+      await this.startSession(newState, now);
+    }
+  }
+
+  private async startSession(state: VoiceState, at: Date): Promise<void> {
+    if (!state.channel || !state.channelId) return;
+    // Nothing is tracked while the channel settings can't be read
+    const settings = await this.settings.get(state.guild.id);
+    if (!settings.success || !settings.data) {
+      console.error(
+        `🔸 Not tracking voice for ${state.id}, channel settings unavailable:`,
+        settings.error
+      );
+      return;
+    }
+    if (isChannelExcluded(settings.data, state.channel)) return;
+
+    const result = await this.db.startVoiceSession({
+      guild_id: state.guild.id,
+      channel_id: state.channelId,
+      user_id: state.id,
+      joined_at: at,
+      ...toVoiceFlags(state),
+    });
+    if (!result.success) {
+      console.error(
+        `🔸 Failed to start voice session for ${state.id}:`,
+        result.error
+      );
+    }
+  }
+
+  /**
+   * End a member's session and refresh the relationship networks of everyone
+   * whose edges gained voice time
+   */
+  private async endSession(
+    guildId: string,
+    userId: string,
+    at: Date,
+    countTogether: boolean
+  ): Promise<void> {
+    const result = await this.db.endVoiceSession(
+      guildId,
+      userId,
+      at,
+      countTogether
+    );
+    if (!result.success || !result.data) {
+      console.error(
+        `🔸 Failed to end voice session for ${userId}:`,
+        result.error
+      );
+      return;
+    }
+
+    const { together } = result.data;
+    if (together.length === 0) return;
+
+    for (const id of [userId, ...together.map((t) => t.user_id)]) {
+      await this.relationshipManager.rollupEdgesToMemberNetwork(id, guildId);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+import {
+  type ChatInputCommandInteraction,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import type { Command } from "../../../types";
+import { PostgreSQLManager } from "../../database/PostgreSQLManager";
+import { VoiceSessionRepository } from "../../database/repositories";
+import { formatDuration } from "../../guild-sync/SyncJobTracker";
+
+const DEFAULT_DAYS = 30;
+
+function toUnix(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+function seconds(value: number): string {
+  return formatDuration(value * 1000);
+}
+
+export const voiceCommand: Command = {
+  data: new SlashCommandBuilder()
+    .setName("voice")
+    .setDescription("Time spent in voice channels")
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("stats")
+        .setDescription("A member's voice time and who they spend it with")
+        .addUserOption((option) =>
+          option
+            .setName("user")
+            .setDescription("Member (default: you)")
+            .setRequired(false)
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName("days")
+            .setDescription(`How far back to look (default: ${DEFAULT_DAYS})`)
+            .setMinValue(1)
+            .setMaxValue(365)
+            .setRequired(false)
+        )
+    )
+    .addSubcommand((subcommand) =>
+      subcommand
+        .setName("pair")
+        .setDescription("Time two members spent in voice together")
+        .addUserOption((option) =>
+          option.setName("user").setDescription("Member").setRequired(true)
+        )
+        .addUserOption((option) =>
+          option
+            .setName("other")
+            .setDescription("Other member")
+            .setRequired(true)
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName("days")
+            .setDescription(`How far back to look (default: ${DEFAULT_DAYS})`)
+            .setMinValue(1)
+            .setMaxValue(365)
+            .setRequired(false)
+        )
+    )
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .setDMPermission(false),
+  execute: async (interaction: ChatInputCommandInteraction) => {
+    await interaction.deferReply({ ephemeral: true });
+
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      await interaction.editReply(
+        "🔸 This command can only be used in a server."
+      );
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const days = interaction.options.getInteger("days") ?? DEFAULT_DAYS;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const db = new PostgreSQLManager();
+
+    try {
+      const connected = await db.connect();
+
+      if (!connected) {
+        await interaction.editReply("🔸 Failed to connect to database.");
+        return;
+      }
+
+      const voiceSessions = new VoiceSessionRepository(db);
+
+      if (subcommand === "pair") {
+        const user = interaction.options.getUser("user", true);
+        const other = interaction.options.getUser("other", true);
+        if (user.id === other.id) {
+          await interaction.editReply("🔸 Choose two different members.");
+          await db.disconnect();
+          return;
+        }
+
+        const result = await voiceSessions.getPairStats(
+          guildId,
+          user.id,
+          other.id,
+          since
+        );
+        if (!result.success) {
+          await interaction.editReply("🔸 Failed to load voice sessions.");
+          await db.disconnect();
+          return;
+        }
+
+        const pair = result.data;
+        await interaction.editReply(
+          pair
+            ? `🔹 <@${user.id}> and <@${other.id}> spent **${seconds(pair.seconds)}** in voice together over the last ${days} day(s), across ${pair.overlaps} session(s). Last together <t:${toUnix(pair.last_together)}:R>.`
+            : `🔹 <@${user.id}> and <@${other.id}> haven't been in voice together in the last ${days} day(s).`
+        );
+        await db.disconnect();
+        return;
+      }
+
+      const user = interaction.options.getUser("user") ?? interaction.user;
+      const [statsResult, companionsResult] = await Promise.all([
+        voiceSessions.getUserStats(guildId, user.id, since),
+        voiceSessions.getCompanions(guildId, user.id, since, 5),
+      ]);
+      if (
+        !statsResult.success ||
+        !statsResult.data ||
+        !companionsResult.success ||
+        !companionsResult.data
+      ) {
+        await interaction.editReply("🔸 Failed to load voice sessions.");
+        await db.disconnect();
+        return;
+      }
+
+      const stats = statsResult.data;
+      if (stats.session_count === 0) {
+        await interaction.editReply(
+          `🔹 <@${user.id}> hasn't been in voice in the last ${days} day(s).`
+        );
+        await db.disconnect();
+        return;
+      }
+
+      const embed = new EmbedBuilder()
+        .setTitle(`Voice activity: ${user.displayName}`)
+        .setDescription(`Last ${days} day(s)`)
+        .setColor(0x5865f2)
+        .addFields(
+          {
+            name: "Time in voice",
+            value: `${seconds(stats.total_seconds)} over ${stats.session_count} session(s)`,
+            inline: true,
+          },
+          {
+            name: "Last seen",
+            value: stats.in_voice_now
+              ? "In voice now"
+              : stats.last_seen
+                ? `<t:${toUnix(stats.last_seen)}:R>`
+                : "Never",
+            inline: true,
+          },
+          {
+            name: "Muted / deafened",
+            value: `${seconds(stats.muted_seconds)} / ${seconds(stats.deafened_seconds)}`,
+            inline: true,
+          },
+          {
+            name: "Streaming / camera",
+            value: `${seconds(stats.streaming_seconds)} / ${seconds(stats.video_seconds)}`,
+            inline: true,
+          },
+          {
+            name: "Channels",
+            value:
+              stats.top_channels
+                .map((c) => `<#${c.channel_id}>: ${seconds(c.seconds)}`)
+                .join("\n") || "None",
+            inline: false,
+          },
+          {
+            name: "Most time together with",
+            value:
+              companionsResult.data
+                .map((c) => `<@${c.user_id}>: ${seconds(c.seconds)}`)
+                .join("\n") || "Nobody yet",
+            inline: false,
+          }
+        );
+
+      await interaction.editReply({ embeds: [embed] });
+      await db.disconnect();
+    } catch (error) {
+      console.error("Error in voice command:", error);
+      await interaction.editReply(
+        "🔸 An error occurred while loading voice activity."
+      );
+
+      try {
+        await db.disconnect();
+      } catch (disconnectError) {
+        console.error("Error disconnecting from database:", disconnectError);
+      }
+    }
+  },
+};
@@ -38,7 +38,7 @@ process.on("SIGINT", async () => {
 		// Set a timeout to force exit if shutdown takes too long
 		const shutdownTimeout = setTimeout(() => {
 			process.exit(0);
-		}, 1000); // Reduced to 1 second timeout
+		}, 10000); // Leaves time to flush the live sync queue
 
 		try {
 			await bot.shutdown();
@@ -63,7 +63,7 @@ process.on("SIGTERM", async () => {
 		// Set a timeout to force exit if shutdown takes too long
 		const shutdownTimeout = setTimeout(() => {
 			process.exit(0);
-		}, 1000); // Reduced to 1 second timeout
+		}, 10000); // Leaves time to flush the live sync queue
 
 		try {
 			await bot.shutdown();
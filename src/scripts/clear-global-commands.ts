@@ -0,0 +1,41 @@
+import "dotenv/config";
+import { REST, Routes } from "discord.js";
+import { config } from "../config/index.js";
+
+/**
+ * Remove the application's global slash commands. Versions before per-guild
+ * deployment registered commands globally; the bot now registers them in
+ * each guild, so leftover global ones show up twice. Run once after
+ * upgrading. Add --dry-run to only list them.
+ */
+async function clearGlobalCommands() {
+  const dryRun = process.argv.includes("--dry-run");
+  const rest = new REST({ version: "10" }).setToken(config.botToken);
+
+  try {
+    const application = (await rest.get(Routes.currentApplication())) as {
+      id: string;
+    };
+    const commands = (await rest.get(
+      Routes.applicationCommands(application.id)
+    )) as { name: string }[];
+
+    if (commands.length === 0) {
+      console.log("✅ No global commands registered");
+      return;
+    }
+
+    console.log(
+      `🔹 ${commands.length} global command(s): ${commands.map((command) => `/${command.name}`).join(", ")}`
+    );
+    if (dryRun) return;
+
+    await rest.put(Routes.applicationCommands(application.id), { body: [] });
+    console.log("✅ Cleared global commands");
+  } catch (error) {
+    console.error("🔸 Error:", error);
+    process.exit(1);
+  }
+}
+
+clearGlobalCommands();
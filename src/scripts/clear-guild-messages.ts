@@ -65,6 +65,15 @@ async function clearGuildMessages() {
       throw new Error(`Failed to clear relationship_edges: ${edgesResult.error}`);
     }
 
+    const activityResult = await db.query("DELETE FROM relationship_daily_activity WHERE guild_id = $1", [guildId]);
+    if (activityResult.success) {
+      const rowCount = (activityResult.data as any)?.rowCount || 0;
+      console.log(`   ✅ Cleared relationship_daily_activity (deleted ${rowCount} rows)`);
+    } else {
+      console.error(`   🔸 Failed to clear relationship_daily_activity: ${activityResult.error}`);
+      throw new Error(`Failed to clear relationship_daily_activity: ${activityResult.error}`);
+    }
+
     const pairsResult = await db.query("DELETE FROM relationship_pairs WHERE guild_id = $1", [guildId]);
     if (pairsResult.success) {
       const rowCount = (pairsResult.data as any)?.rowCount || 0;
@@ -0,0 +1,63 @@
+import "dotenv/config";
+import path from "node:path";
+import { PostgreSQLManager } from "../features/database/PostgreSQLManager";
+import { GuildArchive } from "../features/database/GuildArchive";
+
+const USAGE = `🔸 Usage: npm run export:guild -- <guild_id> [out_dir]
+   Writes manifest.json and one <table>.jsonl.gz per table to out_dir
+   (default: output/guild-exports/<guild_id>-<timestamp>)`;
+
+async function exportGuild() {
+  const guildId = process.argv[2] || process.env.GUILD_ID;
+  if (!guildId) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const outDir =
+    process.argv[3] ||
+    path.join(
+      "output",
+      "guild-exports",
+      `${guildId}-${new Date().toISOString().replace(/[:.]/g, "-")}`
+    );
+
+  const db = new PostgreSQLManager();
+
+  try {
+    console.log("🔹 Connecting to database...");
+    const connected = await db.connect();
+    if (!connected) {
+      console.error("🔸 Failed to connect");
+      process.exit(1);
+    }
+    console.log("✅ Connected\n");
+
+    console.log(`🔹 Exporting guild ${guildId} to ${outDir}`);
+    const result = await new GuildArchive(db).exportGuild(
+      guildId,
+      outDir,
+      (entry) => {
+        console.log(
+          `   ✅ ${entry.table}: ${entry.rows.toLocaleString()} rows`
+        );
+      }
+    );
+
+    if (!result.success || !result.data) {
+      console.error("🔸 Export failed:", result.error);
+      process.exit(1);
+    }
+
+    console.log(
+      `\n✅ Export complete (format v${result.data.format_version}, schema v${result.data.schema_version})`
+    );
+  } catch (error) {
+    console.error("🔸 Error:", error);
+    process.exit(1);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+exportGuild();
@@ -55,6 +55,10 @@ async function generateRelationshipsFromHistory() {
         "DELETE FROM relationship_pairs WHERE guild_id = $1",
         [guildId]
       );
+      await db.query(
+        "DELETE FROM relationship_daily_activity WHERE guild_id = $1",
+        [guildId]
+      );
       console.log("✅ Cleared existing data\n");
     }
 
@@ -0,0 +1,61 @@
+import "dotenv/config";
+import { PostgreSQLManager } from "../features/database/PostgreSQLManager";
+import { GuildArchive } from "../features/database/GuildArchive";
+
+const USAGE = `🔸 Usage: npm run import:guild -- <archive_dir> [--verify-only]
+   Restores an export:guild archive. The guild must not exist in the
+   target database; pending migrations are applied first.
+   --verify-only  Check the manifest and checksums without importing`;
+
+async function importGuild() {
+  const args = process.argv.slice(2);
+  const archiveDir = args.find((arg) => !arg.startsWith("--"));
+  const verifyOnly = args.includes("--verify-only");
+  if (!archiveDir) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const db = new PostgreSQLManager();
+  const archive = new GuildArchive(db);
+
+  try {
+    console.log(`🔹 Verifying ${archiveDir}...`);
+    const verified = await archive.verifyArchive(archiveDir);
+    if (!verified.success || !verified.data) {
+      console.error("🔸 Archive is invalid:", verified.error);
+      process.exit(1);
+    }
+    console.log(
+      `✅ Checksums match for guild ${verified.data.guild_id} (exported ${verified.data.created_at})\n`
+    );
+    if (verifyOnly) return;
+
+    console.log("🔹 Connecting to database...");
+    const connected = await db.connect();
+    if (!connected) {
+      console.error("🔸 Failed to connect");
+      process.exit(1);
+    }
+    console.log("✅ Connected\n");
+
+    console.log("🔹 Importing...");
+    const result = await archive.importGuild(archiveDir, (entry) => {
+      console.log(`   ✅ ${entry.table}: ${entry.rows.toLocaleString()} rows`);
+    });
+
+    if (!result.success) {
+      console.error("🔸 Import failed, nothing was written:", result.error);
+      process.exit(1);
+    }
+
+    console.log("\n✅ Import complete");
+  } catch (error) {
+    console.error("🔸 Error:", error);
+    process.exit(1);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+importGuild();
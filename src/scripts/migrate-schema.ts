@@ -0,0 +1,97 @@
+import "dotenv/config";
+import { PostgreSQLManager } from "../features/database/PostgreSQLManager";
+import {
+  MigrationRunner,
+  type MigrationStep,
+} from "../features/database/MigrationRunner";
+
+const USAGE = `🔸 Usage: npm run migrate:schema -- <up|down|status> [--dry-run] [--to <version>]
+   up      Apply pending migrations (optionally only up to --to)
+   down    Revert the latest migration (or everything above --to)
+   status  List migrations and whether they are applied`;
+
+function printSteps(steps: MigrationStep[], dryRun: boolean): void {
+  if (steps.length === 0) {
+    console.log("✅ Nothing to do, schema is up to date");
+    return;
+  }
+
+  for (const step of steps) {
+    const verb = step.direction === "up" ? "apply" : "revert";
+    console.log(
+      `${dryRun ? "📝 Would" : "✅ Did"} ${verb} ${step.version} (${step.name})`
+    );
+    if (dryRun) {
+      for (const statement of step.statements) {
+        console.log(`${statement.trim()};\n`);
+      }
+    }
+  }
+}
+
+async function migrateSchema() {
+  const args = process.argv.slice(2);
+  const command = args.find((arg) => !arg.startsWith("--")) || "up";
+  const dryRun = args.includes("--dry-run");
+  const toIndex = args.indexOf("--to");
+  const targetVersion =
+    toIndex >= 0 ? Number.parseInt(args[toIndex + 1] || "", 10) : undefined;
+
+  if (
+    !["up", "down", "status"].includes(command) ||
+    (targetVersion !== undefined && Number.isNaN(targetVersion))
+  ) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const db = new PostgreSQLManager();
+
+  try {
+    console.log("🔹 Connecting to database...");
+    const connected = await db.connect({ runMigrations: false });
+    if (!connected) {
+      console.error("🔸 Failed to connect");
+      process.exit(1);
+    }
+    console.log("✅ Connected\n");
+
+    const runner = new MigrationRunner(db);
+
+    if (command === "status") {
+      const result = await runner.status();
+      if (!result.success || !result.data) {
+        console.error("🔸 Failed to read migration status:", result.error);
+        process.exit(1);
+      }
+      for (const entry of result.data) {
+        const state =
+          entry.applied && entry.applied_at
+            ? `applied ${new Date(entry.applied_at).toISOString()}`
+            : "pending";
+        const warning = entry.checksum_mismatch ? " ⚠️  changed since applied" : "";
+        console.log(`   ${entry.version} ${entry.name}: ${state}${warning}`);
+      }
+      return;
+    }
+
+    const result =
+      command === "down"
+        ? await runner.migrateDown({ dryRun, targetVersion })
+        : await runner.migrateUp({ dryRun, targetVersion });
+
+    if (!result.success || !result.data) {
+      console.error("🔸 Migration failed:", result.error);
+      process.exit(1);
+    }
+
+    printSteps(result.data, dryRun);
+  } catch (error) {
+    console.error("🔸 Error:", error);
+    process.exit(1);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+migrateSchema();
@@ -2,6 +2,11 @@ import "dotenv/config";
 import { Client, GatewayIntentBits } from "discord.js";
 import { config } from "../config/index.js";
 import { PostgreSQLManager } from "../features/database/PostgreSQLManager";
+import { DatabaseHealer } from "../features/guild-sync/DatabaseHealer";
+import { formatDuration } from "../features/guild-sync/SyncJobTracker";
+import { toPermissionOverwrites } from "../features/guild-sync/ChannelPermissions";
+import { toThreadData } from "../features/guild-sync/ThreadSync";
+import { RelationshipNetworkManager } from "../features/relationship-network/NetworkManager";
 
 async function syncSingleChannel() {
   const db = new PostgreSQLManager();
@@ -81,17 +86,22 @@ async function syncSingleChannel() {
 
     // 2. Sync channel
     console.log("📝 Syncing channel...");
-    const channelResult = await db.upsertChannel({
-      id: channel.id,
-      guild_id: guild.id,
-      name: (channel as any).name || "",
-      type: channel.type,
-      position: (channel as any).position || 0,
-      topic: (channel as any).topic || undefined,
-      nsfw: (channel as any).nsfw || false,
-      parent_id: (channel as any).parentId || undefined,
-      active: true,
-    });
+    const channelResult = await db.upsertChannel(
+      channel.isThread()
+        ? toThreadData(channel)
+        : {
+            id: channel.id,
+            guild_id: guild.id,
+            name: (channel as any).name || "",
+            type: channel.type,
+            position: (channel as any).position || 0,
+            topic: (channel as any).topic || undefined,
+            nsfw: (channel as any).nsfw || false,
+            parent_id: (channel as any).parentId || undefined,
+            active: true,
+            permission_overwrites: toPermissionOverwrites(channel),
+          }
+    );
 
     if (!channelResult.success) {
       console.error("🔸 Failed to sync channel:", channelResult.error);
@@ -101,152 +111,57 @@ async function syncSingleChannel() {
     }
     console.log("   ✅ Channel synced\n");
 
-    // 3. Sync messages (using backfill logic similar to DatabaseHealer)
+    // 3. Sync messages with the healer's checkpointed backfill, so an
+    // interrupted run resumes where it stopped
     console.log("💬 Syncing messages...");
-    const replyReferences = new Map<string, string>();
-    let lastId: string | null = null;
-    let synced = 0;
-    let batchNumber = 0;
-    const batchSize = 100;
-
-    while (true) {
-      batchNumber++;
-      const options: any = { limit: batchSize };
-      if (lastId) {
-        options.before = lastId;
-      }
-
-      let messages;
-      try {
-        messages = await (channel as any).messages.fetch(options);
-      } catch (error: any) {
-        console.error(`   🔸 Error fetching messages: ${error.message || error}`);
-        break;
-      }
-
-      if (!messages || messages.size === 0) {
-        break;
-      }
-
-      const insertPromises: Promise<any>[] = [];
-      for (const [, msg] of messages) {
-        if (msg.author.bot) continue;
-
-        // Store reply reference if it exists
-        if (msg.reference?.messageId) {
-          replyReferences.set(msg.id, msg.reference.messageId);
-        }
-
-        insertPromises.push(
-          db.upsertMessage({
-            id: msg.id,
-            guild_id: guild.id,
-            channel_id: channel.id,
-            author_id: msg.author.id,
-            content: msg.content || "",
-            created_at: msg.createdAt,
-            edited_at: msg.editedAt || undefined,
-            attachments: Array.from(msg.attachments.values()).map((a: any) => a.url),
-            embeds: msg.embeds.map((e: any) => JSON.stringify(e.toJSON())),
-            referenced_message_id: msg.reference?.messageId || undefined,
-            active: true,
-          })
-        );
-        synced++;
-      }
-
-      if (insertPromises.length > 0) {
-        await Promise.all(insertPromises);
-        // Log first batch, every 10th batch, and final batch
-        if (batchNumber === 1 || batchNumber % 10 === 0 || messages.size < batchSize) {
-          console.log(`   📦 Batch ${batchNumber}: ${synced.toLocaleString()} messages synced so far`);
-        }
-      }
+    const healer = new DatabaseHealer(
+      client,
+      db,
+      new RelationshipNetworkManager(db)
+    );
 
-      lastId = messages.last()?.id || null;
-      if (messages.size < batchSize) break;
+    const existingJob = await db.getSyncJob(channel.id);
+    if (
+      existingJob.data &&
+      existingJob.data.status !== "completed" &&
+      existingJob.data.oldest_message_id
+    ) {
+      console.log(
+        `   🔹 Resuming previous run (${existingJob.data.message_count.toLocaleString()} messages already stored)`
+      );
     }
 
-    console.log(`   ✅ Synced ${synced.toLocaleString()} messages\n`);
-
-    // 4. Repair reply references
-    if (replyReferences.size > 0) {
-      console.log("🔧 Repairing reply references...");
-      
-      // Filter to only messages where the referenced message exists in DB
-      const validReferences = new Map<string, string>();
-      const allRefIds = Array.from(new Set(replyReferences.values()));
-
-      if (allRefIds.length > 0) {
-        const refExistsResult = await db.query(
-          `SELECT id FROM messages WHERE id = ANY($1) AND active = true`,
-          [allRefIds]
-        );
-
-        const existingRefIds = new Set<string>();
-        if (
-          refExistsResult.success &&
-          refExistsResult.data &&
-          refExistsResult.data.length > 0
-        ) {
-          for (const row of refExistsResult.data) {
-            existingRefIds.add(row.id);
-          }
-        }
-
-        for (const [msgId, refId] of replyReferences.entries()) {
-          if (existingRefIds.has(refId)) {
-            validReferences.set(msgId, refId);
-          }
-        }
-      }
-
-      if (validReferences.size > 0) {
-        const updates = Array.from(validReferences.entries());
-        const valuesPlaceholders = updates.map((_, i) => `($${i * 2 + 1}::text, $${i * 2 + 2}::text)`).join(", ");
-
-        const updateQuery = `
-          UPDATE messages m
-          SET referenced_message_id = refs.ref_id
-          FROM (VALUES ${valuesPlaceholders}) AS refs(msg_id, ref_id)
-          WHERE m.id = refs.msg_id
-            AND m.channel_id = $${updates.length * 2 + 1}::text
-            AND m.guild_id = $${updates.length * 2 + 2}::text
-            AND m.referenced_message_id IS NULL
-        `;
-
-        const params: any[] = [];
-        for (const [msgId, refId] of updates) {
-          params.push(msgId, refId);
-        }
-        params.push(channel.id, guild.id);
+    let pages = 0;
+    const stopProgress = healer.syncJobs.onProgress((progress) => {
+      // Log every 10th page
+      if (progress.job.status !== "running" || ++pages % 10 !== 0) return;
+      const eta =
+        progress.etaMs !== null ? formatDuration(progress.etaMs) : "unknown";
+      console.log(
+        `   📦 ${(progress.fraction * 100).toFixed(1)}% • ${progress.job.message_count.toLocaleString()} messages • ${progress.messagesPerSecond.toFixed(1)} msg/s • ETA ${eta}`
+      );
+    });
 
-        const result = await db.query(updateQuery, params);
-        
-        if (result.success) {
-          const repaired = (result.data as any)?.rowCount || 0;
-          console.log(`   ✅ Repaired ${repaired.toLocaleString()} reply references\n`);
-        } else {
-          console.error(`   🔸 Failed to repair references: ${result.error}`);
-        }
-      } else {
-        console.log(`   ℹ️  No valid references to repair\n`);
-      }
-    }
+    const backfill = await healer.backfillChannel(
+      guild.id,
+      channel.id,
+      channelName
+    );
+    stopProgress();
 
-    // 5. Update channel watermark
-    if (synced > 0) {
-      const mostRecentResult = await db.query(
-        "SELECT id FROM messages WHERE channel_id = $1 AND guild_id = $2 ORDER BY created_at DESC LIMIT 1",
-        [channel.id, guild.id]
+    if (!backfill.success) {
+      console.error(
+        "   🔸 Backfill failed; run again to resume from the last checkpoint"
       );
-
-      if (mostRecentResult.success && mostRecentResult.data && mostRecentResult.data.length > 0) {
-        await db.updateChannelLastMessage(channel.id, mostRecentResult.data[0].id);
-      }
+      await client.destroy();
+      await db.disconnect();
+      process.exit(1);
     }
+    console.log(
+      `   ✅ Synced ${backfill.messageCount.toLocaleString()} messages\n`
+    );
 
-    // 6. Sync members who have messages in this channel
+    // 4. Sync members who have messages in this channel
     console.log("👥 Syncing channel participants...");
     const participantsResult = await db.query(
       `SELECT DISTINCT author_id FROM messages WHERE channel_id = $1 AND guild_id = $2 AND active = true`,
@@ -304,7 +219,7 @@ async function syncSingleChannel() {
       console.log(`   ✅ Synced ${memberCount.toLocaleString()} members\n`);
     }
 
-    // 7. Summary
+    // 5. Summary
     const replyCountResult = await db.query(
       "SELECT COUNT(*) as count FROM messages WHERE channel_id = $1 AND active = true AND referenced_message_id IS NOT NULL",
       [channel.id]
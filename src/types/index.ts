@@ -1,5 +1,7 @@
 import type {
   ChatInputCommandInteraction,
+  ContextMenuCommandBuilder,
+  MessageContextMenuCommandInteraction,
   SlashCommandBuilder,
 } from "discord.js";
 
@@ -8,6 +10,12 @@ export interface Command {
   execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
 }
 
+// Right-click > Apps entry on a message
+export interface MessageContextMenuCommand {
+  data: ContextMenuCommandBuilder;
+  execute: (interaction: MessageContextMenuCommandInteraction) => Promise<void>;
+}
+
 // Export database types
 // export * from "../database/schema";
 // export * from "../features/discord-sync/types";